@@ -0,0 +1,170 @@
+/**
+ * Alert Analytics
+ * Reports over the alert history: counts over time, mean time to
+ * acknowledge / resolve, flapping series and the noisiest rules
+ */
+
+import {
+  AlertAnalyticsGroupBy,
+  AlertAnalyticsSummary,
+  AlertCountBucket,
+  AlertRuleNoise,
+  FlappingSeries
+} from '@types/monitoring';
+import { MetricsStore } from '../../collector/src/store';
+
+const GROUP_BY_VALUES: AlertAnalyticsGroupBy[] = ['rule', 'severity', 'agent'];
+
+const INTERVAL_PATTERN = /^\d+\s*(m|h|d|minutes?|hours?|days?)$/;
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+// A series that fires and resolves at least this often is flapping
+const DEFAULT_FLAPPING_CYCLES_PER_HOUR = 2;
+
+/**
+ * Raised when analytics query parameters are invalid
+ */
+export class AlertAnalyticsQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertAnalyticsQueryError';
+  }
+}
+
+export interface AlertAnalyticsRange {
+  startTime: Date;
+  endTime: Date;
+}
+
+/**
+ * Parse startTime/endTime query values, defaulting to the last 24 hours
+ */
+export function parseAnalyticsRange(startTime?: string, endTime?: string): AlertAnalyticsRange {
+  const end = endTime ? new Date(endTime) : new Date();
+  const start = startTime ? new Date(startTime) : new Date(end.getTime() - DEFAULT_RANGE_MS);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new AlertAnalyticsQueryError('startTime and endTime must be ISO 8601 timestamps');
+  }
+  if (start.getTime() >= end.getTime()) {
+    throw new AlertAnalyticsQueryError('startTime must be before endTime');
+  }
+
+  return { startTime: start, endTime: end };
+}
+
+export class AlertAnalytics {
+  private storage: MetricsStore;
+
+  constructor(storage: MetricsStore) {
+    this.storage = storage;
+  }
+
+  async getSummary(range: AlertAnalyticsRange): Promise<AlertAnalyticsSummary> {
+    const [overall, bySeverity, byRule, byAgent, ruleNames] = await Promise.all([
+      this.storage.getAlertResponseStats(range.startTime, range.endTime),
+      this.storage.getAlertResponseStats(range.startTime, range.endTime, 'severity'),
+      this.storage.getAlertResponseStats(range.startTime, range.endTime, 'rule'),
+      this.storage.getAlertResponseStats(range.startTime, range.endTime, 'agent'),
+      this.getRuleNames()
+    ]);
+
+    const totals = overall[0];
+    return {
+      startTime: range.startTime,
+      endTime: range.endTime,
+      total: totals?.total || 0,
+      acknowledged: totals?.acknowledged || 0,
+      resolved: totals?.resolved || 0,
+      mttaSeconds: totals?.mttaSeconds ?? null,
+      mttrSeconds: totals?.mttrSeconds ?? null,
+      bySeverity: Object.fromEntries(bySeverity.map(row => [row.key, row.total])),
+      byRule: byRule.map(row => ({
+        ruleId: row.key,
+        ruleName: (row.key && ruleNames.get(row.key)) || row.title,
+        count: row.total
+      })),
+      byAgent: byAgent.map(row => ({ agentType: row.key, count: row.total }))
+    };
+  }
+
+  async getTimeSeries(
+    range: AlertAnalyticsRange,
+    groupBy: string = 'severity',
+    interval: string = '1h'
+  ): Promise<AlertCountBucket[]> {
+    if (!GROUP_BY_VALUES.includes(groupBy as AlertAnalyticsGroupBy)) {
+      throw new AlertAnalyticsQueryError(`groupBy must be one of: ${GROUP_BY_VALUES.join(', ')}`);
+    }
+    if (!INTERVAL_PATTERN.test(interval)) {
+      throw new AlertAnalyticsQueryError('interval must look like 15m, 1h or 1d');
+    }
+
+    return this.storage.getAlertCounts(range.startTime, range.endTime, groupBy as AlertAnalyticsGroupBy, interval);
+  }
+
+  /**
+   * Series (rule + agent or URL) whose fire/resolve cycles per hour over the
+   * range reach minCyclesPerHour
+   */
+  async getFlappingSeries(
+    range: AlertAnalyticsRange,
+    minCyclesPerHour: number = DEFAULT_FLAPPING_CYCLES_PER_HOUR
+  ): Promise<FlappingSeries[]> {
+    if (isNaN(minCyclesPerHour) || minCyclesPerHour <= 0) {
+      throw new AlertAnalyticsQueryError('minCyclesPerHour must be a positive number');
+    }
+
+    const hours = Math.max(1, (range.endTime.getTime() - range.startTime.getTime()) / 3600000);
+    const cycles = await this.storage.getAlertCycles(range.startTime, range.endTime);
+
+    return cycles
+      .map(series => ({ ...series, cyclesPerHour: series.cycles / hours }))
+      .filter(series => series.cyclesPerHour >= minCyclesPerHour);
+  }
+
+  /**
+   * Rules ranked by noise: alerts nobody acknowledged, weighted up for each
+   * flapping series the rule has. Rules whose alerts get acted on rank low.
+   */
+  async getNoisyRules(range: AlertAnalyticsRange, limit: number = 10): Promise<AlertRuleNoise[]> {
+    const [stats, flapping, ruleNames] = await Promise.all([
+      this.storage.getAlertResponseStats(range.startTime, range.endTime, 'rule'),
+      this.getFlappingSeries(range),
+      this.getRuleNames()
+    ]);
+
+    const flappingByRule = new Map<string, number>();
+    for (const series of flapping) {
+      if (series.ruleId) {
+        flappingByRule.set(series.ruleId, (flappingByRule.get(series.ruleId) || 0) + 1);
+      }
+    }
+
+    return stats
+      .filter(row => row.key !== null)
+      .map(row => {
+        const flappingSeries = flappingByRule.get(row.key!) || 0;
+        return {
+          ruleId: row.key!,
+          ruleName: ruleNames.get(row.key!) || row.title,
+          total: row.total,
+          acknowledged: row.acknowledged,
+          resolved: row.resolved,
+          autoResolved: row.autoResolved,
+          mttaSeconds: row.mttaSeconds,
+          mttrSeconds: row.mttrSeconds,
+          flappingSeries,
+          noiseScore: (row.total - row.acknowledged) * (1 + flappingSeries)
+        };
+      })
+      .sort((a, b) => b.noiseScore - a.noiseScore)
+      .slice(0, limit);
+  }
+
+  private async getRuleNames(): Promise<Map<string, string>> {
+    const rules = await this.storage.getAlertRules();
+    return new Map(rules.map(rule => [rule.id, rule.name]));
+  }
+}
@@ -0,0 +1,262 @@
+import { AgentMetrics, AgentStatus, AgentType, Alert, AlertSeverity, MetricType } from '@types/monitoring';
+import { InMemoryMetricsStore } from '../../collector/src/memory-store';
+import { AlertManager, AlertStateError } from './alert-manager';
+
+const START = Date.UTC(2024, 0, 1, 12);
+
+function agentMetrics(offsetSeconds: number, responseTime: number): AgentMetrics {
+  return {
+    agentType: AgentType.SECURITY,
+    agentId: 'security-1',
+    timestamp: new Date(START + offsetSeconds * 1000),
+    status: AgentStatus.ACTIVE,
+    metrics: {
+      responseTime,
+      taskCompletionRate: 100,
+      errorRate: 0,
+      activeTasks: 1,
+      completedTasks: 1,
+      failedTasks: 0,
+      context7Queries: { count: 0, avgResponseTime: 0, successRate: 100 },
+      toolUsage: {},
+      coordinationMetrics: { handoffsReceived: 0, handoffsSent: 0, avgHandoffTime: 0 }
+    }
+  };
+}
+
+describe('AlertManager lifecycle', () => {
+  let storage: InMemoryMetricsStore;
+  let manager: AlertManager;
+  let events: Array<[string, Alert]>;
+
+  // Store a sample and evaluate the rules against storage at its time
+  const report = async (offsetSeconds: number, responseTime: number) => {
+    jest.setSystemTime(START + offsetSeconds * 1000);
+    await storage.storeAgentMetrics(agentMetrics(offsetSeconds, responseTime));
+    await manager.evaluateAllRules(new Date(START + offsetSeconds * 1000));
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'], now: START });
+
+    storage = new InMemoryMetricsStore();
+    manager = new AlertManager(storage);
+    events = [];
+    for (const event of ['alert', 'alert_acknowledged', 'alert_resolved']) {
+      manager.on(event, (alert: Alert) => events.push([event, alert]));
+    }
+
+    await manager.createAlertRule({
+      name: 'Slow security agent',
+      metricType: MetricType.AGENT_RESPONSE_TIME,
+      condition: 'greater_than',
+      threshold: 1000,
+      duration: 60,
+      severity: AlertSeverity.HIGH
+    });
+  });
+
+  afterEach(async () => {
+    manager.stop();
+    await storage.close();
+    jest.useRealTimers();
+  });
+
+  it('stays pending until the condition has held for the rule duration', async () => {
+    await report(0, 2000);
+    expect(await manager.getPendingAlerts()).toHaveLength(1);
+    expect(await manager.getActiveAlerts()).toHaveLength(0);
+
+    await report(30, 2500);
+    expect(await manager.getActiveAlerts()).toHaveLength(0);
+
+    await report(60, 2500);
+    const [alert] = await manager.getActiveAlerts();
+    expect(alert).toMatchObject({ agentType: AgentType.SECURITY, currentValue: 2500, acknowledged: false, resolved: false });
+    expect(await manager.getPendingAlerts()).toHaveLength(0);
+    expect(events.map(([event]) => event)).toEqual(['alert']);
+  });
+
+  it('does not fire on a single sample that is read again on later ticks', async () => {
+    await report(0, 2000);
+
+    for (const offsetSeconds of [30, 60, 90, 120]) {
+      jest.setSystemTime(START + offsetSeconds * 1000);
+      await manager.evaluateAllRules(new Date(START + offsetSeconds * 1000));
+    }
+
+    expect(await manager.getActiveAlerts()).toHaveLength(0);
+    expect(await manager.getPendingAlerts()).toHaveLength(1);
+  });
+
+  it('forgets a pending alert once its series stops reporting', async () => {
+    await report(0, 2000);
+
+    jest.setSystemTime(START + 301 * 1000);
+    await manager.evaluateAllRules(new Date(START + 301 * 1000));
+    expect(await manager.getPendingAlerts()).toHaveLength(0);
+
+    // A breach after the silence starts a new pending period
+    await report(330, 2000);
+    await report(360, 2000);
+    expect(await manager.getActiveAlerts()).toHaveLength(0);
+    await report(390, 2000);
+    expect(await manager.getActiveAlerts()).toHaveLength(1);
+  });
+
+  it('forgets a pending alert when the condition stops holding', async () => {
+    await report(0, 2000);
+    await report(30, 500);
+    await report(60, 2000);
+    await report(90, 2000);
+
+    expect(await manager.getActiveAlerts()).toHaveLength(0);
+    expect(await manager.getPendingAlerts()).toHaveLength(1);
+  });
+
+  it('acknowledges and then resolves a firing alert', async () => {
+    await report(0, 2000);
+    await report(60, 2000);
+    const [firing] = await manager.getActiveAlerts();
+
+    const acknowledged = await manager.acknowledgeAlert(firing.id, 'oncall');
+    expect(acknowledged).toMatchObject({ acknowledged: true, acknowledgedBy: 'oncall' });
+    expect(await storage.getAlert(firing.id)).toMatchObject({ acknowledged: true, acknowledgedBy: 'oncall' });
+
+    const resolved = await manager.resolveAlert(firing.id, 'oncall');
+    expect(resolved).toMatchObject({ resolved: true, resolvedBy: 'oncall' });
+    expect(await manager.getActiveAlerts()).toHaveLength(0);
+    await expect(manager.acknowledgeAlert(firing.id, 'oncall')).rejects.toThrow(AlertStateError);
+
+    expect(events.map(([event]) => event)).toEqual(['alert', 'alert_acknowledged', 'alert_resolved']);
+  });
+
+  it('resolves automatically once the metric has recovered for the rule duration', async () => {
+    await report(0, 2000);
+    await report(60, 2000);
+
+    await report(90, 500);
+    expect(await manager.getActiveAlerts()).toHaveLength(1);
+
+    await report(150, 500);
+    expect(await manager.getActiveAlerts()).toHaveLength(0);
+    expect(events[events.length - 1]).toEqual(['alert_resolved', expect.objectContaining({ resolvedBy: 'auto' })]);
+  });
+
+  it('returns null for an unknown alert', async () => {
+    expect(await manager.acknowledgeAlert('missing', 'oncall')).toBeNull();
+    expect(await manager.resolveAlert('missing', 'oncall')).toBeNull();
+  });
+});
+
+describe('AlertManagers sharing storage', () => {
+  let storage: InMemoryMetricsStore;
+  let evaluator: AlertManager;
+  let api: AlertManager;
+  let dispatched: Alert[];
+
+  const report = async (offsetSeconds: number, responseTime: number) => {
+    jest.setSystemTime(START + offsetSeconds * 1000);
+    await storage.storeAgentMetrics(agentMetrics(offsetSeconds, responseTime));
+    await evaluator.evaluateAllRules(new Date(START + offsetSeconds * 1000));
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'], now: START });
+
+    // As in scheduled mode: the alerting service evaluates, the collector serves the API
+    storage = new InMemoryMetricsStore();
+    evaluator = new AlertManager(storage);
+    api = new AlertManager(storage);
+    dispatched = [];
+    jest.spyOn((evaluator as any).router, 'dispatch').mockImplementation(async (alert: any) => {
+      dispatched.push(structuredClone(alert));
+    });
+
+    await api.createAlertRule({
+      name: 'Slow security agent',
+      metricType: MetricType.AGENT_RESPONSE_TIME,
+      condition: 'greater_than',
+      threshold: 1000,
+      duration: 60,
+      repeatInterval: 60,
+      severity: AlertSeverity.HIGH
+    });
+  });
+
+  afterEach(async () => {
+    evaluator.stop();
+    api.stop();
+    await storage.close();
+    jest.useRealTimers();
+  });
+
+  it('keeps an acknowledgement made by the other manager and stops repeating', async () => {
+    await report(0, 2000);
+    await report(60, 2000);
+    const [firing] = await api.getActiveAlerts();
+    await api.acknowledgeAlert(firing.id, 'oncall');
+
+    await report(120, 3000);
+    await report(180, 3000);
+
+    expect(await storage.getAlert(firing.id)).toMatchObject({ acknowledged: true, acknowledgedBy: 'oncall', currentValue: 3000 });
+    expect(dispatched.map(alert => alert.id)).toEqual([firing.id]);
+  });
+
+  it('stops tracking an alert resolved by the other manager', async () => {
+    await report(0, 2000);
+    await report(60, 2000);
+    const [firing] = await api.getActiveAlerts();
+    await api.resolveAlert(firing.id, 'oncall');
+
+    await report(90, 500);
+    await report(150, 500);
+
+    expect(await storage.getAlert(firing.id)).toMatchObject({ resolved: true, resolvedBy: 'oncall', currentValue: 2000 });
+    expect(dispatched.filter(alert => alert.resolved)).toHaveLength(0);
+  });
+
+  it('reads state changed elsewhere when acknowledging', async () => {
+    await report(0, 2000);
+    await report(60, 2000);
+    const [firing] = await api.getActiveAlerts();
+    await api.acknowledgeAlert(firing.id, 'oncall');
+    await evaluator.resolveAlert(firing.id, 'oncall');
+
+    await expect(api.acknowledgeAlert(firing.id, 'oncall')).rejects.toThrow(AlertStateError);
+  });
+
+  it('applies a silence created elsewhere as soon as it starts', async () => {
+    await api.createSilence({
+      matchers: { agentType: AgentType.SECURITY },
+      startsAt: new Date(START + 90 * 1000),
+      endsAt: new Date(START + 3600 * 1000),
+      createdBy: 'oncall',
+      comment: 'Deploying the security agent'
+    });
+
+    await report(0, 2000);
+    await report(60, 2000);
+    const [firing] = await api.getActiveAlerts();
+    expect(await evaluator.findSilence(firing)).toBeNull();
+
+    jest.setSystemTime(START + 90 * 1000);
+    expect(await evaluator.findSilence(firing)).toMatchObject({ kind: 'silence' });
+  });
+});
+
+describe('alert events', () => {
+  it('reach subscribers of the store until they unsubscribe', async () => {
+    const storage = new InMemoryMetricsStore();
+    const received: unknown[] = [];
+    const unsubscribe = await storage.subscribeAlertEvents(event => received.push(event));
+
+    await storage.publishAlertEvent({ type: 'alert', alertId: 'alert-1' });
+    await unsubscribe();
+    await storage.publishAlertEvent({ type: 'alert_resolved', alertId: 'alert-1' });
+
+    expect(received).toEqual([{ type: 'alert', alertId: 'alert-1' }]);
+    await storage.close();
+  });
+});
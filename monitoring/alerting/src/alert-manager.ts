@@ -1,38 +1,141 @@
+import { EventEmitter } from 'events';
 import pino from 'pino';
-import nodemailer from 'nodemailer';
-import axios from 'axios';
-import { Alert, AlertRule, AlertSeverity, AlertType, MetricType, AgentType, AgentMetrics, AppMetrics, CoreWebVitalsData } from '@types/monitoring';
-import { MetricsStorage } from '../collector/src/storage';
+import { Alert, AlertRule, AlertSeverity, AlertType, MetricType, AgentType, AgentStatus, AgentMetrics, AppMetrics, CoreWebVitalsData, PendingAlert, NotificationChannel, Silence, MaintenanceWindow, AgentStatusChange } from '@types/monitoring';
+import { MetricsStore } from '../../collector/src/store';
+import { ExpressionError, ExpressionEvaluator, ExpressionNode, parseExpression } from './expression';
+import { NotificationChannelRegistry } from './notification-channels';
+import { DEFAULT_ROUTING_CONFIG, NotificationRouter, alertLabels, loadRoutingConfig, matchesLabels } from './notification-router';
+import { isMaintenanceWindowActive, isSilenceActive, validateMaintenanceWindow, validateSilence } from './silences';
 
 const logger = pino({ transport: { target: 'pino-pretty' } });
 
-interface NotificationChannel {
-  type: 'email' | 'slack' | 'webhook';
-  config: any;
+interface EvaluationContext {
+  agentType?: AgentType;
+  agentId?: string;
+  metricValue: number;
+  timestamp: Date;
+  url?: string;
 }
 
-export class AlertManager {
-  private storage: MetricsStorage;
-  private emailTransporter: nodemailer.Transporter | null = null;
-  private alertHistory: Map<string, { count: number; lastTriggered: Date }> = new Map();
+const ALERT_RULE_CONDITIONS: AlertRule['condition'][] = ['greater_than', 'less_than', 'equals', 'not_equals', 'expression'];
 
-  constructor(storage: MetricsStorage) {
+// Expression rules query storage, so evaluate each at most this often
+const EXPRESSION_MIN_INTERVAL_MS = 10000;
+
+const AGENT_METRIC_TYPES = [
+  MetricType.AGENT_RESPONSE_TIME,
+  MetricType.AGENT_TASK_COMPLETION,
+  MetricType.AGENT_ERROR_RATE,
+  MetricType.AGENT_CONTEXT7_QUERY,
+  MetricType.AGENT_TOOL_USAGE,
+  MetricType.AGENT_COORDINATION
+];
+
+// Scheduled evaluation reads the latest value of a threshold rule's metric per
+// series; the series labels mirror what the inline checks key alerts by
+const SCHEDULED_METRICS: Partial<Record<MetricType, { metric: string; series: string[] }>> = {
+  [MetricType.AGENT_RESPONSE_TIME]: { metric: 'agent_response_time', series: ['agent', 'agent_id'] },
+  [MetricType.AGENT_ERROR_RATE]: { metric: 'agent_error_rate', series: ['agent', 'agent_id'] },
+  [MetricType.AGENT_TASK_COMPLETION]: { metric: 'agent_task_completion', series: ['agent', 'agent_id'] },
+  [MetricType.BUNDLE_SIZE]: { metric: 'app_bundle_size', series: [] },
+  [MetricType.MEMORY_USAGE]: { metric: 'app_memory_used', series: [] }
+};
+
+// Scheduled evaluation reads samples this recent, and a pending alert
+// without a breaching sample this recent is forgotten
+const SCHEDULED_LOOKBACK_MS = 5 * 60 * 1000;
+
+// Firing alerts are reloaded from storage at least this often, since another
+// process (the collector's API or the alerting service) may change them
+const FIRING_ALERT_CACHE_TTL_MS = 10000;
+
+// Alerts raised by the system rather than a rule go to the legacy env-configured channels
+const SYSTEM_ALERT_CHANNELS = ['email', 'slack'];
+
+const APP_METRIC_TYPES = [
+  MetricType.JAVASCRIPT_PERFORMANCE,
+  MetricType.BUNDLE_SIZE,
+  MetricType.API_RESPONSE_TIME,
+  MetricType.RENDERING_PERFORMANCE,
+  MetricType.MEMORY_USAGE
+];
+
+/**
+ * Raised when an alert rule payload fails validation
+ */
+export class AlertRuleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertRuleValidationError';
+  }
+}
+
+/**
+ * Raised when an alert lifecycle transition is not allowed
+ * (e.g. acknowledging an alert that is already resolved)
+ */
+export class AlertStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertStateError';
+  }
+}
+
+/**
+ * Evaluates alert rules and drives the alert lifecycle:
+ * pending -> firing -> acknowledged -> resolved.
+ *
+ * A rule only fires once its condition has held continuously for the rule's
+ * duration for a given series (rule, agent type, agent id or URL). While
+ * firing and unacknowledged, notifications are repeated every repeatInterval.
+ * Notifications go through the NotificationRouter, which picks channels,
+ * groups alerts into digests and drops inhibited alerts. Alerts matching an
+ * active silence or maintenance window are still recorded, but tagged with
+ * metadata.silencedBy and not notified.
+ *
+ * Emits `alert` when an alert fires, `alert_acknowledged` when it is
+ * acknowledged and `alert_resolved` when it is resolved (manually or
+ * automatically once the metric has recovered for the rule's duration).
+ *
+ * Storage is the source of truth for firing alerts: the collector and the
+ * alerting service each run a manager, so firing alerts are reloaded on
+ * every scheduled evaluation and at least every ten seconds otherwise.
+ */
+export class AlertManager extends EventEmitter {
+  private storage: MetricsStore;
+  private notificationChannels: NotificationChannelRegistry;
+  private router: NotificationRouter;
+  private channelCache: Map<string, NotificationChannel> | null = null;
+  private channelCacheLoadedAt = 0;
+  private pendingAlerts: Map<string, PendingAlert> = new Map();
+  private lastNotifiedAt: Map<string, number> = new Map();
+  private expressionEvaluator: ExpressionEvaluator;
+  private parsedExpressions: Map<string, { source: string; node: ExpressionNode }> = new Map();
+  private lastExpressionEvaluation: Map<string, number> = new Map();
+  private ruleCache: AlertRule[] | null = null;
+  private ruleCacheLoadedAt = 0;
+  private ruleCacheTtl = parseInt(process.env.ALERT_RULE_CACHE_TTL_SECONDS || '60') * 1000;
+  private firingAlerts: Map<string, Alert> | null = null;
+  private firingAlertsLoadedAt = 0;
+  private recoveringSince: Map<string, number> = new Map();
+  private silenceCache: { silences: Silence[]; windows: MaintenanceWindow[] } | null = null;
+  private silenceCacheLoadedAt = 0;
+
+  constructor(storage: MetricsStore) {
+    super();
     this.storage = storage;
-    this.setupEmailTransporter();
-  }
-
-  private setupEmailTransporter(): void {
-    if (process.env.EMAIL_SMTP_HOST && process.env.EMAIL_SMTP_PORT) {
-      this.emailTransporter = nodemailer.createTransport({
-        host: process.env.EMAIL_SMTP_HOST,
-        port: parseInt(process.env.EMAIL_SMTP_PORT),
-        secure: process.env.EMAIL_SMTP_SECURE === 'true',
-        auth: {
-          user: process.env.EMAIL_SMTP_USER,
-          pass: process.env.EMAIL_SMTP_PASSWORD,
-        },
-      });
-    }
+    this.expressionEvaluator = new ExpressionEvaluator(storage);
+    this.notificationChannels = new NotificationChannelRegistry();
+    this.router = new NotificationRouter(
+      DEFAULT_ROUTING_CONFIG,
+      (alert, channelIds) => this.sendNotifications(alert, channelIds),
+      async () => Array.from((await this.getFiringAlerts()).values()),
+      async alert => (await this.findSilence(alert)) !== null
+    );
+
+    loadRoutingConfig()
+      .then(config => this.router.setConfig(config))
+      .catch(error => logger.error({ error }, 'Failed to load alert routing config, using defaults'));
   }
 
   async checkAgentMetrics(metrics: AgentMetrics): Promise<void> {
@@ -68,6 +171,7 @@ export class AlertManager {
         timestamp: metrics.timestamp
       });
     }
+    await this.evaluateExpressionRules(AGENT_METRIC_TYPES);
   }
 
   async checkAppMetrics(metrics: AppMetrics): Promise<void> {
@@ -88,6 +192,7 @@ export class AlertManager {
         timestamp: metrics.timestamp
       });
     }
+    await this.evaluateExpressionRules(APP_METRIC_TYPES);
   }
 
   async checkCoreWebVitals(metrics: CoreWebVitalsData): Promise<void> {
@@ -132,36 +237,221 @@ export class AlertManager {
         }
       }
     }
+    await this.evaluateExpressionRules([MetricType.CORE_WEB_VITALS]);
   }
 
-  private async evaluateRule(rule: AlertRule, context: {
-    agentType?: AgentType;
-    agentId?: string;
-    metricValue: number;
-    timestamp: Date;
-    url?: string;
-  }): Promise<void> {
+  private async evaluateRule(rule: AlertRule, context: EvaluationContext): Promise<void> {
     const triggered = this.checkCondition(rule.condition, context.metricValue, rule.threshold);
+    await this.applyEvaluation(rule, context, triggered);
+  }
+
+  /**
+   * Evaluate enabled expression rules filed under the given metric types
+   * against the stored metric windows
+   */
+  async evaluateExpressionRules(metricTypes?: MetricType[]): Promise<void> {
+    const rules = (await this.getActiveAlertRules()).filter(rule =>
+      rule.condition === 'expression' &&
+      (!metricTypes || metricTypes.includes(rule.metricType))
+    );
 
-    if (!triggered) return;
+    const now = Date.now();
+    for (const rule of rules) {
+      const last = this.lastExpressionEvaluation.get(rule.id) || 0;
+      if (now - last < EXPRESSION_MIN_INTERVAL_MS) continue;
+      this.lastExpressionEvaluation.set(rule.id, now);
+
+      try {
+        const result = await this.expressionEvaluator.evaluate(this.getParsedExpression(rule), new Date(now));
+        await this.applyEvaluation(rule, {
+          agentType: rule.agentType,
+          metricValue: result.value ?? 0,
+          timestamp: new Date(now)
+        }, result.triggered);
+      } catch (error) {
+        logger.error({ error, ruleId: rule.id }, 'Failed to evaluate expression rule');
+      }
+    }
+  }
 
-    // Check if we should trigger alert (based on duration)
-    const alertKey = `${rule.id}_${context.agentType || 'system'}`;
-    const history = this.alertHistory.get(alertKey);
+  /**
+   * Evaluate every enabled rule against storage rather than an incoming
+   * payload. Threshold rules use the latest value of each series seen in the
+   * last five minutes; expression rules are evaluated as usual.
+   */
+  async evaluateAllRules(now: Date = new Date()): Promise<void> {
+    const since = new Date(now.getTime() - SCHEDULED_LOOKBACK_MS);
+    const rules = (await this.getActiveAlertRules()).filter(rule => rule.condition !== 'expression');
+    this.prunePendingAlerts(now);
+    await this.getFiringAlerts(true);
 
-    const now = new Date();
-    const timeSinceLastTrigger = history ? now.getTime() - history.lastTriggered.getTime() : Infinity;
+    for (const rule of rules) {
+      const source = rule.metricType === MetricType.CORE_WEB_VITALS
+        ? (rule.metadata?.vital ? { metric: `cwv_${rule.metadata.vital}`, series: ['url'] } : undefined)
+        : SCHEDULED_METRICS[rule.metricType];
+      if (!source) continue;
 
-    if (!history || timeSinceLastTrigger >= rule.duration * 1000) {
-      await this.createAlert(rule, context);
+      try {
+        const values = await this.storage.getLatestSeriesValues(source.metric, source.series, since);
+        for (const series of values) {
+          const agentType = series.labels.agent as AgentType | undefined;
+          if (rule.agentType && agentType !== rule.agentType) continue;
 
-      this.alertHistory.set(alertKey, {
-        count: (history?.count || 0) + 1,
-        lastTriggered: now
-      });
+          await this.evaluateRule(rule, {
+            agentType,
+            agentId: series.labels.agent_id,
+            url: series.labels.url,
+            metricValue: series.value,
+            timestamp: series.timestamp
+          });
+        }
+      } catch (error) {
+        logger.error({ error, ruleId: rule.id }, 'Failed to evaluate alert rule');
+      }
+    }
+
+    await this.evaluateExpressionRules();
+  }
+
+  private getParsedExpression(rule: AlertRule): ExpressionNode {
+    const cached = this.parsedExpressions.get(rule.id);
+    if (cached && cached.source === rule.expression) {
+      return cached.node;
+    }
+
+    const node = parseExpression(rule.expression || '');
+    this.parsedExpressions.set(rule.id, { source: rule.expression!, node });
+    return node;
+  }
+
+  private async applyEvaluation(rule: AlertRule, context: EvaluationContext, triggered: boolean): Promise<void> {
+    const fingerprint = this.getFingerprint(rule, context);
+    const firing = await this.getFiringAlerts();
+
+    if (!triggered) {
+      this.pendingAlerts.delete(fingerprint);
+      await this.handleRecovery(rule, fingerprint, context);
+      return;
+    }
+
+    this.recoveringSince.delete(fingerprint);
+
+    // Already firing for this series: keep the alert current and only
+    // re-notify once the repeat interval has elapsed
+    const existing = firing.get(fingerprint);
+    if (existing) {
+      existing.currentValue = context.metricValue;
+      await this.storage.updateAlertValue(existing.id, existing.currentValue, existing.metadata || {});
+      await this.repeatNotificationIfDue(rule, existing);
+      return;
+    }
+
+    // Timed by the samples rather than the clock, so evaluating the same
+    // sample again does not bring the alert closer to firing
+    const sampledAt = new Date(context.timestamp).getTime();
+    let pending = this.pendingAlerts.get(fingerprint);
+    if (!pending) {
+      pending = {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        fingerprint,
+        severity: rule.severity,
+        metricType: rule.metricType,
+        agentType: context.agentType,
+        agentId: context.agentId,
+        url: context.url,
+        activeSince: new Date(sampledAt),
+        firesAt: new Date(sampledAt + rule.duration * 1000),
+        lastSampleAt: new Date(sampledAt),
+        currentValue: context.metricValue,
+        threshold: rule.threshold
+      };
+      this.pendingAlerts.set(fingerprint, pending);
+    }
+    pending.currentValue = context.metricValue;
+    if (sampledAt > pending.lastSampleAt.getTime()) {
+      pending.lastSampleAt = new Date(sampledAt);
+    }
+
+    if (pending.lastSampleAt.getTime() >= pending.firesAt.getTime()) {
+      this.pendingAlerts.delete(fingerprint);
+      await this.createAlert(rule, context, fingerprint);
     }
   }
 
+  private async repeatNotificationIfDue(rule: AlertRule, alert: Alert): Promise<void> {
+    if (!rule.repeatInterval || alert.acknowledged) return;
+
+    const now = Date.now();
+    const last = this.lastNotifiedAt.get(alert.fingerprint!) ?? new Date(alert.timestamp).getTime();
+    if (now - last < rule.repeatInterval * 1000) return;
+
+    this.lastNotifiedAt.set(alert.fingerprint!, now);
+    await this.router.dispatch(alert, rule.notificationChannels);
+  }
+
+  /**
+   * Rules that are currently breaching but have not yet held for their duration
+   */
+  async getPendingAlerts(): Promise<PendingAlert[]> {
+    this.prunePendingAlerts(new Date());
+    const ruleIds = new Set((await this.getActiveAlertRules()).map(rule => rule.id));
+
+    return Array.from(this.pendingAlerts.values()).filter(pending => ruleIds.has(pending.ruleId));
+  }
+
+  /**
+   * Forget pending alerts whose series has not reported a breaching sample
+   * within the lookback, e.g. a single spike followed by silence
+   */
+  private prunePendingAlerts(now: Date): void {
+    const cutoff = now.getTime() - SCHEDULED_LOOKBACK_MS;
+    for (const [fingerprint, pending] of this.pendingAlerts) {
+      if (pending.lastSampleAt.getTime() < cutoff) {
+        this.pendingAlerts.delete(fingerprint);
+      }
+    }
+  }
+
+  /**
+   * Auto-resolve a firing alert once its metric has stayed inside the
+   * threshold for the rule's duration, going by the sample timestamps
+   */
+  private async handleRecovery(rule: AlertRule, fingerprint: string, context: EvaluationContext): Promise<void> {
+    const firing = await this.getFiringAlerts();
+    const alert = firing.get(fingerprint);
+    if (!alert) return;
+
+    alert.currentValue = context.metricValue;
+
+    const sampledAt = new Date(context.timestamp).getTime();
+    const since = this.recoveringSince.get(fingerprint) ?? sampledAt;
+    this.recoveringSince.set(fingerprint, since);
+
+    if (sampledAt - since >= rule.duration * 1000) {
+      await this.transitionToResolved(alert, 'auto');
+    }
+  }
+
+  private getFingerprint(rule: AlertRule, context: EvaluationContext): string {
+    return [rule.id, context.agentType || '', context.agentId || context.url || ''].join('|');
+  }
+
+  /**
+   * Unresolved alerts by fingerprint, as last read from storage
+   */
+  private async getFiringAlerts(reload: boolean = false): Promise<Map<string, Alert>> {
+    if (reload || !this.firingAlerts || Date.now() - this.firingAlertsLoadedAt >= FIRING_ALERT_CACHE_TTL_MS) {
+      const active = await this.storage.getActiveAlerts();
+      this.firingAlerts = new Map(
+        active.filter(a => a.fingerprint).map(a => [a.fingerprint!, a])
+      );
+      this.firingAlertsLoadedAt = Date.now();
+    }
+
+    return this.firingAlerts;
+  }
+
   private checkCondition(condition: string, value: number, threshold: number): boolean {
     switch (condition) {
       case 'greater_than':
@@ -177,7 +467,7 @@ export class AlertManager {
     }
   }
 
-  private async createAlert(rule: AlertRule, context: any): Promise<void> {
+  private async createAlert(rule: AlertRule, context: EvaluationContext, fingerprint: string): Promise<void> {
     const alert: Alert = {
       id: `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       type: this.mapMetricToAlertType(rule.metricType),
@@ -187,14 +477,149 @@ export class AlertManager {
       timestamp: new Date(),
       agentType: context.agentType,
       metricType: rule.metricType,
+      ruleId: rule.id,
+      fingerprint,
       currentValue: context.metricValue,
       threshold: rule.threshold,
+      metadata: {
+        agentId: context.agentId,
+        url: context.url
+      },
       acknowledged: false,
       resolved: false
     };
 
+    await this.fire(alert, rule.notificationChannels);
+  }
+
+  private async fire(alert: Alert, channelIds: string[]): Promise<void> {
+    const silencedBy = await this.findSilence(alert);
+    if (silencedBy) {
+      alert.metadata = { ...alert.metadata, silencedBy };
+    }
+
     await this.storage.storeAlert(alert);
-    await this.sendNotifications(alert, rule.notificationChannels);
+    (await this.getFiringAlerts()).set(alert.fingerprint!, alert);
+    this.lastNotifiedAt.set(alert.fingerprint!, Date.now());
+    this.emit('alert', alert);
+
+    await this.router.dispatch(alert, channelIds);
+  }
+
+  /**
+   * Fire a system health alert for an agent that stopped reporting, or
+   * resolve it once the agent reports again
+   */
+  async handleAgentStatusChange(change: AgentStatusChange): Promise<void> {
+    const fingerprint = `heartbeat|${change.agentType}|${change.agentId}`;
+    const firing = await this.getFiringAlerts();
+
+    if (change.status !== AgentStatus.OFFLINE) {
+      const alert = firing.get(fingerprint);
+      if (alert) {
+        await this.transitionToResolved(alert, 'auto');
+      }
+      return;
+    }
+
+    if (firing.has(fingerprint)) return;
+
+    const lastSeen = new Date(change.lastSeen);
+    await this.fire({
+      id: `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type: AlertType.SYSTEM_HEALTH,
+      severity: AlertSeverity.HIGH,
+      title: `Agent ${change.agentId} is offline`,
+      message: `${change.agentType} agent ${change.agentId} has not reported since ${lastSeen.toISOString()}`,
+      timestamp: new Date(),
+      agentType: change.agentType,
+      metricType: MetricType.SYSTEM_HEALTH,
+      fingerprint,
+      currentValue: Math.round((Date.now() - lastSeen.getTime()) / 1000),
+      threshold: 0,
+      metadata: {
+        agentId: change.agentId,
+        component: 'agents',
+        lastSeen
+      },
+      acknowledged: false,
+      resolved: false
+    }, SYSTEM_ALERT_CHANNELS);
+  }
+
+  async acknowledgeAlert(id: string, acknowledgedBy: string): Promise<Alert | null> {
+    const alert = await this.findAlert(id);
+    if (!alert) return null;
+
+    if (alert.resolved) {
+      throw new AlertStateError('Alert is already resolved');
+    }
+    if (alert.acknowledged) {
+      return alert;
+    }
+
+    alert.acknowledged = true;
+    alert.acknowledgedBy = acknowledgedBy;
+    alert.acknowledgedAt = new Date();
+    await this.storage.updateAlert(alert);
+
+    logger.info({ alertId: id, acknowledgedBy }, 'Alert acknowledged');
+    this.emit('alert_acknowledged', alert);
+    return alert;
+  }
+
+  async resolveAlert(id: string, resolvedBy: string): Promise<Alert | null> {
+    const alert = await this.findAlert(id);
+    if (!alert) return null;
+
+    if (alert.resolved) {
+      throw new AlertStateError('Alert is already resolved');
+    }
+
+    await this.transitionToResolved(alert, resolvedBy);
+    return alert;
+  }
+
+  private async transitionToResolved(alert: Alert, resolvedBy: string): Promise<void> {
+    alert.resolved = true;
+    alert.resolvedAt = new Date();
+    alert.resolvedBy = resolvedBy;
+    await this.storage.updateAlert(alert);
+
+    if (alert.fingerprint) {
+      (await this.getFiringAlerts()).delete(alert.fingerprint);
+      this.recoveringSince.delete(alert.fingerprint);
+      this.lastNotifiedAt.delete(alert.fingerprint);
+    }
+
+    logger.info({ alertId: alert.id, resolvedBy }, 'Alert resolved');
+    this.emit('alert_resolved', alert);
+
+    if (!alert.ruleId) {
+      await this.router.dispatch(alert, SYSTEM_ALERT_CHANNELS);
+      return;
+    }
+
+    const rule = (await this.getActiveAlertRules()).find(r => r.id === alert.ruleId);
+    if (rule) {
+      await this.router.dispatch(alert, rule.notificationChannels);
+    }
+  }
+
+  /**
+   * Read the alert from storage, where another process may have changed it,
+   * and use that copy for rule evaluation too
+   */
+  private async findAlert(id: string): Promise<Alert | null> {
+    const alert = await this.storage.getAlert(id);
+    if (alert?.fingerprint && !alert.resolved) {
+      const firing = await this.getFiringAlerts();
+      if (firing.get(alert.fingerprint)?.id === id) {
+        firing.set(alert.fingerprint, alert);
+      }
+    }
+
+    return alert;
   }
 
   private mapMetricToAlertType(metricType: MetricType): AlertType {
@@ -212,139 +637,402 @@ export class AlertManager {
     }
   }
 
-  private generateAlertMessage(rule: AlertRule, context: any): string {
+  private generateAlertMessage(rule: AlertRule, context: EvaluationContext): string {
     const agentStr = context.agentType ? `Agent: ${context.agentType}` : '';
     const urlStr = context.url ? `URL: ${context.url}` : '';
     const parts = [
       agentStr,
       urlStr,
       `Current: ${context.metricValue}`,
-      `Threshold: ${rule.threshold}`
+      rule.condition === 'expression' ? `Expression: ${rule.expression}` : `Threshold: ${rule.threshold}`
     ].filter(Boolean);
 
     return parts.join(' | ');
   }
 
-  private async sendNotifications(alert: Alert, channels: string[]): Promise<void> {
-    for (const channel of channels) {
+  private async sendNotifications(alert: Alert, channelIds: string[]): Promise<void> {
+    for (const channelId of channelIds) {
       try {
-        if (channel === 'email' && this.emailTransporter) {
-          await this.sendEmailNotification(alert);
-        } else if (channel === 'slack' && process.env.SLACK_WEBHOOK_URL) {
-          await this.sendSlackNotification(alert);
+        const channel = await this.resolveNotificationChannel(channelId);
+        if (!channel) {
+          logger.warn({ alertId: alert.id, channelId }, 'Unknown notification channel');
+          continue;
         }
+        if (!this.notificationChannels.accepts(channel, alert)) continue;
+
+        await this.notificationChannels.send(alert, channel);
       } catch (error) {
-        logger.error({ error, channel }, 'Failed to send notification');
+        logger.error({ error, channelId }, 'Failed to send notification');
       }
     }
   }
 
-  private async sendEmailNotification(alert: Alert): Promise<void> {
-    if (!this.emailTransporter || !process.env.EMAIL_TO) return;
+  /**
+   * Look up a persisted channel; rules created before channels were
+   * persisted refer to 'email' and 'slack', which map onto the env config
+   */
+  private async resolveNotificationChannel(channelId: string): Promise<NotificationChannel | null> {
+    const channels = await this.getCachedNotificationChannels();
+    const channel = channels.get(channelId);
+    if (channel) return channel;
+
+    if (channelId === 'email' && process.env.EMAIL_TO) {
+      return {
+        id: 'email',
+        name: 'Email (environment)',
+        type: 'email',
+        enabled: true,
+        config: { to: process.env.EMAIL_TO.split(',').map(address => address.trim()) }
+      };
+    }
+
+    if (channelId === 'slack' && process.env.SLACK_WEBHOOK_URL) {
+      return {
+        id: 'slack',
+        name: 'Slack (environment)',
+        type: 'slack',
+        enabled: true,
+        config: { webhookUrl: process.env.SLACK_WEBHOOK_URL }
+      };
+    }
+
+    return null;
+  }
+
+  private async getCachedNotificationChannels(): Promise<Map<string, NotificationChannel>> {
+    const now = Date.now();
+    if (!this.channelCache || now - this.channelCacheLoadedAt > this.ruleCacheTtl) {
+      const channels = await this.storage.getNotificationChannels();
+      this.channelCache = new Map(channels.map(channel => [channel.id, channel]));
+      this.channelCacheLoadedAt = now;
+    }
+
+    return this.channelCache;
+  }
+
+  /**
+   * Channels as the API returns them, with credentials masked
+   */
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    const channels = await this.storage.getNotificationChannels();
+    return channels.map(channel => this.notificationChannels.redact(channel));
+  }
 
-    const subject = `[${alert.severity.toUpperCase()}] ${alert.title}`;
-    const html = `
-      <h2>${alert.title}</h2>
-      <p><strong>Severity:</strong> ${alert.severity}</p>
-      <p><strong>Message:</strong> ${alert.message}</p>
-      <p><strong>Timestamp:</strong> ${alert.timestamp.toISOString()}</p>
-      <p><strong>Metric Type:</strong> ${alert.metricType}</p>
-      ${alert.agentType ? `<p><strong>Agent:</strong> ${alert.agentType}</p>` : ''}
-      <p><strong>Current Value:</strong> ${alert.currentValue}</p>
-      <p><strong>Threshold:</strong> ${alert.threshold}</p>
-    `;
+  async getNotificationChannel(id: string): Promise<NotificationChannel | null> {
+    const channel = await this.storage.getNotificationChannel(id);
+    return channel ? this.notificationChannels.redact(channel) : null;
+  }
 
-    await this.emailTransporter.sendMail({
-      from: process.env.EMAIL_FROM || 'monitoring@opencode.ai',
-      to: process.env.EMAIL_TO,
-      subject,
-      html
+  async createNotificationChannel(channel: Partial<NotificationChannel>): Promise<NotificationChannel> {
+    const validated = this.notificationChannels.validate({
+      ...channel,
+      id: channel.id || `channel-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
     });
 
-    logger.info({ alertId: alert.id }, 'Email notification sent');
+    const created = await this.storage.createNotificationChannel(validated);
+    this.channelCache = null;
+
+    logger.info({ channelId: created.id, type: created.type }, 'Notification channel created');
+    return created;
   }
 
-  private async sendSlackNotification(alert: Alert): Promise<void> {
-    const webhookUrl = process.env.SLACK_WEBHOOK_URL;
-    if (!webhookUrl) return;
+  async updateNotificationChannel(id: string, channel: Partial<NotificationChannel>): Promise<NotificationChannel | null> {
+    const existing = await this.storage.getNotificationChannel(id);
+    if (!existing) return null;
 
-    const colorMap: Record<AlertSeverity, string> = {
-      critical: '#ff0000',
-      high: '#ff6600',
-      medium: '#ffcc00',
-      low: '#00cc00',
-      info: '#0099ff'
-    };
+    const changes = this.notificationChannels.restoreSecrets(channel, existing);
+    const validated = this.notificationChannels.validate({ ...existing, ...changes, id });
+    const updated = await this.storage.updateNotificationChannel(validated);
+    this.channelCache = null;
 
-    const message = {
-      attachments: [
-        {
-          color: colorMap[alert.severity],
-          title: alert.title,
-          text: alert.message,
-          fields: [
-            { title: 'Severity', value: alert.severity, short: true },
-            { title: 'Metric Type', value: alert.metricType, short: true },
-            { title: 'Current Value', value: alert.currentValue.toString(), short: true },
-            { title: 'Threshold', value: alert.threshold.toString(), short: true },
-            { title: 'Timestamp', value: alert.timestamp.toISOString(), short: false }
-          ]
-        }
-      ]
+    logger.info({ channelId: id }, 'Notification channel updated');
+    return updated ? this.notificationChannels.redact(updated) : null;
+  }
+
+  async deleteNotificationChannel(id: string): Promise<boolean> {
+    const deleted = await this.storage.deleteNotificationChannel(id);
+    if (deleted) {
+      this.channelCache = null;
+      logger.info({ channelId: id }, 'Notification channel deleted');
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Send a synthetic alert through a channel, bypassing its severity filter.
+   * Errors from the channel are propagated so the caller can report them.
+   */
+  async testNotificationChannel(id: string): Promise<Alert | null> {
+    const channel = await this.storage.getNotificationChannel(id);
+    if (!channel) return null;
+
+    const alert: Alert = {
+      id: `test-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type: AlertType.CUSTOM,
+      severity: AlertSeverity.INFO,
+      title: 'Test notification',
+      message: `Test notification for channel "${channel.name}"`,
+      timestamp: new Date(),
+      metricType: MetricType.SYSTEM_HEALTH,
+      currentValue: 0,
+      threshold: 0,
+      metadata: { test: true },
+      acknowledged: false,
+      resolved: false
     };
 
-    await axios.post(webhookUrl, message);
-    logger.info({ alertId: alert.id }, 'Slack notification sent');
+    await this.notificationChannels.send(alert, channel);
+    return alert;
+  }
+
+  async getAlertRules(options: { enabled?: boolean } = {}): Promise<AlertRule[]> {
+    return this.storage.getAlertRules(options);
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | null> {
+    return this.storage.getAlertRule(id);
   }
 
   async getActiveAlertRules(): Promise<AlertRule[]> {
-    // In a real implementation, this would query the database
-    return [];
+    const now = Date.now();
+    if (!this.ruleCache || now - this.ruleCacheLoadedAt > this.ruleCacheTtl) {
+      this.ruleCache = await this.storage.getAlertRules({ enabled: true });
+      this.ruleCacheLoadedAt = now;
+    }
+
+    return this.ruleCache;
   }
 
   async getActiveAlertRulesForMetric(metricType: MetricType, agentType?: AgentType): Promise<AlertRule[]> {
-    // In a real implementation, this would query the database
-    // For now, return default rules
-    if (metricType === MetricType.AGENT_RESPONSE_TIME) {
-      return [{
-        id: 'default-response-time',
-        name: 'High Response Time',
-        enabled: true,
-        metricType,
-        agentType,
-        condition: 'greater_than',
-        threshold: 5000,
-        duration: 300,
-        severity: AlertSeverity.HIGH,
-        notificationChannels: []
-      }];
-    }
-
-    if (metricType === MetricType.AGENT_ERROR_RATE) {
-      return [{
-        id: 'default-error-rate',
-        name: 'High Error Rate',
-        enabled: true,
-        metricType,
-        agentType,
-        condition: 'greater_than',
-        threshold: 10,
-        duration: 300,
-        severity: AlertSeverity.CRITICAL,
-        notificationChannels: []
-      }];
+    const rules = await this.getActiveAlertRules();
+
+    return rules.filter(rule =>
+      rule.condition !== 'expression' &&
+      rule.metricType === metricType &&
+      (!rule.agentType || rule.agentType === agentType)
+    );
+  }
+
+  async createAlertRule(rule: Partial<AlertRule>): Promise<AlertRule> {
+    const validated = this.validateAlertRule({
+      ...rule,
+      id: rule.id || `rule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      enabled: rule.enabled ?? true,
+      notificationChannels: rule.notificationChannels || [],
+      metadata: rule.metadata || {}
+    });
+
+    const created = await this.storage.createAlertRule(validated);
+    this.invalidateRuleCache();
+
+    logger.info({ ruleId: created.id }, 'Alert rule created');
+    return created;
+  }
+
+  async updateAlertRule(id: string, rule: Partial<AlertRule>): Promise<AlertRule | null> {
+    const existing = await this.storage.getAlertRule(id);
+    if (!existing) return null;
+
+    const validated = this.validateAlertRule({ ...existing, ...rule, id });
+    const updated = await this.storage.updateAlertRule(validated);
+    this.invalidateRuleCache();
+
+    logger.info({ ruleId: id }, 'Alert rule updated');
+    return updated;
+  }
+
+  async replaceAlertRule(id: string, rule: Partial<AlertRule>): Promise<AlertRule | null> {
+    const existing = await this.storage.getAlertRule(id);
+    if (!existing) return null;
+
+    const validated = this.validateAlertRule({
+      ...rule,
+      id,
+      notificationChannels: rule.notificationChannels || [],
+      metadata: rule.metadata || {}
+    });
+    const updated = await this.storage.updateAlertRule(validated);
+    this.invalidateRuleCache();
+
+    logger.info({ ruleId: id }, 'Alert rule replaced');
+    return updated;
+  }
+
+  async setAlertRuleEnabled(id: string, enabled: boolean): Promise<AlertRule | null> {
+    return this.updateAlertRule(id, { enabled });
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const deleted = await this.storage.deleteAlertRule(id);
+    if (deleted) {
+      this.invalidateRuleCache();
+      logger.info({ ruleId: id }, 'Alert rule deleted');
+    }
+
+    return deleted;
+  }
+
+  invalidateRuleCache(): void {
+    this.ruleCache = null;
+    this.ruleCacheLoadedAt = 0;
+    this.parsedExpressions.clear();
+  }
+
+  private validateAlertRule(rule: Partial<AlertRule>): AlertRule {
+    if (!rule.name || typeof rule.name !== 'string') {
+      throw new AlertRuleValidationError('name is required');
+    }
+    if (!rule.metricType || !Object.values(MetricType).includes(rule.metricType)) {
+      throw new AlertRuleValidationError(`metricType must be one of: ${Object.values(MetricType).join(', ')}`);
+    }
+    if (rule.agentType && !Object.values(AgentType).includes(rule.agentType)) {
+      throw new AlertRuleValidationError(`agentType must be one of: ${Object.values(AgentType).join(', ')}`);
+    }
+    if (!rule.condition || !ALERT_RULE_CONDITIONS.includes(rule.condition)) {
+      throw new AlertRuleValidationError(`condition must be one of: ${ALERT_RULE_CONDITIONS.join(', ')}`);
+    }
+    if (rule.condition === 'expression') {
+      if (!rule.expression || typeof rule.expression !== 'string') {
+        throw new AlertRuleValidationError('expression is required when condition is "expression"');
+      }
+      try {
+        parseExpression(rule.expression);
+      } catch (error) {
+        if (error instanceof ExpressionError) {
+          throw new AlertRuleValidationError(`Invalid expression: ${error.message}`);
+        }
+        throw error;
+      }
+      rule.threshold = rule.threshold ?? 0;
+    }
+    if (typeof rule.threshold !== 'number' || !Number.isFinite(rule.threshold)) {
+      throw new AlertRuleValidationError('threshold must be a number');
+    }
+    if (typeof rule.duration !== 'number' || !Number.isInteger(rule.duration) || rule.duration < 0) {
+      throw new AlertRuleValidationError('duration must be a non-negative integer (seconds)');
+    }
+    if (rule.repeatInterval != null &&
+        (typeof rule.repeatInterval !== 'number' || !Number.isInteger(rule.repeatInterval) || rule.repeatInterval < 0)) {
+      throw new AlertRuleValidationError('repeatInterval must be a non-negative integer (seconds)');
+    }
+    if (!rule.severity || !Object.values(AlertSeverity).includes(rule.severity)) {
+      throw new AlertRuleValidationError(`severity must be one of: ${Object.values(AlertSeverity).join(', ')}`);
+    }
+    if (!Array.isArray(rule.notificationChannels)) {
+      throw new AlertRuleValidationError('notificationChannels must be an array');
+    }
+
+    return {
+      id: rule.id!,
+      name: rule.name,
+      enabled: rule.enabled ?? true,
+      metricType: rule.metricType,
+      agentType: rule.agentType,
+      condition: rule.condition,
+      expression: rule.condition === 'expression' ? rule.expression : undefined,
+      threshold: rule.threshold,
+      duration: rule.duration,
+      repeatInterval: rule.repeatInterval ?? undefined,
+      severity: rule.severity,
+      notificationChannels: rule.notificationChannels,
+      metadata: rule.metadata || {}
+    };
+  }
+
+  /**
+   * The silence or maintenance window muting this alert, if any
+   */
+  async findSilence(alert: Alert, at: Date = new Date()): Promise<{ kind: 'silence' | 'maintenance_window'; id: string } | null> {
+    const { silences, windows } = await this.getCachedSilences();
+    const labels = alertLabels(alert);
+
+    const silence = silences.find(s => isSilenceActive(s, at) && matchesLabels(labels, s.matchers));
+    if (silence) return { kind: 'silence', id: silence.id };
+
+    const window = windows.find(w => isMaintenanceWindowActive(w, at) && matchesLabels(labels, w.matchers));
+    if (window) return { kind: 'maintenance_window', id: window.id };
+
+    return null;
+  }
+
+  /**
+   * Silences are loaded for the whole time the cache is kept, so one that
+   * starts before the next reload takes effect on time
+   */
+  private async getCachedSilences(): Promise<{ silences: Silence[]; windows: MaintenanceWindow[] }> {
+    const now = Date.now();
+    if (!this.silenceCache || now - this.silenceCacheLoadedAt > this.ruleCacheTtl) {
+      const [silences, windows] = await Promise.all([
+        this.storage.getSilences({ activeAt: new Date(now), activeUntil: new Date(now + this.ruleCacheTtl) }),
+        this.storage.getMaintenanceWindows()
+      ]);
+      this.silenceCache = { silences, windows };
+      this.silenceCacheLoadedAt = now;
+    }
+
+    return this.silenceCache;
+  }
+
+  async getSilences(options: { active?: boolean } = {}): Promise<Silence[]> {
+    return this.storage.getSilences(options.active ? { activeAt: new Date() } : {});
+  }
+
+  async createSilence(silence: Partial<Silence>): Promise<Silence> {
+    const validated = validateSilence(silence);
+    validated.id = `silence-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    const created = await this.storage.createSilence(validated);
+    this.silenceCache = null;
+    logger.info({ silenceId: created.id, matchers: created.matchers, endsAt: created.endsAt }, 'Silence created');
+    return created;
+  }
+
+  async expireSilence(id: string): Promise<Silence | null> {
+    const expired = await this.storage.expireSilence(id);
+    if (expired) {
+      this.silenceCache = null;
+      logger.info({ silenceId: id }, 'Silence expired');
     }
+    return expired;
+  }
+
+  async getMaintenanceWindows(): Promise<MaintenanceWindow[]> {
+    return this.storage.getMaintenanceWindows();
+  }
 
-    return [];
+  async createMaintenanceWindow(window: Partial<MaintenanceWindow>): Promise<MaintenanceWindow> {
+    const validated = validateMaintenanceWindow(window);
+    validated.id = `maintenance-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    const created = await this.storage.createMaintenanceWindow(validated);
+    this.silenceCache = null;
+    return created;
   }
 
-  async createAlertRule(rule: Partial<AlertRule>): Promise<void> {
-    // Store in database
-    logger.info({ rule }, 'Alert rule created');
+  async updateMaintenanceWindow(id: string, window: Partial<MaintenanceWindow>): Promise<MaintenanceWindow | null> {
+    const existing = await this.storage.getMaintenanceWindow(id);
+    if (!existing) return null;
+
+    const validated = validateMaintenanceWindow({ ...existing, ...window, id, createdBy: existing.createdBy });
+    const updated = await this.storage.updateMaintenanceWindow(validated);
+    this.silenceCache = null;
+    return updated;
+  }
+
+  async deleteMaintenanceWindow(id: string): Promise<boolean> {
+    const deleted = await this.storage.deleteMaintenanceWindow(id);
+    if (deleted) {
+      this.silenceCache = null;
+    }
+    return deleted;
   }
 
   async getActiveAlerts(): Promise<Alert[]> {
-    // Query database for active alerts
-    return [];
+    return this.storage.getActiveAlerts();
+  }
+
+  stop(): void {
+    this.router.stop();
   }
 }
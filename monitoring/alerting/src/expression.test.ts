@@ -0,0 +1,160 @@
+import { AgentMetrics, AgentStatus, AgentType } from '@types/monitoring';
+import { InMemoryMetricsStore } from '../../collector/src/memory-store';
+import { ExpressionEvaluator, parseExpression } from './expression';
+
+const NOW = new Date(Date.UTC(2024, 0, 1, 12));
+
+function agentMetrics(agentType: AgentType, secondsAgo: number, responseTime: number, errorRate: number = 0): AgentMetrics {
+  return {
+    agentType,
+    agentId: `${agentType}-1`,
+    timestamp: new Date(NOW.getTime() - secondsAgo * 1000),
+    status: AgentStatus.ACTIVE,
+    metrics: {
+      responseTime,
+      taskCompletionRate: 100,
+      errorRate,
+      activeTasks: 1,
+      completedTasks: 10,
+      failedTasks: 2,
+      context7Queries: { count: 0, avgResponseTime: 0, successRate: 100 },
+      toolUsage: {},
+      coordinationMetrics: { handoffsReceived: 0, handoffsSent: 0, avgHandoffTime: 0 }
+    }
+  };
+}
+
+describe('ExpressionEvaluator', () => {
+  let storage: InMemoryMetricsStore;
+  let evaluator: ExpressionEvaluator;
+
+  const evaluate = (source: string) => evaluator.evaluate(parseExpression(source), NOW);
+
+  beforeEach(async () => {
+    storage = new InMemoryMetricsStore();
+    evaluator = new ExpressionEvaluator(storage);
+
+    await storage.storeAgentMetricsBatch([
+      agentMetrics(AgentType.SECURITY, 900, 9000),
+      agentMetrics(AgentType.SECURITY, 240, 1000, 2),
+      agentMetrics(AgentType.SECURITY, 60, 5000, 8),
+      agentMetrics(AgentType.TESTING_QA, 120, 200)
+    ]);
+  });
+
+  afterEach(() => storage.close());
+
+  it('reads the latest sample for an instant selector', async () => {
+    expect(await evaluate('agent_response_time{agent="security"} > 4000')).toEqual({ triggered: true, value: 5000 });
+    expect(await evaluate('agent_response_time{agent="testing-qa"} > 4000')).toEqual({ triggered: false, value: 200 });
+  });
+
+  it('aggregates range functions over their window only', async () => {
+    expect(await evaluate('avg_over_time(agent_response_time{agent="security"}[5m]) == 3000')).toMatchObject({ triggered: true });
+    expect(await evaluate('max_over_time(agent_response_time{agent="security"}[20m]) == 9000')).toMatchObject({ triggered: true });
+    expect(await evaluate('count_over_time(agent_response_time[5m]) == 3')).toMatchObject({ triggered: true });
+  });
+
+  it('combines comparisons with and/or', async () => {
+    expect(await evaluate('agent_error_rate{agent="security"} > 5 and agent_response_time{agent="security"} > 4000'))
+      .toEqual({ triggered: true, value: 8 });
+    expect(await evaluate('agent_error_rate{agent="security"} > 50 or agent_response_time{agent="testing-qa"} < 100'))
+      .toEqual({ triggered: false, value: 8 });
+  });
+
+  it('computes arithmetic between metrics', async () => {
+    expect(await evaluate('agent_failed_tasks{agent="security"} / agent_completed_tasks{agent="security"} > 0.1'))
+      .toEqual({ triggered: true, value: 0.2 });
+  });
+
+  it('treats missing data as not triggered and absent() as triggered', async () => {
+    expect(await evaluate('agent_response_time{agent="animation"} > 0')).toEqual({ triggered: false, value: null });
+    expect(await evaluate('absent(agent_response_time{agent="animation"}[10m])')).toMatchObject({ triggered: true });
+    expect(await evaluate('absent(agent_response_time{agent="security"}[10m])')).toMatchObject({ triggered: false });
+  });
+
+  it('does not divide by zero', async () => {
+    expect(await evaluate('agent_completed_tasks / 0 > 1')).toEqual({ triggered: false, value: null });
+  });
+});
+
+describe('parseExpression', () => {
+  const selector = (metric: string, labels: Record<string, string> = {}) => ({ kind: 'selector', metric, labels });
+
+  it('binds * and / tighter than + and -, and both tighter than comparisons', () => {
+    expect(parseExpression('agent_active_tasks + agent_failed_tasks * 2 > 10 - 4 / 2')).toEqual({
+      kind: 'compare',
+      op: '>',
+      left: {
+        kind: 'arithmetic',
+        op: '+',
+        left: selector('agent_active_tasks'),
+        right: { kind: 'arithmetic', op: '*', left: selector('agent_failed_tasks'), right: { kind: 'number', value: 2 } }
+      },
+      right: {
+        kind: 'arithmetic',
+        op: '-',
+        left: { kind: 'number', value: 10 },
+        right: { kind: 'arithmetic', op: '/', left: { kind: 'number', value: 4 }, right: { kind: 'number', value: 2 } }
+      }
+    });
+  });
+
+  it('binds and tighter than or, and lets parentheses override it', () => {
+    const a = 'agent_error_rate > 1';
+    const b = 'agent_error_rate > 2';
+    const c = 'agent_error_rate > 3';
+
+    const flat = parseExpression(`${a} or ${b} and ${c}`);
+    expect(flat).toMatchObject({ kind: 'logical', op: 'or', right: { kind: 'logical', op: 'and' } });
+
+    const grouped = parseExpression(`(${a} or ${b}) and ${c}`);
+    expect(grouped).toMatchObject({ kind: 'logical', op: 'and', left: { kind: 'logical', op: 'or' } });
+  });
+
+  it('associates arithmetic to the left and applies unary minus to its operand', () => {
+    expect(parseExpression('agent_active_tasks - 1 - 2 > -3')).toMatchObject({
+      left: { op: '-', left: { op: '-', left: selector('agent_active_tasks') }, right: { value: 2 } },
+      right: { kind: 'negate', operand: { kind: 'number', value: 3 } }
+    });
+  });
+
+  it('parses label matchers and ranges', () => {
+    expect(parseExpression(`avg_over_time(agent_response_time{agent="security", agent_id='security-1'}[5m]) > 3000`))
+      .toMatchObject({
+        left: {
+          kind: 'call',
+          fn: 'avg_over_time',
+          arg: { ...selector('agent_response_time', { agent: 'security', agent_id: 'security-1' }), range: 300 }
+        }
+      });
+    expect(parseExpression('agent_response_time{} > 1')).toMatchObject({ left: selector('agent_response_time') });
+  });
+
+  it('rejects labels the metric does not have, including Object.prototype names', () => {
+    expect(() => parseExpression('agent_response_time{url="/"} > 1')).toThrow('Unknown label "url" for agent_response_time');
+    for (const label of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      expect(() => parseExpression(`agent_response_time{${label}="x"} > 1`)).toThrow(`Unknown label "${label}"`);
+    }
+    expect(() => parseExpression('constructor > 1')).toThrow('Unknown metric "constructor"');
+  });
+
+  it('reports the position of the offending token', () => {
+    expect(() => parseExpression('agent_error_rate > 5 )')).toThrow('Unexpected token at position 21');
+    expect(() => parseExpression('agent_error_rate{agent=security} > 5')).toThrow('Expected quoted label value at position 23');
+    expect(() => parseExpression('agent_error_rate{agent="a" > 5')).toThrow('Expected "}" at position 27');
+    expect(() => parseExpression('agent_error_rate[5x] > 5')).toThrow('Invalid range at position 16');
+    expect(() => parseExpression('agent_error_rate > 5 # 1')).toThrow('Unexpected character "#" at position 21');
+    expect(() => parseExpression(`agent_error_rate{agent="a} > 5`)).toThrow('Unterminated string at position 23');
+    expect(() => parseExpression('(agent_error_rate > 5')).toThrow('Expected ")" at position 21');
+  });
+
+  it('requires a condition and range selectors inside functions', () => {
+    expect(() => parseExpression('   ')).toThrow('Expression is empty');
+    expect(() => parseExpression('agent_error_rate + 1')).toThrow(/must be a comparison/);
+    expect(() => parseExpression('agent_error_rate[5m] > 1')).toThrow(/must be wrapped in a function/);
+    expect(() => parseExpression('avg_over_time(agent_error_rate) > 1')).toThrow(/requires a range selector/);
+    expect(() => parseExpression('median(agent_error_rate[5m]) > 1')).toThrow('Unknown function "median"');
+    expect(parseExpression('absent(agent_error_rate)')).toMatchObject({ kind: 'call', fn: 'absent' });
+  });
+});
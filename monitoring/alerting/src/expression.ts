@@ -0,0 +1,469 @@
+/**
+ * Alert Rule Expressions
+ *
+ * A small PromQL-like language for alert rules, e.g.
+ *   avg_over_time(agent_response_time{agent="security"}[5m]) > 3000 and agent_error_rate > 5
+ *   agent_failed_tasks / agent_completed_tasks > 0.1
+ *   absent(agent_response_time{agent_id="orchestrator-1"}[10m])
+ *
+ * Every value is a scalar. Instant selectors resolve to the latest sample
+ * within the lookback window, range functions aggregate over their window,
+ * comparisons and and/or produce 1 or 0. Missing data is null and makes
+ * comparisons false.
+ */
+
+import { getMetricDefinition } from '@collector/metric-catalog';
+import { MetricsStore, WindowAggregation } from '@collector/store';
+
+const DEFAULT_LOOKBACK_SECONDS = 300;
+
+type ComparisonOperator = '>' | '<' | '>=' | '<=' | '==' | '!=';
+type ArithmeticOperator = '+' | '-' | '*' | '/';
+
+export interface SelectorNode {
+  kind: 'selector';
+  metric: string;
+  labels: Record<string, string>;
+  range?: number; // seconds
+}
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | SelectorNode
+  | { kind: 'call'; fn: string; arg: SelectorNode }
+  | { kind: 'negate'; operand: ExpressionNode }
+  | { kind: 'arithmetic'; op: ArithmeticOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'compare'; op: ComparisonOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'logical'; op: 'and' | 'or'; left: ExpressionNode; right: ExpressionNode };
+
+export interface ExpressionResult {
+  triggered: boolean;
+  value: number | null; // value of the left-most compared operand, for alert messages
+}
+
+/**
+ * Raised when an expression cannot be parsed or refers to unknown metrics
+ */
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+const RANGE_FUNCTIONS: Record<string, WindowAggregation> = {
+  avg_over_time: 'avg',
+  min_over_time: 'min',
+  max_over_time: 'max',
+  sum_over_time: 'sum',
+  count_over_time: 'count',
+  last_over_time: 'last'
+};
+
+const FUNCTIONS = [...Object.keys(RANGE_FUNCTIONS), 'rate', 'absent'];
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'duration'; value: number; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'eof'; pos: number };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '[') {
+      const match = /^\[\s*(\d+)([smhd])\s*\]/.exec(source.slice(i));
+      if (!match) {
+        throw new ExpressionError(`Invalid range at position ${i}, expected e.g. [5m]`);
+      }
+      tokens.push({ type: 'duration', value: parseInt(match[1]) * DURATION_UNITS[match[2]], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]), pos: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const ident = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) {
+        throw new ExpressionError(`Unterminated string at position ${i}`);
+      }
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    const op = /^(>=|<=|==|!=|[><+\-*/(){},=])/.exec(source.slice(i));
+    if (op) {
+      tokens.push({ type: 'op', value: op[0], pos: i });
+      i += op[0].length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${ch}" at position ${i}`);
+  }
+
+  tokens.push({ type: 'eof', pos: source.length });
+  return tokens;
+}
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionError(`Unexpected token at position ${next.pos}`);
+    }
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchKeyword('or')) {
+      left = { kind: 'logical', op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseComparison();
+    while (this.matchKeyword('and')) {
+      left = { kind: 'logical', op: 'and', left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const op = this.matchOp('>', '<', '>=', '<=', '==', '!=');
+    if (!op) return left;
+    return { kind: 'compare', op: op as ComparisonOperator, left, right: this.parseAdditive() };
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    let op: string | null;
+    while ((op = this.matchOp('+', '-'))) {
+      left = { kind: 'arithmetic', op: op as ArithmeticOperator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    let op: string | null;
+    while ((op = this.matchOp('*', '/'))) {
+      left = { kind: 'arithmetic', op: op as ArithmeticOperator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOp('-')) {
+      return { kind: 'negate', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { kind: 'number', value: token.value };
+    }
+
+    if (token.type === 'op' && token.value === '(') {
+      const inner = this.parseOr();
+      this.expectOp(')');
+      return inner;
+    }
+
+    if (token.type === 'ident') {
+      if (this.matchOp('(')) {
+        if (!FUNCTIONS.includes(token.value)) {
+          throw new ExpressionError(`Unknown function "${token.value}"`);
+        }
+        const arg = this.parseSelector(this.expectIdent());
+        this.expectOp(')');
+        return { kind: 'call', fn: token.value, arg };
+      }
+      return this.parseSelector(token);
+    }
+
+    throw new ExpressionError(`Unexpected token at position ${token.pos}`);
+  }
+
+  private parseSelector(token: Token & { type: 'ident' }): SelectorNode {
+    const definition = getMetricDefinition(token.value);
+    if (!definition) {
+      throw new ExpressionError(`Unknown metric "${token.value}"`);
+    }
+
+    const labels: Record<string, string> = {};
+    if (this.matchOp('{')) {
+      if (!this.matchOp('}')) {
+        do {
+          const label = this.expectIdent();
+          if (!Object.prototype.hasOwnProperty.call(definition.labels, label.value)) {
+            throw new ExpressionError(
+              `Unknown label "${label.value}" for ${token.value}, expected one of: ${Object.keys(definition.labels).join(', ')}`
+            );
+          }
+          this.expectOp('=');
+          const value = this.next();
+          if (value.type !== 'string') {
+            throw new ExpressionError(`Expected quoted label value at position ${value.pos}`);
+          }
+          labels[label.value] = value.value;
+        } while (this.matchOp(','));
+        this.expectOp('}');
+      }
+    }
+
+    const selector: SelectorNode = { kind: 'selector', metric: token.value, labels };
+    const range = this.peek();
+    if (range.type === 'duration') {
+      this.index++;
+      selector.range = range.value;
+    }
+    return selector;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matchOp(...ops: string[]): string | null {
+    const token = this.peek();
+    if (token.type === 'op' && ops.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === 'ident' && token.value === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOp(op: string): void {
+    const token = this.next();
+    if (token.type !== 'op' || token.value !== op) {
+      throw new ExpressionError(`Expected "${op}" at position ${token.pos}`);
+    }
+  }
+
+  private expectIdent(): Token & { type: 'ident' } {
+    const token = this.next();
+    if (token.type !== 'ident') {
+      throw new ExpressionError(`Expected identifier at position ${token.pos}`);
+    }
+    return token;
+  }
+}
+
+/**
+ * Check that range selectors only appear where a function consumes them
+ * and that the expression produces a condition rather than a bare number
+ */
+function validate(node: ExpressionNode, root: boolean): void {
+  switch (node.kind) {
+    case 'number':
+      break;
+    case 'selector':
+      if (node.range !== undefined) {
+        throw new ExpressionError(`Range selector ${node.metric}[...] must be wrapped in a function such as avg_over_time`);
+      }
+      break;
+    case 'call':
+      if (node.fn !== 'absent' && node.arg.range === undefined) {
+        throw new ExpressionError(`${node.fn}() requires a range selector, e.g. ${node.fn}(${node.arg.metric}[5m])`);
+      }
+      break;
+    case 'negate':
+      validate(node.operand, false);
+      break;
+    case 'arithmetic':
+    case 'compare':
+    case 'logical':
+      validate(node.left, false);
+      validate(node.right, false);
+      break;
+  }
+
+  if (root && node.kind !== 'compare' && node.kind !== 'logical' && !(node.kind === 'call' && node.fn === 'absent')) {
+    throw new ExpressionError('Expression must be a comparison, an and/or of comparisons, or absent()');
+  }
+}
+
+export function parseExpression(source: string): ExpressionNode {
+  if (!source || !source.trim()) {
+    throw new ExpressionError('Expression is empty');
+  }
+
+  const node = new Parser(tokenize(source)).parse();
+  validate(node, true);
+  return node;
+}
+
+/**
+ * Evaluates parsed expressions against MetricsStore windows
+ */
+export class ExpressionEvaluator {
+  private storage: MetricsStore;
+
+  constructor(storage: MetricsStore) {
+    this.storage = storage;
+  }
+
+  async evaluate(node: ExpressionNode, now: Date = new Date()): Promise<ExpressionResult> {
+    const compared = new Map<ExpressionNode, number | null>();
+    const value = await this.evaluateNode(node, now, compared);
+
+    let primary: ExpressionNode = node;
+    while (primary.kind === 'logical') {
+      primary = primary.left;
+    }
+
+    return {
+      triggered: value !== null && value !== 0,
+      value: primary.kind === 'compare' ? compared.get(primary) ?? null : value
+    };
+  }
+
+  private async evaluateNode(
+    node: ExpressionNode,
+    now: Date,
+    compared: Map<ExpressionNode, number | null>
+  ): Promise<number | null> {
+    switch (node.kind) {
+      case 'number':
+        return node.value;
+
+      case 'selector':
+        return this.storage.aggregateMetricWindow(
+          node.metric,
+          node.labels,
+          new Date(now.getTime() - DEFAULT_LOOKBACK_SECONDS * 1000),
+          now,
+          'last'
+        );
+
+      case 'call':
+        return this.evaluateCall(node.fn, node.arg, now);
+
+      case 'negate': {
+        const value = await this.evaluateNode(node.operand, now, compared);
+        return value === null ? null : -value;
+      }
+
+      case 'arithmetic': {
+        const [left, right] = await Promise.all([
+          this.evaluateNode(node.left, now, compared),
+          this.evaluateNode(node.right, now, compared)
+        ]);
+        if (left === null || right === null) return null;
+        switch (node.op) {
+          case '+': return left + right;
+          case '-': return left - right;
+          case '*': return left * right;
+          case '/': return right === 0 ? null : left / right;
+        }
+      }
+
+      case 'compare': {
+        const [left, right] = await Promise.all([
+          this.evaluateNode(node.left, now, compared),
+          this.evaluateNode(node.right, now, compared)
+        ]);
+        compared.set(node, left);
+        if (left === null || right === null) return 0;
+        return this.compare(node.op, left, right) ? 1 : 0;
+      }
+
+      case 'logical': {
+        const left = await this.evaluateNode(node.left, now, compared);
+        const leftTrue = left !== null && left !== 0;
+        if (node.op === 'and' && !leftTrue) return 0;
+        if (node.op === 'or' && leftTrue) return 1;
+        const right = await this.evaluateNode(node.right, now, compared);
+        return right !== null && right !== 0 ? 1 : 0;
+      }
+    }
+  }
+
+  private async evaluateCall(fn: string, selector: SelectorNode, now: Date): Promise<number | null> {
+    const range = selector.range ?? DEFAULT_LOOKBACK_SECONDS;
+    const start = new Date(now.getTime() - range * 1000);
+
+    if (fn === 'absent') {
+      const count = await this.storage.aggregateMetricWindow(selector.metric, selector.labels, start, now, 'count');
+      return count ? 0 : 1;
+    }
+
+    if (fn === 'rate') {
+      const [first, last] = await Promise.all([
+        this.storage.aggregateMetricWindow(selector.metric, selector.labels, start, now, 'first'),
+        this.storage.aggregateMetricWindow(selector.metric, selector.labels, start, now, 'last')
+      ]);
+      if (first === null || last === null) return null;
+      // Treat a drop as a counter reset
+      const increase = last >= first ? last - first : last;
+      return increase / range;
+    }
+
+    return this.storage.aggregateMetricWindow(selector.metric, selector.labels, start, now, RANGE_FUNCTIONS[fn]);
+  }
+
+  private compare(op: ComparisonOperator, left: number, right: number): boolean {
+    switch (op) {
+      case '>': return left > right;
+      case '<': return left < right;
+      case '>=': return left >= right;
+      case '<=': return left <= right;
+      case '==': return left === right;
+      case '!=': return left !== right;
+    }
+  }
+}
@@ -1,25 +1,36 @@
+import { Alert } from '@types/monitoring';
 import { AlertManager } from './alert-manager';
-import { MetricsStorage } from '../collector/src/storage';
+import { RuleScheduler } from './rule-scheduler';
+import { createMetricsStore } from '../../collector/src/store-factory';
 
-const storage = new MetricsStorage();
+const storage = createMetricsStore();
 const alertManager = new AlertManager(storage);
+const scheduler = new RuleScheduler(alertManager, storage);
 
-// Handle graceful shutdown
-process.on('SIGTERM', async () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  await storage.close();
-  process.exit(0);
-});
+// The collector relays these to dashboard WebSocket clients
+for (const type of ['alert', 'alert_acknowledged', 'alert_resolved'] as const) {
+  alertManager.on(type, (alert: Alert) => {
+    storage.publishAlertEvent({ type, alertId: alert.id })
+      .catch(error => console.error(`Failed to publish ${type} event for alert ${alert.id}:`, error));
+  });
+}
 
-process.on('SIGINT', async () => {
-  console.log('SIGINT received, shutting down gracefully');
+const shutdown = async (signal: string) => {
+  console.log(`${signal} received, shutting down gracefully`);
+  await scheduler.stop();
+  alertManager.stop();
   await storage.close();
   process.exit(0);
-});
+};
 
-console.log('Alerting system started');
+// Handle graceful shutdown
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
-// Keep process running
-setInterval(() => {
-  // Health check
-}, 60000);
+// Otherwise the collector evaluates rules as metrics arrive
+if (process.env.ALERT_EVALUATION_MODE === 'scheduled') {
+  scheduler.start();
+  console.log('Alerting system started');
+} else {
+  console.log('Alerting system idle: set ALERT_EVALUATION_MODE=scheduled to evaluate rules here');
+}
@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Alert, AlertSeverity, AlertType, MetricType, NotificationChannel } from '@types/monitoring';
+import { InMemoryMetricsStore } from '../../collector/src/memory-store';
+import { AlertManager } from './alert-manager';
+import {
+  NotificationChannelRegistry,
+  NotificationChannelValidationError,
+  PagerDutySender,
+  REDACTED,
+  SlackSender,
+  TeamsSender,
+  WebhookSender
+} from './notification-channels';
+
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP server standing in for the webhook, Slack, Teams and PagerDuty endpoints
+ */
+class StandIn {
+  requests: ReceivedRequest[] = [];
+  status = 202;
+  private server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      this.requests.push({ path: req.url || '', headers: req.headers, body });
+      res.writeHead(this.status, { 'Content-Type': 'application/json' });
+      res.end('{}');
+    });
+  });
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  url(path: string): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}${path}`;
+  }
+
+  json(index: number = this.requests.length - 1): any {
+    return JSON.parse(this.requests[index].body);
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+}
+
+function alert(overrides: Partial<Alert> = {}): Alert {
+  return {
+    id: 'alert-1',
+    type: AlertType.AGENT_ANOMALY,
+    severity: AlertSeverity.CRITICAL,
+    title: 'Slow security agent',
+    message: 'Current: 5000 | Threshold: 3000',
+    timestamp: new Date('2024-01-01T12:00:00Z'),
+    agentType: undefined,
+    metricType: MetricType.AGENT_RESPONSE_TIME,
+    ruleId: 'rule-1',
+    fingerprint: 'rule-1|security|security-1',
+    currentValue: 5000,
+    threshold: 3000,
+    metadata: { agentId: 'security-1' },
+    acknowledged: false,
+    resolved: false,
+    ...overrides
+  };
+}
+
+function channel(type: NotificationChannel['type'], config: Record<string, any>): NotificationChannel {
+  return { id: `${type}-1`, name: `${type} channel`, type, enabled: true, config };
+}
+
+describe('notification senders', () => {
+  const standIn = new StandIn();
+
+  beforeAll(() => standIn.start());
+  afterAll(() => standIn.stop());
+  beforeEach(() => {
+    standIn.requests = [];
+    standIn.status = 202;
+  });
+
+  it('signs webhook bodies with the channel secret', async () => {
+    const webhook = channel('webhook', { url: standIn.url('/hook'), secret: 'hmac-secret', headers: { 'X-Team': 'ops' } });
+    await new WebhookSender().send(alert(), webhook);
+
+    const [request] = standIn.requests;
+    const expected = crypto.createHmac('sha256', 'hmac-secret')
+      .update(`${request.headers['x-monitoring-timestamp']}.${request.body}`)
+      .digest('hex');
+    expect(request.path).toBe('/hook');
+    expect(request.headers['x-monitoring-signature']).toBe(`sha256=${expected}`);
+    expect(request.headers['x-team']).toBe('ops');
+    expect(standIn.json()).toMatchObject({
+      version: '1',
+      event: 'alert.firing',
+      channel: { id: 'webhook-1', name: 'webhook channel' },
+      alert: { id: 'alert-1', severity: 'critical' }
+    });
+  });
+
+  it('sends unsigned webhooks without a secret and reports resolutions', async () => {
+    await new WebhookSender().send(alert({ resolved: true }), channel('webhook', { url: standIn.url('/hook') }));
+
+    expect(standIn.requests[0].headers['x-monitoring-signature']).toBeUndefined();
+    expect(standIn.json().event).toBe('alert.resolved');
+  });
+
+  it('rejects when the endpoint fails', async () => {
+    standIn.status = 500;
+    await expect(new WebhookSender().send(alert(), channel('webhook', { url: standIn.url('/hook') }))).rejects.toThrow();
+  });
+
+  it('posts Slack attachments and Teams cards', async () => {
+    await new SlackSender().send(alert(), channel('slack', { webhookUrl: standIn.url('/slack') }));
+    await new TeamsSender().send(alert({ resolved: true }), channel('teams', { webhookUrl: standIn.url('/teams') }));
+
+    expect(standIn.json(0).attachments[0]).toMatchObject({ color: '#ff0000', title: 'Slow security agent' });
+    expect(standIn.json(1)).toMatchObject({ '@type': 'MessageCard', title: '[Resolved] Slow security agent', themeColor: '00cc00' });
+  });
+
+  it('triggers and resolves PagerDuty incidents under the alert fingerprint', async () => {
+    const pagerDuty = channel('pagerduty', { routingKey: 'routing-key', url: standIn.url('/v2/enqueue') });
+    const sender = new PagerDutySender();
+
+    await sender.send(alert(), pagerDuty);
+    await sender.send(alert({ resolved: true }), pagerDuty);
+
+    expect(standIn.json(0)).toMatchObject({
+      routing_key: 'routing-key',
+      event_action: 'trigger',
+      dedup_key: 'rule-1|security|security-1',
+      payload: { severity: 'critical', source: 'security-1', custom_details: { currentValue: 5000, threshold: 3000 } }
+    });
+    expect(standIn.json(1)).toMatchObject({ event_action: 'resolve', dedup_key: 'rule-1|security|security-1' });
+  });
+});
+
+describe('NotificationChannelRegistry', () => {
+  const registry = new NotificationChannelRegistry();
+
+  it('sends resolutions to PagerDuty unless the channel opts out', () => {
+    const pagerDuty = registry.validate({ id: 'pd', name: 'PagerDuty', type: 'pagerduty', config: { routingKey: 'key' } });
+    const webhook = registry.validate({ id: 'hook', name: 'Hook', type: 'webhook', config: { url: 'http://example.com' } });
+    const optedOut = registry.validate({ ...pagerDuty, sendResolved: false });
+
+    expect(registry.accepts(pagerDuty, alert({ resolved: true }))).toBe(true);
+    expect(registry.accepts(webhook, alert({ resolved: true }))).toBe(false);
+    expect(registry.accepts(optedOut, alert({ resolved: true }))).toBe(false);
+  });
+
+  it('validates config per channel type', () => {
+    expect(() => registry.validate({ name: 'PagerDuty', type: 'pagerduty', config: {} }))
+      .toThrow(NotificationChannelValidationError);
+    expect(() => registry.validate({ name: 'Hook', type: 'webhook', config: { url: 'http://example.com', secret: 1 } }))
+      .toThrow('config.secret must be a string');
+  });
+
+  it('masks credentials and keeps them when a masked channel is saved back', () => {
+    const stored = channel('webhook', { url: 'http://example.com', secret: 'hmac-secret', headers: { Authorization: 'Bearer token' } });
+    const redacted = registry.redact(stored);
+
+    expect(redacted.config).toEqual({ url: 'http://example.com', secret: REDACTED, headers: { Authorization: REDACTED } });
+    expect(stored.config.secret).toBe('hmac-secret');
+
+    const update = { config: { ...redacted.config, url: 'http://example.com/v2', headers: { Authorization: REDACTED, 'X-Team': 'ops' } } };
+    expect(registry.restoreSecrets(update, stored).config).toEqual({
+      url: 'http://example.com/v2',
+      secret: 'hmac-secret',
+      headers: { Authorization: 'Bearer token', 'X-Team': 'ops' }
+    });
+  });
+});
+
+describe('AlertManager notification channels', () => {
+  let storage: InMemoryMetricsStore;
+  let manager: AlertManager;
+
+  beforeEach(() => {
+    storage = new InMemoryMetricsStore();
+    manager = new AlertManager(storage);
+  });
+
+  afterEach(async () => {
+    manager.stop();
+    await storage.close();
+  });
+
+  it('never returns stored credentials', async () => {
+    await manager.createNotificationChannel({
+      id: 'pd',
+      name: 'PagerDuty',
+      type: 'pagerduty',
+      config: { routingKey: 'routing-key' }
+    });
+
+    expect((await manager.getNotificationChannel('pd'))?.config.routingKey).toBe(REDACTED);
+    expect((await manager.getNotificationChannels())[0].config.routingKey).toBe(REDACTED);
+
+    const updated = await manager.updateNotificationChannel('pd', { name: 'Paging', config: { routingKey: REDACTED } });
+    expect(updated).toMatchObject({ name: 'Paging', config: { routingKey: REDACTED } });
+    expect((await storage.getNotificationChannel('pd'))?.config.routingKey).toBe('routing-key');
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Notification Channels
+ * Senders for each channel type and the registry that dispatches alerts to them
+ */
+
+import crypto from 'crypto';
+import pino from 'pino';
+import nodemailer from 'nodemailer';
+import axios from 'axios';
+import { Alert, AlertSeverity, NotificationChannel, NotificationChannelType } from '@types/monitoring';
+
+const logger = pino({ transport: { target: 'pino-pretty' } });
+
+const PAGERDUTY_EVENTS_URL = 'https://events.pagerduty.com/v2/enqueue';
+
+// Stands in for credentials in channels returned by the API
+export const REDACTED = '[redacted]';
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  critical: '#ff0000',
+  high: '#ff6600',
+  medium: '#ffcc00',
+  low: '#00cc00',
+  info: '#0099ff'
+};
+
+/**
+ * Raised when a notification channel payload fails validation
+ */
+export class NotificationChannelValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationChannelValidationError';
+  }
+}
+
+export interface NotificationSender {
+  readonly type: NotificationChannelType;
+  // Config keys holding credentials; object values have each entry masked
+  readonly secretFields: string[];
+  // sendResolved for channels that do not set it
+  readonly sendResolvedByDefault?: boolean;
+  validateConfig(config: Record<string, any>): void;
+  send(alert: Alert, channel: NotificationChannel): Promise<void>;
+}
+
+function requireString(config: Record<string, any>, key: string): void {
+  if (!config[key] || typeof config[key] !== 'string') {
+    throw new NotificationChannelValidationError(`config.${key} is required`);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function alertEvent(alert: Alert): string {
+  if (alert.metadata?.test) return 'alert.test';
+  return alert.resolved ? 'alert.resolved' : 'alert.firing';
+}
+
+export class EmailSender implements NotificationSender {
+  readonly type = 'email';
+  readonly secretFields: string[] = [];
+  private transporter: nodemailer.Transporter | null = null;
+
+  constructor() {
+    if (process.env.EMAIL_SMTP_HOST && process.env.EMAIL_SMTP_PORT) {
+      this.transporter = nodemailer.createTransport({
+        host: process.env.EMAIL_SMTP_HOST,
+        port: parseInt(process.env.EMAIL_SMTP_PORT),
+        secure: process.env.EMAIL_SMTP_SECURE === 'true',
+        auth: {
+          user: process.env.EMAIL_SMTP_USER,
+          pass: process.env.EMAIL_SMTP_PASSWORD,
+        },
+      });
+    }
+  }
+
+  validateConfig(config: Record<string, any>): void {
+    const to = Array.isArray(config.to) ? config.to : [config.to];
+    if (to.length === 0 || to.some(address => !address || typeof address !== 'string')) {
+      throw new NotificationChannelValidationError('config.to must be an email address or a list of addresses');
+    }
+  }
+
+  async send(alert: Alert, channel: NotificationChannel): Promise<void> {
+    if (!this.transporter) {
+      throw new Error('SMTP is not configured (EMAIL_SMTP_HOST / EMAIL_SMTP_PORT)');
+    }
+
+    const status = alert.resolved ? 'RESOLVED' : alert.severity.toUpperCase();
+    const subject = `[${status}] ${alert.title}`;
+    const html = `
+      <h2>${alert.title}</h2>
+      <p><strong>Severity:</strong> ${alert.severity}</p>
+      <p><strong>Message:</strong> ${alert.message}</p>
+      <p><strong>Timestamp:</strong> ${new Date(alert.timestamp).toISOString()}</p>
+      <p><strong>Metric Type:</strong> ${alert.metricType}</p>
+      ${alert.agentType ? `<p><strong>Agent:</strong> ${alert.agentType}</p>` : ''}
+      <p><strong>Current Value:</strong> ${alert.currentValue}</p>
+      <p><strong>Threshold:</strong> ${alert.threshold}</p>
+    `;
+
+    await this.transporter.sendMail({
+      from: channel.config.from || process.env.EMAIL_FROM || 'monitoring@opencode.ai',
+      to: Array.isArray(channel.config.to) ? channel.config.to.join(',') : channel.config.to,
+      subject,
+      html
+    });
+  }
+}
+
+export class SlackSender implements NotificationSender {
+  readonly type = 'slack';
+  readonly secretFields = ['webhookUrl'];
+
+  validateConfig(config: Record<string, any>): void {
+    requireString(config, 'webhookUrl');
+  }
+
+  async send(alert: Alert, channel: NotificationChannel): Promise<void> {
+    const message = {
+      attachments: [
+        {
+          color: alert.resolved ? '#00cc00' : SEVERITY_COLORS[alert.severity],
+          title: alert.resolved ? `[Resolved] ${alert.title}` : alert.title,
+          text: alert.message,
+          fields: [
+            { title: 'Severity', value: alert.severity, short: true },
+            { title: 'Metric Type', value: alert.metricType, short: true },
+            { title: 'Current Value', value: alert.currentValue.toString(), short: true },
+            { title: 'Threshold', value: alert.threshold.toString(), short: true },
+            { title: 'Timestamp', value: new Date(alert.timestamp).toISOString(), short: false }
+          ]
+        }
+      ]
+    };
+
+    await axios.post(channel.config.webhookUrl, message);
+  }
+}
+
+/**
+ * Generic HTTP webhook. When a secret is configured the body is signed with
+ * HMAC-SHA256 over "<timestamp>.<body>" and sent in X-Monitoring-Signature.
+ */
+export class WebhookSender implements NotificationSender {
+  readonly type = 'webhook';
+  readonly secretFields = ['secret', 'headers'];
+
+  validateConfig(config: Record<string, any>): void {
+    requireString(config, 'url');
+    if (config.secret !== undefined && typeof config.secret !== 'string') {
+      throw new NotificationChannelValidationError('config.secret must be a string');
+    }
+    if (config.headers !== undefined && (typeof config.headers !== 'object' || Array.isArray(config.headers))) {
+      throw new NotificationChannelValidationError('config.headers must be an object');
+    }
+  }
+
+  async send(alert: Alert, channel: NotificationChannel): Promise<void> {
+    const body = JSON.stringify({
+      version: '1',
+      event: alertEvent(alert),
+      channel: { id: channel.id, name: channel.name },
+      alert
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...(channel.config.headers || {})
+    };
+
+    if (channel.config.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const signature = crypto
+        .createHmac('sha256', channel.config.secret)
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+      headers['X-Monitoring-Timestamp'] = timestamp;
+      headers['X-Monitoring-Signature'] = `sha256=${signature}`;
+    }
+
+    await axios.post(channel.config.url, body, { headers });
+  }
+}
+
+/**
+ * Microsoft Teams incoming webhook using a MessageCard
+ */
+export class TeamsSender implements NotificationSender {
+  readonly type = 'teams';
+  readonly secretFields = ['webhookUrl'];
+
+  validateConfig(config: Record<string, any>): void {
+    requireString(config, 'webhookUrl');
+  }
+
+  async send(alert: Alert, channel: NotificationChannel): Promise<void> {
+    const card = {
+      '@type': 'MessageCard',
+      '@context': 'https://schema.org/extensions',
+      themeColor: (alert.resolved ? '#00cc00' : SEVERITY_COLORS[alert.severity]).replace('#', ''),
+      summary: alert.title,
+      title: alert.resolved ? `[Resolved] ${alert.title}` : `[${alert.severity.toUpperCase()}] ${alert.title}`,
+      sections: [
+        {
+          text: alert.message,
+          facts: [
+            { name: 'Severity', value: alert.severity },
+            { name: 'Metric Type', value: alert.metricType },
+            ...(alert.agentType ? [{ name: 'Agent', value: alert.agentType }] : []),
+            { name: 'Current Value', value: alert.currentValue.toString() },
+            { name: 'Threshold', value: alert.threshold.toString() },
+            { name: 'Timestamp', value: new Date(alert.timestamp).toISOString() }
+          ]
+        }
+      ]
+    };
+
+    await axios.post(channel.config.webhookUrl, card);
+  }
+}
+
+/**
+ * PagerDuty Events API v2. The alert fingerprint is used as dedup_key so a
+ * resolved alert resolves the incident it opened, which is why these
+ * channels send resolutions unless told not to.
+ */
+export class PagerDutySender implements NotificationSender {
+  readonly type = 'pagerduty';
+  readonly secretFields = ['routingKey'];
+  readonly sendResolvedByDefault = true;
+
+  validateConfig(config: Record<string, any>): void {
+    requireString(config, 'routingKey');
+    if (config.url !== undefined && typeof config.url !== 'string') {
+      throw new NotificationChannelValidationError('config.url must be a string');
+    }
+  }
+
+  async send(alert: Alert, channel: NotificationChannel): Promise<void> {
+    const event = {
+      routing_key: channel.config.routingKey,
+      event_action: alert.resolved ? 'resolve' : 'trigger',
+      dedup_key: alert.fingerprint || alert.id,
+      payload: {
+        summary: `${alert.title}: ${alert.message}`,
+        source: alert.metadata?.agentId || alert.agentType || 'frontend-design-monitoring',
+        severity: this.mapSeverity(alert.severity),
+        timestamp: new Date(alert.timestamp).toISOString(),
+        component: alert.agentType,
+        group: alert.metricType,
+        class: alert.type,
+        custom_details: {
+          currentValue: alert.currentValue,
+          threshold: alert.threshold,
+          ruleId: alert.ruleId,
+          ...alert.metadata
+        }
+      }
+    };
+
+    await axios.post(channel.config.url || PAGERDUTY_EVENTS_URL, event);
+  }
+
+  private mapSeverity(severity: AlertSeverity): 'critical' | 'error' | 'warning' | 'info' {
+    switch (severity) {
+      case AlertSeverity.CRITICAL:
+        return 'critical';
+      case AlertSeverity.HIGH:
+        return 'error';
+      case AlertSeverity.MEDIUM:
+        return 'warning';
+      default:
+        return 'info';
+    }
+  }
+}
+
+export class NotificationChannelRegistry {
+  private senders: Map<NotificationChannelType, NotificationSender> = new Map();
+
+  constructor(senders: NotificationSender[] = [
+    new EmailSender(),
+    new SlackSender(),
+    new WebhookSender(),
+    new TeamsSender(),
+    new PagerDutySender()
+  ]) {
+    senders.forEach(sender => this.register(sender));
+  }
+
+  register(sender: NotificationSender): void {
+    this.senders.set(sender.type, sender);
+  }
+
+  getTypes(): NotificationChannelType[] {
+    return Array.from(this.senders.keys());
+  }
+
+  validate(channel: Partial<NotificationChannel>): NotificationChannel {
+    if (!channel.name || typeof channel.name !== 'string') {
+      throw new NotificationChannelValidationError('name is required');
+    }
+
+    const sender = channel.type ? this.senders.get(channel.type) : undefined;
+    if (!sender) {
+      throw new NotificationChannelValidationError(`type must be one of: ${this.getTypes().join(', ')}`);
+    }
+
+    if (!channel.config || typeof channel.config !== 'object' || Array.isArray(channel.config)) {
+      throw new NotificationChannelValidationError('config must be an object');
+    }
+    sender.validateConfig(channel.config);
+
+    if (channel.severities !== undefined && channel.severities !== null) {
+      if (!Array.isArray(channel.severities) ||
+          channel.severities.some(severity => !Object.values(AlertSeverity).includes(severity))) {
+        throw new NotificationChannelValidationError(
+          `severities must be a list of: ${Object.values(AlertSeverity).join(', ')}`
+        );
+      }
+    }
+
+    return {
+      id: channel.id!,
+      name: channel.name,
+      type: channel.type!,
+      enabled: channel.enabled ?? true,
+      config: channel.config,
+      severities: channel.severities || undefined,
+      sendResolved: channel.sendResolved ?? sender.sendResolvedByDefault ?? false
+    };
+  }
+
+  /**
+   * A copy of the channel with its credentials masked, for API responses
+   */
+  redact(channel: NotificationChannel): NotificationChannel {
+    const config = { ...channel.config };
+    for (const field of this.senders.get(channel.type)?.secretFields ?? []) {
+      if (config[field] === undefined) continue;
+      config[field] = isPlainObject(config[field])
+        ? Object.fromEntries(Object.keys(config[field]).map(key => [key, REDACTED]))
+        : REDACTED;
+    }
+
+    return { ...channel, config };
+  }
+
+  /**
+   * An update to a channel with the credentials a client sent back masked
+   * replaced by their stored values, so a redacted channel can be edited
+   * and saved without losing them
+   */
+  restoreSecrets(update: Partial<NotificationChannel>, existing: NotificationChannel): Partial<NotificationChannel> {
+    if (!isPlainObject(update.config) || (update.type && update.type !== existing.type)) return update;
+
+    const config = { ...update.config };
+    for (const field of this.senders.get(existing.type)?.secretFields ?? []) {
+      const stored = existing.config[field];
+      if (config[field] === REDACTED) {
+        config[field] = stored;
+      } else if (isPlainObject(config[field]) && isPlainObject(stored)) {
+        config[field] = Object.fromEntries(Object.entries(config[field])
+          .map(([key, value]) => [key, value === REDACTED ? stored[key] : value]));
+      }
+    }
+
+    return { ...update, config };
+  }
+
+  /**
+   * Whether the channel accepts this alert given its enabled flag and severity filter
+   */
+  accepts(channel: NotificationChannel, alert: Alert): boolean {
+    if (!channel.enabled) return false;
+    if (alert.resolved && !channel.sendResolved) return false;
+    return !channel.severities || channel.severities.length === 0 || channel.severities.includes(alert.severity);
+  }
+
+  async send(alert: Alert, channel: NotificationChannel): Promise<void> {
+    const sender = this.senders.get(channel.type);
+    if (!sender) {
+      throw new Error(`No sender registered for channel type ${channel.type}`);
+    }
+
+    await sender.send(alert, channel);
+    logger.info({ alertId: alert.id, channelId: channel.id, type: channel.type }, 'Notification sent');
+  }
+}
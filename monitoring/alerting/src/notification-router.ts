@@ -0,0 +1,282 @@
+/**
+ * Notification Routing
+ * Routes alerts to channels by label, groups them into digests and
+ * suppresses alerts that are inhibited by a more severe firing alert
+ * or muted by a silence
+ */
+
+import { promises as fs } from 'fs';
+import pino from 'pino';
+import {
+  Alert,
+  AlertSeverity,
+  AlertType,
+  InhibitRule,
+  LabelMatchers,
+  NotificationRoute,
+  NotificationRoutingConfig
+} from '@types/monitoring';
+
+const logger = pino({ transport: { target: 'pino-pretty' } });
+
+const SEVERITY_ORDER: AlertSeverity[] = [
+  AlertSeverity.INFO,
+  AlertSeverity.LOW,
+  AlertSeverity.MEDIUM,
+  AlertSeverity.HIGH,
+  AlertSeverity.CRITICAL
+];
+
+export const DEFAULT_ROUTING_CONFIG: NotificationRoutingConfig = {
+  route: {
+    groupBy: ['ruleId'],
+    groupWait: 30,
+    groupInterval: 300
+  },
+  inhibitRules: [
+    {
+      sourceMatchers: { alertType: AlertType.SYSTEM_HEALTH, severity: AlertSeverity.CRITICAL },
+      targetMatchers: {
+        severity: [AlertSeverity.HIGH, AlertSeverity.MEDIUM, AlertSeverity.LOW, AlertSeverity.INFO]
+      },
+      equal: ['component']
+    }
+  ]
+};
+
+type DeliverFn = (alert: Alert, channelIds: string[]) => Promise<void>;
+type FiringAlertsFn = () => Promise<Alert[]>;
+type MutedFn = (alert: Alert) => Promise<boolean>;
+
+interface AlertGroup {
+  key: string;
+  route: NotificationRoute;
+  channels: Set<string>;
+  alerts: Map<string, Alert>;
+  timer: NodeJS.Timeout | null;
+  lastFlush: number;
+}
+
+/**
+ * Labels an alert can be routed, grouped and inhibited by
+ */
+export function alertLabels(alert: Alert): Record<string, string> {
+  return {
+    severity: alert.severity,
+    alertType: alert.type,
+    metricType: alert.metricType,
+    agentType: alert.agentType || '',
+    agentId: alert.metadata?.agentId || '',
+    ruleId: alert.ruleId || '',
+    component: alert.metadata?.component || ''
+  };
+}
+
+export function matchesLabels(labels: Record<string, string>, matchers: LabelMatchers = {}): boolean {
+  return Object.entries(matchers).every(([label, expected]) => {
+    const value = labels[label] || '';
+    return Array.isArray(expected) ? expected.includes(value) : expected === value;
+  });
+}
+
+export async function loadRoutingConfig(): Promise<NotificationRoutingConfig> {
+  const configPath = process.env.ALERT_ROUTING_CONFIG;
+  if (!configPath) return DEFAULT_ROUTING_CONFIG;
+
+  const config = JSON.parse(await fs.readFile(configPath, 'utf-8')) as NotificationRoutingConfig;
+  if (!config.route) {
+    throw new Error(`Routing config ${configPath} has no root route`);
+  }
+
+  logger.info({ configPath }, 'Loaded alert routing config');
+  return { inhibitRules: DEFAULT_ROUTING_CONFIG.inhibitRules, ...config };
+}
+
+export class NotificationRouter {
+  private config: NotificationRoutingConfig;
+  private deliver: DeliverFn;
+  private getFiringAlerts: FiringAlertsFn;
+  private isMuted: MutedFn;
+  private groups: Map<string, AlertGroup> = new Map();
+
+  constructor(
+    config: NotificationRoutingConfig,
+    deliver: DeliverFn,
+    getFiringAlerts: FiringAlertsFn,
+    isMuted: MutedFn = async () => false
+  ) {
+    this.config = config;
+    this.deliver = deliver;
+    this.getFiringAlerts = getFiringAlerts;
+    this.isMuted = isMuted;
+  }
+
+  setConfig(config: NotificationRoutingConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Route an alert. Firing alerts are grouped and delivered after the
+   * route's group_wait; resolved alerts are delivered right away unless
+   * silenced. ruleChannels are used for routes that don't name channels themselves.
+   */
+  async dispatch(alert: Alert, ruleChannels: string[]): Promise<void> {
+    const labels = alertLabels(alert);
+    if (alert.resolved && await this.isMuted(alert)) return;
+
+    for (const { id, route } of this.matchRoutes(labels)) {
+      const channels = route.channels || ruleChannels;
+      if (channels.length === 0) continue;
+
+      if (alert.resolved) {
+        await this.deliver(alert, channels);
+        continue;
+      }
+
+      this.addToGroup(id, route, labels, alert, channels);
+    }
+  }
+
+  /**
+   * Whether a firing alert should be suppressed because a matching source
+   * alert is firing with the same values for the rule's `equal` labels
+   */
+  isInhibited(alert: Alert, firing: Alert[]): boolean {
+    const labels = alertLabels(alert);
+
+    return (this.config.inhibitRules || []).some((rule: InhibitRule) => {
+      if (!matchesLabels(labels, rule.targetMatchers)) return false;
+
+      return firing.some(source => {
+        if (source.id === alert.id || source.resolved) return false;
+        const sourceLabels = alertLabels(source);
+        return matchesLabels(sourceLabels, rule.sourceMatchers) &&
+          (rule.equal || []).every(label => sourceLabels[label] === labels[label]);
+      });
+    });
+  }
+
+  stop(): void {
+    for (const group of this.groups.values()) {
+      if (group.timer) clearTimeout(group.timer);
+    }
+    this.groups.clear();
+  }
+
+  /**
+   * Depth-first route matching: the first matching child wins unless it sets
+   * `continue`; a route with no matching children handles the alert itself
+   */
+  private matchRoutes(labels: Record<string, string>): Array<{ id: string; route: NotificationRoute }> {
+    const walk = (route: NotificationRoute, id: string, inherited: NotificationRoute): Array<{ id: string; route: NotificationRoute }> => {
+      const effective: NotificationRoute = {
+        ...route,
+        channels: route.channels ?? inherited.channels,
+        groupBy: route.groupBy ?? inherited.groupBy,
+        groupWait: route.groupWait ?? inherited.groupWait,
+        groupInterval: route.groupInterval ?? inherited.groupInterval
+      };
+
+      const matched: Array<{ id: string; route: NotificationRoute }> = [];
+      for (const [index, child] of (route.routes || []).entries()) {
+        if (!matchesLabels(labels, child.matchers)) continue;
+        matched.push(...walk(child, `${id}.${index}`, effective));
+        if (!child.continue) break;
+      }
+
+      return matched.length > 0 ? matched : [{ id, route: effective }];
+    };
+
+    return walk(this.config.route, 'root', {});
+  }
+
+  private addToGroup(
+    routeId: string,
+    route: NotificationRoute,
+    labels: Record<string, string>,
+    alert: Alert,
+    channels: string[]
+  ): void {
+    const groupBy = route.groupBy || [];
+    const key = `${routeId}:${groupBy.map(label => `${label}=${labels[label] || ''}`).join(',')}`;
+
+    let group = this.groups.get(key);
+    if (!group) {
+      group = { key, route, channels: new Set(), alerts: new Map(), timer: null, lastFlush: 0 };
+      this.groups.set(key, group);
+    }
+
+    channels.forEach(channel => group!.channels.add(channel));
+    group.alerts.set(alert.id, alert);
+
+    if (!group.timer) {
+      const delay = group.lastFlush === 0
+        ? (route.groupWait ?? 0) * 1000
+        : Math.max(0, group.lastFlush + (route.groupInterval ?? 0) * 1000 - Date.now());
+      group.timer = setTimeout(() => {
+        this.flush(group!).catch(error => logger.error({ error, group: key }, 'Failed to flush alert group'));
+      }, delay);
+    }
+  }
+
+  private async flush(group: AlertGroup): Promise<void> {
+    group.timer = null;
+    group.lastFlush = Date.now();
+
+    const firing = await this.getFiringAlerts();
+    const alerts: Alert[] = [];
+    for (const alert of group.alerts.values()) {
+      if (alert.resolved || alert.acknowledged || this.isInhibited(alert, firing)) continue;
+      if (await this.isMuted(alert)) continue;
+      alerts.push(alert);
+    }
+    const channels = Array.from(group.channels);
+
+    group.alerts.clear();
+    group.channels.clear();
+
+    if (alerts.length === 0) {
+      this.groups.delete(group.key);
+      return;
+    }
+
+    const notification = alerts.length === 1 ? alerts[0] : this.buildDigest(group.key, alerts);
+    await this.deliver(notification, channels);
+  }
+
+  private buildDigest(key: string, alerts: Alert[]): Alert {
+    const severity = alerts.reduce(
+      (highest, alert) => SEVERITY_ORDER.indexOf(alert.severity) > SEVERITY_ORDER.indexOf(highest) ? alert.severity : highest,
+      AlertSeverity.INFO
+    );
+    const first = alerts[0];
+    const agentTypes = new Set(alerts.map(alert => alert.agentType));
+
+    return {
+      id: `digest-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type: first.type,
+      severity,
+      title: `${alerts.length} alerts: ${first.title}`,
+      message: alerts.map(alert => `${alert.title} (${alert.severity}): ${alert.message}`).join('\n'),
+      timestamp: new Date(),
+      agentType: agentTypes.size === 1 ? first.agentType : undefined,
+      metricType: first.metricType,
+      ruleId: first.ruleId,
+      fingerprint: key,
+      currentValue: first.currentValue,
+      threshold: first.threshold,
+      metadata: {
+        digest: true,
+        alerts: alerts.map(alert => ({
+          id: alert.id,
+          title: alert.title,
+          severity: alert.severity,
+          message: alert.message,
+          agentType: alert.agentType
+        }))
+      },
+      acknowledged: false,
+      resolved: false
+    };
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Rule Scheduler
+ * Evaluates all alert rules against storage on a fixed interval. Only the
+ * replica holding the store's leader lock (a Postgres advisory lock) evaluates,
+ * so running several alerting processes does not fire alerts twice.
+ */
+
+import pino from 'pino';
+import { LeaderLock, MetricsStore } from '../../collector/src/store';
+import { AlertManager } from './alert-manager';
+
+const logger = pino({ transport: { target: 'pino-pretty' } });
+
+// Arbitrary, but shared by every alerting replica
+const DEFAULT_LEADER_LOCK_KEY = 74110;
+
+export interface RuleSchedulerOptions {
+  intervalMs?: number;
+  lockKey?: number;
+}
+
+export class RuleScheduler {
+  private alertManager: AlertManager;
+  private storage: MetricsStore;
+  private intervalMs: number;
+  private lockKey: number;
+  private lock: LeaderLock | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private stopped = false;
+
+  constructor(alertManager: AlertManager, storage: MetricsStore, options: RuleSchedulerOptions = {}) {
+    this.alertManager = alertManager;
+    this.storage = storage;
+    this.intervalMs = options.intervalMs ?? parseInt(process.env.ALERT_EVALUATION_INTERVAL_SECONDS || '30') * 1000;
+    this.lockKey = options.lockKey ?? parseInt(process.env.ALERT_LEADER_LOCK_KEY || String(DEFAULT_LEADER_LOCK_KEY));
+  }
+
+  start(): void {
+    this.stopped = false;
+    logger.info({ intervalMs: this.intervalMs }, 'Rule scheduler started');
+    this.schedule(0);
+  }
+
+  isLeader(): boolean {
+    return this.lock !== null;
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.lock) {
+      const lock = this.lock;
+      this.lock = null;
+      try {
+        await lock.release();
+      } catch (error) {
+        logger.error({ error }, 'Failed to release alerting leader lock');
+      }
+    }
+  }
+
+  /**
+   * Ticks are chained with setTimeout so a slow evaluation never overlaps the next one
+   */
+  private schedule(delay: number): void {
+    if (this.stopped) return;
+    this.timer = setTimeout(() => {
+      this.tick().finally(() => this.schedule(this.intervalMs));
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      if (!(await this.ensureLeadership())) return;
+
+      const startedAt = Date.now();
+      await this.alertManager.evaluateAllRules();
+      logger.debug({ durationMs: Date.now() - startedAt }, 'Alert rules evaluated');
+    } catch (error) {
+      logger.error({ error }, 'Scheduled rule evaluation failed');
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Keep or take the leader lock. A held lock is checked on each tick since
+   * it disappears with its connection.
+   */
+  private async ensureLeadership(): Promise<boolean> {
+    if (this.lock) {
+      if (await this.lock.check()) return true;
+      logger.warn({ lockKey: this.lockKey }, 'Lost alerting leader lock');
+      this.lock = null;
+    }
+
+    const lock = await this.storage.tryAcquireLock(this.lockKey);
+    if (!lock) return false;
+
+    if (this.stopped) {
+      await lock.release();
+      return false;
+    }
+
+    this.lock = lock;
+    logger.info({ lockKey: this.lockKey }, 'Acquired alerting leader lock');
+    return true;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Silences and Maintenance Windows
+ * Validation and time matching for one-off silences and weekly recurring
+ * maintenance windows. Both mute notifications for alerts whose labels
+ * match; the alerts themselves are still recorded.
+ */
+
+import { LabelMatchers, MaintenanceWindow, Silence } from '@types/monitoring';
+
+const MATCHABLE_LABELS = ['severity', 'alertType', 'metricType', 'agentType', 'agentId', 'ruleId', 'component'];
+
+const START_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Raised when a silence or maintenance window payload fails validation
+ */
+export class SilenceValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SilenceValidationError';
+  }
+}
+
+export function isSilenceActive(silence: Silence, at: Date = new Date()): boolean {
+  return new Date(silence.startsAt).getTime() <= at.getTime() && at.getTime() < new Date(silence.endsAt).getTime();
+}
+
+/**
+ * A window is active if an occurrence started on one of its days at
+ * startTime (UTC) and has not yet run for durationMinutes. Occurrences that
+ * started on earlier days are checked so windows can span midnight.
+ */
+export function isMaintenanceWindowActive(window: MaintenanceWindow, at: Date = new Date()): boolean {
+  if (!window.enabled) return false;
+
+  const [hours, minutes] = window.startTime.split(':').map(Number);
+  const daysBack = Math.ceil(window.durationMinutes / MINUTES_PER_DAY);
+
+  for (let offset = 0; offset <= daysBack; offset++) {
+    const start = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() - offset, hours, minutes));
+    if (!window.daysOfWeek.includes(start.getUTCDay())) continue;
+
+    const end = start.getTime() + window.durationMinutes * 60 * 1000;
+    if (start.getTime() <= at.getTime() && at.getTime() < end) return true;
+  }
+
+  return false;
+}
+
+function validateMatchers(matchers: unknown): LabelMatchers {
+  if (matchers === undefined || matchers === null) return {};
+  if (typeof matchers !== 'object' || Array.isArray(matchers)) {
+    throw new SilenceValidationError('matchers must be an object of label -> value');
+  }
+
+  for (const [label, value] of Object.entries(matchers as Record<string, unknown>)) {
+    if (!MATCHABLE_LABELS.includes(label)) {
+      throw new SilenceValidationError(`Unknown matcher label "${label}", expected one of: ${MATCHABLE_LABELS.join(', ')}`);
+    }
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length === 0 || values.some(v => typeof v !== 'string')) {
+      throw new SilenceValidationError(`matchers.${label} must be a string or a list of strings`);
+    }
+  }
+
+  return matchers as LabelMatchers;
+}
+
+function parseDate(value: unknown, field: string): Date {
+  const date = value instanceof Date ? value : new Date(value as string);
+  if (value === undefined || value === null || isNaN(date.getTime())) {
+    throw new SilenceValidationError(`${field} must be an ISO 8601 timestamp`);
+  }
+  return date;
+}
+
+export function validateSilence(input: Partial<Silence>, now: Date = new Date()): Silence {
+  const matchers = validateMatchers(input.matchers);
+  if (Object.keys(matchers).length === 0) {
+    throw new SilenceValidationError('matchers must contain at least one label');
+  }
+
+  const startsAt = input.startsAt !== undefined ? parseDate(input.startsAt, 'startsAt') : now;
+  const endsAt = parseDate(input.endsAt, 'endsAt');
+  if (endsAt.getTime() <= startsAt.getTime()) {
+    throw new SilenceValidationError('endsAt must be after startsAt');
+  }
+  if (endsAt.getTime() <= now.getTime()) {
+    throw new SilenceValidationError('endsAt must be in the future');
+  }
+
+  if (!input.createdBy || typeof input.createdBy !== 'string') {
+    throw new SilenceValidationError('createdBy is required');
+  }
+  if (!input.comment || typeof input.comment !== 'string') {
+    throw new SilenceValidationError('comment is required');
+  }
+
+  return {
+    id: input.id!,
+    matchers,
+    startsAt,
+    endsAt,
+    createdBy: input.createdBy,
+    comment: input.comment
+  };
+}
+
+export function validateMaintenanceWindow(input: Partial<MaintenanceWindow>): MaintenanceWindow {
+  if (!input.name || typeof input.name !== 'string') {
+    throw new SilenceValidationError('name is required');
+  }
+
+  if (!Array.isArray(input.daysOfWeek) || input.daysOfWeek.length === 0 ||
+      input.daysOfWeek.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new SilenceValidationError('daysOfWeek must be a non-empty list of days 0 (Sunday) to 6 (Saturday)');
+  }
+
+  if (typeof input.startTime !== 'string' || !START_TIME_PATTERN.test(input.startTime)) {
+    throw new SilenceValidationError('startTime must be HH:MM (UTC)');
+  }
+
+  if (typeof input.durationMinutes !== 'number' || !Number.isInteger(input.durationMinutes) ||
+      input.durationMinutes <= 0 || input.durationMinutes > 7 * MINUTES_PER_DAY) {
+    throw new SilenceValidationError('durationMinutes must be a whole number of minutes up to one week');
+  }
+
+  if (!input.createdBy || typeof input.createdBy !== 'string') {
+    throw new SilenceValidationError('createdBy is required');
+  }
+
+  return {
+    id: input.id!,
+    name: input.name,
+    enabled: input.enabled ?? true,
+    matchers: validateMatchers(input.matchers),
+    daysOfWeek: Array.from(new Set(input.daysOfWeek)).sort((a, b) => a - b),
+    startTime: input.startTime,
+    durationMinutes: input.durationMinutes,
+    createdBy: input.createdBy,
+    comment: input.comment
+  };
+}
@@ -0,0 +1,59 @@
+import { ApiKeyAuthenticator, AuthenticationError, AuthorizationError, requiredRole } from './auth';
+import { InMemoryMetricsStore } from './memory-store';
+
+describe('requiredRole', () => {
+  it('maps routes to the role they need', () => {
+    expect(requiredRole('GET', '/health')).toBeNull();
+    expect(requiredRole('OPTIONS', '/api/v1/alerts')).toBeNull();
+    expect(requiredRole('POST', '/api/v1/metrics/agent')).toBe('ingest');
+    expect(requiredRole('POST', '/v1/traces')).toBe('ingest');
+    expect(requiredRole('GET', '/api/v1/alerts')).toBe('read');
+    expect(requiredRole('POST', '/api/v1/alerts/alert-1/acknowledge')).toBe('admin');
+    expect(requiredRole('GET', '/api/v1/auth/keys')).toBe('admin');
+  });
+
+  it('matches paths the way Express routes them', () => {
+    for (const path of ['/API/v1/auth/keys', '/api/V1/Auth/keys', '/api/v1/auth/keys/', '/api//v1/auth/keys']) {
+      expect(requiredRole('GET', path)).toBe('admin');
+    }
+    expect(requiredRole('POST', '/API/V1/Agents/Heartbeat/')).toBe('ingest');
+    expect(requiredRole('GET', '/Health/')).toBeNull();
+  });
+});
+
+describe('ApiKeyAuthenticator', () => {
+  const env = process.env.COLLECTOR_AUTH_ENABLED;
+  let storage: InMemoryMetricsStore;
+  let auth: ApiKeyAuthenticator;
+
+  beforeEach(() => {
+    process.env.COLLECTOR_AUTH_ENABLED = 'true';
+    storage = new InMemoryMetricsStore();
+    auth = new ApiKeyAuthenticator(storage);
+  });
+
+  afterEach(async () => {
+    if (env === undefined) {
+      delete process.env.COLLECTOR_AUTH_ENABLED;
+    } else {
+      process.env.COLLECTOR_AUTH_ENABLED = env;
+    }
+    await storage.close();
+  });
+
+  it('keeps read keys out of key management whatever the path case', async () => {
+    const { key } = await auth.createKey({ name: 'dashboard', role: 'read' });
+
+    await expect(auth.authorize('GET', '/api/v1/alerts', key)).resolves.toMatchObject({ role: 'read' });
+    await expect(auth.authorize('GET', '/API/v1/auth/keys', key)).rejects.toThrow(AuthorizationError);
+    await expect(auth.authorize('POST', '/api/v1/AUTH/keys', key)).rejects.toThrow(AuthorizationError);
+  });
+
+  it('rejects missing and revoked keys', async () => {
+    const { apiKey, key } = await auth.createKey({ name: 'agent', role: 'ingest', scope: 'agent' });
+    await auth.revokeKey(apiKey.id);
+
+    await expect(auth.authorize('GET', '/api/v1/alerts')).rejects.toThrow(AuthenticationError);
+    await expect(auth.authorize('POST', '/api/v1/metrics/agent', key)).rejects.toThrow('Invalid or revoked API key');
+  });
+});
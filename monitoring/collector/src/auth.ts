@@ -0,0 +1,245 @@
+/**
+ * API Key Authentication
+ * Keys are random tokens shown once when created; only their SHA-256 hash is
+ * stored. Clients send a key as `Authorization: Bearer <key>` or `X-API-Key`.
+ * Browsers cannot set headers on WebSocket connections, so WebSocket clients
+ * may pass it as the `apiKey` query parameter instead.
+ *
+ * Authentication is off unless COLLECTOR_AUTH_ENABLED=true.
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import pino from 'pino';
+import { AgentType, ApiKey, ApiKeyRole, ApiKeyScope, BatchItemType } from '@types/monitoring';
+import { MetricsStore } from './store';
+
+const logger = pino({ transport: { target: 'pino-pretty' } });
+
+const KEY_PREFIX = 'mk_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+// last_used_at is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60000;
+
+/**
+ * Which kind of ingest key may write each batch record type
+ */
+export const BATCH_ITEM_SCOPES: Record<BatchItemType, ApiKeyScope> = {
+  agent_metrics: 'agent',
+  context7_query: 'agent',
+  tool_usage: 'agent',
+  agent_task: 'agent',
+  agent_handoff: 'agent',
+  span: 'agent',
+  app_metrics: 'browser',
+  core_web_vitals: 'browser',
+  bundle_size: 'browser'
+};
+
+/**
+ * Raised when a request has no valid API key (401)
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Raised when a valid API key is not allowed to make a request (403)
+ */
+export class AuthorizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Read the key from the Authorization or X-API-Key header, or from the
+ * apiKey query parameter of a WebSocket upgrade URL
+ */
+export function getCredential(headers: http.IncomingHttpHeaders, url?: string): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  const apiKeyHeader = headers['x-api-key'];
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+    return apiKeyHeader;
+  }
+
+  if (url) {
+    return new URL(url, 'http://localhost').searchParams.get('apiKey') || undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Role a request needs: ingestion routes (including the OTLP receiver) take
+ * ingest keys, other reads take
+ * read keys, and everything else (key management, alerting configuration,
+ * acknowledging alerts) takes admin keys. Admin keys may do anything.
+ */
+export function requiredRole(method: string, requestPath: string): ApiKeyRole | null {
+  // Express routes ignore case and a trailing slash, so /API/v1/auth/keys/
+  // reaches the same handler as /api/v1/auth/keys
+  const path = requestPath.toLowerCase().replace(/\/{2,}/g, '/').replace(/(.)\/$/, '$1');
+
+  // CORS preflights never carry credentials
+  if (method === 'OPTIONS' || path === '/health') return null;
+  if (path.startsWith('/api/v1/auth/')) return 'admin';
+
+  const isIngestion = path.startsWith('/api/v1/metrics/') ||
+    path === '/api/v1/agents/heartbeat' ||
+    path === '/api/v1/agents/tasks' ||
+    path === '/api/v1/agents/handoffs' ||
+    path === '/api/v1/traces/spans' ||
+    path === '/v1/traces' ||
+    path === '/v1/metrics';
+  if (method === 'POST' && isIngestion) return 'ingest';
+
+  if (method === 'GET' || method === 'HEAD') return 'read';
+
+  return 'admin';
+}
+
+export class ApiKeyAuthenticator {
+  private storage: MetricsStore;
+  private enabled = process.env.COLLECTOR_AUTH_ENABLED === 'true';
+  private adminKeyHash = process.env.COLLECTOR_ADMIN_API_KEY ? hashApiKey(process.env.COLLECTOR_ADMIN_API_KEY) : null;
+  private cacheTtlMs = parseInt(process.env.API_KEY_CACHE_TTL_SECONDS || '60') * 1000;
+  private cache: Map<string, { apiKey: ApiKey; expiresAt: number }> = new Map();
+  private lastTouched: Map<string, number> = new Map();
+
+  constructor(storage: MetricsStore) {
+    this.storage = storage;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Resolve the request's key and check its role. Returns undefined when
+   * authentication is disabled or the route is public.
+   */
+  async authorize(method: string, path: string, credential?: string): Promise<ApiKey | undefined> {
+    if (!this.enabled) return undefined;
+
+    const role = requiredRole(method, path);
+    if (!role) return undefined;
+
+    if (!credential) {
+      throw new AuthenticationError('API key required');
+    }
+
+    const apiKey = await this.authenticate(credential);
+    if (!apiKey) {
+      throw new AuthenticationError('Invalid or revoked API key');
+    }
+
+    if (apiKey.role !== 'admin' && apiKey.role !== role) {
+      throw new AuthorizationError(`This endpoint requires the ${role} role`);
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Check an ingest key's scope against a record. Agent scoped keys limited
+   * to some agent types may only report for those types.
+   */
+  assertCanIngest(apiKey: ApiKey | undefined, scope: ApiKeyScope, agentType?: AgentType): void {
+    if (!apiKey || apiKey.role === 'admin') return;
+
+    if (apiKey.scope !== scope) {
+      throw new AuthorizationError(`API key is scoped to ${apiKey.scope} metrics`);
+    }
+
+    if (scope === 'agent' && agentType && apiKey.agentTypes?.length && !apiKey.agentTypes.includes(agentType)) {
+      throw new AuthorizationError(`API key may not report for agent type ${agentType}`);
+    }
+  }
+
+  async listKeys(): Promise<ApiKey[]> {
+    return this.storage.getApiKeys();
+  }
+
+  /**
+   * Create a key. The plaintext key is only available in the return value.
+   */
+  async createKey(input: Omit<ApiKey, 'id' | 'keyPrefix' | 'createdAt'>): Promise<{ apiKey: ApiKey; key: string }> {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+
+    const apiKey = await this.storage.createApiKey({
+      ...input,
+      id: `key-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      createdAt: new Date()
+    }, hashApiKey(key));
+
+    return { apiKey, key };
+  }
+
+  async revokeKey(id: string): Promise<ApiKey | null> {
+    const apiKey = await this.storage.revokeApiKey(id);
+
+    // Other collector replicas stop accepting the key once their cache entry expires
+    for (const [hash, entry] of this.cache) {
+      if (entry.apiKey.id === id) this.cache.delete(hash);
+    }
+
+    return apiKey;
+  }
+
+  private async authenticate(credential: string): Promise<ApiKey | null> {
+    const hash = hashApiKey(credential);
+
+    if (this.adminKeyHash && crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(this.adminKeyHash))) {
+      return {
+        id: 'bootstrap-admin',
+        name: 'COLLECTOR_ADMIN_API_KEY',
+        role: 'admin',
+        keyPrefix: credential.slice(0, DISPLAY_PREFIX_LENGTH),
+        createdAt: new Date(0)
+      };
+    }
+
+    const cached = this.cache.get(hash);
+    if (cached && cached.expiresAt > Date.now()) {
+      this.touch(cached.apiKey);
+      return cached.apiKey;
+    }
+
+    const apiKey = await this.storage.getApiKeyByHash(hash);
+    if (!apiKey) {
+      this.cache.delete(hash);
+      return null;
+    }
+
+    // Never cache a key past its own expiry
+    const expiresAt = Math.min(Date.now() + this.cacheTtlMs, apiKey.expiresAt ? new Date(apiKey.expiresAt).getTime() : Infinity);
+    this.cache.set(hash, { apiKey, expiresAt });
+    this.touch(apiKey);
+
+    return apiKey;
+  }
+
+  private touch(apiKey: ApiKey): void {
+    const now = Date.now();
+    if (now - (this.lastTouched.get(apiKey.id) || 0) < LAST_USED_RESOLUTION_MS) return;
+
+    this.lastTouched.set(apiKey.id, now);
+    this.storage.touchApiKey(apiKey.id, new Date(now))
+      .catch(error => logger.warn({ error, keyId: apiKey.id }, 'Failed to record API key use'));
+  }
+}
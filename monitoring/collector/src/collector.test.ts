@@ -0,0 +1,67 @@
+import { AddressInfo } from 'net';
+import { AgentType, SystemHealth } from '@types/monitoring';
+import { MetricsCollector } from './collector';
+
+describe('MetricsCollector rate limiting', () => {
+  const env = { ...process.env };
+  let collector: MetricsCollector;
+  let baseUrl: string;
+
+  const heartbeat = (agentId: string) => fetch(`${baseUrl}/api/v1/agents/heartbeat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ agentId, agentType: AgentType.SECURITY })
+  });
+
+  beforeEach(async () => {
+    // Buckets that do not noticeably refill while the test runs
+    process.env.METRICS_STORE = 'memory';
+    process.env.RATE_LIMIT_SOURCE_PER_SECOND = '0.001';
+    process.env.RATE_LIMIT_SOURCE_BURST = '3';
+    process.env.RATE_LIMIT_AGENT_PER_SECOND = '0.001';
+    process.env.RATE_LIMIT_AGENT_BURST = '1';
+
+    collector = new MetricsCollector(0);
+    collector.start();
+    const server = (collector as any).server;
+    if (!server.listening) await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await collector.stop();
+    process.env = { ...env };
+  });
+
+  it('does not spend source tokens on a request an agent bucket refuses', async () => {
+    expect((await heartbeat('security-1')).status).toBe(200);
+    expect((await heartbeat('security-1')).status).toBe(429);
+
+    // Two source tokens are left for other agents
+    expect((await heartbeat('security-2')).status).toBe(200);
+    expect((await heartbeat('security-3')).status).toBe(200);
+
+    const refused = await heartbeat('security-4');
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get('retry-after')).not.toBeNull();
+  });
+
+  it('counts rate limited records apart from payloads that fail validation', async () => {
+    await heartbeat('security-1');
+    await heartbeat('security-1');
+
+    const batch = await fetch(`${baseUrl}/api/v1/metrics/batch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([
+        { type: 'tool_usage', data: { agentType: AgentType.SECURITY, agentId: 'security-1', toolName: 'grep', success: true } },
+        { type: 'tool_usage', data: { agentType: AgentType.SECURITY, toolName: 'grep', success: true } }
+      ])
+    });
+    expect(await batch.json()).toMatchObject({ accepted: 0, rejected: 2 });
+
+    const { components } = await (await fetch(`${baseUrl}/api/v1/system/health`)).json() as SystemHealth;
+    expect(components.collector.payloadsRejected).toBe(1);
+    expect(components.collector.ingestion).toMatchObject({ rateLimited: 2, unauthorized: 0 });
+  });
+});
@@ -2,43 +2,185 @@ import express from 'express';
 import http from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
 import pino from 'pino';
-import { AgentMetrics, AppMetrics, CoreWebVitalsData, SystemHealth, AgentType, AgentStatus, MetricType } from '@types/monitoring';
-import { MetricsStorage } from './storage';
+import {
+  AgentMetrics,
+  AppMetrics,
+  CoreWebVitalsData,
+  SystemHealth,
+  AgentType,
+  AgentStatus,
+  AgentStatusChange,
+  AgentHandoff,
+  AgentTask,
+  ApiKey,
+  Alert,
+  BatchItemType,
+  BatchItemResult,
+  BatchIngestionResult,
+  BundleSizeMetric,
+  Context7Query,
+  ToolUsageEvent
+} from '@types/monitoring';
+import { MetricsStore } from './store';
+import { createMetricsStore } from './store-factory';
 import { MetricsProcessor } from './processor';
-import { AlertManager } from '../alerting/src/alert-manager';
+import { HeartbeatMonitor } from './heartbeat-monitor';
+import { IngestionQueue, IngestionQueueFullError, QueuedRecord } from './ingestion-queue';
+import { RateLimitExceededError, TokenBucketRateLimiter } from './rate-limiter';
+import { CollectorStats, PrometheusExporter } from './prometheus-exporter';
+import { OtlpConversion, convertMetrics, convertTraces } from './otlp';
+import { buildTrace } from './traces';
+import { Topic, WebSocketHub } from './websocket-hub';
+import { MetricQueryEngine, MetricsQueryError, parseAggregateQueryParams, parseMetricQueryParams } from './metrics-query';
+import {
+  ApiKeyAuthenticator,
+  AuthenticationError,
+  AuthorizationError,
+  BATCH_ITEM_SCOPES,
+  getCredential
+} from './auth';
+import {
+  BATCH_SCHEMAS,
+  PayloadValidationError,
+  agentMetricsSchema,
+  agentTaskSchema,
+  agentHandoffSchema,
+  apiKeySchema,
+  appMetricsSchema,
+  bundleSizeSchema,
+  context7QuerySchema,
+  coreWebVitalsSchema,
+  heartbeatSchema,
+  parsePayload,
+  retentionPolicySchema,
+  toolUsageSchema,
+  traceSpanSchema
+} from './schemas';
+import { RETENTION_TABLES, RetentionPolicyError, updateRetentionPolicy } from './retention';
+import { AlertManager, AlertRuleValidationError, AlertStateError } from '../../alerting/src/alert-manager';
+import { NotificationChannelValidationError } from '../../alerting/src/notification-channels';
+import { SilenceValidationError } from '../../alerting/src/silences';
+import { AlertAnalytics, AlertAnalyticsQueryError, parseAnalyticsRange } from '../../alerting/src/alert-analytics';
 
 const logger = pino({ transport: { target: 'pino-pretty' } });
 
+const BATCH_MAX_ITEMS = 1000;
+
+const QUEUE_FULL_RETRY_AFTER_SECONDS = 5;
+
+// OTLP error messages list at most this many distinct reasons
+const OTLP_MAX_ERROR_MESSAGES = 10;
+
+// Records per topic sent to a client when it subscribes
+const INITIAL_DATA_LIMIT = 100;
+
+// Drain the ingestion queue for at most this long on shutdown
+const SHUTDOWN_DRAIN_TIMEOUT_MS = 10000;
+
+// Tokens a request needs from one rate limiter bucket
+interface RateLimitCharge {
+  limiter: TokenBucketRateLimiter;
+  key: string;
+  cost: number;
+}
+
+// Postgres unique_violation, raised when an id is already taken
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === '23505';
+}
+
 export class MetricsCollector {
   private app: express.Application;
   private server: http.Server;
   private wss: WebSocketServer;
-  private storage: MetricsStorage;
+  private storage: MetricsStore;
   private processor: MetricsProcessor;
   private alertManager: AlertManager;
-  private clients: Set<WebSocket> = new Set();
+  private heartbeatMonitor: HeartbeatMonitor;
+  private alertAnalytics: AlertAnalytics;
+  private metricQueries: MetricQueryEngine;
+  private auth: ApiKeyAuthenticator;
+  private ingestionQueue: IngestionQueue;
+  private exporter: PrometheusExporter;
+  private sourceLimiter = new TokenBucketRateLimiter(
+    parseFloat(process.env.RATE_LIMIT_SOURCE_PER_SECOND || '200'),
+    parseInt(process.env.RATE_LIMIT_SOURCE_BURST || '2000')
+  );
+  private agentLimiter = new TokenBucketRateLimiter(
+    parseFloat(process.env.RATE_LIMIT_AGENT_PER_SECOND || '50'),
+    parseInt(process.env.RATE_LIMIT_AGENT_BURST || '500')
+  );
+  private recordsRateLimited = 0;
+  private recordsUnauthorized = 0;
+  private hub: WebSocketHub;
   private port: number;
+  private payloadsRejected = 0;
+  // With ALERT_EVALUATION_MODE=scheduled the alerting service evaluates rules instead
+  private inlineAlertEvaluation = process.env.ALERT_EVALUATION_MODE !== 'scheduled';
+  private unsubscribeAlertEvents: (() => Promise<void>) | null = null;
 
   constructor(port: number = 3000) {
     this.port = port;
     this.app = express();
     this.server = http.createServer(this.app);
     this.wss = new WebSocketServer({ server: this.server });
-    this.storage = new MetricsStorage();
+    this.storage = createMetricsStore();
     this.processor = new MetricsProcessor(this.storage);
     this.alertManager = new AlertManager(this.storage);
+    this.heartbeatMonitor = new HeartbeatMonitor(this.storage);
+    this.alertAnalytics = new AlertAnalytics(this.storage);
+    this.metricQueries = new MetricQueryEngine(this.storage);
+    this.auth = new ApiKeyAuthenticator(this.storage);
+    this.ingestionQueue = new IngestionQueue((type, records) => this.writeRecords(type, records));
+    this.hub = new WebSocketHub(topics => this.loadInitialData(topics));
+    this.exporter = new PrometheusExporter(this.storage, () => ({
+      ingestion: this.ingestionStats(),
+      payloadsRejected: this.payloadsRejected
+    }));
 
     this.setupMiddleware();
     this.setupRoutes();
+    this.setupErrorHandling();
     this.setupWebSocket();
+    this.setupAlertListeners();
   }
 
   private setupMiddleware(): void {
-    this.app.use(express.json());
     this.app.use((req, res, next) => {
       logger.info({ method: req.method, path: req.path }, 'Incoming request');
       next();
     });
+
+    // Labelled with the route pattern rather than the path to keep ids out of the series
+    this.app.use((req, res, next) => {
+      const endTimer = this.exporter.startRequestTimer();
+      res.on('finish', () => endTimer({
+        method: req.method,
+        route: req.route ? String(req.route.path) : 'unmatched',
+        status_code: res.statusCode
+      }));
+      next();
+    });
+
+    // The authenticated key, if any, is available to routes as res.locals.apiKey
+    this.app.use(async (req, res, next) => {
+      try {
+        res.locals.apiKey = await this.auth.authorize(req.method, req.path, getCredential(req.headers));
+        next();
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          return res.status(401).json({ error: error.message });
+        }
+        if (error instanceof AuthorizationError) {
+          return res.status(403).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error authenticating request');
+        res.status(500).json({ error: 'Failed to authenticate request' });
+      }
+    });
+
+    // Parsed after authentication so unauthenticated bodies are never read
+    this.app.use(express.json({ limit: process.env.COLLECTOR_MAX_BODY_SIZE || '2mb' }));
   }
 
   private setupRoutes(): void {
@@ -47,67 +189,291 @@ export class MetricsCollector {
       res.json({ status: 'healthy', timestamp: new Date().toISOString() });
     });
 
+    // Prometheus scrape endpoint
+    this.app.get('/metrics', async (req, res) => {
+      try {
+        res.set('Content-Type', this.exporter.contentType).send(await this.exporter.metrics());
+      } catch (error) {
+        logger.error({ error }, 'Error exporting Prometheus metrics');
+        res.status(500).json({ error: 'Failed to export metrics' });
+      }
+    });
+
     // Agent metrics endpoint
     this.app.post('/api/v1/metrics/agent', async (req, res) => {
       try {
-        const metrics: AgentMetrics = req.body;
-        await this.storage.storeAgentMetrics(metrics);
-        this.processor.processAgentMetrics(metrics);
-        this.broadcastAgentMetrics(metrics);
-        await this.alertManager.checkAgentMetrics(metrics);
-        res.json({ success: true, message: 'Agent metrics received' });
+        const metrics = parsePayload(agentMetricsSchema, req.body);
+        this.auth.assertCanIngest(res.locals.apiKey, 'agent', metrics.agentType);
+        this.enqueue(req, res, [{ type: 'agent_metrics', record: metrics }]);
+        res.status(202).json({ success: true, message: 'Agent metrics queued' });
       } catch (error) {
-        logger.error({ error }, 'Error processing agent metrics');
-        res.status(500).json({ error: 'Failed to process agent metrics' });
+        this.rejectIngestion(res, error, 'agent metrics');
       }
     });
 
     // Application metrics endpoint
     this.app.post('/api/v1/metrics/app', async (req, res) => {
       try {
-        const metrics: AppMetrics = req.body;
-        await this.storage.storeAppMetrics(metrics);
-        this.broadcastAppMetrics(metrics);
-        await this.alertManager.checkAppMetrics(metrics);
-        res.json({ success: true, message: 'App metrics received' });
+        const metrics = parsePayload(appMetricsSchema, req.body);
+        this.auth.assertCanIngest(res.locals.apiKey, 'browser');
+        this.enqueue(req, res, [{ type: 'app_metrics', record: metrics }]);
+        res.status(202).json({ success: true, message: 'App metrics queued' });
       } catch (error) {
-        logger.error({ error }, 'Error processing app metrics');
-        res.status(500).json({ error: 'Failed to process app metrics' });
+        this.rejectIngestion(res, error, 'app metrics');
       }
     });
 
     // Core Web Vitals endpoint
     this.app.post('/api/v1/metrics/core-web-vitals', async (req, res) => {
       try {
-        const metrics: CoreWebVitalsData = req.body;
-        await this.storage.storeCoreWebVitals(metrics);
-        this.broadcastCoreWebVitals(metrics);
-        await this.alertManager.checkCoreWebVitals(metrics);
-        res.json({ success: true, message: 'Core Web Vitals received' });
+        const metrics = parsePayload(coreWebVitalsSchema, req.body);
+        this.auth.assertCanIngest(res.locals.apiKey, 'browser');
+        this.enqueue(req, res, [{ type: 'core_web_vitals', record: metrics }]);
+        res.status(202).json({ success: true, message: 'Core Web Vitals queued' });
       } catch (error) {
-        logger.error({ error }, 'Error processing Core Web Vitals');
-        res.status(500).json({ error: 'Failed to process Core Web Vitals' });
+        this.rejectIngestion(res, error, 'Core Web Vitals');
       }
     });
 
-    // Query metrics endpoint
-    this.app.get('/api/v1/metrics', async (req, res) => {
+    // Context7 query endpoints
+    this.app.post('/api/v1/metrics/context7', async (req, res) => {
+      try {
+        const query = parsePayload(context7QuerySchema, req.body);
+        this.auth.assertCanIngest(res.locals.apiKey, 'agent', query.agentType);
+        this.enqueue(req, res, [{ type: 'context7_query', record: query }]);
+        res.status(202).json({ success: true, message: 'Context7 query queued', id: query.id });
+      } catch (error) {
+        this.rejectIngestion(res, error, 'Context7 query');
+      }
+    });
+
+    this.app.get('/api/v1/metrics/context7', async (req, res) => {
+      try {
+        const { startTime, endTime, agentType, agentId, library, limit } = req.query;
+        const queries = await this.storage.getContext7Queries({
+          ...parseAnalyticsRange(startTime as string, endTime as string),
+          agentType: agentType as AgentType,
+          agentId: agentId as string,
+          library: library as string,
+          limit: this.parseLimit(limit)
+        });
+        res.json(queries);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting Context7 queries');
+        res.status(500).json({ error: 'Failed to get Context7 queries' });
+      }
+    });
+
+    this.app.get('/api/v1/metrics/context7/stats', async (req, res) => {
+      try {
+        const { startTime, endTime, agentType, agentId, library } = req.query;
+        const stats = await this.storage.getContext7Stats({
+          ...parseAnalyticsRange(startTime as string, endTime as string),
+          agentType: agentType as AgentType,
+          agentId: agentId as string,
+          library: library as string
+        });
+        res.json(stats);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting Context7 stats');
+        res.status(500).json({ error: 'Failed to get Context7 stats' });
+      }
+    });
+
+    // Tool usage endpoints
+    this.app.post('/api/v1/metrics/tool', async (req, res) => {
+      try {
+        const event = parsePayload(toolUsageSchema, req.body);
+        this.auth.assertCanIngest(res.locals.apiKey, 'agent', event.agentType);
+        this.enqueue(req, res, [{ type: 'tool_usage', record: event }]);
+        res.status(202).json({ success: true, message: 'Tool usage queued' });
+      } catch (error) {
+        this.rejectIngestion(res, error, 'tool usage');
+      }
+    });
+
+    this.app.get('/api/v1/metrics/tool', async (req, res) => {
+      try {
+        const { startTime, endTime, agentType, agentId, toolName, limit } = req.query;
+        const events = await this.storage.getToolUsage({
+          ...parseAnalyticsRange(startTime as string, endTime as string),
+          agentType: agentType as AgentType,
+          agentId: agentId as string,
+          toolName: toolName as string,
+          limit: this.parseLimit(limit)
+        });
+        res.json(events);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting tool usage');
+        res.status(500).json({ error: 'Failed to get tool usage' });
+      }
+    });
+
+    this.app.get('/api/v1/metrics/tool/stats', async (req, res) => {
       try {
-        const { metricType, agentType, startTime, endTime, aggregation } = req.query;
-        const metrics = await this.storage.queryMetrics({
-          metricType: metricType as MetricType,
+        const { startTime, endTime, agentType, agentId, toolName } = req.query;
+        const stats = await this.storage.getToolUsageStats({
+          ...parseAnalyticsRange(startTime as string, endTime as string),
           agentType: agentType as AgentType,
-          startTime: startTime ? new Date(startTime as string) : undefined,
-          endTime: endTime ? new Date(endTime as string) : undefined,
-          aggregation: aggregation as any
+          agentId: agentId as string,
+          toolName: toolName as string
+        });
+        res.json(stats);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting tool usage stats');
+        res.status(500).json({ error: 'Failed to get tool usage stats' });
+      }
+    });
+
+    // Bundle size endpoints
+    this.app.post('/api/v1/metrics/bundle-size', async (req, res) => {
+      try {
+        const metric = parsePayload(bundleSizeSchema, req.body);
+        this.auth.assertCanIngest(res.locals.apiKey, 'browser');
+        this.enqueue(req, res, [{ type: 'bundle_size', record: metric }]);
+        res.status(202).json({ success: true, message: 'Bundle size queued' });
+      } catch (error) {
+        this.rejectIngestion(res, error, 'bundle size');
+      }
+    });
+
+    this.app.get('/api/v1/metrics/bundle-size', async (req, res) => {
+      try {
+        const { startTime, endTime, name, limit } = req.query;
+        const sizes = await this.storage.getBundleSizes({
+          ...parseAnalyticsRange(startTime as string, endTime as string),
+          name: name as string,
+          limit: this.parseLimit(limit)
+        });
+        res.json(sizes);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting bundle sizes');
+        res.status(500).json({ error: 'Failed to get bundle sizes' });
+      }
+    });
+
+    this.app.get('/api/v1/metrics/bundle-size/latest', async (req, res) => {
+      try {
+        const sizes = await this.storage.getLatestBundleSizes();
+        res.json(sizes);
+      } catch (error) {
+        logger.error({ error }, 'Error getting latest bundle sizes');
+        res.status(500).json({ error: 'Failed to get latest bundle sizes' });
+      }
+    });
+
+    // Batch endpoint: a list of { type, data } records, validated and stored per item
+    this.app.post('/api/v1/metrics/batch', async (req, res) => {
+      try {
+        const items = Array.isArray(req.body) ? req.body : req.body?.items;
+        if (!Array.isArray(items) || items.length === 0) {
+          return this.rejectPayload(res, new PayloadValidationError([
+            { path: 'items', message: 'must be a non-empty array of { type, data } records' }
+          ]));
+        }
+        if (items.length > BATCH_MAX_ITEMS) {
+          return this.rejectPayload(res, new PayloadValidationError([
+            { path: 'items', message: `must contain at most ${BATCH_MAX_ITEMS} records` }
+          ]));
+        }
+
+        const result = this.ingestBatch(req, res, items);
+        res.status(202).json(result);
+      } catch (error) {
+        this.rejectIngestion(res, error, 'metrics batch');
+      }
+    });
+
+    // Query a catalogued metric as bucketed series
+    this.app.get('/api/v1/metrics', async (req, res) => {
+      try {
+        const range = parseAnalyticsRange(req.query.startTime as string, req.query.endTime as string);
+        const result = await this.metricQueries.query({
+          ...parseMetricQueryParams(req.query),
+          ...range,
+          limit: this.parseLimit(req.query.limit)
         });
-        res.json(metrics);
+        res.json(result);
       } catch (error) {
+        if (error instanceof MetricsQueryError || error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
         logger.error({ error }, 'Error querying metrics');
         res.status(500).json({ error: 'Failed to query metrics' });
       }
     });
 
+    // Per-period statistics of a catalogued metric, with empty periods filled in
+    this.app.get('/api/v1/metrics/aggregate', async (req, res) => {
+      try {
+        const range = parseAnalyticsRange(req.query.startTime as string, req.query.endTime as string);
+        const result = await this.metricQueries.aggregate({ ...parseAggregateQueryParams(req.query), ...range });
+        res.json(result);
+      } catch (error) {
+        if (error instanceof MetricsQueryError || error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error aggregating metrics');
+        res.status(500).json({ error: 'Failed to aggregate metrics' });
+      }
+    });
+
+    // Retention policies per table and rollup tier
+    this.app.get('/api/v1/retention/policies', async (req, res) => {
+      try {
+        const policies = await this.storage.getRetentionPolicies();
+        res.json(policies);
+      } catch (error) {
+        logger.error({ error }, 'Error getting retention policies');
+        res.status(500).json({ error: 'Failed to get retention policies' });
+      }
+    });
+
+    // Change a table's retention; with ?dryRun=true nothing is changed and
+    // the statements that would run are returned
+    this.app.put('/api/v1/retention/policies/:table', async (req, res) => {
+      try {
+        if (!RETENTION_TABLES.includes(req.params.table)) {
+          return res.status(404).json({ error: 'Retention policy not found' });
+        }
+
+        const { retentionDays } = parsePayload(retentionPolicySchema, req.body);
+        const dryRun = req.query.dryRun === 'true';
+        const current = (await this.storage.getRetentionPolicies()).find(policy => policy.table === req.params.table);
+        const policy = updateRetentionPolicy(current, req.params.table, retentionDays);
+
+        const statements = await this.storage.applyRetentionPolicies([policy], { dryRun });
+        if (!dryRun) {
+          this.metricQueries.invalidateRetentionPolicies();
+        }
+        res.json({ policy, dryRun, statements });
+      } catch (error) {
+        if (error instanceof PayloadValidationError) {
+          return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+        }
+        if (error instanceof RetentionPolicyError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error updating retention policy');
+        res.status(500).json({ error: 'Failed to update retention policy' });
+      }
+    });
+
     // System health endpoint
     this.app.get('/api/v1/system/health', async (req, res) => {
       try {
@@ -130,10 +496,189 @@ export class MetricsCollector {
       }
     });
 
+    // Explicit heartbeat for agents that report metrics less often than their expected interval
+    this.app.post('/api/v1/agents/heartbeat', async (req, res) => {
+      try {
+        const heartbeat = parsePayload(heartbeatSchema, req.body);
+        this.auth.assertCanIngest(res.locals.apiKey, 'agent', heartbeat.agentType);
+        this.rateLimit(req, res, [heartbeat]);
+        await this.heartbeatMonitor.record(heartbeat);
+        res.json({ success: true, message: 'Heartbeat received' });
+      } catch (error) {
+        this.rejectIngestion(res, error, 'heartbeat');
+      }
+    });
+
+    this.app.get('/api/v1/agents/heartbeats', async (req, res) => {
+      try {
+        const heartbeats = await this.storage.getAgentHeartbeats();
+        res.json(heartbeats);
+      } catch (error) {
+        logger.error({ error }, 'Error getting agent heartbeats');
+        res.status(500).json({ error: 'Failed to get agent heartbeats' });
+      }
+    });
+
+    // Agent task lifecycle: the SDK reports each task when it starts and ends
+    this.app.post('/api/v1/agents/tasks', async (req, res) => {
+      try {
+        const task = parsePayload(agentTaskSchema, req.body);
+        this.auth.assertCanIngest(res.locals.apiKey, 'agent', task.agentType);
+        this.enqueue(req, res, [{ type: 'agent_task', record: task }]);
+        res.status(202).json({ success: true, message: 'Agent task queued' });
+      } catch (error) {
+        this.rejectIngestion(res, error, 'agent task');
+      }
+    });
+
+    this.app.get('/api/v1/agents/tasks', async (req, res) => {
+      try {
+        const { startTime, endTime, agentType, agentId, taskType, status, limit } = req.query;
+        const tasks = await this.storage.getAgentTasks({
+          ...parseAnalyticsRange(startTime as string, endTime as string),
+          agentType: agentType as AgentType,
+          agentId: agentId as string,
+          taskType: taskType as string,
+          status: status as AgentTask['status'],
+          limit: this.parseLimit(limit)
+        });
+        res.json(tasks);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting agent tasks');
+        res.status(500).json({ error: 'Failed to get agent tasks' });
+      }
+    });
+
+    this.app.get('/api/v1/agents/tasks/stats', async (req, res) => {
+      try {
+        const { startTime, endTime, agentType, agentId, taskType } = req.query;
+        const stats = await this.storage.getAgentTaskStats({
+          ...parseAnalyticsRange(startTime as string, endTime as string),
+          agentType: agentType as AgentType,
+          agentId: agentId as string,
+          taskType: taskType as string
+        });
+        res.json(stats);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting agent task stats');
+        res.status(500).json({ error: 'Failed to get agent task stats' });
+      }
+    });
+
+    this.app.get('/api/v1/agents/tasks/failures', async (req, res) => {
+      try {
+        const { startTime, endTime, agentType, agentId, taskType, limit } = req.query;
+        const failures = await this.storage.getAgentTaskFailures({
+          ...parseAnalyticsRange(startTime as string, endTime as string),
+          agentType: agentType as AgentType,
+          agentId: agentId as string,
+          taskType: taskType as string,
+          limit: this.parseLimit(limit)
+        });
+        res.json(failures);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting agent task failures');
+        res.status(500).json({ error: 'Failed to get agent task failures' });
+      }
+    });
+
+    this.app.post('/api/v1/agents/handoffs', async (req, res) => {
+      try {
+        const handoff = parsePayload(agentHandoffSchema, req.body);
+        this.auth.assertCanIngest(res.locals.apiKey, 'agent', handoff.agentType);
+        this.enqueue(req, res, [{ type: 'agent_handoff', record: handoff }]);
+        res.status(202).json({ success: true, message: 'Agent handoff queued', id: handoff.id });
+      } catch (error) {
+        this.rejectIngestion(res, error, 'agent handoff');
+      }
+    });
+
+    this.app.get('/api/v1/agents/handoffs', async (req, res) => {
+      try {
+        const { startTime, endTime, agentType, agentId, toAgentType, limit } = req.query;
+        const handoffs = await this.storage.getAgentHandoffs({
+          ...parseAnalyticsRange(startTime as string, endTime as string),
+          agentType: agentType as AgentType,
+          agentId: agentId as string,
+          toAgentType: toAgentType as AgentType,
+          limit: this.parseLimit(limit)
+        });
+        res.json(handoffs);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting agent handoffs');
+        res.status(500).json({ error: 'Failed to get agent handoffs' });
+      }
+    });
+
+    // Distributed tracing: the SDK reports each span once it has finished
+    this.app.post('/api/v1/traces/spans', async (req, res) => {
+      try {
+        const span = parsePayload(traceSpanSchema, req.body);
+        this.auth.assertCanIngest(res.locals.apiKey, 'agent', span.agentType);
+        this.enqueue(req, res, [{ type: 'span', record: span }]);
+        res.status(202).json({ success: true, message: 'Span queued' });
+      } catch (error) {
+        this.rejectIngestion(res, error, 'span');
+      }
+    });
+
+    this.app.get('/api/v1/traces/:id', async (req, res) => {
+      try {
+        const spans = await this.storage.getTraceSpans(req.params.id);
+        if (spans.length === 0) {
+          return res.status(404).json({ error: 'Trace not found' });
+        }
+        res.json(buildTrace(req.params.id, spans));
+      } catch (error) {
+        logger.error({ error }, 'Error getting trace');
+        res.status(500).json({ error: 'Failed to get trace' });
+      }
+    });
+
+    // OpenTelemetry OTLP/HTTP receiver. Only the JSON encoding is supported.
+    this.app.post('/v1/traces', async (req, res) => {
+      if (!req.is('application/json')) {
+        return res.status(415).json({ error: 'Only OTLP/HTTP JSON is supported; set the exporter protocol to http/json' });
+      }
+      try {
+        const { rejected, errorMessage } = this.ingestOtlp(req, res, convertTraces(req.body));
+        res.json(errorMessage ? { partialSuccess: { rejectedSpans: rejected, errorMessage } } : {});
+      } catch (error) {
+        this.rejectIngestion(res, error, 'OTLP traces');
+      }
+    });
+
+    this.app.post('/v1/metrics', async (req, res) => {
+      if (!req.is('application/json')) {
+        return res.status(415).json({ error: 'Only OTLP/HTTP JSON is supported; set the exporter protocol to http/json' });
+      }
+      try {
+        const { rejected, errorMessage } = this.ingestOtlp(req, res, convertMetrics(req.body));
+        res.json(errorMessage ? { partialSuccess: { rejectedDataPoints: rejected, errorMessage } } : {});
+      } catch (error) {
+        this.rejectIngestion(res, error, 'OTLP metrics');
+      }
+    });
+
     // Alert rules management
     this.app.get('/api/v1/alerts/rules', async (req, res) => {
       try {
-        const rules = await this.alertManager.getAlertRules();
+        const { enabled } = req.query;
+        const rules = await this.alertManager.getAlertRules({
+          enabled: enabled === undefined ? undefined : enabled === 'true'
+        });
         res.json(rules);
       } catch (error) {
         logger.error({ error }, 'Error getting alert rules');
@@ -141,17 +686,80 @@ export class MetricsCollector {
       }
     });
 
+    this.app.get('/api/v1/alerts/rules/:id', async (req, res) => {
+      try {
+        const rule = await this.alertManager.getAlertRule(req.params.id);
+        if (!rule) {
+          return res.status(404).json({ error: 'Alert rule not found' });
+        }
+        res.json(rule);
+      } catch (error) {
+        logger.error({ error }, 'Error getting alert rule');
+        res.status(500).json({ error: 'Failed to get alert rule' });
+      }
+    });
+
     this.app.post('/api/v1/alerts/rules', async (req, res) => {
       try {
-        const rule = req.body;
-        await this.alertManager.createAlertRule(rule);
-        res.json({ success: true, message: 'Alert rule created' });
+        const rule = await this.alertManager.createAlertRule(req.body);
+        res.status(201).json({ success: true, message: 'Alert rule created', data: { id: rule.id } });
       } catch (error) {
+        if (error instanceof AlertRuleValidationError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (isUniqueViolation(error)) {
+          return res.status(409).json({ error: 'Alert rule already exists' });
+        }
         logger.error({ error }, 'Error creating alert rule');
         res.status(500).json({ error: 'Failed to create alert rule' });
       }
     });
 
+    this.app.put('/api/v1/alerts/rules/:id', async (req, res) => {
+      try {
+        const rule = await this.alertManager.replaceAlertRule(req.params.id, req.body);
+        if (!rule) {
+          return res.status(404).json({ error: 'Alert rule not found' });
+        }
+        res.json({ success: true, message: 'Alert rule updated', data: rule });
+      } catch (error) {
+        if (error instanceof AlertRuleValidationError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error updating alert rule');
+        res.status(500).json({ error: 'Failed to update alert rule' });
+      }
+    });
+
+    this.app.patch('/api/v1/alerts/rules/:id', async (req, res) => {
+      try {
+        const rule = await this.alertManager.updateAlertRule(req.params.id, req.body);
+        if (!rule) {
+          return res.status(404).json({ error: 'Alert rule not found' });
+        }
+        res.json({ success: true, message: 'Alert rule updated', data: rule });
+      } catch (error) {
+        if (error instanceof AlertRuleValidationError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error updating alert rule');
+        res.status(500).json({ error: 'Failed to update alert rule' });
+      }
+    });
+
+    this.app.delete('/api/v1/alerts/rules/:id', async (req, res) => {
+      try {
+        const deleted = await this.alertManager.deleteAlertRule(req.params.id);
+        if (!deleted) {
+          return res.status(404).json({ error: 'Alert rule not found' });
+        }
+        res.json({ success: true, message: 'Alert rule deleted' });
+      } catch (error) {
+        logger.error({ error }, 'Error deleting alert rule');
+        res.status(500).json({ error: 'Failed to delete alert rule' });
+      }
+    });
+
     // Active alerts
     this.app.get('/api/v1/alerts/active', async (req, res) => {
       try {
@@ -162,83 +770,769 @@ export class MetricsCollector {
         res.status(500).json({ error: 'Failed to get active alerts' });
       }
     });
+
+    // Alerts whose condition holds but has not yet held for the rule's duration
+    this.app.get('/api/v1/alerts/pending', async (req, res) => {
+      try {
+        const pending = await this.alertManager.getPendingAlerts();
+        res.json(pending);
+      } catch (error) {
+        logger.error({ error }, 'Error getting pending alerts');
+        res.status(500).json({ error: 'Failed to get pending alerts' });
+      }
+    });
+
+    // Alert history and analytics
+    this.app.get('/api/v1/alerts/history', async (req, res) => {
+      try {
+        const { startTime, endTime, ruleId, severity, agentType, limit } = req.query;
+        const range = parseAnalyticsRange(startTime as string, endTime as string);
+        const alerts = await this.storage.getAlertHistory({
+          ...range,
+          ruleId: ruleId as string,
+          severity: severity as string,
+          agentType: agentType as AgentType,
+          limit: this.parseLimit(limit)
+        });
+        res.json(alerts);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting alert history');
+        res.status(500).json({ error: 'Failed to get alert history' });
+      }
+    });
+
+    this.app.get('/api/v1/alerts/analytics', async (req, res) => {
+      try {
+        const range = parseAnalyticsRange(req.query.startTime as string, req.query.endTime as string);
+        const summary = await this.alertAnalytics.getSummary(range);
+        res.json(summary);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting alert analytics');
+        res.status(500).json({ error: 'Failed to get alert analytics' });
+      }
+    });
+
+    this.app.get('/api/v1/alerts/analytics/timeseries', async (req, res) => {
+      try {
+        const range = parseAnalyticsRange(req.query.startTime as string, req.query.endTime as string);
+        const buckets = await this.alertAnalytics.getTimeSeries(
+          range,
+          req.query.groupBy as string | undefined,
+          req.query.interval as string | undefined
+        );
+        res.json(buckets);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting alert time series');
+        res.status(500).json({ error: 'Failed to get alert time series' });
+      }
+    });
+
+    this.app.get('/api/v1/alerts/analytics/flapping', async (req, res) => {
+      try {
+        const range = parseAnalyticsRange(req.query.startTime as string, req.query.endTime as string);
+        const { minCyclesPerHour } = req.query;
+        const series = await this.alertAnalytics.getFlappingSeries(
+          range,
+          minCyclesPerHour ? parseFloat(minCyclesPerHour as string) : undefined
+        );
+        res.json(series);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting flapping alerts');
+        res.status(500).json({ error: 'Failed to get flapping alerts' });
+      }
+    });
+
+    this.app.get('/api/v1/alerts/analytics/noisy', async (req, res) => {
+      try {
+        const range = parseAnalyticsRange(req.query.startTime as string, req.query.endTime as string);
+        const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string) || 10, 100) : undefined;
+        const rules = await this.alertAnalytics.getNoisyRules(range, limit);
+        res.json(rules);
+      } catch (error) {
+        if (error instanceof AlertAnalyticsQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error getting noisy alert rules');
+        res.status(500).json({ error: 'Failed to get noisy alert rules' });
+      }
+    });
+
+    // Silences
+    this.app.get('/api/v1/alerts/silences', async (req, res) => {
+      try {
+        const silences = await this.alertManager.getSilences({ active: req.query.active !== 'false' });
+        res.json(silences);
+      } catch (error) {
+        logger.error({ error }, 'Error getting silences');
+        res.status(500).json({ error: 'Failed to get silences' });
+      }
+    });
+
+    this.app.post('/api/v1/alerts/silences', async (req, res) => {
+      try {
+        const silence = await this.alertManager.createSilence(req.body);
+        res.status(201).json({ success: true, message: 'Silence created', data: silence });
+      } catch (error) {
+        if (error instanceof SilenceValidationError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error creating silence');
+        res.status(500).json({ error: 'Failed to create silence' });
+      }
+    });
+
+    this.app.delete('/api/v1/alerts/silences/:id', async (req, res) => {
+      try {
+        const silence = await this.alertManager.expireSilence(req.params.id);
+        if (!silence) {
+          return res.status(404).json({ error: 'Silence not found' });
+        }
+        res.json({ success: true, message: 'Silence expired', data: silence });
+      } catch (error) {
+        logger.error({ error }, 'Error expiring silence');
+        res.status(500).json({ error: 'Failed to expire silence' });
+      }
+    });
+
+    // Maintenance windows
+    this.app.get('/api/v1/alerts/maintenance-windows', async (req, res) => {
+      try {
+        const windows = await this.alertManager.getMaintenanceWindows();
+        res.json(windows);
+      } catch (error) {
+        logger.error({ error }, 'Error getting maintenance windows');
+        res.status(500).json({ error: 'Failed to get maintenance windows' });
+      }
+    });
+
+    this.app.post('/api/v1/alerts/maintenance-windows', async (req, res) => {
+      try {
+        const window = await this.alertManager.createMaintenanceWindow(req.body);
+        res.status(201).json({ success: true, message: 'Maintenance window created', data: window });
+      } catch (error) {
+        if (error instanceof SilenceValidationError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error creating maintenance window');
+        res.status(500).json({ error: 'Failed to create maintenance window' });
+      }
+    });
+
+    this.app.put('/api/v1/alerts/maintenance-windows/:id', async (req, res) => {
+      try {
+        const window = await this.alertManager.updateMaintenanceWindow(req.params.id, req.body);
+        if (!window) {
+          return res.status(404).json({ error: 'Maintenance window not found' });
+        }
+        res.json({ success: true, message: 'Maintenance window updated', data: window });
+      } catch (error) {
+        if (error instanceof SilenceValidationError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error updating maintenance window');
+        res.status(500).json({ error: 'Failed to update maintenance window' });
+      }
+    });
+
+    this.app.delete('/api/v1/alerts/maintenance-windows/:id', async (req, res) => {
+      try {
+        const deleted = await this.alertManager.deleteMaintenanceWindow(req.params.id);
+        if (!deleted) {
+          return res.status(404).json({ error: 'Maintenance window not found' });
+        }
+        res.json({ success: true, message: 'Maintenance window deleted' });
+      } catch (error) {
+        logger.error({ error }, 'Error deleting maintenance window');
+        res.status(500).json({ error: 'Failed to delete maintenance window' });
+      }
+    });
+
+    // Alert lifecycle
+    this.app.post(['/api/v1/alerts/:id/ack', '/api/v1/alerts/:id/acknowledge'], async (req, res) => {
+      try {
+        const alert = await this.alertManager.acknowledgeAlert(
+          req.params.id,
+          req.body?.acknowledgedBy || 'anonymous'
+        );
+        if (!alert) {
+          return res.status(404).json({ error: 'Alert not found' });
+        }
+        res.json({ success: true, message: 'Alert acknowledged', data: alert });
+      } catch (error) {
+        if (error instanceof AlertStateError) {
+          return res.status(409).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error acknowledging alert');
+        res.status(500).json({ error: 'Failed to acknowledge alert' });
+      }
+    });
+
+    this.app.post('/api/v1/alerts/:id/resolve', async (req, res) => {
+      try {
+        const alert = await this.alertManager.resolveAlert(
+          req.params.id,
+          req.body?.resolvedBy || 'anonymous'
+        );
+        if (!alert) {
+          return res.status(404).json({ error: 'Alert not found' });
+        }
+        res.json({ success: true, message: 'Alert resolved', data: alert });
+      } catch (error) {
+        if (error instanceof AlertStateError) {
+          return res.status(409).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error resolving alert');
+        res.status(500).json({ error: 'Failed to resolve alert' });
+      }
+    });
+
+    // API key management (admin keys only)
+    this.app.get('/api/v1/auth/keys', async (req, res) => {
+      try {
+        const keys = await this.auth.listKeys();
+        res.json(keys);
+      } catch (error) {
+        logger.error({ error }, 'Error getting API keys');
+        res.status(500).json({ error: 'Failed to get API keys' });
+      }
+    });
+
+    this.app.post('/api/v1/auth/keys', async (req, res) => {
+      try {
+        const input = parsePayload(apiKeySchema, req.body);
+        const { apiKey, key } = await this.auth.createKey(input);
+        res.status(201).json({ ...apiKey, key });
+      } catch (error) {
+        if (error instanceof PayloadValidationError) {
+          return res.status(400).json({ error: 'Invalid payload', details: error.errors });
+        }
+        logger.error({ error }, 'Error creating API key');
+        res.status(500).json({ error: 'Failed to create API key' });
+      }
+    });
+
+    this.app.delete('/api/v1/auth/keys/:id', async (req, res) => {
+      try {
+        const apiKey = await this.auth.revokeKey(req.params.id);
+        if (!apiKey) {
+          return res.status(404).json({ error: 'API key not found' });
+        }
+        res.json(apiKey);
+      } catch (error) {
+        logger.error({ error }, 'Error revoking API key');
+        res.status(500).json({ error: 'Failed to revoke API key' });
+      }
+    });
+
+    // Notification channels
+    this.app.get('/api/v1/notifications/channels', async (req, res) => {
+      try {
+        const channels = await this.alertManager.getNotificationChannels();
+        res.json(channels);
+      } catch (error) {
+        logger.error({ error }, 'Error getting notification channels');
+        res.status(500).json({ error: 'Failed to get notification channels' });
+      }
+    });
+
+    this.app.get('/api/v1/notifications/channels/:id', async (req, res) => {
+      try {
+        const channel = await this.alertManager.getNotificationChannel(req.params.id);
+        if (!channel) {
+          return res.status(404).json({ error: 'Notification channel not found' });
+        }
+        res.json(channel);
+      } catch (error) {
+        logger.error({ error }, 'Error getting notification channel');
+        res.status(500).json({ error: 'Failed to get notification channel' });
+      }
+    });
+
+    this.app.post('/api/v1/notifications/channels', async (req, res) => {
+      try {
+        const channel = await this.alertManager.createNotificationChannel(req.body);
+        res.status(201).json({ success: true, message: 'Notification channel created', data: { id: channel.id } });
+      } catch (error) {
+        if (error instanceof NotificationChannelValidationError) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (isUniqueViolation(error)) {
+          return res.status(409).json({ error: 'Notification channel already exists' });
+        }
+        logger.error({ error }, 'Error creating notification channel');
+        res.status(500).json({ error: 'Failed to create notification channel' });
+      }
+    });
+
+    this.app.put('/api/v1/notifications/channels/:id', async (req, res) => {
+      try {
+        const channel = await this.alertManager.updateNotificationChannel(req.params.id, req.body);
+        if (!channel) {
+          return res.status(404).json({ error: 'Notification channel not found' });
+        }
+        res.json({ success: true, message: 'Notification channel updated', data: channel });
+      } catch (error) {
+        if (error instanceof NotificationChannelValidationError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error({ error }, 'Error updating notification channel');
+        res.status(500).json({ error: 'Failed to update notification channel' });
+      }
+    });
+
+    this.app.delete('/api/v1/notifications/channels/:id', async (req, res) => {
+      try {
+        const deleted = await this.alertManager.deleteNotificationChannel(req.params.id);
+        if (!deleted) {
+          return res.status(404).json({ error: 'Notification channel not found' });
+        }
+        res.json({ success: true, message: 'Notification channel deleted' });
+      } catch (error) {
+        logger.error({ error }, 'Error deleting notification channel');
+        res.status(500).json({ error: 'Failed to delete notification channel' });
+      }
+    });
+
+    this.app.post('/api/v1/notifications/channels/:id/test', async (req, res) => {
+      try {
+        const alert = await this.alertManager.testNotificationChannel(req.params.id);
+        if (!alert) {
+          return res.status(404).json({ error: 'Notification channel not found' });
+        }
+        res.json({ success: true, message: 'Test notification sent', data: { alertId: alert.id } });
+      } catch (error) {
+        logger.error({ error }, 'Error sending test notification');
+        res.status(502).json({ error: 'Test notification failed', details: (error as Error).message });
+      }
+    });
   }
 
-  private setupWebSocket(): void {
-    this.wss.on('connection', (ws: WebSocket) => {
-      logger.info('New WebSocket connection');
-      this.clients.add(ws);
+  /**
+   * Validate every record and queue the valid ones. Records that fail
+   * validation, fall outside the API key's scope or exceed their agent's
+   * rate limit are rejected individually; the source rate limit and a full
+   * queue reject the whole batch.
+   */
+  private ingestBatch(req: express.Request, res: express.Response, items: any[]): BatchIngestionResult {
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+    const results: BatchItemResult[] = [];
+    const valid: Array<{ index: number; type: BatchItemType; record: any }> = [];
 
-      ws.on('close', () => {
-        logger.info('WebSocket connection closed');
-        this.clients.delete(ws);
-      });
+    items.forEach((item, index) => {
+      const type = item?.type as BatchItemType;
+      if (!Object.prototype.hasOwnProperty.call(BATCH_SCHEMAS, type)) {
+        this.payloadsRejected++;
+        results[index] = {
+          index,
+          status: 'rejected',
+          errors: [{ path: 'type', message: `must be one of: ${Object.keys(BATCH_SCHEMAS).join(', ')}` }]
+        };
+        return;
+      }
 
-      ws.on('error', (error) => {
-        logger.error({ error }, 'WebSocket error');
-        this.clients.delete(ws);
+      try {
+        const record = parsePayload(BATCH_SCHEMAS[type], item.data);
+        this.auth.assertCanIngest(apiKey, BATCH_ITEM_SCOPES[type], (record as { agentType?: AgentType }).agentType);
+        valid.push({ index, type, record });
+      } catch (error) {
+        if (error instanceof AuthorizationError) {
+          this.recordsUnauthorized++;
+          results[index] = { index, type, status: 'rejected', errors: [{ path: '', message: error.message }] };
+          return;
+        }
+        if (!(error instanceof PayloadValidationError)) throw error;
+        this.payloadsRejected++;
+        results[index] = {
+          index,
+          type,
+          status: 'rejected',
+          errors: error.errors.map(e => ({ ...e, path: e.path ? `data.${e.path}` : 'data' }))
+        };
+      }
+    });
+
+    // Nothing is spent until the admitted records are queued
+    const source = this.rateLimitSource(req, res);
+    const sourceLimit = this.sourceLimiter.check(source, valid.length);
+    if (!sourceLimit.allowed) {
+      this.recordsRateLimited += valid.length;
+      throw new RateLimitExceededError(sourceLimit.retryAfterSeconds);
+    }
+
+    const charges: RateLimitCharge[] = [];
+    const byAgent = new Map<string, typeof valid>();
+    const admitted = valid.filter(entry => {
+      if (!entry.record.agentId) return true;
+      const entries = byAgent.get(entry.record.agentId);
+      if (entries) entries.push(entry);
+      else byAgent.set(entry.record.agentId, [entry]);
+      return false;
+    });
+    for (const [agentId, entries] of byAgent) {
+      const limit = this.agentLimiter.check(agentId, entries.length);
+      if (limit.allowed) {
+        admitted.push(...entries);
+        charges.push({ limiter: this.agentLimiter, key: agentId, cost: entries.length });
+        continue;
+      }
+      this.recordsRateLimited += entries.length;
+      entries.forEach(({ index, type }) => {
+        results[index] = {
+          index,
+          type,
+          status: 'rejected',
+          errors: [{ path: 'data.agentId', message: `rate limit exceeded, retry after ${limit.retryAfterSeconds}s` }]
+        };
       });
+    }
 
-      // Send initial data
-      this.sendInitialData(ws);
+    if (!this.ingestionQueue.enqueue(admitted.map(({ type, record }) => ({ type, record })))) {
+      throw new IngestionQueueFullError();
+    }
+    this.spendTokens([{ limiter: this.sourceLimiter, key: source, cost: admitted.length }, ...charges]);
+    admitted.forEach(({ index, type }) => {
+      results[index] = { index, type, status: 'accepted' };
     });
+
+    const rejected = results.filter(result => result.status === 'rejected').length;
+    return { accepted: results.length - rejected, rejected, results };
   }
 
-  private async sendInitialData(ws: WebSocket): Promise<void> {
-    try {
-      const [agentMetrics, appMetrics, coreWebVitals, alerts] = await Promise.all([
-        this.storage.getRecentAgentMetrics(100),
-        this.storage.getRecentAppMetrics(100),
-        this.storage.getRecentCoreWebVitals(100),
-        this.alertManager.getActiveAlerts()
-      ]);
-
-      ws.send(JSON.stringify({
-        type: 'initial_data',
-        data: {
-          agentMetrics,
-          appMetrics,
-          coreWebVitals,
-          alerts
-        }
-      }));
-    } catch (error) {
-      logger.error({ error }, 'Error sending initial data');
+  /**
+   * Queue the records converted from an OTLP export request like a batch.
+   * Returns how many spans or data points were rejected and why, for the
+   * export response's partialSuccess.
+   */
+  private ingestOtlp(
+    req: express.Request,
+    res: express.Response,
+    conversion: OtlpConversion
+  ): { rejected: number; errorMessage?: string } {
+    let rejected = conversion.rejected;
+    const errors = new Set(conversion.errors);
+    this.payloadsRejected += conversion.rejected;
+
+    if (conversion.items.length > 0) {
+      const result = this.ingestBatch(req, res, conversion.items);
+      for (const item of result.results) {
+        if (item.status !== 'rejected') continue;
+        rejected += conversion.items[item.index].count;
+        item.errors?.forEach(error => errors.add(`${item.type} ${error.path}: ${error.message}`));
+      }
+    }
+
+    return {
+      rejected,
+      errorMessage: errors.size > 0 ? [...errors].slice(0, OTLP_MAX_ERROR_MESSAGES).join('; ') : undefined
+    };
+  }
+
+  /**
+   * Rate limit records and queue them for the writers, throwing
+   * RateLimitExceededError or IngestionQueueFullError when they cannot be
+   * taken. Tokens are only spent once the records are queued.
+   */
+  private enqueue(req: express.Request, res: express.Response, records: QueuedRecord[]): void {
+    const charges = this.checkRateLimits(req, res, records.map(({ record }) => record));
+    if (!this.ingestionQueue.enqueue(records)) {
+      throw new IngestionQueueFullError();
     }
+    this.spendTokens(charges);
   }
 
-  private broadcastAgentMetrics(metrics: AgentMetrics): void {
-    const message = JSON.stringify({ type: 'agent_metrics', data: metrics });
-    this.broadcast(message);
+  private rateLimit(req: express.Request, res: express.Response, records: Array<{ agentId?: string }>): void {
+    this.spendTokens(this.checkRateLimits(req, res, records));
+  }
+
+  /**
+   * One token per record is due from the source's bucket (API key, or client
+   * address without authentication) and from each reporting agent's bucket.
+   * Every bucket is checked before any is spent from, so a request refused
+   * by one bucket does not use up the others.
+   */
+  private checkRateLimits(req: express.Request, res: express.Response, records: Array<{ agentId?: string }>): RateLimitCharge[] {
+    const charges: RateLimitCharge[] = [
+      { limiter: this.sourceLimiter, key: this.rateLimitSource(req, res), cost: records.length }
+    ];
+
+    const perAgent = new Map<string, number>();
+    for (const record of records) {
+      if (record.agentId) perAgent.set(record.agentId, (perAgent.get(record.agentId) || 0) + 1);
+    }
+    for (const [agentId, count] of perAgent) {
+      charges.push({ limiter: this.agentLimiter, key: agentId, cost: count });
+    }
+
+    const refused = charges
+      .filter(({ cost }) => cost > 0)
+      .map(({ limiter, key, cost }) => limiter.check(key, cost))
+      .filter(limit => !limit.allowed);
+    if (refused.length > 0) {
+      this.recordsRateLimited += records.length;
+      throw new RateLimitExceededError(Math.max(...refused.map(limit => limit.retryAfterSeconds)));
+    }
+
+    return charges;
   }
 
-  private broadcastAppMetrics(metrics: AppMetrics): void {
-    const message = JSON.stringify({ type: 'app_metrics', data: metrics });
-    this.broadcast(message);
+  private spendTokens(charges: RateLimitCharge[]): void {
+    for (const { limiter, key, cost } of charges) {
+      if (cost > 0) limiter.take(key, cost);
+    }
   }
 
-  private broadcastCoreWebVitals(metrics: CoreWebVitalsData): void {
-    const message = JSON.stringify({ type: 'core_web_vitals', data: metrics });
-    this.broadcast(message);
+  /**
+   * Queue counters plus the records refused before they reached the queue
+   */
+  private ingestionStats(): CollectorStats['ingestion'] {
+    return {
+      ...this.ingestionQueue.getStats(),
+      rateLimited: this.recordsRateLimited,
+      unauthorized: this.recordsUnauthorized
+    };
   }
 
-  private broadcastAlert(alert: any): void {
-    const message = JSON.stringify({ type: 'alert', data: alert });
-    this.broadcast(message);
+  private rateLimitSource(req: express.Request, res: express.Response): string {
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+    return apiKey ? `key:${apiKey.id}` : `ip:${req.ip}`;
   }
 
-  private broadcast(message: string): void {
-    this.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
+  /**
+   * Store a chunk of queued records of one type, then run the same
+   * processing for each record as before the queue existed
+   */
+  private async writeRecords(type: BatchItemType, records: any[]): Promise<void> {
+    const writers: Record<BatchItemType, (records: any[]) => Promise<void>> = {
+      agent_metrics: records => this.storage.storeAgentMetricsBatch(records),
+      app_metrics: records => this.storage.storeAppMetricsBatch(records),
+      core_web_vitals: records => this.storage.storeCoreWebVitalsBatch(records),
+      context7_query: records => this.storage.storeContext7QueriesBatch(records),
+      tool_usage: records => this.storage.storeToolUsageBatch(records),
+      bundle_size: records => this.storage.storeBundleSizesBatch(records),
+      agent_task: records => this.storage.storeAgentTasksBatch(records),
+      agent_handoff: records => this.storage.storeAgentHandoffsBatch(records),
+      span: records => this.storage.storeSpansBatch(records)
+    };
+
+    const endTimer = this.exporter.startDbWriteTimer(type);
+    await writers[type](records);
+    endTimer();
+
+    for (const record of records) {
+      try {
+        if (type === 'agent_metrics') await this.handleAgentMetrics(record);
+        if (type === 'app_metrics') await this.handleAppMetrics(record);
+        if (type === 'core_web_vitals') await this.handleCoreWebVitals(record);
+        if (type === 'context7_query') this.handleContext7Query(record);
+        if (type === 'tool_usage') this.handleToolUsage(record);
+        if (type === 'bundle_size') this.handleBundleSize(record);
+        if (type === 'agent_task') this.handleAgentTask(record);
+        if (type === 'agent_handoff') this.handleAgentHandoff(record);
+      } catch (error) {
+        logger.error({ error, type }, 'Error processing stored record');
       }
+    }
+  }
+
+  /**
+   * Error responses shared by the ingestion routes
+   */
+  private rejectIngestion(res: express.Response, error: unknown, description: string): void {
+    if (error instanceof PayloadValidationError) {
+      return this.rejectPayload(res, error);
+    }
+    if (error instanceof AuthorizationError) {
+      this.recordsUnauthorized++;
+      res.status(403).json({ error: error.message });
+      return;
+    }
+    if (error instanceof RateLimitExceededError) {
+      res.set('Retry-After', String(error.retryAfterSeconds))
+        .status(429)
+        .json({ error: 'Rate limit exceeded', retryAfterSeconds: error.retryAfterSeconds });
+      return;
+    }
+    if (error instanceof IngestionQueueFullError) {
+      res.set('Retry-After', String(QUEUE_FULL_RETRY_AFTER_SECONDS))
+        .status(503)
+        .json({ error: 'Ingestion queue is full', retryAfterSeconds: QUEUE_FULL_RETRY_AFTER_SECONDS });
+      return;
+    }
+    logger.error({ error }, `Error processing ${description}`);
+    res.status(500).json({ error: `Failed to process ${description}` });
+  }
+
+  /**
+   * Processing for each record once it is stored
+   */
+  private async handleAgentMetrics(metrics: AgentMetrics): Promise<void> {
+    this.processor.processAgentMetrics(metrics);
+    this.hub.publish('agent_metrics', metrics);
+    await this.heartbeatMonitor.record(metrics);
+    if (this.inlineAlertEvaluation) {
+      await this.alertManager.checkAgentMetrics(metrics);
+    }
+  }
+
+  private async handleAppMetrics(metrics: AppMetrics): Promise<void> {
+    this.hub.publish('app_metrics', metrics);
+    if (this.inlineAlertEvaluation) {
+      await this.alertManager.checkAppMetrics(metrics);
+    }
+  }
+
+  private async handleCoreWebVitals(metrics: CoreWebVitalsData): Promise<void> {
+    this.exporter.observeCoreWebVitals(metrics);
+    this.hub.publish('core_web_vitals', metrics);
+    if (this.inlineAlertEvaluation) {
+      await this.alertManager.checkCoreWebVitals(metrics);
+    }
+  }
+
+  private handleContext7Query(query: Context7Query): void {
+    this.hub.publish('context7_query', query);
+  }
+
+  private handleToolUsage(event: ToolUsageEvent): void {
+    this.hub.publish('tool_usage', event);
+  }
+
+  private handleBundleSize(metric: BundleSizeMetric): void {
+    this.hub.publish('bundle_size', metric);
+  }
+
+  private handleAgentTask(task: AgentTask): void {
+    this.hub.publish('agent_task', task);
+  }
+
+  private handleAgentHandoff(handoff: AgentHandoff): void {
+    this.hub.publish('agent_handoff', handoff);
+  }
+
+  /**
+   * Malformed JSON bodies are rejected like schema failures instead of
+   * falling through to Express's HTML error page
+   */
+  private setupErrorHandling(): void {
+    this.app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+      if (error?.type === 'entity.parse.failed') {
+        return this.rejectPayload(res, new PayloadValidationError([{ path: '', message: 'body is not valid JSON' }]));
+      }
+      next(error);
     });
   }
 
+  private rejectPayload(res: express.Response, error: PayloadValidationError): void {
+    this.payloadsRejected++;
+    res.status(400).json({ error: 'Invalid payload', details: error.errors });
+  }
+
+  /**
+   * Row limit from a query string, capped at 1000
+   */
+  private parseLimit(limit: unknown): number | undefined {
+    return limit ? Math.min(parseInt(limit as string) || 100, 1000) : undefined;
+  }
+
+  private setupAlertListeners(): void {
+    this.alertManager.on('alert', (alert: Alert) => this.hub.publish('alert', alert));
+    this.alertManager.on('alert_acknowledged', (alert: Alert) => this.hub.publish('alert_acknowledged', alert));
+    this.alertManager.on('alert_resolved', (alert: Alert) => this.hub.publish('alert_resolved', alert));
+
+    this.heartbeatMonitor.on('agent_status_changed', (change: AgentStatusChange) => {
+      this.hub.publish('agent_status_changed', change);
+      this.alertManager.handleAgentStatusChange(change)
+        .catch(error => logger.error({ error, agentId: change.agentId }, 'Failed to handle agent status change'));
+    });
+  }
+
+  /**
+   * In scheduled mode alerts fire and auto-resolve in the alerting service;
+   * relay its events to WebSocket clients as if raised here
+   */
+  private async relayAlertEvents(): Promise<void> {
+    this.unsubscribeAlertEvents = await this.storage.subscribeAlertEvents(event => {
+      this.storage.getAlert(event.alertId)
+        .then(alert => {
+          if (alert) this.hub.publish(event.type, alert);
+        })
+        .catch(error => logger.error({ error, alertId: event.alertId }, 'Failed to relay alert event'));
+    });
+  }
+
+  private setupWebSocket(): void {
+    this.wss.on('connection', async (ws: WebSocket, req: http.IncomingMessage) => {
+      // Hold subscribe messages sent straight after connecting until the key is checked
+      ws.pause();
+
+      // Subscribers need a read key, like the query endpoints
+      try {
+        await this.auth.authorize('GET', '/ws', getCredential(req.headers, req.url));
+      } catch (error) {
+        if (!(error instanceof AuthenticationError || error instanceof AuthorizationError)) {
+          logger.error({ error }, 'Error authenticating WebSocket connection');
+        }
+        ws.close(1008, error instanceof Error ? error.message : 'Unauthorized');
+        return;
+      }
+
+      if (this.hub.accept(ws, req.url)) {
+        logger.info('New WebSocket connection');
+      } else {
+        logger.warn('Refused WebSocket connection, too many connections');
+      }
+    });
+  }
+
+  /**
+   * Recent records for topics a client has just subscribed to, in the shape
+   * of the initial_data message
+   */
+  private async loadInitialData(topics: Topic[]): Promise<Record<string, any[]>> {
+    const data: Record<string, any[]> = {};
+    const add = (key: string, rows: any[]) => {
+      data[key] = [...(data[key] || []), ...rows];
+    };
+
+    for (const topic of topics) {
+      switch (topic.name) {
+        case 'agent_metrics':
+          add('agentMetrics', await this.storage.getRecentAgentMetrics(INITIAL_DATA_LIMIT, topic.filter as AgentType | undefined));
+          break;
+        case 'app_metrics':
+          add('appMetrics', await this.storage.getRecentAppMetrics(INITIAL_DATA_LIMIT, topic.filter));
+          break;
+        case 'cwv':
+          add('coreWebVitals', await this.storage.getRecentCoreWebVitals(INITIAL_DATA_LIMIT, topic.filter));
+          break;
+        case 'alerts': {
+          const alerts = await this.alertManager.getActiveAlerts();
+          add('alerts', alerts.filter(alert => topic.filter === undefined || alert.severity === topic.filter));
+          break;
+        }
+      }
+    }
+
+    return data;
+  }
+
   private async getSystemHealth(): Promise<SystemHealth> {
     const agentStatus = await this.storage.getAgentStatus();
     const dbStats = await this.storage.getDatabaseStats();
     const uptime = process.uptime();
+    const ingestion = this.ingestionStats();
 
     const activeAgents = agentStatus.filter(a => a.status === AgentStatus.ACTIVE || a.status === AgentStatus.PROCESSING).length;
     const totalAgents = agentStatus.length;
@@ -266,14 +1560,16 @@ export class MetricsCollector {
           memoryUsage: 0
         },
         collector: {
-          status: 'healthy',
+          status: ingestion.depth >= ingestion.capacity * 0.8 ? 'degraded' : 'healthy',
           uptime,
-          metricsReceived: dbStats.metricsStored
+          metricsReceived: dbStats.metricsStored,
+          payloadsRejected: this.payloadsRejected,
+          ingestion
         },
         dashboard: {
           status: 'healthy',
           uptime,
-          activeConnections: this.clients.size
+          activeConnections: this.hub.size
         }
       },
       agents: agentStatus.map(a => ({
@@ -286,14 +1582,45 @@ export class MetricsCollector {
   }
 
   public start(): void {
+    this.heartbeatMonitor.start();
+    this.hub.start();
+    if (!this.inlineAlertEvaluation) {
+      this.relayAlertEvents()
+        .catch(error => logger.error({ error }, 'Failed to subscribe to alert events'));
+    }
     this.server.listen(this.port, () => {
       logger.info(`Metrics collector started on port ${this.port}`);
     });
   }
 
-  public stop(): void {
+  /**
+   * Stop accepting requests, then give the writers a bounded time to store
+   * what is still queued
+   */
+  public async stop(): Promise<void> {
+    this.heartbeatMonitor.stop();
+    this.hub.stop();
     this.wss.close();
     this.server.close();
+
+    const depth = this.ingestionQueue.getStats().depth;
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = await Promise.race([
+      this.ingestionQueue.drain().then(() => false),
+      new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(true), SHUTDOWN_DRAIN_TIMEOUT_MS); })
+    ]);
+    clearTimeout(timer);
+    if (timedOut) {
+      logger.warn({ depth: this.ingestionQueue.getStats().depth }, 'Stopped with records still queued');
+    } else if (depth > 0) {
+      logger.info({ records: depth }, 'Ingestion queue drained');
+    }
+
+    if (this.unsubscribeAlertEvents) {
+      await this.unsubscribeAlertEvents();
+      this.unsubscribeAlertEvents = null;
+    }
+    this.alertManager.stop();
     logger.info('Metrics collector stopped');
   }
 }
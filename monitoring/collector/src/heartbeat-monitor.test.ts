@@ -0,0 +1,63 @@
+import { AgentStatus, AgentStatusChange, AgentType } from '@types/monitoring';
+import { HeartbeatMonitor } from './heartbeat-monitor';
+import { InMemoryMetricsStore } from './memory-store';
+
+const START = Date.UTC(2024, 0, 1, 12);
+
+const at = (offsetSeconds: number) => new Date(START + offsetSeconds * 1000);
+
+describe('HeartbeatMonitor', () => {
+  let storage: InMemoryMetricsStore;
+  let monitor: HeartbeatMonitor;
+  let changes: AgentStatusChange[];
+
+  const report = (offsetSeconds: number) => monitor.record({
+    agentId: 'security-1',
+    agentType: AgentType.SECURITY,
+    status: AgentStatus.ACTIVE,
+    timestamp: at(offsetSeconds),
+    expectedIntervalSeconds: 60
+  });
+
+  const statusOf = async () => (await storage.getAgentHeartbeats())[0];
+
+  beforeEach(() => {
+    storage = new InMemoryMetricsStore();
+    monitor = new HeartbeatMonitor(storage);
+    changes = [];
+    monitor.on('agent_status_changed', (change: AgentStatusChange) => changes.push(change));
+  });
+
+  afterEach(() => storage.close());
+
+  it('marks an agent offline once it misses its expected reports', async () => {
+    await report(0);
+    expect(await monitor.checkOverdue(at(119))).toHaveLength(0);
+
+    await monitor.checkOverdue(at(121));
+    expect(changes).toEqual([expect.objectContaining({ previousStatus: AgentStatus.ACTIVE, status: AgentStatus.OFFLINE })]);
+    expect(await monitor.checkOverdue(at(180))).toHaveLength(0);
+  });
+
+  it('brings an offline agent back when it reports again', async () => {
+    await report(0);
+    await monitor.checkOverdue(at(121));
+    await report(150);
+
+    expect(changes.map(change => change.status)).toEqual([AgentStatus.OFFLINE, AgentStatus.ACTIVE]);
+    expect(await statusOf()).toMatchObject({ status: AgentStatus.ACTIVE, lastSeen: at(150) });
+  });
+
+  it('keeps an offline agent offline on a late or backfilled sample', async () => {
+    await report(0);
+    await monitor.checkOverdue(at(121));
+    await report(-30);
+    await report(0);
+
+    expect(changes.map(change => change.status)).toEqual([AgentStatus.OFFLINE]);
+    expect(await statusOf()).toMatchObject({ status: AgentStatus.OFFLINE, lastSeen: at(0) });
+
+    // Nothing to flap back from on the next check either
+    expect(await monitor.checkOverdue(at(180))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Heartbeat Monitor
+ * Dead-man's switch for agents: every report refreshes the agent's
+ * heartbeat, and agents that miss their expected reports are marked offline.
+ *
+ * Emits `agent_status_changed` with an AgentStatusChange when an agent goes
+ * offline, and when an offline agent reports again.
+ */
+
+import { EventEmitter } from 'events';
+import pino from 'pino';
+import { AgentStatus, AgentStatusChange, AgentType } from '@types/monitoring';
+import { MetricsStore } from './store';
+
+const logger = pino({ transport: { target: 'pino-pretty' } });
+
+const CHECK_INTERVAL_MS = 15000;
+
+export class HeartbeatMonitor extends EventEmitter {
+  private storage: MetricsStore;
+  private defaultIntervalSeconds = parseInt(process.env.AGENT_HEARTBEAT_INTERVAL_SECONDS || '60');
+  private missedIntervals = parseInt(process.env.AGENT_HEARTBEAT_MISSED_INTERVALS || '2');
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(storage: MetricsStore) {
+    super();
+    this.storage = storage;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkOverdue().catch(error => logger.error({ error }, 'Failed to check agent heartbeats'));
+    }, CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async record(heartbeat: {
+    agentId: string;
+    agentType: AgentType;
+    status?: AgentStatus;
+    timestamp?: Date;
+    expectedIntervalSeconds?: number;
+  }): Promise<void> {
+    const status = heartbeat.status && heartbeat.status !== AgentStatus.OFFLINE ? heartbeat.status : AgentStatus.ACTIVE;
+    const lastSeen = heartbeat.timestamp ? new Date(heartbeat.timestamp) : new Date();
+
+    const { previousStatus, status: currentStatus } = await this.storage.recordHeartbeat({
+      agentId: heartbeat.agentId,
+      agentType: heartbeat.agentType,
+      status,
+      lastSeen,
+      expectedIntervalSeconds: heartbeat.expectedIntervalSeconds
+    }, this.defaultIntervalSeconds);
+
+    // A sample older than the agent's last_seen leaves it offline
+    if (previousStatus === AgentStatus.OFFLINE && currentStatus !== AgentStatus.OFFLINE) {
+      logger.info({ agentId: heartbeat.agentId, agentType: heartbeat.agentType }, 'Agent is reporting again');
+      this.emit('agent_status_changed', {
+        agentId: heartbeat.agentId,
+        agentType: heartbeat.agentType,
+        previousStatus,
+        status,
+        lastSeen
+      });
+    }
+  }
+
+  async checkOverdue(now: Date = new Date()): Promise<AgentStatusChange[]> {
+    const changes = await this.storage.markOverdueAgentsOffline(now, this.missedIntervals);
+
+    for (const change of changes) {
+      logger.warn({ agentId: change.agentId, agentType: change.agentType, lastSeen: change.lastSeen }, 'Agent marked offline');
+      this.emit('agent_status_changed', change);
+    }
+
+    return changes;
+  }
+}
@@ -5,14 +5,12 @@ const collector = new MetricsCollector(parseInt(process.env.PORT || '3000'));
 // Handle graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
-  collector.stop();
-  process.exit(0);
+  collector.stop().finally(() => process.exit(0));
 });
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully');
-  collector.stop();
-  process.exit(0);
+  collector.stop().finally(() => process.exit(0));
 });
 
 // Start the collector
@@ -0,0 +1,86 @@
+import pino from 'pino';
+import { IngestionQueue, QueuedRecord } from './ingestion-queue';
+
+// The pino-pretty transport prints from a worker thread after the suite has
+// finished, so capture what the queue logs instead
+jest.mock('pino', () => {
+  const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  return () => logger;
+});
+
+const logger = pino();
+
+const records = (type: QueuedRecord['type'], count: number): QueuedRecord[] =>
+  Array.from({ length: count }, (_, i) => ({ type, record: { i } }));
+
+describe('IngestionQueue', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('writes queued records in batches grouped by type', async () => {
+    const writes: Array<{ type: string; count: number }> = [];
+    const queue = new IngestionQueue(async (type, batch) => {
+      writes.push({ type, count: batch.length });
+    }, { capacity: 100, writers: 1, writeBatchSize: 3 });
+
+    expect(queue.enqueue([...records('agent_metrics', 2), ...records('app_metrics', 2)])).toBe(true);
+    await queue.drain();
+
+    expect(writes).toEqual([
+      { type: 'agent_metrics', count: 2 },
+      { type: 'app_metrics', count: 1 },
+      { type: 'app_metrics', count: 1 }
+    ]);
+    expect(queue.getStats()).toMatchObject({ depth: 0, enqueued: 4, written: 4, dropped: 0, writeFailures: 0 });
+  });
+
+  it('refuses a request that does not fit as a whole', async () => {
+    let release = () => {};
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+    const queue = new IngestionQueue(() => blocked, { capacity: 5, writers: 1, writeBatchSize: 1 });
+
+    expect(queue.enqueue(records('agent_metrics', 3))).toBe(true);
+    // One record is with the writer, two are still queued
+    expect(queue.enqueue(records('agent_metrics', 4))).toBe(false);
+    expect(queue.enqueue(records('agent_metrics', 3))).toBe(true);
+    expect(queue.getStats()).toMatchObject({ depth: 5, enqueued: 6, dropped: 4 });
+
+    release();
+    await queue.drain();
+    expect(queue.getStats()).toMatchObject({ depth: 0, written: 6 });
+  });
+
+  it('counts failed writes and keeps draining', async () => {
+    const queue = new IngestionQueue(async type => {
+      if (type === 'app_metrics') throw new Error('insert failed');
+    }, { capacity: 100, writers: 2, writeBatchSize: 10 });
+
+    queue.enqueue([...records('app_metrics', 2), ...records('agent_metrics', 3)]);
+    await queue.drain();
+
+    expect(queue.getStats()).toMatchObject({ written: 3, writeFailures: 2 });
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'app_metrics', count: 2 }),
+      'Failed to write queued records'
+    );
+  });
+
+  it('loses only the records a failed write refuses', async () => {
+    const written: number[] = [];
+    const queue = new IngestionQueue(async (_type, batch) => {
+      if (batch.some(record => record.i === 3)) throw new Error('duplicate key');
+      written.push(...batch.map(record => record.i));
+    }, { capacity: 100, writers: 1, writeBatchSize: 10 });
+
+    queue.enqueue(records('context7_query', 7));
+    await queue.drain();
+
+    expect(written.sort()).toEqual([0, 1, 2, 4, 5, 6]);
+    expect(queue.getStats()).toMatchObject({ written: 6, writeFailures: 1 });
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+
+  it('drains immediately when idle', async () => {
+    const queue = new IngestionQueue(async () => {}, { capacity: 1 });
+    await expect(queue.drain()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Ingestion Queue
+ * Bounded in-memory queue between the ingestion routes and Postgres. Routes
+ * enqueue validated records and return 202; a fixed number of writers drain
+ * the queue in multi-row batches, so a burst of requests holds at most
+ * `writers` pool connections instead of one per request.
+ *
+ * Records are lost if the process dies before they are written. A failed
+ * write is split and retried until only the records the database refuses
+ * are left; those are counted and logged but not retried.
+ */
+
+import pino from 'pino';
+import { BatchItemType } from '@types/monitoring';
+
+const logger = pino({ transport: { target: 'pino-pretty' } });
+
+/**
+ * Raised when records do not fit in the queue (503)
+ */
+export class IngestionQueueFullError extends Error {
+  constructor() {
+    super('Ingestion queue is full');
+    this.name = 'IngestionQueueFullError';
+  }
+}
+
+export interface QueuedRecord {
+  type: BatchItemType;
+  record: any;
+}
+
+export interface IngestionQueueStats {
+  depth: number;
+  capacity: number;
+  writers: number;
+  enqueued: number;
+  written: number;
+  dropped: number; // records refused because the queue was full
+  writeFailures: number; // records lost to failed writes
+}
+
+export interface IngestionQueueOptions {
+  capacity?: number;
+  writers?: number;
+  writeBatchSize?: number;
+}
+
+export type RecordWriter = (type: BatchItemType, records: any[]) => Promise<void>;
+
+export class IngestionQueue {
+  private write: RecordWriter;
+  private capacity: number;
+  private writers: number;
+  private writeBatchSize: number;
+  private queue: QueuedRecord[] = [];
+  private activeWriters = 0;
+  private idleWaiters: Array<() => void> = [];
+  private counters = { enqueued: 0, written: 0, dropped: 0, writeFailures: 0 };
+
+  constructor(write: RecordWriter, options: IngestionQueueOptions = {}) {
+    this.write = write;
+    this.capacity = options.capacity ?? parseInt(process.env.INGESTION_QUEUE_CAPACITY || '10000');
+    this.writers = options.writers ?? parseInt(process.env.INGESTION_WRITERS || '4');
+    this.writeBatchSize = options.writeBatchSize ?? parseInt(process.env.INGESTION_WRITE_BATCH_SIZE || '500');
+  }
+
+  /**
+   * Queue all records or none of them. Returns false, counting the records
+   * as dropped, when they do not fit.
+   */
+  enqueue(records: QueuedRecord[]): boolean {
+    if (this.queue.length + records.length > this.capacity) {
+      this.counters.dropped += records.length;
+      return false;
+    }
+
+    this.queue.push(...records);
+    this.counters.enqueued += records.length;
+    this.startWriters();
+    return true;
+  }
+
+  getStats(): IngestionQueueStats {
+    return {
+      depth: this.queue.length,
+      capacity: this.capacity,
+      writers: this.writers,
+      ...this.counters
+    };
+  }
+
+  /**
+   * Resolves once everything queued so far has been written
+   */
+  drain(): Promise<void> {
+    if (this.queue.length === 0 && this.activeWriters === 0) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private startWriters(): void {
+    while (this.activeWriters < this.writers && this.queue.length > 0) {
+      this.activeWriters++;
+      this.runWriter().finally(() => {
+        this.activeWriters--;
+        if (this.activeWriters === 0 && this.queue.length === 0) {
+          this.idleWaiters.splice(0).forEach(resolve => resolve());
+        }
+      });
+    }
+  }
+
+  private async runWriter(): Promise<void> {
+    while (this.queue.length > 0) {
+      const chunk = this.queue.splice(0, this.writeBatchSize);
+
+      const groups = new Map<BatchItemType, any[]>();
+      for (const { type, record } of chunk) {
+        const group = groups.get(type);
+        if (group) group.push(record);
+        else groups.set(type, [record]);
+      }
+
+      for (const [type, records] of groups) {
+        const { failed, error } = await this.writeIsolatingFailures(type, records);
+        this.counters.written += records.length - failed;
+        if (failed > 0) {
+          this.counters.writeFailures += failed;
+          logger.error({ error, type, count: failed }, 'Failed to write queued records');
+        }
+      }
+    }
+  }
+
+  /**
+   * Records from different requests share a write, so one bad row (a
+   * duplicate id, say) would otherwise take the others down with it. Split
+   * a failed group in halves until the failing records are on their own.
+   */
+  private async writeIsolatingFailures(type: BatchItemType, records: any[]): Promise<{ failed: number; error?: unknown }> {
+    try {
+      await this.write(type, records);
+      return { failed: 0 };
+    } catch (error) {
+      if (records.length === 1) return { failed: 1, error };
+
+      const middle = Math.ceil(records.length / 2);
+      const first = await this.writeIsolatingFailures(type, records.slice(0, middle));
+      const second = await this.writeIsolatingFailures(type, records.slice(middle));
+      return { failed: first.failed + second.failed, error: second.error ?? first.error };
+    }
+  }
+}
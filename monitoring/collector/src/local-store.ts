@@ -0,0 +1,1334 @@
+/**
+ * Local Metrics Stores
+ * MetricsStore evaluated in process, for tests and single-developer runs
+ * without TimescaleDB. Records are kept as the domain objects, in one
+ * collection per Postgres table, and each query filters and aggregates the
+ * records in its time range in JavaScript. That is fine for a developer's
+ * data but not for production volumes. Subclasses decide where the records
+ * live.
+ *
+ * Catalogued metrics are read through row views that flatten records into
+ * the columns of their Postgres table, so the catalog and MetricSeriesQuery
+ * resolve the same way against every store. Rollup views are computed
+ * from the raw records when they are queried.
+ *
+ * Retention policies are recorded but not enforced: nothing is deleted.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  AgentMetrics,
+  AppMetrics,
+  CoreWebVitalsData,
+  AgentStatus,
+  AgentType,
+  AggregatedMetrics,
+  AggregatedStatistics,
+  MetricQueryAggregation,
+  MetricSeries,
+  Alert,
+  AlertSeverity,
+  AlertRule,
+  NotificationChannel,
+  Silence,
+  MaintenanceWindow,
+  AgentHeartbeat,
+  AgentStatusChange,
+  AlertAnalyticsGroupBy,
+  AlertCountBucket,
+  Context7Query,
+  Context7LibraryStats,
+  ToolUsageEvent,
+  ToolUsageStats,
+  TraceSpan,
+  BundleSizeMetric,
+  AgentHandoff,
+  AgentTask,
+  AgentTaskStats,
+  AgentTaskFailureReason,
+  ApiKey,
+  RetentionPolicy,
+  RollupTier
+} from '@types/monitoring';
+import { ROLLUP_TIERS, ROLLUP_TIER_SECONDS, TABLE_ROLLUPS, getMetricDefinition, rollupView } from './metric-catalog';
+import { DEFAULT_RETENTION_POLICIES } from './retention';
+import {
+  AgentHandoffQueryOptions,
+  AgentTaskQueryOptions,
+  AgentTypeStatus,
+  AggregatedMetricsQuery,
+  AlertCycleCount,
+  AlertEvent,
+  AlertEventHandler,
+  AlertHistoryQueryOptions,
+  AlertResponseGroupStats,
+  AlertRuleQueryOptions,
+  BundleSizeQueryOptions,
+  Context7QueryOptions,
+  DatabaseStats,
+  EventQueryOptions,
+  HeartbeatReport,
+  HeartbeatResult,
+  LatestAgentMetrics,
+  LeaderLock,
+  MetricSeriesQuery,
+  MetricsStore,
+  SeriesValue,
+  ToolUsageQueryOptions,
+  WindowAggregation,
+  mergeTaskReports
+} from './store';
+
+export type Collection =
+  | 'agent_metrics'
+  | 'app_metrics'
+  | 'core_web_vitals'
+  | 'context7_queries'
+  | 'agent_tool_usage'
+  | 'bundle_sizes'
+  | 'agent_handoffs'
+  | 'trace_spans'
+  | 'agent_tasks'
+  | 'agent_heartbeats'
+  | 'alert_rules'
+  | 'notification_channels'
+  | 'alert_silences'
+  | 'maintenance_windows'
+  | 'api_keys'
+  | 'alerts'
+  | 'retention_policies';
+
+/**
+ * A record as handed to a subclass. Records with a key replace the record
+ * stored under it; the rest are appended. `time` (epoch milliseconds)
+ * orders records and is what scans select on.
+ */
+export interface StoredRecord {
+  key: string | null;
+  time: number;
+  value: Record<string, any>;
+}
+
+// Field each collection is ordered by, and the key of collections that are updated or unique
+const COLLECTIONS: Record<Collection, { time: string; key?: (record: any) => string }> = {
+  agent_metrics: { time: 'timestamp' },
+  app_metrics: { time: 'timestamp' },
+  core_web_vitals: { time: 'timestamp' },
+  context7_queries: { time: 'timestamp', key: (query: Context7Query) => query.id },
+  agent_tool_usage: { time: 'timestamp' },
+  bundle_sizes: { time: 'timestamp' },
+  agent_handoffs: { time: 'timestamp' },
+  trace_spans: { time: 'startTime', key: (span: TraceSpan) => `${span.traceId}/${span.spanId}/${time(span.startTime)}` },
+  agent_tasks: { time: 'startTime', key: (task: AgentTask) => task.id },
+  agent_heartbeats: { time: 'lastSeen', key: (heartbeat: AgentHeartbeat) => heartbeat.agentId },
+  alert_rules: { time: 'createdAt', key: (rule: AlertRule) => rule.id },
+  notification_channels: { time: 'createdAt', key: (channel: NotificationChannel) => channel.id },
+  alert_silences: { time: 'createdAt', key: (silence: Silence) => silence.id },
+  maintenance_windows: { time: 'createdAt', key: (window: MaintenanceWindow) => window.id },
+  api_keys: { time: 'createdAt', key: (apiKey: ApiKey) => apiKey.id },
+  alerts: { time: 'timestamp', key: (alert: Alert) => alert.id },
+  retention_policies: { time: 'updatedAt', key: (policy: RetentionPolicy) => policy.table }
+};
+
+// Tool usage as stored in agent_tool_usage, with outcome totals
+interface ToolUsageRecord {
+  agentType: AgentType;
+  agentId: string;
+  timestamp: Date;
+  toolName: string;
+  count: number;
+  executionTime?: number;
+  successCount: number;
+  failureCount: number;
+}
+
+type StoredApiKey = ApiKey & { keyHash: string };
+
+type Row = Record<string, any>;
+
+// Tables the metric catalog reads, as the collection holding them and the
+// mapping of a record onto the table's columns
+const ROW_VIEWS: Record<string, { collection: Collection; row: (record: any) => Row }> = {
+  agent_metrics: {
+    collection: 'agent_metrics',
+    row: (metrics: AgentMetrics) => ({
+      timestamp: metrics.timestamp,
+      agent_type: metrics.agentType,
+      agent_id: metrics.agentId,
+      status: metrics.status,
+      response_time: metrics.metrics.responseTime,
+      task_completion_rate: metrics.metrics.taskCompletionRate,
+      error_rate: metrics.metrics.errorRate,
+      active_tasks: metrics.metrics.activeTasks,
+      completed_tasks: metrics.metrics.completedTasks,
+      failed_tasks: metrics.metrics.failedTasks,
+      context7_queries_count: metrics.metrics.context7Queries.count,
+      context7_queries_avg_time: metrics.metrics.context7Queries.avgResponseTime,
+      context7_queries_success_rate: metrics.metrics.context7Queries.successRate,
+      handoffs_received: metrics.metrics.coordinationMetrics.handoffsReceived,
+      handoffs_sent: metrics.metrics.coordinationMetrics.handoffsSent,
+      avg_handoff_time: metrics.metrics.coordinationMetrics.avgHandoffTime
+    })
+  },
+  app_metrics: {
+    collection: 'app_metrics',
+    row: (metrics: AppMetrics) => ({
+      timestamp: metrics.timestamp,
+      session_id: metrics.sessionId,
+      url: metrics.url,
+      js_execution_time: metrics.metrics.javascript.executionTime,
+      js_parsing_time: metrics.metrics.javascript.parsingTime,
+      js_compilation_time: metrics.metrics.javascript.compilationTime,
+      js_main_thread_blocking: metrics.metrics.javascript.mainThreadBlocking,
+      bundle_total_size: metrics.metrics.bundle.totalSize,
+      bundle_gzipped_size: metrics.metrics.bundle.gzippedSize,
+      bundle_chunk_count: metrics.metrics.bundle.chunkCount,
+      bundle_largest_chunk: metrics.metrics.bundle.largestChunk,
+      render_first_paint: metrics.metrics.rendering.firstPaint,
+      render_dom_content_loaded: metrics.metrics.rendering.domContentLoaded,
+      render_load_complete: metrics.metrics.rendering.loadComplete,
+      render_fps: metrics.metrics.rendering.fps,
+      mem_used: metrics.metrics.memory.used,
+      mem_limit: metrics.metrics.memory.limit,
+      mem_js_heap_size: metrics.metrics.memory.jsHeapSize
+    })
+  },
+  core_web_vitals: {
+    collection: 'core_web_vitals',
+    row: (vitals: CoreWebVitalsData) => ({
+      timestamp: vitals.timestamp,
+      url: vitals.url,
+      session_id: vitals.sessionId,
+      lcp: vitals.metrics.lcp,
+      fid: vitals.metrics.fid,
+      cls: vitals.metrics.cls,
+      fcp: vitals.metrics.fcp,
+      tti: vitals.metrics.tti,
+      performance_score: vitals.performanceScore
+    })
+  },
+  context7_queries: {
+    collection: 'context7_queries',
+    row: (query: Context7Query) => ({
+      timestamp: query.timestamp,
+      agent_type: query.agentType,
+      agent_id: query.agentId,
+      library: query.library,
+      response_time: query.responseTime,
+      success: query.success,
+      tokens_returned: query.tokensReturned
+    })
+  },
+  agent_tool_usage: {
+    collection: 'agent_tool_usage',
+    row: (usage: ToolUsageRecord) => ({
+      timestamp: usage.timestamp,
+      agent_type: usage.agentType,
+      agent_id: usage.agentId,
+      tool_name: usage.toolName,
+      count: usage.count,
+      execution_time: usage.executionTime,
+      success_count: usage.successCount,
+      failure_count: usage.failureCount
+    })
+  },
+  bundle_sizes: {
+    collection: 'bundle_sizes',
+    row: (metric: BundleSizeMetric) => ({
+      timestamp: metric.timestamp,
+      name: metric.name,
+      size: metric.size,
+      gzipped_size: metric.gzippedSize
+    })
+  }
+};
+
+// Rollup view name -> the table and tier it rolls up
+const ROLLUP_VIEWS = new Map(Object.keys(TABLE_ROLLUPS).flatMap(table =>
+  ROLLUP_TIERS.map(tier => [rollupView(table, tier), { table, tier }] as const)
+));
+
+const RECENT_STATUS_WINDOW_MS = 5 * 60 * 1000;
+
+// time_bucket aligns buckets to this origin, a Monday, rather than the epoch
+const BUCKET_ORIGIN_MS = Date.UTC(2000, 0, 3);
+
+const INTERVAL_UNITS: Record<string, number> = {
+  m: 60, minute: 60, minutes: 60,
+  h: 3600, hour: 3600, hours: 3600,
+  d: 86400, day: 86400, days: 86400
+};
+
+const ALERT_GROUP_FIELDS: Record<AlertAnalyticsGroupBy, 'ruleId' | 'severity' | 'agentType'> = {
+  rule: 'ruleId',
+  severity: 'severity',
+  agent: 'agentType'
+};
+
+function time(value: Date | string | number): number {
+  return new Date(value).getTime();
+}
+
+function timeBucket(ms: number, stepMs: number): number {
+  return Math.floor((ms - BUCKET_ORIGIN_MS) / stepMs) * stepMs + BUCKET_ORIGIN_MS;
+}
+
+function isSet(value: unknown): boolean {
+  return value !== null && value !== undefined;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+}
+
+/**
+ * Continuous percentile, interpolating between samples like percentile_cont
+ */
+function percentile(values: number[], fraction: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = fraction * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function statistics(values: number[]): AggregatedStatistics<number | null> & { count: number } {
+  return {
+    count: values.length,
+    min: values.length > 0 ? Math.min(...values) : null,
+    max: values.length > 0 ? Math.max(...values) : null,
+    avg: average(values),
+    p50: percentile(values, 0.5),
+    p95: percentile(values, 0.95),
+    p99: percentile(values, 0.99)
+  };
+}
+
+/**
+ * Statistics of rollup rows, which have no percentiles
+ */
+function rollupStatistics(rows: Row[], column: string): AggregatedStatistics<number | null> & { count: number } {
+  const count = rows.reduce((total, row) => total + Number(row[`${column}_count`]), 0);
+  return {
+    count,
+    min: rows.length > 0 ? Math.min(...rows.map(row => Number(row[`${column}_min`]))) : null,
+    max: rows.length > 0 ? Math.max(...rows.map(row => Number(row[`${column}_max`]))) : null,
+    avg: count > 0 ? rows.reduce((total, row) => total + row[`${column}_avg`] * row[`${column}_count`], 0) / count : null,
+    p50: null,
+    p95: null,
+    p99: null
+  };
+}
+
+function maxString(values: Array<string | undefined>): string {
+  return values.reduce<string>((max, value) => value !== undefined && value > max ? value : max, '');
+}
+
+function groupRecords<T>(items: T[], key: (item: T) => unknown[]): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const id = JSON.stringify(key(item));
+    const group = groups.get(id);
+    if (group) group.push(item);
+    else groups.set(id, [item]);
+  }
+  return [...groups.values()];
+}
+
+function compareLabels(a: string[], b: string[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+}
+
+function newestFirst<T>(records: T[], limit: number): T[] {
+  return records.reverse().slice(0, limit);
+}
+
+/**
+ * Whether a URL's path is the given path or a page below it
+ */
+function isAtOrBelowPath(url: string, path?: string): boolean {
+  if (path === undefined || path === '/') return true;
+  const urlPath = /^(?:[a-zA-Z][a-zA-Z0-9+.-]*:\/\/[^/?#]*)?([^?#]*)/.exec(url)?.[1] ?? '';
+  return urlPath === path || urlPath.startsWith(`${path}/`);
+}
+
+function matchesFilters(row: Row, filters: Array<{ column: string; value: string }>): boolean {
+  return filters.every(filter => isSet(row[filter.column]) && String(row[filter.column]) === filter.value);
+}
+
+/**
+ * Aggregate the samples of one step, as SERIES_AGGREGATES does in SQL
+ */
+function aggregateSamples(
+  samples: Array<{ time: number; value: number; weight: number }>,
+  aggregation: MetricQueryAggregation,
+  step: number
+): number {
+  const values = samples.map(sample => sample.value);
+  const weights = samples.reduce((total, sample) => total + sample.weight, 0);
+
+  switch (aggregation) {
+    case 'avg':
+      return samples.reduce((total, sample) => total + sample.value * sample.weight, 0) / weights;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    case 'sum':
+      return samples.reduce((total, sample) => total + sample.value * sample.weight, 0);
+    case 'count':
+      return weights;
+    case 'p50':
+      return percentile(values, 0.5)!;
+    case 'p95':
+      return percentile(values, 0.95)!;
+    case 'p99':
+      return percentile(values, 0.99)!;
+    case 'rate': {
+      // Per-second increase, treating a drop as a counter reset
+      const ordered = [...samples].sort((a, b) => a.time - b.time);
+      const first = ordered[0].value;
+      const last = ordered[ordered.length - 1].value;
+      return (last >= first ? last - first : last) / step;
+    }
+  }
+}
+
+export abstract class LocalMetricsStore implements MetricsStore {
+  // Leader locks only exclude holders sharing this store instance
+  private locks = new Set<number>();
+  // Likewise, alert events only reach subscribers of this store instance
+  private alertEvents = new EventEmitter();
+
+  /**
+   * Insert records, replacing keyed records already stored under the same key
+   */
+  protected abstract put(collection: Collection, records: StoredRecord[]): void;
+
+  protected abstract get(collection: Collection, key: string): any | undefined;
+
+  protected abstract remove(collection: Collection, key: string): boolean;
+
+  /**
+   * Records whose time is within [from, to] (either end open when not
+   * given), oldest first. Records with the same time come in the order they
+   * were first stored.
+   */
+  protected abstract scan(collection: Collection, from?: number, to?: number): any[];
+
+  protected abstract count(collection: Collection): number;
+
+  protected abstract transaction(work: () => void): void;
+
+  abstract close(): Promise<void>;
+
+  async storeAgentMetrics(metrics: AgentMetrics): Promise<void> {
+    await this.storeAgentMetricsBatch([metrics]);
+  }
+
+  async storeAppMetrics(metrics: AppMetrics): Promise<void> {
+    await this.storeAppMetricsBatch([metrics]);
+  }
+
+  async storeCoreWebVitals(metrics: CoreWebVitalsData): Promise<void> {
+    await this.storeCoreWebVitalsBatch([metrics]);
+  }
+
+  async storeAgentMetricsBatch(batch: AgentMetrics[]): Promise<void> {
+    // Snapshot counts carry no outcome, so they add to invocations but not
+    // to success or failure totals
+    const toolUsage = batch.flatMap(metrics => Object.entries(metrics.metrics.toolUsage).map(([toolName, count]) => ({
+      agentType: metrics.agentType,
+      agentId: metrics.agentId,
+      timestamp: metrics.timestamp,
+      toolName,
+      count,
+      successCount: 0,
+      failureCount: 0
+    })));
+
+    this.transaction(() => {
+      this.insert('agent_metrics', batch);
+      this.insert('agent_tool_usage', toolUsage);
+    });
+  }
+
+  async storeAppMetricsBatch(batch: AppMetrics[]): Promise<void> {
+    this.transaction(() => this.insert('app_metrics', batch));
+  }
+
+  async storeCoreWebVitalsBatch(batch: CoreWebVitalsData[]): Promise<void> {
+    this.transaction(() => this.insert('core_web_vitals', batch));
+  }
+
+  async storeContext7QueriesBatch(batch: Context7Query[]): Promise<void> {
+    this.transaction(() => this.insert('context7_queries', this.unseen('context7_queries', batch)));
+  }
+
+  async storeToolUsageBatch(batch: ToolUsageEvent[]): Promise<void> {
+    const records: ToolUsageRecord[] = batch.map(event => ({
+      agentType: event.agentType,
+      agentId: event.agentId,
+      timestamp: event.timestamp,
+      toolName: event.toolName,
+      count: event.count,
+      executionTime: event.executionTime,
+      successCount: event.success ? event.count : 0,
+      failureCount: event.success ? 0 : event.count
+    }));
+
+    this.transaction(() => this.insert('agent_tool_usage', records));
+  }
+
+  async storeBundleSizesBatch(batch: BundleSizeMetric[]): Promise<void> {
+    this.transaction(() => this.insert('bundle_sizes', batch));
+  }
+
+  async storeAgentHandoffsBatch(batch: AgentHandoff[]): Promise<void> {
+    this.transaction(() => this.insert('agent_handoffs', batch));
+  }
+
+  async storeSpansBatch(batch: TraceSpan[]): Promise<void> {
+    this.transaction(() => this.insert('trace_spans', this.unseen('trace_spans', batch)));
+  }
+
+  async storeAgentTasksBatch(batch: AgentTask[]): Promise<void> {
+    const tasks = new Map<string, AgentTask>();
+    for (const task of batch) {
+      const previous = tasks.get(task.id);
+      tasks.set(task.id, previous ? mergeTaskReports(previous, task) : task);
+    }
+
+    this.transaction(() => {
+      const merged = [...tasks.values()].map(task => {
+        const stored: AgentTask | undefined = this.get('agent_tasks', task.id);
+        return stored ? mergeTaskReports(stored, task) : task;
+      });
+      this.insert('agent_tasks', merged);
+    });
+  }
+
+  async queryMetricSeries(query: MetricSeriesQuery): Promise<{ series: MetricSeries[]; hasMore: boolean }> {
+    const from = query.startTime.getTime();
+    const to = query.endTime.getTime();
+    const stepMs = query.step * 1000;
+
+    const rows = this.tableRows(query.table, from, to).filter(row => {
+      const sampledAt = time(row[query.timeColumn]);
+      return sampledAt >= from && sampledAt < to && isSet(row[query.column]) && matchesFilters(row, query.filters);
+    });
+
+    // Missing label values group together as ''
+    const labelsOf = (row: Row) => query.groupBy.map(group => isSet(row[group.column]) ? String(row[group.column]) : '');
+    let groups = groupRecords(rows, labelsOf)
+      .map(group => ({ labels: labelsOf(group[0]), rows: group }))
+      .sort((a, b) => compareLabels(a.labels, b.labels));
+    if (query.after) {
+      const after = query.after;
+      groups = groups.filter(group => compareLabels(group.labels, after) > 0);
+    }
+
+    const series: MetricSeries[] = groups.slice(0, query.limit).map(group => {
+      const buckets = new Map<number, Array<{ time: number; value: number; weight: number }>>();
+      for (const row of group.rows) {
+        const sampledAt = time(row[query.timeColumn]);
+        const bucket = timeBucket(sampledAt, stepMs);
+        const samples = buckets.get(bucket) || [];
+        samples.push({
+          time: sampledAt,
+          value: Number(row[query.column]),
+          weight: query.weightColumn ? Number(row[query.weightColumn]) : 1
+        });
+        buckets.set(bucket, samples);
+      }
+
+      return {
+        labels: Object.fromEntries(query.groupBy.map(({ label }, i) => [label, group.labels[i]])),
+        points: [...buckets.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([bucket, samples]) => ({
+            timestamp: new Date(bucket),
+            value: aggregateSamples(samples, query.aggregation, query.step)
+          }))
+      };
+    });
+
+    return { series, hasMore: groups.length > query.limit };
+  }
+
+  async getRecentAgentMetrics(limit: number = 100, agentType?: AgentType): Promise<AgentMetrics[]> {
+    const metrics: AgentMetrics[] = this.scan('agent_metrics');
+    return newestFirst(metrics.filter(record => agentType === undefined || record.agentType === agentType), limit);
+  }
+
+  async getLatestAgentMetrics(since: Date): Promise<LatestAgentMetrics[]> {
+    const metrics: AgentMetrics[] = this.scan('agent_metrics', since.getTime())
+      .filter(record => time(record.timestamp) > since.getTime());
+
+    return groupRecords(metrics, record => [record.agentType, record.agentId])
+      .map(group => group[group.length - 1])
+      .sort((a, b) => a.agentType.localeCompare(b.agentType) || a.agentId.localeCompare(b.agentId))
+      .map(record => ({
+        agentType: record.agentType,
+        agentId: record.agentId,
+        timestamp: record.timestamp,
+        responseTime: record.metrics.responseTime,
+        taskCompletionRate: record.metrics.taskCompletionRate,
+        errorRate: record.metrics.errorRate,
+        activeTasks: record.metrics.activeTasks
+      }));
+  }
+
+  async getRecentAppMetrics(limit: number = 100, path?: string): Promise<AppMetrics[]> {
+    const metrics: AppMetrics[] = this.scan('app_metrics');
+    return newestFirst(metrics.filter(record => isAtOrBelowPath(record.url, path)), limit);
+  }
+
+  async getRecentCoreWebVitals(limit: number = 100, path?: string): Promise<CoreWebVitalsData[]> {
+    const vitals: CoreWebVitalsData[] = this.scan('core_web_vitals');
+    return newestFirst(vitals.filter(record => isAtOrBelowPath(record.url, path)), limit);
+  }
+
+  async getContext7Queries(options: Context7QueryOptions): Promise<Context7Query[]> {
+    const queries: Context7Query[] = this.events('context7_queries', options, { library: options.library });
+    return newestFirst(queries, options.limit || 100);
+  }
+
+  async getContext7Stats(options: Context7QueryOptions): Promise<Context7LibraryStats[]> {
+    const queries: Context7Query[] = this.events('context7_queries', options, { library: options.library });
+
+    return groupRecords(queries, query => [query.library])
+      .map(group => {
+        const responseTimes = group.map(query => query.responseTime);
+        return {
+          library: group[0].library,
+          queries: group.length,
+          successRate: average(group.map(query => query.success ? 100 : 0))!,
+          avgResponseTime: average(responseTimes)!,
+          p95ResponseTime: percentile(responseTimes, 0.95)!,
+          tokensReturned: group.reduce((total, query) => total + (query.tokensReturned || 0), 0)
+        };
+      })
+      .sort((a, b) => b.queries - a.queries);
+  }
+
+  async getToolUsage(options: ToolUsageQueryOptions): Promise<ToolUsageEvent[]> {
+    const usage: ToolUsageRecord[] = this.events('agent_tool_usage', options, { toolName: options.toolName });
+
+    return newestFirst(usage, options.limit || 100).map(record => ({
+      agentType: record.agentType,
+      agentId: record.agentId,
+      timestamp: record.timestamp,
+      toolName: record.toolName,
+      executionTime: record.executionTime,
+      success: record.failureCount === 0,
+      count: record.count
+    }));
+  }
+
+  async getToolUsageStats(options: ToolUsageQueryOptions): Promise<ToolUsageStats[]> {
+    const usage: ToolUsageRecord[] = this.events('agent_tool_usage', options, { toolName: options.toolName });
+    const sum = (records: ToolUsageRecord[], field: 'count' | 'successCount' | 'failureCount') =>
+      records.reduce((total, record) => total + record[field], 0);
+
+    return groupRecords(usage, record => [record.toolName])
+      .map(group => ({
+        toolName: group[0].toolName,
+        invocations: sum(group, 'count'),
+        successCount: sum(group, 'successCount'),
+        failureCount: sum(group, 'failureCount'),
+        avgExecutionTime: average(group.map(record => record.executionTime).filter(isSet) as number[])
+      }))
+      .sort((a, b) => b.invocations - a.invocations);
+  }
+
+  async getBundleSizes(options: BundleSizeQueryOptions): Promise<BundleSizeMetric[]> {
+    const sizes: BundleSizeMetric[] = this.scan('bundle_sizes', options.startTime.getTime(), options.endTime.getTime());
+    return newestFirst(sizes.filter(size => !options.name || size.name === options.name), options.limit || 100);
+  }
+
+  async getLatestBundleSizes(): Promise<BundleSizeMetric[]> {
+    const sizes: BundleSizeMetric[] = this.scan('bundle_sizes');
+
+    return groupRecords(sizes, size => [size.name])
+      .map(group => group[group.length - 1])
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getAgentTasks(options: AgentTaskQueryOptions): Promise<AgentTask[]> {
+    return newestFirst(this.tasks(options), options.limit || 100);
+  }
+
+  async getAgentTaskStats(options: AgentTaskQueryOptions): Promise<AgentTaskStats[]> {
+    const hours = Math.max(1, (options.endTime.getTime() - options.startTime.getTime()) / 3600000);
+
+    return groupRecords(this.tasks(options), task => [task.agentType, task.taskType])
+      .map(group => {
+        const durations = group.map(task => task.duration).filter(isSet) as number[];
+        const completed = group.filter(task => task.status === 'completed').length;
+        const failed = group.filter(task => task.status === 'failed').length;
+        const finished = completed + failed;
+
+        return {
+          agentType: group[0].agentType,
+          taskType: group[0].taskType,
+          total: group.length,
+          running: group.filter(task => task.status === 'pending' || task.status === 'running').length,
+          completed,
+          failed,
+          successRate: finished > 0 ? (completed / finished) * 100 : null,
+          throughputPerHour: finished / hours,
+          avgDuration: average(durations),
+          p50Duration: percentile(durations, 0.5),
+          p90Duration: percentile(durations, 0.9),
+          p99Duration: percentile(durations, 0.99)
+        };
+      })
+      .sort((a, b) => b.total - a.total);
+  }
+
+  async getAgentTaskFailures(options: AgentTaskQueryOptions): Promise<AgentTaskFailureReason[]> {
+    const failures = this.tasks({ ...options, status: 'failed' });
+
+    return groupRecords(failures, task => [task.agentType, task.taskType, task.error || ''])
+      .map(group => ({
+        agentType: group[0].agentType,
+        taskType: group[0].taskType,
+        error: group[0].error || '',
+        count: group.length,
+        lastSeen: new Date(Math.max(...group.map(task => time(task.endTime || task.startTime))))
+      }))
+      .sort((a, b) => b.count - a.count || b.lastSeen.getTime() - a.lastSeen.getTime())
+      .slice(0, options.limit || 20);
+  }
+
+  async getTraceSpans(traceId: string): Promise<TraceSpan[]> {
+    const spans: TraceSpan[] = this.scan('trace_spans');
+    return spans.filter(span => span.traceId === traceId);
+  }
+
+  async getAgentHandoffs(options: AgentHandoffQueryOptions): Promise<AgentHandoff[]> {
+    const handoffs: AgentHandoff[] = this.events('agent_handoffs', options, { toAgentType: options.toAgentType });
+    return newestFirst(handoffs, options.limit || 100);
+  }
+
+  async getAgentStatus(): Promise<AgentTypeStatus[]> {
+    const since = Date.now() - RECENT_STATUS_WINDOW_MS;
+    const metrics: AgentMetrics[] = this.scan('agent_metrics', since)
+      .filter(record => time(record.timestamp) > since);
+    const offline: AgentHeartbeat[] = this.scan('agent_heartbeats')
+      .filter(heartbeat => heartbeat.status === AgentStatus.OFFLINE);
+
+    const lastSeen = (times: Date[]) => new Date(Math.max(...times.map(time)));
+    return [
+      ...groupRecords(metrics, record => [record.agentType, record.status]).map(group => ({
+        agentType: group[0].agentType,
+        status: group[0].status,
+        lastSeen: lastSeen(group.map(record => record.timestamp)),
+        avgResponseTime: average(group.map(record => record.metrics.responseTime)) ?? 0
+      })),
+      ...groupRecords(offline, heartbeat => [heartbeat.agentType]).map(group => ({
+        agentType: group[0].agentType,
+        status: AgentStatus.OFFLINE,
+        lastSeen: lastSeen(group.map(heartbeat => heartbeat.lastSeen)),
+        avgResponseTime: 0
+      }))
+    ].sort((a, b) => a.agentType.localeCompare(b.agentType));
+  }
+
+  async recordHeartbeat(heartbeat: HeartbeatReport, defaultIntervalSeconds: number): Promise<HeartbeatResult> {
+    let result: HeartbeatResult = { previousStatus: null, status: heartbeat.status };
+
+    this.transaction(() => {
+      const previous: AgentHeartbeat | undefined = this.get('agent_heartbeats', heartbeat.agentId);
+      const newer = !previous || time(heartbeat.lastSeen) > time(previous.lastSeen);
+      result = { previousStatus: previous?.status ?? null, status: newer ? heartbeat.status : previous.status };
+
+      this.insert('agent_heartbeats', [{
+        agentId: heartbeat.agentId,
+        agentType: heartbeat.agentType,
+        status: result.status,
+        lastSeen: newer ? heartbeat.lastSeen : previous.lastSeen,
+        expectedIntervalSeconds: heartbeat.expectedIntervalSeconds ?? previous?.expectedIntervalSeconds ?? defaultIntervalSeconds
+      }]);
+    });
+
+    return result;
+  }
+
+  async markOverdueAgentsOffline(now: Date, missedIntervals: number): Promise<AgentStatusChange[]> {
+    const changes: AgentStatusChange[] = [];
+
+    this.transaction(() => {
+      const heartbeats: AgentHeartbeat[] = this.scan('agent_heartbeats');
+      const overdue = heartbeats.filter(heartbeat => heartbeat.status !== AgentStatus.OFFLINE &&
+        time(heartbeat.lastSeen) < now.getTime() - heartbeat.expectedIntervalSeconds * missedIntervals * 1000);
+
+      this.insert('agent_heartbeats', overdue.map(heartbeat => ({ ...heartbeat, status: AgentStatus.OFFLINE })));
+      changes.push(...overdue.map(heartbeat => ({
+        agentId: heartbeat.agentId,
+        agentType: heartbeat.agentType,
+        previousStatus: heartbeat.status,
+        status: AgentStatus.OFFLINE,
+        lastSeen: heartbeat.lastSeen
+      })));
+    });
+
+    return changes;
+  }
+
+  async getAgentHeartbeats(): Promise<AgentHeartbeat[]> {
+    const heartbeats: AgentHeartbeat[] = this.scan('agent_heartbeats');
+    return heartbeats.sort((a, b) => a.agentType.localeCompare(b.agentType) || a.agentId.localeCompare(b.agentId));
+  }
+
+  async getDatabaseStats(): Promise<DatabaseStats> {
+    const startTime = Date.now();
+    const metricsStored = this.count('agent_metrics') + this.count('app_metrics') + this.count('core_web_vitals');
+
+    // No connection pool, so no connections to report
+    return { responseTime: Date.now() - startTime, connections: 0, metricsStored };
+  }
+
+  async getAggregatedMetrics(query: AggregatedMetricsQuery): Promise<Pick<AggregatedMetrics, 'data' | 'summary'>> {
+    const from = query.startTime.getTime();
+    const to = query.endTime.getTime();
+    const stepMs = query.step * 1000;
+    const timeColumn = query.rollup ? 'bucket' : 'timestamp';
+    const valueColumn = query.rollup ? `${query.column}_avg` : query.column;
+
+    const rows = this.tableRows(query.table, from, to).filter(row => {
+      const sampledAt = time(row[timeColumn]);
+      return sampledAt >= from && sampledAt < to && isSet(row[valueColumn]) && matchesFilters(row, query.filters);
+    });
+
+    const buckets = new Map<number, Row[]>();
+    for (let bucket = timeBucket(from, stepMs); bucket < to; bucket += stepMs) {
+      buckets.set(bucket, []);
+    }
+    for (const row of rows) {
+      buckets.get(timeBucket(time(row[timeColumn]), stepMs))?.push(row);
+    }
+
+    const statisticsOf = (group: Row[]) => query.rollup
+      ? rollupStatistics(group, query.column)
+      : statistics(group.map(row => Number(row[query.column])));
+    const perBucket = [...buckets.values()].map(statisticsOf);
+    const column = (key: keyof AggregatedStatistics<number | null>) => perBucket.map(stats => stats[key]);
+
+    return {
+      data: {
+        timestamps: [...buckets.keys()].map(bucket => new Date(bucket)),
+        count: perBucket.map(stats => stats.count),
+        min: column('min'),
+        max: column('max'),
+        avg: column('avg'),
+        p50: column('p50'),
+        p95: column('p95'),
+        p99: column('p99')
+      },
+      summary: statisticsOf(rows)
+    };
+  }
+
+  async aggregateMetricWindow(
+    metric: string,
+    labels: Record<string, string>,
+    startTime: Date,
+    endTime: Date,
+    aggregation: WindowAggregation
+  ): Promise<number | null> {
+    const definition = getMetricDefinition(metric);
+    if (!definition) {
+      throw new Error(`Unknown metric: ${metric}`);
+    }
+
+    const filters = Object.entries(labels).map(([label, value]) => {
+      const column = definition.labels[label];
+      if (!column) {
+        throw new Error(`Unknown label "${label}" for metric ${metric}`);
+      }
+      return { column, value };
+    });
+
+    const from = startTime.getTime();
+    const to = endTime.getTime();
+    const values = this.tableRows(definition.table, from, to)
+      .filter(row => {
+        const sampledAt = time(row.timestamp);
+        return sampledAt >= from && sampledAt <= to && isSet(row[definition.column]) && matchesFilters(row, filters);
+      })
+      .map(row => Number(row[definition.column]));
+
+    if (aggregation === 'count') return values.length;
+    if (values.length === 0) return null;
+
+    switch (aggregation) {
+      case 'first':
+        return values[0];
+      case 'last':
+        return values[values.length - 1];
+      case 'avg':
+        return average(values);
+      case 'min':
+        return Math.min(...values);
+      case 'max':
+        return Math.max(...values);
+      case 'sum':
+        return values.reduce((total, value) => total + value, 0);
+    }
+  }
+
+  async getLatestSeriesValues(metric: string, seriesLabels: string[], since: Date): Promise<SeriesValue[]> {
+    const definition = getMetricDefinition(metric);
+    if (!definition) {
+      throw new Error(`Unknown metric: ${metric}`);
+    }
+
+    const columns = seriesLabels.map(label => {
+      const column = definition.labels[label];
+      if (!column) {
+        throw new Error(`Unknown label "${label}" for metric ${metric}`);
+      }
+      return column;
+    });
+
+    const rows = this.tableRows(definition.table, since.getTime())
+      .filter(row => time(row.timestamp) >= since.getTime() && isSet(row[definition.column]));
+
+    return groupRecords(rows, row => columns.map(column => row[column]))
+      .map(group => group[group.length - 1])
+      .map(row => ({
+        labels: Object.fromEntries(seriesLabels.map((label, i) => [label, row[columns[i]]])),
+        value: Number(row[definition.column]),
+        timestamp: row.timestamp
+      }));
+  }
+
+  async tryAcquireLock(key: number): Promise<LeaderLock | null> {
+    if (this.locks.has(key)) return null;
+    this.locks.add(key);
+
+    let held = true;
+    return {
+      check: async () => held,
+      release: async () => {
+        if (held) {
+          held = false;
+          this.locks.delete(key);
+        }
+      }
+    };
+  }
+
+  async getAlertRules(options: AlertRuleQueryOptions = {}): Promise<AlertRule[]> {
+    const rules: AlertRule[] = this.scan('alert_rules');
+    return rules.filter(rule =>
+      (options.enabled === undefined || rule.enabled === options.enabled) &&
+      (!options.metricType || rule.metricType === options.metricType)
+    );
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | null> {
+    return this.get('alert_rules', id) ?? null;
+  }
+
+  async createAlertRule(rule: AlertRule): Promise<AlertRule> {
+    const now = new Date();
+    return this.create('alert_rules', { ...this.normalizeAlertRule(rule), createdAt: now, updatedAt: now });
+  }
+
+  async updateAlertRule(rule: AlertRule): Promise<AlertRule | null> {
+    return this.update<AlertRule>('alert_rules', rule.id, existing => ({
+      ...this.normalizeAlertRule(rule),
+      createdAt: existing.createdAt,
+      updatedAt: new Date()
+    }));
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    return this.remove('alert_rules', id);
+  }
+
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    return this.scan('notification_channels');
+  }
+
+  async getNotificationChannel(id: string): Promise<NotificationChannel | null> {
+    return this.get('notification_channels', id) ?? null;
+  }
+
+  async createNotificationChannel(channel: NotificationChannel): Promise<NotificationChannel> {
+    const now = new Date();
+    return this.create('notification_channels', {
+      ...channel,
+      sendResolved: channel.sendResolved ?? false,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async updateNotificationChannel(channel: NotificationChannel): Promise<NotificationChannel | null> {
+    return this.update<NotificationChannel>('notification_channels', channel.id, existing => ({
+      ...channel,
+      sendResolved: channel.sendResolved ?? false,
+      createdAt: existing.createdAt,
+      updatedAt: new Date()
+    }));
+  }
+
+  async deleteNotificationChannel(id: string): Promise<boolean> {
+    return this.remove('notification_channels', id);
+  }
+
+  async getSilences(options: { activeAt?: Date; activeUntil?: Date } = {}): Promise<Silence[]> {
+    const silences: Silence[] = this.scan('alert_silences');
+    const activeAt = options.activeAt;
+    if (!activeAt) return silences.reverse();
+    const activeUntil = options.activeUntil ?? activeAt;
+
+    return silences
+      .filter(silence => time(silence.startsAt) <= activeUntil.getTime() && time(silence.endsAt) > activeAt.getTime())
+      .sort((a, b) => time(a.endsAt) - time(b.endsAt));
+  }
+
+  async createSilence(silence: Silence): Promise<Silence> {
+    return this.create('alert_silences', { ...silence, createdAt: new Date() });
+  }
+
+  async expireSilence(id: string): Promise<Silence | null> {
+    const now = new Date();
+    return this.update<Silence>('alert_silences', id, existing => ({
+      ...existing,
+      endsAt: time(existing.endsAt) < now.getTime() ? existing.endsAt : now
+    }));
+  }
+
+  async getMaintenanceWindows(): Promise<MaintenanceWindow[]> {
+    return this.scan('maintenance_windows');
+  }
+
+  async getMaintenanceWindow(id: string): Promise<MaintenanceWindow | null> {
+    return this.get('maintenance_windows', id) ?? null;
+  }
+
+  async createMaintenanceWindow(window: MaintenanceWindow): Promise<MaintenanceWindow> {
+    const now = new Date();
+    return this.create('maintenance_windows', { ...window, createdAt: now, updatedAt: now });
+  }
+
+  async updateMaintenanceWindow(window: MaintenanceWindow): Promise<MaintenanceWindow | null> {
+    return this.update<MaintenanceWindow>('maintenance_windows', window.id, existing => ({
+      ...window,
+      createdBy: existing.createdBy,
+      createdAt: existing.createdAt,
+      updatedAt: new Date()
+    }));
+  }
+
+  async deleteMaintenanceWindow(id: string): Promise<boolean> {
+    return this.remove('maintenance_windows', id);
+  }
+
+  async getRetentionPolicies(): Promise<RetentionPolicy[]> {
+    const stored = new Map<string, RetentionPolicy>(
+      this.scan('retention_policies').map((policy: RetentionPolicy) => [policy.table, policy])
+    );
+    return DEFAULT_RETENTION_POLICIES.map(policy => stored.get(policy.table) ?? policy);
+  }
+
+  async applyRetentionPolicies(policies: RetentionPolicy[], options: { dryRun?: boolean } = {}): Promise<string[]> {
+    if (!options.dryRun) {
+      const updatedAt = new Date();
+      this.transaction(() => this.insert('retention_policies', policies.map(policy => ({ ...policy, updatedAt }))));
+    }
+    // No retention jobs to change
+    return [];
+  }
+
+  async getApiKeys(): Promise<ApiKey[]> {
+    const apiKeys: StoredApiKey[] = this.scan('api_keys');
+    return apiKeys.map(withoutHash);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    const apiKeys: StoredApiKey[] = this.scan('api_keys');
+    const apiKey = apiKeys.find(key => key.keyHash === keyHash && !key.revokedAt &&
+      (!key.expiresAt || time(key.expiresAt) > Date.now()));
+
+    return apiKey ? withoutHash(apiKey) : null;
+  }
+
+  async createApiKey(apiKey: ApiKey, keyHash: string): Promise<ApiKey> {
+    const { lastUsedAt, revokedAt, ...fields } = apiKey;
+    const stored = this.create<StoredApiKey>('api_keys', {
+      ...fields,
+      agentTypes: apiKey.agentTypes || [],
+      createdAt: new Date(),
+      keyHash
+    });
+
+    return withoutHash(stored);
+  }
+
+  async revokeApiKey(id: string): Promise<ApiKey | null> {
+    const apiKey = this.update<StoredApiKey>('api_keys', id, existing => ({
+      ...existing,
+      revokedAt: existing.revokedAt ?? new Date()
+    }));
+
+    return apiKey ? withoutHash(apiKey) : null;
+  }
+
+  async touchApiKey(id: string, usedAt: Date): Promise<void> {
+    this.update<StoredApiKey>('api_keys', id, existing => ({ ...existing, lastUsedAt: usedAt }));
+  }
+
+  async storeAlert(alert: Alert): Promise<void> {
+    this.create('alerts', { ...alert, metadata: alert.metadata || {} });
+  }
+
+  async updateAlert(alert: Alert): Promise<void> {
+    this.update<Alert>('alerts', alert.id, existing => ({
+      ...existing,
+      currentValue: alert.currentValue,
+      metadata: alert.metadata || {},
+      acknowledged: alert.acknowledged,
+      acknowledgedBy: alert.acknowledgedBy,
+      acknowledgedAt: alert.acknowledgedAt,
+      resolved: alert.resolved,
+      resolvedAt: alert.resolvedAt,
+      resolvedBy: alert.resolvedBy
+    }));
+  }
+
+  async updateAlertValue(id: string, currentValue: number, metadata: Record<string, any>): Promise<void> {
+    this.update<Alert>('alerts', id, existing => ({ ...existing, currentValue, metadata }));
+  }
+
+  async getAlert(id: string): Promise<Alert | null> {
+    return this.get('alerts', id) ?? null;
+  }
+
+  async getActiveAlerts(): Promise<Alert[]> {
+    const alerts: Alert[] = this.scan('alerts');
+    return alerts.filter(alert => !alert.resolved).reverse();
+  }
+
+  async getActiveAlertCounts(): Promise<Array<{ severity: AlertSeverity; count: number }>> {
+    const alerts: Alert[] = this.scan('alerts');
+    return groupRecords(alerts.filter(alert => !alert.resolved), alert => [alert.severity])
+      .map(group => ({ severity: group[0].severity, count: group.length }));
+  }
+
+  async getAlertHistory(options: AlertHistoryQueryOptions): Promise<Alert[]> {
+    const alerts: Alert[] = this.scan('alerts', options.startTime.getTime(), options.endTime.getTime());
+    const matching = alerts.filter(alert =>
+      (!options.ruleId || alert.ruleId === options.ruleId) &&
+      (!options.severity || alert.severity === options.severity) &&
+      (!options.agentType || alert.agentType === options.agentType)
+    );
+
+    return newestFirst(matching, options.limit || 100);
+  }
+
+  async getAlertCounts(
+    startTime: Date,
+    endTime: Date,
+    groupBy: AlertAnalyticsGroupBy,
+    interval: string = '1h'
+  ): Promise<AlertCountBucket[]> {
+    const match = /^(\d+)\s*([a-z]+)$/.exec(interval.trim());
+    const unit = match ? INTERVAL_UNITS[match[2]] : undefined;
+    if (!match || !unit) {
+      throw new Error(`Unsupported interval: ${interval}`);
+    }
+    const stepMs = parseInt(match[1]) * unit * 1000;
+
+    const field = ALERT_GROUP_FIELDS[groupBy];
+    const alerts: Alert[] = this.scan('alerts', startTime.getTime(), endTime.getTime());
+
+    return groupRecords(alerts, alert => [timeBucket(time(alert.timestamp), stepMs), alert[field] ?? 'none'])
+      .map(group => ({
+        bucket: new Date(timeBucket(time(group[0].timestamp), stepMs)),
+        key: group[0][field] ?? 'none',
+        count: group.length
+      }))
+      .sort((a, b) => a.bucket.getTime() - b.bucket.getTime() || a.key.localeCompare(b.key));
+  }
+
+  async getAlertResponseStats(startTime: Date, endTime: Date, groupBy?: AlertAnalyticsGroupBy): Promise<AlertResponseGroupStats[]> {
+    const field = groupBy ? ALERT_GROUP_FIELDS[groupBy] : undefined;
+    const alerts: Alert[] = this.scan('alerts', startTime.getTime(), endTime.getTime());
+    const seconds = (alert: Alert, at?: Date) => at ? (time(at) - time(alert.timestamp)) / 1000 : null;
+
+    return groupRecords(alerts, alert => [field ? alert[field] ?? null : null])
+      .map(group => ({
+        key: field ? group[0][field] ?? null : null,
+        title: maxString(group.map(alert => alert.title)),
+        total: group.length,
+        acknowledged: group.filter(alert => alert.acknowledged).length,
+        resolved: group.filter(alert => alert.resolved).length,
+        autoResolved: group.filter(alert => alert.resolved && alert.resolvedBy === 'auto').length,
+        mttaSeconds: average(group.map(alert => seconds(alert, alert.acknowledgedAt)).filter(isSet) as number[]),
+        mttrSeconds: average(group.map(alert => seconds(alert, alert.resolvedAt)).filter(isSet) as number[])
+      }))
+      .sort((a, b) => b.total - a.total);
+  }
+
+  async getAlertCycles(startTime: Date, endTime: Date): Promise<AlertCycleCount[]> {
+    const alerts: Alert[] = this.scan('alerts', startTime.getTime(), endTime.getTime());
+
+    return groupRecords(alerts.filter(alert => alert.resolved && alert.fingerprint), alert => [alert.fingerprint])
+      .map(group => ({
+        fingerprint: group[0].fingerprint!,
+        ruleId: maxString(group.map(alert => alert.ruleId)) || null,
+        title: maxString(group.map(alert => alert.title)),
+        cycles: group.length
+      }))
+      .sort((a, b) => b.cycles - a.cycles);
+  }
+
+  async publishAlertEvent(event: AlertEvent): Promise<void> {
+    this.alertEvents.emit('alert_event', event);
+  }
+
+  async subscribeAlertEvents(handler: AlertEventHandler): Promise<() => Promise<void>> {
+    this.alertEvents.on('alert_event', handler);
+    return async () => {
+      this.alertEvents.off('alert_event', handler);
+    };
+  }
+
+  private insert(collection: Collection, records: object[]): void {
+    if (records.length === 0) return;
+
+    const { time: timeField, key } = COLLECTIONS[collection];
+    this.put(collection, records.map((record: Record<string, any>) => ({
+      key: key ? key(record) : null,
+      time: time(record[timeField]),
+      value: record
+    })));
+  }
+
+  /**
+   * The records whose key is not stored or earlier in the batch, like
+   * INSERT ... ON CONFLICT DO NOTHING
+   */
+  private unseen<T extends object>(collection: Collection, records: T[]): T[] {
+    const key = COLLECTIONS[collection].key!;
+    const seen = new Set<string>();
+    return records.filter(record => {
+      const recordKey = key(record);
+      if (seen.has(recordKey) || this.get(collection, recordKey)) return false;
+      seen.add(recordKey);
+      return true;
+    });
+  }
+
+  private create<T extends { id: string }>(collection: Collection, record: T): T {
+    this.transaction(() => {
+      if (this.get(collection, record.id)) {
+        throw new Error(`Duplicate id ${record.id} in ${collection}`);
+      }
+      this.insert(collection, [record]);
+    });
+    return record;
+  }
+
+  private update<T>(collection: Collection, id: string, change: (existing: T) => T): T | null {
+    let updated: T | null = null;
+    this.transaction(() => {
+      const existing: T | undefined = this.get(collection, id);
+      if (existing) {
+        updated = change(existing);
+        this.insert(collection, [updated as object]);
+      }
+    });
+    return updated;
+  }
+
+  private normalizeAlertRule(rule: AlertRule): AlertRule {
+    return {
+      ...rule,
+      agentType: rule.agentType || undefined,
+      expression: rule.expression || undefined,
+      notificationChannels: rule.notificationChannels || [],
+      metadata: rule.metadata || {}
+    };
+  }
+
+  /**
+   * Records of a per-agent event collection within the range, matching the
+   * agent filters and any extra field = value filters that are set
+   */
+  private events(collection: Collection, options: EventQueryOptions, filters: Record<string, string | undefined> = {}): any[] {
+    const fields: Record<string, string | undefined> = {
+      agentType: options.agentType,
+      agentId: options.agentId,
+      ...filters
+    };
+
+    return this.scan(collection, options.startTime.getTime(), options.endTime.getTime())
+      .filter(record => Object.entries(fields).every(([field, value]) => value === undefined || record[field] === value));
+  }
+
+  private tasks(options: AgentTaskQueryOptions): AgentTask[] {
+    return this.events('agent_tasks', options, { taskType: options.taskType, status: options.status });
+  }
+
+  /**
+   * Rows of a catalogued table (or one of its rollups) covering at least
+   * [from, to]; callers apply the exact range
+   */
+  private tableRows(table: string, from?: number, to?: number): Row[] {
+    const rollup = ROLLUP_VIEWS.get(table);
+    if (rollup) {
+      return this.rollupRows(rollup.table, rollup.tier, from, to);
+    }
+
+    const view = ROW_VIEWS[table];
+    if (!view) {
+      throw new Error(`Unknown table: ${table}`);
+    }
+    return this.scan(view.collection, from, to).map(view.row);
+  }
+
+  /**
+   * A rollup continuous aggregate, computed from the raw rows
+   */
+  private rollupRows(table: string, tier: RollupTier, from?: number, to?: number): Row[] {
+    const { labelColumns, columns } = TABLE_ROLLUPS[table];
+    const stepMs = ROLLUP_TIER_SECONDS[tier] * 1000;
+    const rows = this.tableRows(table, from !== undefined ? timeBucket(from, stepMs) : undefined, to);
+
+    const groups = groupRecords(rows, row => [
+      timeBucket(time(row.timestamp), stepMs),
+      ...labelColumns.map(column => row[column])
+    ]);
+
+    return groups.map(group => {
+      const bucket: Row = { bucket: new Date(timeBucket(time(group[0].timestamp), stepMs)) };
+      for (const column of labelColumns) {
+        bucket[column] = group[0][column];
+      }
+      for (const column of columns) {
+        const values = group.map(row => row[column]).filter(isSet).map(Number);
+        bucket[`${column}_avg`] = average(values);
+        bucket[`${column}_min`] = values.length > 0 ? Math.min(...values) : null;
+        bucket[`${column}_max`] = values.length > 0 ? Math.max(...values) : null;
+        bucket[`${column}_count`] = values.length;
+      }
+      return bucket;
+    });
+  }
+}
+
+function withoutHash(apiKey: StoredApiKey): ApiKey {
+  const { keyHash, ...fields } = apiKey;
+  return fields;
+}
@@ -0,0 +1,64 @@
+/**
+ * In-Memory Metrics Store
+ * Keeps records in maps for unit tests and the agent-interaction suite.
+ * Nothing is persisted; records are copied on the way in and out so callers
+ * cannot change stored state by mutating what they passed or got back.
+ */
+
+import { Collection, LocalMetricsStore, StoredRecord } from './local-store';
+
+interface MemoryRecord {
+  time: number;
+  value: any;
+}
+
+export class InMemoryMetricsStore extends LocalMetricsStore {
+  // Keyed records under their key, the rest under a sequence number
+  private collections = new Map<Collection, Map<string | number, MemoryRecord>>();
+  private sequence = 0;
+
+  protected put(collection: Collection, records: StoredRecord[]): void {
+    const stored = this.records(collection);
+    for (const record of records) {
+      stored.set(record.key ?? this.sequence++, { time: record.time, value: structuredClone(record.value) });
+    }
+  }
+
+  protected get(collection: Collection, key: string): any | undefined {
+    const record = this.records(collection).get(key);
+    return record ? structuredClone(record.value) : undefined;
+  }
+
+  protected remove(collection: Collection, key: string): boolean {
+    return this.records(collection).delete(key);
+  }
+
+  protected scan(collection: Collection, from: number = -Infinity, to: number = Infinity): any[] {
+    // Maps iterate in insertion order and the sort is stable
+    return [...this.records(collection).values()]
+      .filter(record => record.time >= from && record.time <= to)
+      .sort((a, b) => a.time - b.time)
+      .map(record => structuredClone(record.value));
+  }
+
+  protected count(collection: Collection): number {
+    return this.records(collection).size;
+  }
+
+  protected transaction(work: () => void): void {
+    work();
+  }
+
+  async close(): Promise<void> {
+    this.collections.clear();
+  }
+
+  private records(collection: Collection): Map<string | number, MemoryRecord> {
+    let records = this.collections.get(collection);
+    if (!records) {
+      records = new Map();
+      this.collections.set(collection, records);
+    }
+    return records;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Metric Catalog
+ * Maps metric names used by alert expressions and queries onto the
+ * table and column they are stored in, and the labels they can be filtered
+ * by, and lists the rollups each table is aggregated into
+ */
+
+import { RollupTier } from '@types/monitoring';
+
+export interface MetricSeriesDefinition {
+  table: string;
+  column: string;
+  labels: Record<string, string>; // label name -> column
+}
+
+/**
+ * Continuous aggregates of a table, one per rollup tier, named <table>_5m,
+ * <table>_1h and <table>_1d. Each bucket keeps the label columns listed and
+ * <column>_avg, _min, _max and _count (non-null samples) for each column.
+ * These are created by migration 0004 and have to be kept in step with it.
+ */
+export interface TableRollup {
+  labelColumns: string[];
+  columns: string[];
+}
+
+export const ROLLUP_TIERS: RollupTier[] = ['5m', '1h', '1d'];
+
+export const ROLLUP_TIER_SECONDS: Record<RollupTier, number> = {
+  '5m': 300,
+  '1h': 3600,
+  '1d': 86400
+};
+
+export const TABLE_ROLLUPS: Record<string, TableRollup> = {
+  agent_metrics: {
+    labelColumns: ['agent_type'],
+    columns: [
+      'response_time', 'task_completion_rate', 'error_rate', 'active_tasks', 'completed_tasks',
+      'failed_tasks', 'context7_queries_avg_time', 'avg_handoff_time'
+    ]
+  },
+  core_web_vitals: {
+    labelColumns: ['url'],
+    columns: ['lcp', 'fid', 'cls', 'fcp', 'tti', 'performance_score']
+  },
+  app_metrics: {
+    labelColumns: ['url'],
+    columns: [
+      'js_execution_time', 'js_main_thread_blocking', 'bundle_total_size', 'render_load_complete',
+      'render_fps', 'mem_used'
+    ]
+  },
+  agent_tool_usage: {
+    labelColumns: ['agent_type', 'tool_name'],
+    columns: ['count', 'execution_time']
+  },
+  context7_queries: {
+    labelColumns: ['agent_type', 'library'],
+    columns: ['response_time']
+  }
+};
+
+const AGENT_LABELS: Record<string, string> = {
+  agent: 'agent_type',
+  agent_id: 'agent_id'
+};
+
+const PAGE_LABELS: Record<string, string> = {
+  url: 'url',
+  session_id: 'session_id'
+};
+
+export const METRIC_CATALOG: Record<string, MetricSeriesDefinition> = {
+  // Agent metrics
+  agent_response_time: { table: 'agent_metrics', column: 'response_time', labels: AGENT_LABELS },
+  agent_task_completion: { table: 'agent_metrics', column: 'task_completion_rate', labels: AGENT_LABELS },
+  agent_error_rate: { table: 'agent_metrics', column: 'error_rate', labels: AGENT_LABELS },
+  agent_active_tasks: { table: 'agent_metrics', column: 'active_tasks', labels: AGENT_LABELS },
+  agent_completed_tasks: { table: 'agent_metrics', column: 'completed_tasks', labels: AGENT_LABELS },
+  agent_failed_tasks: { table: 'agent_metrics', column: 'failed_tasks', labels: AGENT_LABELS },
+  agent_context7_query_time: { table: 'agent_metrics', column: 'context7_queries_avg_time', labels: AGENT_LABELS },
+  agent_handoff_time: { table: 'agent_metrics', column: 'avg_handoff_time', labels: AGENT_LABELS },
+
+  // Core Web Vitals
+  cwv_lcp: { table: 'core_web_vitals', column: 'lcp', labels: PAGE_LABELS },
+  cwv_fid: { table: 'core_web_vitals', column: 'fid', labels: PAGE_LABELS },
+  cwv_cls: { table: 'core_web_vitals', column: 'cls', labels: PAGE_LABELS },
+  cwv_fcp: { table: 'core_web_vitals', column: 'fcp', labels: PAGE_LABELS },
+  cwv_tti: { table: 'core_web_vitals', column: 'tti', labels: PAGE_LABELS },
+  cwv_performance_score: { table: 'core_web_vitals', column: 'performance_score', labels: PAGE_LABELS },
+
+  // Application metrics
+  app_js_execution_time: { table: 'app_metrics', column: 'js_execution_time', labels: PAGE_LABELS },
+  app_main_thread_blocking: { table: 'app_metrics', column: 'js_main_thread_blocking', labels: PAGE_LABELS },
+  app_bundle_size: { table: 'app_metrics', column: 'bundle_total_size', labels: PAGE_LABELS },
+  app_load_complete: { table: 'app_metrics', column: 'render_load_complete', labels: PAGE_LABELS },
+  app_fps: { table: 'app_metrics', column: 'render_fps', labels: PAGE_LABELS },
+  app_memory_used: { table: 'app_metrics', column: 'mem_used', labels: PAGE_LABELS },
+
+  // Context7 and tool usage
+  context7_response_time: {
+    table: 'context7_queries',
+    column: 'response_time',
+    labels: { ...AGENT_LABELS, library: 'library' }
+  },
+  tool_usage_count: {
+    table: 'agent_tool_usage',
+    column: 'count',
+    labels: { ...AGENT_LABELS, tool: 'tool_name' }
+  },
+  tool_execution_time: {
+    table: 'agent_tool_usage',
+    column: 'execution_time',
+    labels: { ...AGENT_LABELS, tool: 'tool_name' }
+  },
+
+  // Build artifacts
+  bundle_size: { table: 'bundle_sizes', column: 'size', labels: { bundle: 'name' } },
+  bundle_gzipped_size: { table: 'bundle_sizes', column: 'gzipped_size', labels: { bundle: 'name' } }
+};
+
+export function getMetricDefinition(metric: string): MetricSeriesDefinition | undefined {
+  return Object.prototype.hasOwnProperty.call(METRIC_CATALOG, metric) ? METRIC_CATALOG[metric] : undefined;
+}
+
+export function getTableRollup(table: string): TableRollup | undefined {
+  return Object.prototype.hasOwnProperty.call(TABLE_ROLLUPS, table) ? TABLE_ROLLUPS[table] : undefined;
+}
+
+export function rollupView(table: string, tier: RollupTier): string {
+  return `${table}_${tier}`;
+}
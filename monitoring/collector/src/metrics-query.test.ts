@@ -0,0 +1,108 @@
+import { AgentMetrics, AgentStatus, AgentType } from '@types/monitoring';
+import { InMemoryMetricsStore } from './memory-store';
+import { MetricQuery, MetricQueryEngine } from './metrics-query';
+import { updateRetentionPolicy } from './retention';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function agentMetrics(timestamp: Date, responseTime: number, agentId: string = 'agent-1'): AgentMetrics {
+  return {
+    agentType: AgentType.ORCHESTRATOR,
+    agentId,
+    timestamp,
+    status: AgentStatus.ACTIVE,
+    metrics: {
+      responseTime,
+      taskCompletionRate: 100,
+      errorRate: 0,
+      activeTasks: 1,
+      completedTasks: 1,
+      failedTasks: 0,
+      context7Queries: { count: 0, avgResponseTime: 0, successRate: 100 },
+      toolUsage: {},
+      coordinationMetrics: { handoffsReceived: 0, handoffsSent: 0, avgHandoffTime: 0 }
+    }
+  };
+}
+
+describe('MetricQueryEngine tier routing', () => {
+  let storage: InMemoryMetricsStore;
+  let engine: MetricQueryEngine;
+  // Whole hours, so each agent's sample falls in the same hourly bucket
+  const endTime = new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS);
+
+  const query = (overrides: Partial<MetricQuery>): MetricQuery => ({
+    metric: 'agent_response_time',
+    labels: {},
+    groupBy: [],
+    startTime: new Date(endTime.getTime() - 6 * HOUR_MS),
+    endTime,
+    aggregation: 'avg',
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    storage = new InMemoryMetricsStore();
+    engine = new MetricQueryEngine(storage);
+
+    const samples = [];
+    for (let t = endTime.getTime() - 12 * DAY_MS; t < endTime.getTime(); t += HOUR_MS) {
+      samples.push(agentMetrics(new Date(t), 100), agentMetrics(new Date(t + 60000), 300, 'agent-2'));
+    }
+    await storage.storeAgentMetricsBatch(samples);
+  });
+
+  afterEach(() => storage.close());
+
+  it('reads the raw table when the step is finer than every rollup', async () => {
+    expect((await engine.query(query({ step: 60 }))).source).toBe('raw');
+  });
+
+  it('reads the coarsest rollup whose buckets divide the step', async () => {
+    expect((await engine.query(query({ step: 300 }))).source).toBe('5m');
+    expect((await engine.query(query({ step: 3600, aggregation: 'sum' }))).source).toBe('1h');
+    expect((await engine.query(query({ step: 86400, aggregation: 'max' }))).source).toBe('1d');
+  });
+
+  it('reads percentiles and labels the rollups do not keep from the raw table', async () => {
+    expect((await engine.query(query({ step: 3600, aggregation: 'p95' }))).source).toBe('raw');
+    expect((await engine.query(query({ step: 3600, groupBy: ['agentId'] }))).source).toBe('raw');
+  });
+
+  it('gives rollup and raw reads the same values', async () => {
+    const raw = await engine.query(query({ step: 3600, groupBy: ['agentId'] }));
+    const rollup = await engine.query(query({ step: 3600 }));
+
+    expect(raw.source).toBe('raw');
+    expect(raw.series.map(series => [series.labels.agentId, new Set(series.points.map(point => point.value))]))
+      .toEqual([['agent-1', new Set([100])], ['agent-2', new Set([300])]]);
+
+    expect(rollup.source).toBe('1h');
+    expect(rollup.series[0].points).toHaveLength(raw.series[0].points.length);
+    expect(new Set(rollup.series[0].points.map(point => point.value))).toEqual(new Set([200]));
+  });
+
+  it('moves to a rollup once the raw table no longer reaches the start of the range', async () => {
+    const tenDays = query({ startTime: new Date(endTime.getTime() - 10 * DAY_MS), step: 3600 });
+    const aggregate = {
+      metric: 'agent_response_time',
+      labels: {},
+      startTime: tenDays.startTime,
+      endTime,
+      period: '1h' as const
+    };
+
+    expect((await engine.query(tenDays)).source).toBe('1h');
+    expect((await engine.aggregate(aggregate)).source).toBe('raw');
+
+    const current = (await storage.getRetentionPolicies()).find(policy => policy.table === 'agent_metrics');
+    await storage.applyRetentionPolicies([updateRetentionPolicy(current, 'agent_metrics', { raw: 7 })]);
+    engine.invalidateRetentionPolicies();
+
+    const result = await engine.aggregate(aggregate);
+    expect(result.source).toBe('1h');
+    expect(result.summary.p95).toBeNull();
+    expect((await engine.query({ ...tenDays, step: 7200, aggregation: 'p50' })).source).toBe('raw');
+  });
+});
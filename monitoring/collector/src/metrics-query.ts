@@ -0,0 +1,382 @@
+/**
+ * Metric Series Queries
+ * Resolves GET /api/v1/metrics and /api/v1/metrics/aggregate queries
+ * against the metric catalog and runs them as bucketed series. Filters and
+ * groupBy use the API's label names (agentType, url, ...), which map onto
+ * the catalog's labels.
+ *
+ * Each query is routed to a storage tier: the raw table or one of the
+ * table's 5 minute, hourly or daily rollups. A rollup can serve a query
+ * when its buckets divide the step and it keeps every label the query
+ * uses; of the tiers that can, the coarsest one whose retention still
+ * reaches the start of the range is read. Rollups have no percentiles or
+ * rates, so those always come from the raw table.
+ */
+
+import {
+  AggregatedMetrics,
+  AggregationPeriod,
+  MetricQueryAggregation,
+  MetricQueryResult,
+  RetentionPolicy,
+  StorageTier
+} from '@types/monitoring';
+import { MetricSeriesDefinition, ROLLUP_TIERS, ROLLUP_TIER_SECONDS, getMetricDefinition, getTableRollup, rollupView } from './metric-catalog';
+import { retentionCovers } from './retention';
+import { MetricSeriesQuery, MetricsStore } from './store';
+
+/**
+ * Raised for a query the API cannot answer (400)
+ */
+export class MetricsQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetricsQueryError';
+  }
+}
+
+// API label name -> catalog label
+const LABEL_PARAMS: Record<string, string> = {
+  agentType: 'agent',
+  agentId: 'agent_id',
+  url: 'url',
+  sessionId: 'session_id',
+  tool: 'tool',
+  library: 'library',
+  bundle: 'bundle'
+};
+
+const AGGREGATIONS: MetricQueryAggregation[] = ['avg', 'min', 'max', 'sum', 'count', 'p50', 'p95', 'p99', 'rate'];
+
+// Rollup column each aggregation reads; sums and counts are the average
+// weighted by <column>_count
+const ROLLUP_VALUE_COLUMNS: Partial<Record<MetricQueryAggregation, string>> = {
+  avg: 'avg',
+  sum: 'avg',
+  count: 'avg',
+  min: 'min',
+  max: 'max'
+};
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+// Steps tried, smallest first, when the query does not give one
+const AUTO_STEPS = [60, 300, 900, 3600, 21600, 86400];
+const AUTO_STEP_MAX_POINTS = 300;
+
+const PERIOD_SECONDS: Record<AggregationPeriod, number> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '1h': 3600,
+  '6h': 21600,
+  '24h': 86400,
+  '7d': 604800,
+  '30d': 2592000
+};
+
+const MAX_POINTS_PER_SERIES = 11000;
+const DEFAULT_SERIES_LIMIT = 100;
+
+// Retention policies change rarely, and a stale one only means a query is
+// read from a tier that has just started or stopped covering its range
+const RETENTION_CACHE_MS = 60 * 1000;
+
+export interface MetricQuery {
+  metric: string;
+  labels: Record<string, string>; // API label name -> value
+  groupBy: string[]; // API label names
+  startTime: Date;
+  endTime: Date;
+  step?: number; // seconds, chosen from the range when not given
+  aggregation: MetricQueryAggregation;
+  limit?: number; // series per page
+  cursor?: string;
+}
+
+export interface AggregateQuery {
+  metric: string;
+  labels: Record<string, string>; // API label name -> value
+  startTime: Date;
+  endTime: Date;
+  period?: AggregationPeriod; // chosen from the range when not given
+}
+
+/**
+ * Step as seconds or a duration such as 30s, 5m, 1h or 1d
+ */
+export function parseStep(step: string): number {
+  const match = /^(\d+)([smhd])?$/.exec(step.trim());
+  const seconds = match ? parseInt(match[1]) * DURATION_UNITS[match[2] || 's'] : 0;
+  if (seconds <= 0) {
+    throw new MetricsQueryError('step must be a duration such as 30s, 5m, 1h or 1d');
+  }
+  return seconds;
+}
+
+/**
+ * The label filters, groupBy and aggregation of a query string. The metric
+ * and its labels are checked against the catalog when the query runs.
+ */
+export function parseMetricQueryParams(query: Record<string, unknown>): Omit<MetricQuery, 'startTime' | 'endTime' | 'limit'> {
+  const metric = parseMetric(query);
+
+  const aggregation = (query.aggregation ?? 'avg') as MetricQueryAggregation;
+  if (!AGGREGATIONS.includes(aggregation)) {
+    throw new MetricsQueryError(`aggregation must be one of ${AGGREGATIONS.join(', ')}`);
+  }
+
+  const groupBy = typeof query.groupBy === 'string' && query.groupBy
+    ? [...new Set(query.groupBy.split(',').map(label => label.trim()))]
+    : [];
+
+  return {
+    metric,
+    labels: parseLabels(query),
+    groupBy,
+    step: typeof query.step === 'string' ? parseStep(query.step) : undefined,
+    aggregation,
+    cursor: typeof query.cursor === 'string' ? query.cursor : undefined
+  };
+}
+
+/**
+ * The metric, label filters and period of an aggregate query string
+ */
+export function parseAggregateQueryParams(query: Record<string, unknown>): Pick<AggregateQuery, 'metric' | 'labels' | 'period'> {
+  const period = query.period as AggregationPeriod | undefined;
+  if (period !== undefined && !Object.prototype.hasOwnProperty.call(PERIOD_SECONDS, period)) {
+    throw new MetricsQueryError(`period must be one of ${Object.keys(PERIOD_SECONDS).join(', ')}`);
+  }
+
+  return { metric: parseMetric(query), labels: parseLabels(query), period };
+}
+
+function parseMetric(query: Record<string, unknown>): string {
+  if (typeof query.metric !== 'string' || !query.metric) {
+    throw new MetricsQueryError('metric is required');
+  }
+  return query.metric;
+}
+
+function parseLabels(query: Record<string, unknown>): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const name of Object.keys(LABEL_PARAMS)) {
+    if (typeof query[name] === 'string') labels[name] = query[name] as string;
+  }
+  return labels;
+}
+
+function encodeCursor(labels: string[]): string {
+  return Buffer.from(JSON.stringify(labels)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, length: number): string[] {
+  try {
+    const labels = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (Array.isArray(labels) && labels.length === length && labels.every(label => typeof label === 'string')) {
+      return labels;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new MetricsQueryError('cursor is not valid for this query');
+}
+
+// time_bucket aligns buckets to this origin, a Monday, rather than the epoch
+const BUCKET_ORIGIN_MS = Date.UTC(2000, 0, 3);
+
+/**
+ * Start of the time_bucket step holding startTime
+ */
+function alignStart(startTime: Date, step: number): Date {
+  const stepMs = step * 1000;
+  return new Date(Math.floor((startTime.getTime() - BUCKET_ORIGIN_MS) / stepMs) * stepMs + BUCKET_ORIGIN_MS);
+}
+
+export class MetricQueryEngine {
+  private storage: MetricsStore;
+  private retention: { policies: Map<string, RetentionPolicy>; loadedAt: number } | null = null;
+
+  constructor(storage: MetricsStore) {
+    this.storage = storage;
+  }
+
+  /**
+   * Reload retention policies on the next query, after they have been changed
+   */
+  invalidateRetentionPolicies(): void {
+    this.retention = null;
+  }
+
+  async query(query: MetricQuery): Promise<MetricQueryResult> {
+    const definition = this.getDefinition(query.metric);
+    const column = (name: string) => this.labelColumn(definition, query.metric, name);
+    const filters = Object.entries(query.labels).map(([name, value]) => ({ column: column(name), value }));
+    const groupBy = query.groupBy.map(label => ({ label, column: column(label) }));
+
+    const rangeMs = query.endTime.getTime() - query.startTime.getTime();
+    const step = query.step ?? AUTO_STEPS.find(candidate => rangeMs / (candidate * 1000) <= AUTO_STEP_MAX_POINTS) ??
+      Math.ceil(rangeMs / 1000 / AUTO_STEP_MAX_POINTS / 86400) * 86400;
+    this.assertPointCount(rangeMs, step, 'step');
+
+    // Whole steps, so buckets read from the raw table and the rollup agree
+    const startTime = alignStart(query.startTime, step);
+    const limit = query.limit ?? DEFAULT_SERIES_LIMIT;
+
+    const seriesQuery: MetricSeriesQuery = {
+      table: definition.table,
+      timeColumn: 'timestamp',
+      column: definition.column,
+      filters,
+      groupBy,
+      startTime,
+      endTime: query.endTime,
+      step,
+      aggregation: query.aggregation,
+      limit,
+      after: query.cursor !== undefined ? decodeCursor(query.cursor, groupBy.length) : undefined
+    };
+
+    const rollupColumn = ROLLUP_VALUE_COLUMNS[query.aggregation];
+    const tier = await this.chooseTier(definition, {
+      startTime,
+      step,
+      labelColumns: [...filters, ...groupBy].map(label => label.column),
+      rollups: rollupColumn !== undefined,
+      preferRaw: false
+    });
+    if (tier !== 'raw') {
+      Object.assign(seriesQuery, {
+        table: rollupView(definition.table, tier),
+        timeColumn: 'bucket',
+        column: `${definition.column}_${rollupColumn}`,
+        weightColumn: `${definition.column}_count`
+      });
+    }
+
+    const { series, hasMore } = await this.storage.queryMetricSeries(seriesQuery);
+    const last = series[series.length - 1];
+
+    return {
+      metric: query.metric,
+      aggregation: query.aggregation,
+      step,
+      startTime,
+      endTime: query.endTime,
+      source: tier,
+      series,
+      nextCursor: hasMore && last ? encodeCursor(query.groupBy.map(label => last.labels[label])) : null
+    };
+  }
+
+  /**
+   * Per-period statistics of a metric over the range, with empty periods
+   * filled in
+   */
+  async aggregate(query: AggregateQuery): Promise<AggregatedMetrics> {
+    const definition = this.getDefinition(query.metric);
+    const filters = Object.entries(query.labels)
+      .map(([name, value]) => ({ column: this.labelColumn(definition, query.metric, name), value }));
+
+    const rangeMs = query.endTime.getTime() - query.startTime.getTime();
+    const periods = Object.keys(PERIOD_SECONDS) as AggregationPeriod[];
+    const period = query.period ??
+      periods.find(candidate => rangeMs / (PERIOD_SECONDS[candidate] * 1000) <= AUTO_STEP_MAX_POINTS) ??
+      periods[periods.length - 1];
+    const step = PERIOD_SECONDS[period];
+    this.assertPointCount(rangeMs, step, 'period');
+
+    const startTime = alignStart(query.startTime, step);
+    // Rollups have no percentiles, so the raw table is read while it covers the range
+    const tier = await this.chooseTier(definition, {
+      startTime,
+      step,
+      labelColumns: filters.map(filter => filter.column),
+      rollups: true,
+      preferRaw: true
+    });
+    const { data, summary } = await this.storage.getAggregatedMetrics({
+      table: tier === 'raw' ? definition.table : rollupView(definition.table, tier),
+      column: definition.column,
+      rollup: tier !== 'raw',
+      filters,
+      startTime,
+      endTime: query.endTime,
+      step
+    });
+
+    return {
+      period,
+      metric: query.metric,
+      labels: query.labels,
+      startTime,
+      endTime: query.endTime,
+      data,
+      summary,
+      source: tier
+    };
+  }
+
+  private getDefinition(metric: string): MetricSeriesDefinition {
+    const definition = getMetricDefinition(metric);
+    if (!definition) {
+      throw new MetricsQueryError(`Unknown metric ${metric}`);
+    }
+    return definition;
+  }
+
+  private labelColumn(definition: MetricSeriesDefinition, metric: string, name: string): string {
+    const label = LABEL_PARAMS[name];
+    const column = label ? definition.labels[label] : undefined;
+    if (!column) {
+      throw new MetricsQueryError(`${name} is not a label of ${metric}`);
+    }
+    return column;
+  }
+
+  private assertPointCount(rangeMs: number, step: number, param: string): void {
+    if (rangeMs / (step * 1000) > MAX_POINTS_PER_SERIES) {
+      throw new MetricsQueryError(`${param} is too small for the range, a series can have at most ${MAX_POINTS_PER_SERIES} points`);
+    }
+  }
+
+  /**
+   * The tier to read a query from. The raw table and the rollups whose
+   * buckets divide the step and that keep the query's label columns are
+   * candidates. Of those still holding data from startTime, the raw table
+   * is read when preferred and otherwise the coarsest; when none reaches
+   * back that far, the one keeping data longest is read.
+   */
+  private async chooseTier(
+    definition: MetricSeriesDefinition,
+    query: { startTime: Date; step: number; labelColumns: string[]; rollups: boolean; preferRaw: boolean }
+  ): Promise<StorageTier> {
+    const rollup = getTableRollup(definition.table);
+    const candidates: StorageTier[] = ['raw'];
+    if (query.rollups && rollup && rollup.columns.includes(definition.column) &&
+      query.labelColumns.every(column => rollup.labelColumns.includes(column))) {
+      candidates.push(...ROLLUP_TIERS.filter(tier => query.step % ROLLUP_TIER_SECONDS[tier] === 0));
+    }
+    if (candidates.length === 1) return 'raw';
+
+    const policy = (await this.getRetentionPolicies()).get(definition.table);
+    const now = new Date();
+    const covering = candidates.filter(tier => retentionCovers(policy, tier, query.startTime, now));
+    if (covering.length > 0) {
+      return query.preferRaw && covering[0] === 'raw' ? 'raw' : covering[covering.length - 1];
+    }
+
+    // null keeps data indefinitely, but then that tier would have covered the range
+    const days = (tier: StorageTier) => policy?.retentionDays[tier] ?? 0;
+    return candidates.reduce((longest, tier) => days(tier) >= days(longest) ? tier : longest);
+  }
+
+  private async getRetentionPolicies(): Promise<Map<string, RetentionPolicy>> {
+    if (!this.retention || Date.now() - this.retention.loadedAt > RETENTION_CACHE_MS) {
+      const policies = await this.storage.getRetentionPolicies();
+      this.retention = { policies: new Map(policies.map(policy => [policy.table, policy])), loadedAt: Date.now() };
+    }
+    return this.retention.policies;
+  }
+}
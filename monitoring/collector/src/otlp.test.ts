@@ -0,0 +1,136 @@
+import { convertMetrics, convertTraces } from './otlp';
+import { PayloadValidationError } from './schemas';
+
+const START_NANOS = '1704110400000000000';
+const END_NANOS = '1704110401500000000';
+
+const resource = {
+  attributes: [
+    { key: 'service.name', value: { stringValue: 'security' } },
+    { key: 'agent.id', value: { stringValue: 'security-1' } }
+  ]
+};
+
+function pathsOf(convert: () => unknown): string[] {
+  try {
+    convert();
+  } catch (error) {
+    expect(error).toBeInstanceOf(PayloadValidationError);
+    return (error as PayloadValidationError).errors.map(error => error.path);
+  }
+  throw new Error('expected the request to be rejected');
+}
+
+describe('convertTraces', () => {
+  it('stores spans and derives tasks and handoffs', () => {
+    const { items, rejected } = convertTraces({
+      resourceSpans: [{
+        resource,
+        scopeSpans: [{
+          spans: [
+            { traceId: 't1', spanId: 's1', name: 'scan', startTimeUnixNano: START_NANOS, endTimeUnixNano: END_NANOS },
+            {
+              traceId: 't1',
+              spanId: 's2',
+              parentSpanId: 's1',
+              name: 'handoff',
+              startTimeUnixNano: START_NANOS,
+              endTimeUnixNano: START_NANOS,
+              attributes: [{ key: 'agent.handoff.to_type', value: { stringValue: 'testing-qa' } }]
+            }
+          ]
+        }]
+      }]
+    });
+
+    expect(rejected).toBe(0);
+    expect(items.map(item => [item.type, item.count])).toEqual([
+      ['span', 1], ['agent_task', 0], ['span', 1], ['agent_handoff', 0]
+    ]);
+    expect(items[1].data).toMatchObject({ agentType: 'security', agentId: 'security-1', taskType: 'scan', duration: 1500 });
+    expect(items[3].data).toMatchObject({ toAgentType: 'testing-qa', taskId: 's1', traceId: 't1' });
+  });
+
+  it('rejects spans from resources that do not name an agent', () => {
+    const conversion = convertTraces({
+      resourceSpans: [{ resource: { attributes: [] }, scopeSpans: [{ spans: [{ spanId: 's1' }, { spanId: 's2' }] }] }]
+    });
+
+    expect(conversion).toMatchObject({ items: [], rejected: 2 });
+  });
+
+  it('rejects malformed requests with the path of the bad field', () => {
+    expect(pathsOf(() => convertTraces({ resourceSpans: {} }))).toEqual(['resourceSpans']);
+    expect(pathsOf(() => convertTraces({ resourceSpans: [null] }))).toEqual(['resourceSpans.0']);
+    expect(pathsOf(() => convertTraces({ resourceSpans: [{ scopeSpans: {} }] }))).toEqual(['resourceSpans.0.scopeSpans']);
+    expect(pathsOf(() => convertTraces({ resourceSpans: [{ scopeSpans: [{ spans: [null] }] }] })))
+      .toEqual(['resourceSpans.0.scopeSpans.0.spans.0']);
+    expect(pathsOf(() => convertTraces({ resourceSpans: [{ resource: { attributes: 'agent.type=security' } }] })))
+      .toEqual(['resourceSpans.0.resource.attributes']);
+    expect(pathsOf(() => convertTraces({
+      resourceSpans: [{ scopeSpans: [{ spans: [{ attributes: [{ key: 'tags', value: { arrayValue: { values: 'a' } } }] }] }] }]
+    }))).toEqual(['resourceSpans.0.scopeSpans.0.spans.0.attributes.0.value.arrayValue.values']);
+    expect(pathsOf(() => convertTraces(null))).toEqual(['']);
+  });
+});
+
+describe('convertMetrics', () => {
+  const gauge = (name: string, value: number, unit?: string) => ({
+    name,
+    unit,
+    gauge: { dataPoints: [{ timeUnixNano: START_NANOS, asDouble: value }] }
+  });
+
+  it('combines agent gauges with the same timestamp into one report', () => {
+    const { items, rejected } = convertMetrics({
+      resourceMetrics: [{
+        resource,
+        scopeMetrics: [{
+          metrics: [
+            gauge('agent.response_time', 1.5, 's'),
+            gauge('agent.task_completion_rate', 0.9, '1'),
+            gauge('agent.error_rate', 2),
+            gauge('agent.active_tasks', 1),
+            gauge('agent.completed_tasks', 9),
+            gauge('agent.failed_tasks', 1),
+            gauge('process.cpu.time', 3)
+          ]
+        }]
+      }]
+    });
+
+    expect(rejected).toBe(0);
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      type: 'agent_metrics',
+      count: 6,
+      data: {
+        agentId: 'security-1',
+        timestamp: 1704110400000,
+        metrics: { responseTime: 1500, taskCompletionRate: 90, errorRate: 2, activeTasks: 1, completedTasks: 9, failedTasks: 1 }
+      }
+    });
+  });
+
+  it('rejects cumulative tool duration histograms', () => {
+    const conversion = convertMetrics({
+      resourceMetrics: [{
+        resource,
+        scopeMetrics: [{
+          metrics: [{ name: 'agent.tool.duration', histogram: { aggregationTemporality: 2, dataPoints: [{ count: '1', sum: 5 }] } }]
+        }]
+      }]
+    });
+
+    expect(conversion).toMatchObject({ items: [], rejected: 1 });
+  });
+
+  it('rejects malformed requests with the path of the bad field', () => {
+    expect(pathsOf(() => convertMetrics({ resourceMetrics: [null] }))).toEqual(['resourceMetrics.0']);
+    expect(pathsOf(() => convertMetrics({ resourceMetrics: [{ scopeMetrics: [{ metrics: {} }] }] })))
+      .toEqual(['resourceMetrics.0.scopeMetrics.0.metrics']);
+    expect(pathsOf(() => convertMetrics({
+      resourceMetrics: [{ scopeMetrics: [{ metrics: [{ name: 'agent.error_rate', gauge: { dataPoints: [{ attributes: {} }] } }] }] }]
+    }))).toEqual(['resourceMetrics.0.scopeMetrics.0.metrics.0.gauge.dataPoints.0.attributes']);
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * OTLP Conversion
+ * Maps OpenTelemetry OTLP/HTTP JSON export requests onto the collector's
+ * batch records, so agents instrumented with a standard OTel SDK report
+ * the same data as AgentTracker.
+ *
+ * The reporting agent comes from resource attributes: `agent.type` (or
+ * `service.name` when it is an agent type) and `agent.id` (or
+ * `service.instance.id`, then `service.name`).
+ *
+ * Every span is stored as a trace span. Spans that carry
+ * `agent.handoff.to_type` are also recorded as handoffs, and root spans or
+ * spans with an `agent.task.type` attribute as agent tasks. Metrics are converted
+ * by name (see AGENT_GAUGES and TOOL_DURATION_METRIC); other metrics are
+ * ignored.
+ *
+ * The request structure is checked before anything is converted, so a
+ * malformed export is rejected as a whole with PayloadValidationError.
+ */
+
+import { z } from 'zod';
+import { AgentStatus, AgentType, BatchItemType } from '@types/monitoring';
+import { parsePayload } from './schemas';
+
+const AGENT_TYPES = new Set<string>(Object.values(AgentType));
+
+// Span status code for errors (STATUS_CODE_ERROR)
+const SPAN_STATUS_ERROR = 2;
+
+// Aggregation temporality of delta histograms (AGGREGATION_TEMPORALITY_DELTA)
+const TEMPORALITY_DELTA = 1;
+
+/**
+ * Gauges (or sums) that together make up one agent metrics report. An agent
+ * must export all of them; data points with the same resource and timestamp
+ * are combined into one record.
+ */
+const AGENT_GAUGES: Record<string, 'responseTime' | 'taskCompletionRate' | 'errorRate' | 'activeTasks' | 'completedTasks' | 'failedTasks'> = {
+  'agent.response_time': 'responseTime',
+  'agent.task_completion_rate': 'taskCompletionRate',
+  'agent.error_rate': 'errorRate',
+  'agent.active_tasks': 'activeTasks',
+  'agent.completed_tasks': 'completedTasks',
+  'agent.failed_tasks': 'failedTasks'
+};
+
+// Delta histogram of tool execution times, one tool usage record per data point
+const TOOL_DURATION_METRIC = 'agent.tool.duration';
+
+interface OtlpAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: string | number;
+  doubleValue?: number;
+  arrayValue?: { values?: OtlpAnyValue[] };
+  kvlistValue?: { values?: OtlpKeyValue[] };
+  bytesValue?: string;
+}
+
+interface OtlpKeyValue {
+  key: string;
+  value?: OtlpAnyValue;
+}
+
+interface OtlpResource {
+  attributes?: OtlpKeyValue[];
+}
+
+interface OtlpSpan {
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  name?: string;
+  startTimeUnixNano?: string | number;
+  endTimeUnixNano?: string | number;
+  attributes?: OtlpKeyValue[];
+  events?: Array<{ name?: string; attributes?: OtlpKeyValue[] }>;
+  status?: { code?: number; message?: string };
+}
+
+interface OtlpNumberDataPoint {
+  attributes?: OtlpKeyValue[];
+  timeUnixNano?: string | number;
+  asDouble?: number;
+  asInt?: string | number;
+}
+
+interface OtlpHistogramDataPoint {
+  attributes?: OtlpKeyValue[];
+  timeUnixNano?: string | number;
+  count?: string | number;
+  sum?: number;
+}
+
+interface OtlpMetric {
+  name?: string;
+  unit?: string;
+  gauge?: { dataPoints?: OtlpNumberDataPoint[] };
+  sum?: { dataPoints?: OtlpNumberDataPoint[] };
+  histogram?: { dataPoints?: OtlpHistogramDataPoint[]; aggregationTemporality?: number };
+}
+
+export interface OtlpTracesRequest {
+  resourceSpans?: Array<{ resource?: OtlpResource; scopeSpans?: Array<{ spans?: OtlpSpan[] }> }>;
+}
+
+export interface OtlpMetricsRequest {
+  resourceMetrics?: Array<{ resource?: OtlpResource; scopeMetrics?: Array<{ metrics?: OtlpMetric[] }> }>;
+}
+
+// 64-bit integers are encoded as strings in OTLP JSON
+const int64 = z.union([z.string(), z.number()]);
+
+const anyValueSchema: z.ZodType<OtlpAnyValue, z.ZodTypeDef, unknown> = z.lazy(() => z.object({
+  stringValue: z.string().optional(),
+  boolValue: z.boolean().optional(),
+  intValue: int64.optional(),
+  doubleValue: z.number().optional(),
+  arrayValue: z.object({ values: z.array(anyValueSchema).optional() }).optional(),
+  kvlistValue: z.object({ values: z.array(keyValueSchema).optional() }).optional(),
+  bytesValue: z.string().optional()
+}));
+
+const keyValueSchema: z.ZodType<OtlpKeyValue, z.ZodTypeDef, unknown> = z.object({
+  key: z.string(),
+  value: anyValueSchema.optional()
+});
+
+const attributesSchema = z.array(keyValueSchema).optional();
+
+const resourceSchema = z.object({ attributes: attributesSchema }).optional();
+
+const spanSchema: z.ZodType<OtlpSpan, z.ZodTypeDef, unknown> = z.object({
+  traceId: z.string().optional(),
+  spanId: z.string().optional(),
+  parentSpanId: z.string().optional(),
+  name: z.string().optional(),
+  startTimeUnixNano: int64.optional(),
+  endTimeUnixNano: int64.optional(),
+  attributes: attributesSchema,
+  events: z.array(z.object({ name: z.string().optional(), attributes: attributesSchema })).optional(),
+  status: z.object({ code: z.number().optional(), message: z.string().optional() }).optional()
+});
+
+const numberDataPointsSchema = z.object({
+  dataPoints: z.array(z.object({
+    attributes: attributesSchema,
+    timeUnixNano: int64.optional(),
+    asDouble: z.number().optional(),
+    asInt: int64.optional()
+  })).optional()
+}).optional();
+
+const metricSchema: z.ZodType<OtlpMetric, z.ZodTypeDef, unknown> = z.object({
+  name: z.string().optional(),
+  unit: z.string().optional(),
+  gauge: numberDataPointsSchema,
+  sum: numberDataPointsSchema,
+  histogram: z.object({
+    dataPoints: z.array(z.object({
+      attributes: attributesSchema,
+      timeUnixNano: int64.optional(),
+      count: int64.optional(),
+      sum: z.number().optional()
+    })).optional(),
+    aggregationTemporality: z.number().optional()
+  }).optional()
+});
+
+const tracesRequestSchema: z.ZodType<OtlpTracesRequest, z.ZodTypeDef, unknown> = z.object({
+  resourceSpans: z.array(z.object({
+    resource: resourceSchema,
+    scopeSpans: z.array(z.object({ spans: z.array(spanSchema).optional() })).optional()
+  })).optional()
+});
+
+const metricsRequestSchema: z.ZodType<OtlpMetricsRequest, z.ZodTypeDef, unknown> = z.object({
+  resourceMetrics: z.array(z.object({
+    resource: resourceSchema,
+    scopeMetrics: z.array(z.object({ metrics: z.array(metricSchema).optional() })).optional()
+  })).optional()
+});
+
+/**
+ * Batch records converted from an export request. `count` is the number of
+ * spans or data points behind each record, so rejections can be reported in
+ * OTLP's units; tasks and handoffs derived from a span count 0 since the span
+ * record itself counts. Spans and data points that could not be converted at
+ * all are counted in `rejected`.
+ */
+export interface OtlpConversion {
+  items: Array<{ type: BatchItemType; data: Record<string, any>; count: number }>;
+  rejected: number;
+  errors: string[];
+}
+
+function attributeValue(value?: OtlpAnyValue): any {
+  if (!value) return undefined;
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.boolValue !== undefined) return value.boolValue;
+  if (value.intValue !== undefined) return Number(value.intValue);
+  if (value.doubleValue !== undefined) return value.doubleValue;
+  if (value.arrayValue) return (value.arrayValue.values || []).map(attributeValue);
+  if (value.kvlistValue) return attributesToObject(value.kvlistValue.values);
+  return value.bytesValue;
+}
+
+function attributesToObject(attributes: OtlpKeyValue[] = []): Record<string, any> {
+  return Object.fromEntries(attributes.map(attribute => [attribute.key, attributeValue(attribute.value)]));
+}
+
+function nanosToMillis(nanos?: string | number): number | undefined {
+  return nanos === undefined ? undefined : Math.floor(Number(nanos) / 1e6);
+}
+
+function toMillis(value: number, unit?: string): number {
+  return unit === 's' ? value * 1000 : value;
+}
+
+function toPercent(value: number, unit?: string): number {
+  return unit === '1' ? value * 100 : value;
+}
+
+/**
+ * The agent a resource reports for, or null if it does not name an agent type
+ */
+function resolveAgent(resource?: OtlpResource): { agentType: string; agentId: string } | null {
+  const attributes = attributesToObject(resource?.attributes);
+  const serviceName = attributes['service.name'];
+
+  const agentType = attributes['agent.type'] ?? (AGENT_TYPES.has(serviceName) ? serviceName : undefined);
+  if (typeof agentType !== 'string') return null;
+
+  return {
+    agentType,
+    agentId: String(attributes['agent.id'] ?? attributes['service.instance.id'] ?? serviceName ?? agentType)
+  };
+}
+
+function dataPointCount(metric: OtlpMetric): number {
+  return (metric.gauge || metric.sum || metric.histogram)?.dataPoints?.length || 0;
+}
+
+const NO_AGENT_ERROR = 'resource has no agent.type attribute and its service.name is not an agent type';
+
+export function convertTraces(payload: unknown): OtlpConversion {
+  const body = parsePayload(tracesRequestSchema, payload);
+  const conversion: OtlpConversion = { items: [], rejected: 0, errors: [] };
+
+  for (const resourceSpans of body.resourceSpans || []) {
+    const spans = (resourceSpans.scopeSpans || []).flatMap(scope => scope.spans || []);
+    const agent = resolveAgent(resourceSpans.resource);
+    if (!agent) {
+      conversion.rejected += spans.length;
+      if (spans.length > 0) conversion.errors.push(NO_AGENT_ERROR);
+      continue;
+    }
+
+    for (const span of spans) {
+      const attributes = attributesToObject(span.attributes);
+      const startTime = nanosToMillis(span.startTimeUnixNano);
+      const endTime = nanosToMillis(span.endTimeUnixNano);
+      const duration = startTime !== undefined && endTime !== undefined ? endTime - startTime : undefined;
+      const parentSpanId = span.parentSpanId || undefined;
+
+      const failed = span.status?.code === SPAN_STATUS_ERROR;
+      const exception = (span.events || []).find(event => event.name === 'exception');
+      const error = failed
+        ? span.status?.message || attributesToObject(exception?.attributes)['exception.message']
+        : undefined;
+
+      const isHandoff = attributes['agent.handoff.to_type'] !== undefined;
+      const isTask = !isHandoff && (attributes['agent.task.type'] !== undefined || !parentSpanId);
+
+      conversion.items.push({
+        type: 'span',
+        count: 1,
+        data: {
+          ...agent,
+          traceId: span.traceId,
+          spanId: span.spanId,
+          parentSpanId,
+          name: span.name,
+          kind: isHandoff ? 'handoff' : isTask ? 'task' : 'internal',
+          startTime,
+          endTime,
+          status: failed ? 'error' : 'ok',
+          error,
+          attributes
+        }
+      });
+
+      if (isHandoff) {
+        conversion.items.push({
+          type: 'agent_handoff',
+          count: 0,
+          data: {
+            ...agent,
+            id: span.spanId,
+            timestamp: startTime,
+            toAgentType: attributes['agent.handoff.to_type'],
+            toAgentId: attributes['agent.handoff.to_id'],
+            duration,
+            taskId: parentSpanId,
+            traceId: span.traceId
+          }
+        });
+      }
+
+      if (isTask) {
+        const { 'agent.task.type': taskType, ...metadata } = attributes;
+        conversion.items.push({
+          type: 'agent_task',
+          count: 0,
+          data: {
+            ...agent,
+            id: span.spanId,
+            taskType: taskType ?? span.name,
+            startTime,
+            endTime,
+            duration,
+            status: failed ? 'failed' : 'completed',
+            error,
+            metadata: {
+              ...metadata,
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(parentSpanId ? { parentSpanId } : {})
+            }
+          }
+        });
+      }
+    }
+  }
+
+  return conversion;
+}
+
+export function convertMetrics(payload: unknown): OtlpConversion {
+  const body = parsePayload(metricsRequestSchema, payload);
+  const conversion: OtlpConversion = { items: [], rejected: 0, errors: [] };
+
+  for (const resourceMetrics of body.resourceMetrics || []) {
+    const metrics = (resourceMetrics.scopeMetrics || [])
+      .flatMap(scope => scope.metrics || [])
+      .filter(metric => metric.name && (AGENT_GAUGES[metric.name] || metric.name === TOOL_DURATION_METRIC));
+    const agent = resolveAgent(resourceMetrics.resource);
+    if (!agent) {
+      const dataPoints = metrics.reduce((total, metric) => total + dataPointCount(metric), 0);
+      conversion.rejected += dataPoints;
+      if (dataPoints > 0) conversion.errors.push(NO_AGENT_ERROR);
+      continue;
+    }
+
+    // Agent metrics reports keyed by data point time
+    const reports = new Map<string, { timestamp?: number; metrics: Record<string, number>; count: number }>();
+
+    for (const metric of metrics) {
+      const field = AGENT_GAUGES[metric.name!];
+      if (field) {
+        for (const point of (metric.gauge || metric.sum)?.dataPoints || []) {
+          const key = String(point.timeUnixNano);
+          const report = reports.get(key) || { timestamp: nanosToMillis(point.timeUnixNano), metrics: {}, count: 0 };
+          const value = Number(point.asDouble ?? point.asInt);
+
+          report.metrics[field] = field === 'responseTime' ? toMillis(value, metric.unit)
+            : field === 'taskCompletionRate' || field === 'errorRate' ? toPercent(value, metric.unit)
+            : value;
+          report.count++;
+          reports.set(key, report);
+        }
+        continue;
+      }
+
+      // Cumulative histograms repeat every earlier observation in each export
+      if (metric.histogram?.aggregationTemporality !== TEMPORALITY_DELTA) {
+        conversion.rejected += dataPointCount(metric);
+        conversion.errors.push(`${metric.name} must be a histogram with delta aggregation temporality`);
+        continue;
+      }
+
+      for (const point of metric.histogram.dataPoints || []) {
+        const count = Number(point.count);
+        if (!count) continue;
+
+        const attributes = attributesToObject(point.attributes);
+        conversion.items.push({
+          type: 'tool_usage',
+          count: 1,
+          data: {
+            ...agent,
+            timestamp: nanosToMillis(point.timeUnixNano),
+            toolName: attributes['tool.name'],
+            executionTime: point.sum === undefined ? undefined : toMillis(point.sum / count, metric.unit),
+            success: attributes['tool.success'] !== false && attributes['error.type'] === undefined,
+            count
+          }
+        });
+      }
+    }
+
+    for (const report of reports.values()) {
+      conversion.items.push({
+        type: 'agent_metrics',
+        count: report.count,
+        data: { ...agent, timestamp: report.timestamp, status: AgentStatus.ACTIVE, metrics: report.metrics }
+      });
+    }
+  }
+
+  return conversion;
+}
@@ -1,14 +1,14 @@
 import pino from 'pino';
 import { AgentMetrics, AppMetrics } from '@types/monitoring';
-import { MetricsStorage } from './storage';
+import { MetricsStore } from './store';
 
 const logger = pino({ transport: { target: 'pino-pretty' } });
 
 export class MetricsProcessor {
-  private storage: MetricsStorage;
+  private storage: MetricsStore;
   private movingAverages: Map<string, number[]> = new Map();
 
-  constructor(storage: MetricsStorage) {
+  constructor(storage: MetricsStore) {
     this.storage = storage;
   }
 
@@ -0,0 +1,232 @@
+/**
+ * Prometheus Exporter
+ * Serves GET /metrics in OpenMetrics text format. Agent gauges and alert
+ * counts are read from Postgres on each scrape, so every collector replica
+ * reports the same values. Core Web Vitals histograms and the collector's
+ * own request, write and queue metrics are local to the replica.
+ *
+ * Values follow Prometheus conventions: durations in seconds and rates as
+ * 0-1 ratios, not the milliseconds and percentages of the JSON API.
+ */
+
+import pino from 'pino';
+import { Counter, Gauge, Histogram, OpenMetricsContentType, Registry, collectDefaultMetrics } from 'prom-client';
+import { AlertSeverity, BatchItemType, CoreWebVitalsData } from '@types/monitoring';
+import { MetricsStore } from './store';
+import { IngestionQueueStats } from './ingestion-queue';
+
+const logger = pino({ transport: { target: 'pino-pretty' } });
+
+// Agents that have not reported for this long drop out of the agent gauges
+const LATEST_AGENT_WINDOW_MS = 5 * 60 * 1000;
+
+export interface CollectorStats {
+  ingestion: IngestionQueueStats & { rateLimited: number; unauthorized: number };
+  payloadsRejected: number;
+}
+
+type AgentLabels = 'agent_type' | 'agent_id';
+
+/**
+ * Scheme, host and path of a page URL. Query strings and fragments are
+ * dropped so they cannot blow up the number of series.
+ */
+function urlLabel(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url.split(/[?#]/)[0];
+  }
+}
+
+export class PrometheusExporter {
+  private storage: MetricsStore;
+  private collectorStats: () => CollectorStats;
+  private registry = new Registry<OpenMetricsContentType>();
+
+  private agentResponseTime: Gauge<AgentLabels>;
+  private agentErrorRatio: Gauge<AgentLabels>;
+  private agentCompletionRatio: Gauge<AgentLabels>;
+  private agentActiveTasks: Gauge<AgentLabels>;
+  private webVitals: Record<'lcp' | 'fid' | 'cls' | 'fcp' | 'tti', Histogram<'url'>>;
+  private activeAlerts: Gauge<'severity'>;
+  private requestDuration: Histogram<'method' | 'route' | 'status_code'>;
+  private dbWriteDuration: Histogram<'type'>;
+  private queueDepth: Gauge;
+  private queueCapacity: Gauge;
+  private queueCounters: Record<'enqueued' | 'written' | 'dropped' | 'writeFailures' | 'rateLimited' | 'unauthorized' | 'payloadsRejected', Counter>;
+
+  constructor(storage: MetricsStore, collectorStats: () => CollectorStats) {
+    this.storage = storage;
+    this.collectorStats = collectorStats;
+    this.registry.setContentType(Registry.OPENMETRICS_CONTENT_TYPE);
+    const registers = [this.registry];
+
+    collectDefaultMetrics({ register: this.registry });
+
+    const agentLabels: AgentLabels[] = ['agent_type', 'agent_id'];
+    this.agentResponseTime = new Gauge({
+      name: 'monitoring_agent_response_time_seconds',
+      help: 'Response time from the latest report of each agent',
+      labelNames: agentLabels,
+      registers
+    });
+    this.agentErrorRatio = new Gauge({
+      name: 'monitoring_agent_error_ratio',
+      help: 'Error rate from the latest report of each agent',
+      labelNames: agentLabels,
+      registers
+    });
+    this.agentCompletionRatio = new Gauge({
+      name: 'monitoring_agent_task_completion_ratio',
+      help: 'Task completion rate from the latest report of each agent',
+      labelNames: agentLabels,
+      registers
+    });
+    this.agentActiveTasks = new Gauge({
+      name: 'monitoring_agent_active_tasks',
+      help: 'Active tasks from the latest report of each agent',
+      labelNames: agentLabels,
+      registers
+    });
+
+    // Buckets straddle the web.dev good / needs improvement / poor thresholds
+    const webVital = (name: string, help: string, buckets: number[]) =>
+      new Histogram({ name, help, labelNames: ['url'], buckets, registers });
+    this.webVitals = {
+      lcp: webVital('monitoring_web_vitals_lcp_seconds', 'Largest Contentful Paint', [0.5, 1, 1.5, 2, 2.5, 3, 4, 5, 7.5, 10]),
+      fid: webVital('monitoring_web_vitals_fid_seconds', 'First Input Delay', [0.025, 0.05, 0.1, 0.2, 0.3, 0.5, 1]),
+      cls: webVital('monitoring_web_vitals_cls', 'Cumulative Layout Shift', [0.01, 0.025, 0.05, 0.1, 0.15, 0.25, 0.5, 1]),
+      fcp: webVital('monitoring_web_vitals_fcp_seconds', 'First Contentful Paint', [0.5, 1, 1.5, 1.8, 2.5, 3, 4, 6]),
+      tti: webVital('monitoring_web_vitals_tti_seconds', 'Time to Interactive', [1, 2, 3.8, 5, 7.3, 10, 15, 20])
+    };
+
+    this.activeAlerts = new Gauge({
+      name: 'monitoring_alerts_active',
+      help: 'Unresolved alerts',
+      labelNames: ['severity'],
+      registers
+    });
+
+    this.requestDuration = new Histogram({
+      name: 'monitoring_collector_http_request_duration_seconds',
+      help: 'Time to handle collector HTTP requests',
+      labelNames: ['method', 'route', 'status_code'],
+      buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+      registers
+    });
+    this.dbWriteDuration = new Histogram({
+      name: 'monitoring_collector_db_write_duration_seconds',
+      help: 'Time to write a chunk of queued records to the database',
+      labelNames: ['type'],
+      buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+      registers
+    });
+
+    this.queueDepth = new Gauge({
+      name: 'monitoring_collector_ingestion_queue_depth',
+      help: 'Records waiting to be written',
+      registers
+    });
+    this.queueCapacity = new Gauge({
+      name: 'monitoring_collector_ingestion_queue_capacity',
+      help: 'Records the ingestion queue can hold',
+      registers
+    });
+    const counter = (name: string, help: string) => new Counter({ name, help, registers });
+    this.queueCounters = {
+      enqueued: counter('monitoring_collector_records_enqueued', 'Records accepted into the ingestion queue'),
+      written: counter('monitoring_collector_records_written', 'Records written to the database'),
+      dropped: counter('monitoring_collector_records_dropped', 'Records refused because the ingestion queue was full'),
+      writeFailures: counter('monitoring_collector_record_write_failures', 'Records lost to failed database writes'),
+      rateLimited: counter('monitoring_collector_records_rate_limited', 'Records refused by rate limits'),
+      unauthorized: counter('monitoring_collector_records_unauthorized', 'Records refused because the API key may not ingest them'),
+      payloadsRejected: counter('monitoring_collector_payloads_rejected', 'Payloads that failed validation')
+    };
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  observeCoreWebVitals(data: CoreWebVitalsData): void {
+    const labels = { url: urlLabel(data.url) };
+    const { lcp, fid, cls, fcp, tti } = data.metrics;
+
+    if (lcp !== undefined) this.webVitals.lcp.observe(labels, lcp / 1000);
+    if (fid !== undefined) this.webVitals.fid.observe(labels, fid / 1000);
+    if (cls !== undefined) this.webVitals.cls.observe(labels, cls);
+    if (fcp !== undefined) this.webVitals.fcp.observe(labels, fcp / 1000);
+    if (tti !== undefined) this.webVitals.tti.observe(labels, tti / 1000);
+  }
+
+  /**
+   * Start timing a request; call the returned function with its labels
+   * once the response is sent
+   */
+  startRequestTimer(): (labels: { method: string; route: string; status_code: number }) => void {
+    return this.requestDuration.startTimer();
+  }
+
+  startDbWriteTimer(type: BatchItemType): () => void {
+    return this.dbWriteDuration.startTimer({ type });
+  }
+
+  /**
+   * The exposition, with values read from the database and the ingestion
+   * queue refreshed first
+   */
+  async metrics(): Promise<string> {
+    await Promise.all([this.refreshAgentGauges(), this.refreshAlertGauges()]);
+    this.refreshCollectorMetrics();
+    return this.registry.metrics();
+  }
+
+  private async refreshAgentGauges(): Promise<void> {
+    const gauges = [this.agentResponseTime, this.agentErrorRatio, this.agentCompletionRatio, this.agentActiveTasks];
+
+    try {
+      const latest = await this.storage.getLatestAgentMetrics(new Date(Date.now() - LATEST_AGENT_WINDOW_MS));
+
+      // Reset so agents that stopped reporting disappear instead of going stale
+      gauges.forEach(gauge => gauge.reset());
+      for (const agent of latest) {
+        const labels = { agent_type: agent.agentType, agent_id: agent.agentId };
+        this.agentResponseTime.set(labels, agent.responseTime / 1000);
+        this.agentErrorRatio.set(labels, agent.errorRate / 100);
+        this.agentCompletionRatio.set(labels, agent.taskCompletionRate / 100);
+        this.agentActiveTasks.set(labels, agent.activeTasks);
+      }
+    } catch (error) {
+      gauges.forEach(gauge => gauge.reset());
+      logger.warn({ error }, 'Failed to read agent metrics for Prometheus');
+    }
+  }
+
+  private async refreshAlertGauges(): Promise<void> {
+    try {
+      const counts = await this.storage.getActiveAlertCounts();
+
+      // Every severity is always exported so alerting on `> 0` works without absent()
+      for (const severity of Object.values(AlertSeverity)) {
+        this.activeAlerts.set({ severity }, counts.find(row => row.severity === severity)?.count || 0);
+      }
+    } catch (error) {
+      this.activeAlerts.reset();
+      logger.warn({ error }, 'Failed to read alert counts for Prometheus');
+    }
+  }
+
+  private refreshCollectorMetrics(): void {
+    const { ingestion, payloadsRejected } = this.collectorStats();
+    const totals = { ...ingestion, payloadsRejected };
+
+    this.queueDepth.set(ingestion.depth);
+    this.queueCapacity.set(ingestion.capacity);
+    for (const [key, counter] of Object.entries(this.queueCounters) as Array<[keyof typeof totals, Counter]>) {
+      counter.reset();
+      counter.inc(totals[key]);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { TokenBucketRateLimiter } from './rate-limiter';
+
+describe('TokenBucketRateLimiter', () => {
+  const now = Date.UTC(2024, 0, 1);
+
+  it('allows a burst, then refuses until tokens refill', () => {
+    const limiter = new TokenBucketRateLimiter(10, 20);
+
+    expect(limiter.take('source', 20, now)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+    expect(limiter.take('source', 5, now)).toEqual({ allowed: false, retryAfterSeconds: 1 });
+
+    // Half a second refills 5 tokens
+    expect(limiter.take('source', 5, now + 500).allowed).toBe(true);
+    expect(limiter.take('source', 1, now + 500).allowed).toBe(false);
+  });
+
+  it('keeps a bucket per key', () => {
+    const limiter = new TokenBucketRateLimiter(1, 2);
+
+    expect(limiter.take('a', 2, now).allowed).toBe(true);
+    expect(limiter.take('a', 1, now).allowed).toBe(false);
+    expect(limiter.take('b', 2, now).allowed).toBe(true);
+  });
+
+  it('reports how long until the tokens a request needs are back', () => {
+    const limiter = new TokenBucketRateLimiter(2, 10);
+
+    limiter.take('source', 10, now);
+    expect(limiter.take('source', 7, now)).toEqual({ allowed: false, retryAfterSeconds: 4 });
+  });
+
+  it('caps the cost of an oversized request at the burst size', () => {
+    const limiter = new TokenBucketRateLimiter(1, 5);
+
+    expect(limiter.take('source', 50, now).allowed).toBe(true);
+    expect(limiter.take('source', 1, now).allowed).toBe(false);
+  });
+
+  it('checks a bucket without spending from it', () => {
+    const limiter = new TokenBucketRateLimiter(1, 5);
+
+    expect(limiter.check('source', 5, now)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+    expect(limiter.check('source', 5, now)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+    expect(limiter.take('source', 4, now).allowed).toBe(true);
+    expect(limiter.check('source', 3, now)).toEqual({ allowed: false, retryAfterSeconds: 2 });
+    expect(limiter.take('source', 1, now).allowed).toBe(true);
+  });
+
+  it('does not limit when the rate is zero', () => {
+    const limiter = new TokenBucketRateLimiter(0, 1);
+
+    for (let i = 0; i < 10; i++) {
+      expect(limiter.take('source', 100, now).allowed).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Token Bucket Rate Limiter
+ * Each key gets a bucket of `burst` tokens that refills at `ratePerSecond`.
+ * Ingestion spends one token per record, so a batch costs as much as the
+ * single requests it replaces.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+/**
+ * Raised when a request would exceed its rate limit (429)
+ */
+export class RateLimitExceededError extends Error {
+  readonly retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(`Rate limit exceeded, retry after ${retryAfterSeconds}s`);
+    this.name = 'RateLimitExceededError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Full buckets idle this long are forgotten; they would start full anyway
+const IDLE_BUCKET_TTL_MS = 10 * 60 * 1000;
+
+export class TokenBucketRateLimiter {
+  private ratePerSecond: number;
+  private burst: number;
+  private buckets: Map<string, Bucket> = new Map();
+  private lastSweep = Date.now();
+
+  constructor(ratePerSecond: number, burst: number) {
+    this.ratePerSecond = ratePerSecond;
+    this.burst = Math.max(1, burst);
+  }
+
+  /**
+   * Spend cost tokens from key's bucket if it has them. A cost above the
+   * burst size is capped at it, so an oversized batch needs a full bucket
+   * rather than never getting through.
+   */
+  take(key: string, cost: number = 1, now: number = Date.now()): RateLimitResult {
+    const result = this.check(key, cost, now);
+    if (result.allowed && this.ratePerSecond > 0) {
+      this.buckets.get(key)!.tokens -= Math.min(cost, this.burst);
+    }
+    return result;
+  }
+
+  /**
+   * Whether take would allow this cost, without spending anything. Lets a
+   * request limited by several buckets check them all before spending.
+   */
+  check(key: string, cost: number = 1, now: number = Date.now()): RateLimitResult {
+    if (this.ratePerSecond <= 0) return { allowed: true, retryAfterSeconds: 0 };
+
+    this.sweep(now);
+
+    const needed = Math.min(cost, this.burst);
+    const bucket = this.refill(key, now);
+
+    if (bucket.tokens >= needed) {
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+
+    return {
+      allowed: false,
+      retryAfterSeconds: Math.max(1, Math.ceil((needed - bucket.tokens) / this.ratePerSecond))
+    };
+  }
+
+  private refill(key: string, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: this.burst, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(this.burst, bucket.tokens + elapsedSeconds * this.ratePerSecond);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < IDLE_BUCKET_TTL_MS) return;
+    this.lastSweep = now;
+
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= IDLE_BUCKET_TTL_MS) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
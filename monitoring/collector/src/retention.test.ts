@@ -0,0 +1,52 @@
+import { DEFAULT_RETENTION_POLICIES, RetentionPolicyError, retentionCovers, updateRetentionPolicy } from './retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('updateRetentionPolicy', () => {
+  const current = DEFAULT_RETENTION_POLICIES.find(policy => policy.table === 'agent_metrics');
+
+  it('applies changes on top of the current policy', () => {
+    expect(updateRetentionPolicy(current, 'agent_metrics', { raw: 30, '1d': 3650 })).toEqual({
+      table: 'agent_metrics',
+      retentionDays: { raw: 30, '5m': 180, '1h': 730, '1d': 3650 }
+    });
+  });
+
+  it('only knows the raw tier of tables without rollups', () => {
+    expect(updateRetentionPolicy(undefined, 'trace_spans', { raw: 14 })).toEqual({
+      table: 'trace_spans',
+      retentionDays: { raw: 14 }
+    });
+    expect(() => updateRetentionPolicy(undefined, 'trace_spans', { '1h': 14 })).toThrow('trace_spans has no 1h tier');
+  });
+
+  it('refuses coarser tiers that are kept shorter than finer ones', () => {
+    expect(() => updateRetentionPolicy(current, 'agent_metrics', { '1h': 100 }))
+      .toThrow('1h data must be kept at least as long as 5m data');
+    expect(() => updateRetentionPolicy(current, 'agent_metrics', { raw: null }))
+      .toThrow(RetentionPolicyError);
+  });
+
+  it('keeps enough raw data for the rollups to refresh from', () => {
+    expect(() => updateRetentionPolicy(current, 'agent_metrics', { raw: 3 })).toThrow(/at least 4 days/);
+  });
+
+  it('refuses tables without a retention job', () => {
+    expect(() => updateRetentionPolicy(undefined, 'alerts', { raw: 30 })).toThrow('alerts has no retention policy');
+  });
+});
+
+describe('retentionCovers', () => {
+  const now = new Date(Date.UTC(2024, 6, 1));
+  const policy = { table: 'agent_metrics', retentionDays: { raw: 7, '1d': null } };
+
+  it('covers ranges starting inside the retention period', () => {
+    expect(retentionCovers(policy, 'raw', new Date(now.getTime() - 6 * DAY_MS), now)).toBe(true);
+    expect(retentionCovers(policy, 'raw', new Date(now.getTime() - 8 * DAY_MS), now)).toBe(false);
+  });
+
+  it('treats a missing or unlimited retention as covering everything', () => {
+    expect(retentionCovers(policy, '1d', new Date(0), now)).toBe(true);
+    expect(retentionCovers(undefined, 'raw', new Date(0), now)).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Retention Policies
+ * How many days each hypertable keeps its raw rows and each of its rollups.
+ * Changes are checked here before the store applies them, so that coarser
+ * tiers always reach at least as far back as finer ones.
+ */
+
+import { RetentionPolicy, StorageTier } from '@types/monitoring';
+import { ROLLUP_TIERS, getTableRollup } from './metric-catalog';
+
+/**
+ * Raised for a policy change the API cannot apply (400)
+ */
+export class RetentionPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RetentionPolicyError';
+  }
+}
+
+// Hypertables with a retention job; the other tables are kept indefinitely
+export const RETENTION_TABLES = [
+  'agent_metrics',
+  'core_web_vitals',
+  'app_metrics',
+  'agent_tool_usage',
+  'context7_queries',
+  'bundle_sizes',
+  'agent_handoffs',
+  'trace_spans',
+  'performance_history'
+];
+
+// The defaults seeded by migration 0003
+const DEFAULT_RETENTION_DAYS: Record<StorageTier, number | null> = {
+  raw: 90,
+  '5m': 180,
+  '1h': 730,
+  '1d': null
+};
+
+// Rollup refreshes re-read up to 3 days of raw rows (migration 0004), which
+// have to still be there or the refresh would empty those buckets
+const MIN_RAW_DAYS_WITH_ROLLUPS = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The raw tier followed by the table's rollup tiers, finest first
+ */
+export function storageTiers(table: string): StorageTier[] {
+  return getTableRollup(table) ? ['raw', ...ROLLUP_TIERS] : ['raw'];
+}
+
+export const DEFAULT_RETENTION_POLICIES: RetentionPolicy[] = RETENTION_TABLES.map(table => ({
+  table,
+  retentionDays: Object.fromEntries(storageTiers(table).map(tier => [tier, DEFAULT_RETENTION_DAYS[tier]]))
+}));
+
+/**
+ * The table's policy with `changes` applied, after checking them. Tiers
+ * the current policy does not list start from their defaults.
+ */
+export function updateRetentionPolicy(
+  current: RetentionPolicy | undefined,
+  table: string,
+  changes: Partial<Record<StorageTier, number | null>>
+): RetentionPolicy {
+  if (!RETENTION_TABLES.includes(table)) {
+    throw new RetentionPolicyError(`${table} has no retention policy`);
+  }
+
+  const tiers = storageTiers(table);
+  for (const tier of Object.keys(changes)) {
+    if (!tiers.includes(tier as StorageTier)) {
+      throw new RetentionPolicyError(`${table} has no ${tier} tier`);
+    }
+  }
+
+  const retentionDays = Object.fromEntries(tiers.map(tier => {
+    const days = changes[tier] !== undefined ? changes[tier] : current?.retentionDays[tier];
+    return [tier, days !== undefined ? days : DEFAULT_RETENTION_DAYS[tier]];
+  })) as Record<StorageTier, number | null>;
+
+  // null keeps data indefinitely, so it is longer than any number of days
+  const longest = (days: number | null) => days ?? Infinity;
+  for (let i = 1; i < tiers.length; i++) {
+    if (longest(retentionDays[tiers[i]]) < longest(retentionDays[tiers[i - 1]])) {
+      throw new RetentionPolicyError(`${tiers[i]} data must be kept at least as long as ${tiers[i - 1]} data`);
+    }
+  }
+
+  if (tiers.length > 1 && longest(retentionDays.raw) < MIN_RAW_DAYS_WITH_ROLLUPS) {
+    throw new RetentionPolicyError(`raw data of a table with rollups must be kept at least ${MIN_RAW_DAYS_WITH_ROLLUPS} days`);
+  }
+
+  return { table, retentionDays };
+}
+
+/**
+ * Whether a tier still holds data from `since`, going by its retention
+ */
+export function retentionCovers(policy: RetentionPolicy | undefined, tier: StorageTier, since: Date, now: Date): boolean {
+  const days = policy?.retentionDays[tier];
+  return days === null || days === undefined || since.getTime() >= now.getTime() - days * DAY_MS;
+}
@@ -0,0 +1,290 @@
+/**
+ * Ingestion Schemas
+ * Runtime validation for payloads posted to the collector. Each schema is
+ * typed against its interface in types/monitoring.ts, so the two cannot
+ * drift apart without a compile error.
+ */
+
+import { z } from 'zod';
+import {
+  AgentMetrics,
+  AgentStatus,
+  AgentHandoff,
+  AgentTask,
+  AgentType,
+  AppMetrics,
+  BatchItemType,
+  BundleSizeMetric,
+  Context7Query,
+  CoreWebVitalsData,
+  ToolUsageEvent,
+  TraceSpan
+} from '@types/monitoring';
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when a request body does not match its schema
+ */
+export class PayloadValidationError extends Error {
+  readonly errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super(`Invalid payload: ${errors.map(e => `${e.path || '(body)'} ${e.message}`).join('; ')}`);
+    this.name = 'PayloadValidationError';
+    this.errors = errors;
+  }
+}
+
+// Accepts ISO 8601 strings, epoch milliseconds and Date objects
+const timestamp = z.union([z.string(), z.number(), z.date()])
+  .transform(value => new Date(value))
+  .refine(date => !isNaN(date.getTime()), { message: 'must be an ISO 8601 timestamp' });
+
+// Events reported as they happen may leave the timestamp out
+const eventTimestamp = z.union([z.string(), z.number(), z.date()]).optional()
+  .transform(value => value === undefined ? new Date() : new Date(value))
+  .refine(date => !isNaN(date.getTime()), { message: 'must be an ISO 8601 timestamp' });
+
+const count = z.number().int().nonnegative();
+const duration = z.number().finite().nonnegative();
+const size = z.number().finite().nonnegative();
+const percentage = z.number().finite().min(0).max(100);
+
+export const agentTypeSchema = z.nativeEnum(AgentType);
+export const agentStatusSchema = z.nativeEnum(AgentStatus);
+
+export const agentMetricsSchema: z.ZodType<AgentMetrics, z.ZodTypeDef, unknown> = z.object({
+  agentType: agentTypeSchema,
+  agentId: z.string().min(1),
+  timestamp,
+  status: agentStatusSchema,
+  metrics: z.object({
+    responseTime: duration,
+    taskCompletionRate: percentage,
+    errorRate: percentage,
+    activeTasks: count,
+    completedTasks: count,
+    failedTasks: count,
+    context7Queries: z.object({
+      count,
+      avgResponseTime: duration,
+      successRate: percentage
+    }).default({ count: 0, avgResponseTime: 0, successRate: 100 }),
+    toolUsage: z.record(count).default({}),
+    coordinationMetrics: z.object({
+      handoffsReceived: count,
+      handoffsSent: count,
+      avgHandoffTime: duration
+    }).default({ handoffsReceived: 0, handoffsSent: 0, avgHandoffTime: 0 })
+  })
+});
+
+export const appMetricsSchema: z.ZodType<AppMetrics, z.ZodTypeDef, unknown> = z.object({
+  timestamp,
+  sessionId: z.string().min(1),
+  url: z.string().min(1),
+  metrics: z.object({
+    javascript: z.object({
+      executionTime: duration,
+      parsingTime: duration,
+      compilationTime: duration,
+      mainThreadBlocking: duration
+    }),
+    bundle: z.object({
+      totalSize: size,
+      gzippedSize: size,
+      chunkCount: count,
+      largestChunk: size
+    }),
+    rendering: z.object({
+      firstPaint: duration,
+      domContentLoaded: duration,
+      loadComplete: duration,
+      fps: z.number().finite().nonnegative()
+    }),
+    memory: z.object({
+      used: size,
+      limit: size,
+      jsHeapSize: size
+    })
+  })
+});
+
+export const coreWebVitalsSchema: z.ZodType<CoreWebVitalsData, z.ZodTypeDef, unknown> = z.object({
+  timestamp,
+  url: z.string().min(1),
+  sessionId: z.string().min(1),
+  metrics: z.object({
+    lcp: duration.optional(),
+    fid: duration.optional(),
+    cls: z.number().finite().nonnegative().optional(),
+    fcp: duration.optional(),
+    tti: duration.optional()
+  }),
+  performanceScore: percentage
+});
+
+export const context7QuerySchema: z.ZodType<Context7Query, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1).default(() => `c7-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`),
+  agentType: agentTypeSchema,
+  agentId: z.string().min(1),
+  timestamp: eventTimestamp,
+  library: z.string().min(1),
+  query: z.string(),
+  responseTime: duration,
+  success: z.boolean(),
+  error: z.string().optional(),
+  tokensReturned: count.default(0)
+});
+
+export const toolUsageSchema: z.ZodType<ToolUsageEvent, z.ZodTypeDef, unknown> = z.object({
+  agentType: agentTypeSchema,
+  agentId: z.string().min(1),
+  timestamp: eventTimestamp,
+  toolName: z.string().min(1).max(100),
+  executionTime: duration.optional(),
+  success: z.boolean(),
+  count: z.number().int().positive().default(1)
+});
+
+export const bundleSizeSchema: z.ZodType<BundleSizeMetric, z.ZodTypeDef, unknown> = z.object({
+  name: z.string().min(1).max(255),
+  size,
+  gzippedSize: size,
+  timestamp: eventTimestamp
+});
+
+// A task is reported when it starts and again when it ends, under the same id
+export const agentTaskSchema: z.ZodType<AgentTask, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1).max(255),
+  agentType: agentTypeSchema,
+  agentId: z.string().min(1),
+  taskType: z.string().min(1).max(100),
+  startTime: timestamp,
+  endTime: timestamp.optional(),
+  duration: duration.optional(),
+  status: z.enum(['pending', 'running', 'completed', 'failed']),
+  error: z.string().optional(),
+  metadata: z.record(z.any()).default({})
+}).superRefine((task, ctx) => {
+  const finished = task.status === 'completed' || task.status === 'failed';
+  if (finished && !task.endTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endTime'], message: `is required when status is ${task.status}` });
+  }
+  if (task.endTime && task.endTime.getTime() < task.startTime.getTime()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endTime'], message: 'must not be before startTime' });
+  }
+}).transform(task => ({
+  ...task,
+  duration: task.duration ?? (task.endTime ? task.endTime.getTime() - task.startTime.getTime() : undefined)
+}));
+
+export const agentHandoffSchema: z.ZodType<AgentHandoff, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1).max(255).default(() => `handoff-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`),
+  agentType: agentTypeSchema,
+  agentId: z.string().min(1),
+  timestamp: eventTimestamp,
+  toAgentType: agentTypeSchema,
+  toAgentId: z.string().min(1).optional(),
+  duration: duration.optional(),
+  taskId: z.string().min(1).max(255).optional(),
+  traceId: z.string().min(1).max(32).optional()
+});
+
+const traceId = z.string().regex(/^[0-9a-f]{32}$/, 'must be 32 lowercase hex characters');
+const spanId = z.string().regex(/^[0-9a-f]{16}$/, 'must be 16 lowercase hex characters');
+
+export const traceSpanSchema: z.ZodType<TraceSpan, z.ZodTypeDef, unknown> = z.object({
+  traceId,
+  spanId,
+  parentSpanId: spanId.optional(),
+  name: z.string().min(1).max(255),
+  kind: z.enum(['task', 'handoff', 'internal']).default('internal'),
+  agentType: agentTypeSchema,
+  agentId: z.string().min(1),
+  startTime: timestamp,
+  endTime: timestamp,
+  duration: duration.optional(),
+  status: z.enum(['ok', 'error']).default('ok'),
+  error: z.string().optional(),
+  attributes: z.record(z.any()).default({})
+}).superRefine((span, ctx) => {
+  if (span.endTime.getTime() < span.startTime.getTime()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endTime'], message: 'must not be before startTime' });
+  }
+}).transform(span => ({
+  ...span,
+  duration: span.duration ?? span.endTime.getTime() - span.startTime.getTime()
+}));
+
+export const BATCH_SCHEMAS: Record<BatchItemType, z.ZodType<unknown, z.ZodTypeDef, unknown>> = {
+  agent_metrics: agentMetricsSchema,
+  app_metrics: appMetricsSchema,
+  core_web_vitals: coreWebVitalsSchema,
+  context7_query: context7QuerySchema,
+  tool_usage: toolUsageSchema,
+  bundle_size: bundleSizeSchema,
+  agent_task: agentTaskSchema,
+  agent_handoff: agentHandoffSchema,
+  span: traceSpanSchema
+};
+
+export const heartbeatSchema = z.object({
+  agentId: z.string().min(1),
+  agentType: agentTypeSchema,
+  status: agentStatusSchema.optional(),
+  expectedIntervalSeconds: z.number().int().positive().optional()
+});
+
+export const apiKeySchema = z.object({
+  name: z.string().min(1).max(255),
+  role: z.enum(['ingest', 'read', 'admin']),
+  scope: z.enum(['agent', 'browser']).optional(),
+  agentTypes: z.array(agentTypeSchema).default([]),
+  expiresAt: timestamp.optional()
+}).superRefine((key, ctx) => {
+  if (key.role === 'ingest' && !key.scope) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scope'], message: 'is required for ingest keys' });
+  }
+  if (key.role !== 'ingest' && key.scope) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scope'], message: 'only applies to ingest keys' });
+  }
+  if (key.agentTypes.length > 0 && key.scope !== 'agent') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['agentTypes'], message: 'only applies to agent scoped keys' });
+  }
+  if (key.expiresAt && key.expiresAt.getTime() <= Date.now()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['expiresAt'], message: 'must be in the future' });
+  }
+});
+
+// Days of data kept; null keeps data indefinitely
+const retentionDays = z.number().int().positive().max(36500).nullable().optional();
+
+export const retentionPolicySchema = z.object({
+  retentionDays: z.object({
+    raw: retentionDays,
+    '5m': retentionDays,
+    '1h': retentionDays,
+    '1d': retentionDays
+  }).strict().refine(days => Object.keys(days).length > 0, 'must set at least one tier')
+});
+
+/**
+ * Validate and coerce a request body, throwing PayloadValidationError with
+ * one entry per invalid field
+ */
+export function parsePayload<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, body: unknown): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new PayloadValidationError(result.error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message
+    })));
+  }
+
+  return result.data;
+}
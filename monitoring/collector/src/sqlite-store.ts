@@ -0,0 +1,110 @@
+/**
+ * SQLite Metrics Store
+ * Persists records to a single SQLite file for local runs without
+ * TimescaleDB. Each record is stored as JSON with its collection, key and
+ * time; queries are evaluated in process like the in-memory store's.
+ *
+ * The collector and the alerting service can share one file, but leader
+ * locks are only held within a process, so run a single alerting process
+ * against it.
+ */
+
+import Database from 'better-sqlite3';
+import { Collection, LocalMetricsStore, StoredRecord } from './local-store';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS records (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    collection TEXT NOT NULL,
+    key TEXT,
+    time INTEGER NOT NULL,
+    value TEXT NOT NULL,
+    UNIQUE (collection, key)
+  );
+  CREATE INDEX IF NOT EXISTS records_collection_time ON records (collection, time, seq);
+`;
+
+/**
+ * JSON with Dates written as { $date: epoch milliseconds }, so they are
+ * read back as Dates
+ */
+function encode(value: Record<string, any>): string {
+  return JSON.stringify(value, function (this: Record<string, any>, key: string, field: unknown) {
+    return this[key] instanceof Date ? { $date: this[key].getTime() } : field;
+  });
+}
+
+function decode(text: string): any {
+  return JSON.parse(text, (_key, field) =>
+    field !== null && typeof field === 'object' && typeof field.$date === 'number' && Object.keys(field).length === 1
+      ? new Date(field.$date)
+      : field
+  );
+}
+
+export class SqliteMetricsStore extends LocalMetricsStore {
+  private db: Database.Database;
+  private statements: Record<'put' | 'get' | 'remove' | 'scan' | 'count', Database.Statement>;
+
+  constructor(path: string = process.env.SQLITE_PATH || 'monitoring.sqlite') {
+    super();
+    this.db = new Database(path);
+    // WAL lets the collector and alerting service read while the other writes
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(SCHEMA);
+
+    this.statements = {
+      put: this.db.prepare(
+        `INSERT INTO records (collection, key, time, value) VALUES (?, ?, ?, ?)
+         ON CONFLICT (collection, key) DO UPDATE SET time = excluded.time, value = excluded.value`
+      ),
+      get: this.db.prepare('SELECT value FROM records WHERE collection = ? AND key = ?'),
+      remove: this.db.prepare('DELETE FROM records WHERE collection = ? AND key = ?'),
+      scan: this.db.prepare(
+        `SELECT value FROM records WHERE collection = ? AND time >= ? AND time <= ? ORDER BY time, seq`
+      ),
+      count: this.db.prepare('SELECT COUNT(*) as count FROM records WHERE collection = ?')
+    };
+  }
+
+  protected put(collection: Collection, records: StoredRecord[]): void {
+    for (const record of records) {
+      this.statements.put.run(collection, record.key, record.time, encode(record.value));
+    }
+  }
+
+  protected get(collection: Collection, key: string): any | undefined {
+    const row = this.statements.get.get(collection, key) as { value: string } | undefined;
+    return row ? decode(row.value) : undefined;
+  }
+
+  protected remove(collection: Collection, key: string): boolean {
+    return this.statements.remove.run(collection, key).changes > 0;
+  }
+
+  protected scan(
+    collection: Collection,
+    from: number = Number.MIN_SAFE_INTEGER,
+    to: number = Number.MAX_SAFE_INTEGER
+  ): any[] {
+    const rows = this.statements.scan.all(collection, from, to) as Array<{ value: string }>;
+    return rows.map(row => decode(row.value));
+  }
+
+  protected count(collection: Collection): number {
+    return (this.statements.count.get(collection) as { count: number }).count;
+  }
+
+  /**
+   * Takes the write lock up front, so read-modify-write updates from two
+   * processes cannot interleave
+   */
+  protected transaction(work: () => void): void {
+    this.db.transaction(work).immediate();
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
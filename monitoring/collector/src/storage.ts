@@ -5,22 +5,214 @@ import {
   AppMetrics,
   CoreWebVitalsData,
   AgentStatus,
-  MetricType,
   AgentType,
-  AggregatedMetrics
+  AggregatedMetrics,
+  MetricQueryAggregation,
+  MetricSeries,
+  Alert,
+  AlertSeverity,
+  AlertRule,
+  NotificationChannel,
+  Silence,
+  MaintenanceWindow,
+  AgentHeartbeat,
+  AgentStatusChange,
+  AlertAnalyticsGroupBy,
+  AlertCountBucket,
+  Context7Query,
+  Context7LibraryStats,
+  ToolUsageEvent,
+  ToolUsageStats,
+  TraceSpan,
+  BundleSizeMetric,
+  AgentHandoff,
+  AgentTask,
+  AgentTaskStats,
+  AgentTaskFailureReason,
+  ApiKey,
+  RetentionPolicy,
+  StorageTier
 } from '@types/monitoring';
+import { DatabaseMigrator } from '../../database/scripts/migrate';
+import { getMetricDefinition } from './metric-catalog';
+import {
+  AgentHandoffQueryOptions,
+  AgentTaskQueryOptions,
+  AgentTypeStatus,
+  AggregatedMetricsQuery,
+  AlertCycleCount,
+  AlertEvent,
+  AlertEventHandler,
+  AlertHistoryQueryOptions,
+  AlertResponseGroupStats,
+  AlertRuleQueryOptions,
+  BundleSizeQueryOptions,
+  Context7QueryOptions,
+  DatabaseStats,
+  EventQueryOptions,
+  HeartbeatReport,
+  HeartbeatResult,
+  LatestAgentMetrics,
+  LeaderLock,
+  MetricSeriesQuery,
+  MetricsStore,
+  SeriesValue,
+  ToolUsageQueryOptions,
+  WindowAggregation,
+  mergeTaskReports
+} from './store';
 
 const logger = pino({ transport: { target: 'pino-pretty' } });
 
-export interface MetricsQueryOptions {
-  metricType?: MetricType;
-  agentType?: AgentType;
-  startTime?: Date;
-  endTime?: Date;
-  aggregation?: string;
+// Aggregates over the samples of one step. Rows of a continuous aggregate
+// carry an average and a weight, so averages, sums and counts are weighted.
+const SERIES_AGGREGATES: Record<MetricQueryAggregation, string> = {
+  avg: 'SUM(value * weight) / SUM(weight)',
+  min: 'MIN(value)',
+  max: 'MAX(value)',
+  sum: 'SUM(value * weight)',
+  count: 'SUM(weight)',
+  p50: 'percentile_cont(0.5) WITHIN GROUP (ORDER BY value)',
+  p95: 'percentile_cont(0.95) WITHIN GROUP (ORDER BY value)',
+  p99: 'percentile_cont(0.99) WITHIN GROUP (ORDER BY value)',
+  // Per-second increase, treating a drop as a counter reset
+  rate: `(CASE WHEN last(value, sampled_at) >= first(value, sampled_at)
+    THEN last(value, sampled_at) - first(value, sampled_at) ELSE last(value, sampled_at) END) / EXTRACT(EPOCH FROM $1::interval)`
+};
+
+/**
+ * Session-level advisory lock held on a dedicated connection. The lock is
+ * held until released or the connection drops.
+ */
+class AdvisoryLock implements LeaderLock {
+  private client: PoolClient | null;
+  private key: number;
+
+  constructor(client: PoolClient, key: number) {
+    this.client = client;
+    this.key = key;
+
+    // Errors on the idle connection surface on the next check
+    client.on('error', error => logger.warn({ error, key }, 'Advisory lock connection error'));
+  }
+
+  async check(): Promise<boolean> {
+    if (!this.client) return false;
+
+    try {
+      await this.client.query('SELECT 1');
+      return true;
+    } catch (error) {
+      logger.warn({ error, key: this.key }, 'Lost advisory lock connection');
+      this.client.release(true);
+      this.client = null;
+      return false;
+    }
+  }
+
+  async release(): Promise<void> {
+    const client = this.client;
+    if (!client) return;
+    this.client = null;
+
+    try {
+      await client.query('SELECT pg_advisory_unlock($1)', [this.key]);
+      client.release();
+    } catch (error) {
+      client.release(true);
+      throw error;
+    }
+  }
+}
+
+// NOTIFY channel alert events are relayed on
+const ALERT_EVENTS_CHANNEL = 'alert_events';
+
+// Wait this long before listening again on a dropped connection
+const LISTEN_RECONNECT_DELAY_MS = 5000;
+
+/**
+ * LISTENs for alert events on a dedicated connection, reconnecting when the
+ * connection drops. Events notified while reconnecting are missed.
+ */
+class AlertEventListener {
+  private pool: Pool;
+  private handler: AlertEventHandler;
+  private client: PoolClient | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(pool: Pool, handler: AlertEventHandler) {
+    this.pool = pool;
+    this.handler = handler;
+  }
+
+  async start(): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(`LISTEN ${ALERT_EVENTS_CHANNEL}`);
+    } catch (error) {
+      client.release(true);
+      throw error;
+    }
+
+    // The connection keeps listening, so it is never returned to the pool
+    if (this.stopped) {
+      client.release(true);
+      return;
+    }
+
+    client.on('notification', message => this.dispatch(message.payload));
+    client.on('error', error => {
+      logger.warn({ error }, 'Alert event connection error');
+      this.reconnect(client);
+    });
+    this.client = client;
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const client = this.client;
+    this.client = null;
+    client?.release(true);
+  }
+
+  private dispatch(payload: string | undefined): void {
+    try {
+      this.handler(JSON.parse(payload || '') as AlertEvent);
+    } catch (error) {
+      logger.warn({ error, payload }, 'Ignoring malformed alert event');
+    }
+  }
+
+  private reconnect(client: PoolClient): void {
+    if (this.client !== client) return;
+    this.client = null;
+    client.release(true);
+    this.scheduleStart();
+  }
+
+  private scheduleStart(): void {
+    if (this.stopped) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.start().catch(error => {
+        logger.warn({ error }, 'Failed to listen for alert events');
+        this.scheduleStart();
+      });
+    }, LISTEN_RECONNECT_DELAY_MS);
+  }
 }
 
-export class MetricsStorage {
+/**
+ * MetricsStore on TimescaleDB, configured from the DB_* variables
+ */
+export class MetricsStorage implements MetricsStore {
   private pool: Pool;
 
   constructor() {
@@ -41,48 +233,243 @@ export class MetricsStorage {
   }
 
   async storeAgentMetrics(metrics: AgentMetrics): Promise<void> {
-    const client = await this.pool.connect();
-    try {
-      await client.query('BEGIN');
+    await this.storeAgentMetricsBatch([metrics]);
+  }
 
-      // Store agent metrics
-      await client.query(
-        `INSERT INTO agent_metrics (
-          agent_type, agent_id, timestamp, status, response_time,
-          task_completion_rate, error_rate, active_tasks, completed_tasks, failed_tasks,
-          context7_queries_count, context7_queries_avg_time, context7_queries_success_rate,
-          tool_usage_json, handoffs_received, handoffs_sent, avg_handoff_time
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)`,
-        [
-          metrics.agentType,
-          metrics.agentId,
-          metrics.timestamp,
-          metrics.status,
-          metrics.metrics.responseTime,
-          metrics.metrics.taskCompletionRate,
-          metrics.metrics.errorRate,
-          metrics.metrics.activeTasks,
-          metrics.metrics.completedTasks,
-          metrics.metrics.failedTasks,
-          metrics.metrics.context7Queries.count,
-          metrics.metrics.context7Queries.avgResponseTime,
-          metrics.metrics.context7Queries.successRate,
-          JSON.stringify(metrics.metrics.toolUsage),
-          metrics.metrics.coordinationMetrics.handoffsReceived,
-          metrics.metrics.coordinationMetrics.handoffsSent,
-          metrics.metrics.coordinationMetrics.avgHandoffTime
-        ]
-      );
+  async storeAppMetrics(metrics: AppMetrics): Promise<void> {
+    await this.storeAppMetricsBatch([metrics]);
+  }
 
-      // Store tool usage individually
-      for (const [tool, count] of Object.entries(metrics.metrics.toolUsage)) {
-        await client.query(
-          `INSERT INTO agent_tool_usage (agent_type, agent_id, timestamp, tool_name, count)
-           VALUES ($1, $2, $3, $4, $5)`,
-          [metrics.agentType, metrics.agentId, metrics.timestamp, tool, count]
-        );
-      }
+  async storeCoreWebVitals(metrics: CoreWebVitalsData): Promise<void> {
+    await this.storeCoreWebVitalsBatch([metrics]);
+  }
+
+  /**
+   * Agent metrics and their per-tool usage rows, in one transaction
+   */
+  async storeAgentMetricsBatch(batch: AgentMetrics[]): Promise<void> {
+    if (batch.length === 0) return;
+
+    await this.withTransaction(async client => {
+      await this.insertRows(client, 'agent_metrics', [
+        'agent_type', 'agent_id', 'timestamp', 'status', 'response_time',
+        'task_completion_rate', 'error_rate', 'active_tasks', 'completed_tasks', 'failed_tasks',
+        'context7_queries_count', 'context7_queries_avg_time', 'context7_queries_success_rate',
+        'tool_usage_json', 'handoffs_received', 'handoffs_sent', 'avg_handoff_time'
+      ], batch.map(metrics => [
+        metrics.agentType,
+        metrics.agentId,
+        metrics.timestamp,
+        metrics.status,
+        metrics.metrics.responseTime,
+        metrics.metrics.taskCompletionRate,
+        metrics.metrics.errorRate,
+        metrics.metrics.activeTasks,
+        metrics.metrics.completedTasks,
+        metrics.metrics.failedTasks,
+        metrics.metrics.context7Queries.count,
+        metrics.metrics.context7Queries.avgResponseTime,
+        metrics.metrics.context7Queries.successRate,
+        JSON.stringify(metrics.metrics.toolUsage),
+        metrics.metrics.coordinationMetrics.handoffsReceived,
+        metrics.metrics.coordinationMetrics.handoffsSent,
+        metrics.metrics.coordinationMetrics.avgHandoffTime
+      ]));
 
+      // Store tool usage individually. Snapshot counts carry no outcome, so
+      // they add to invocations but not to success or failure totals.
+      await this.insertRows(client, 'agent_tool_usage', [
+        'agent_type', 'agent_id', 'timestamp', 'tool_name', 'count', 'success_count', 'failure_count'
+      ], batch.flatMap(metrics => Object.entries(metrics.metrics.toolUsage).map(([tool, count]) => [
+        metrics.agentType, metrics.agentId, metrics.timestamp, tool, count, 0, 0
+      ])));
+    });
+  }
+
+  async storeAppMetricsBatch(batch: AppMetrics[]): Promise<void> {
+    if (batch.length === 0) return;
+
+    await this.withTransaction(client => this.insertRows(client, 'app_metrics', [
+      'timestamp', 'session_id', 'url',
+      'js_execution_time', 'js_parsing_time', 'js_compilation_time', 'js_main_thread_blocking',
+      'bundle_total_size', 'bundle_gzipped_size', 'bundle_chunk_count', 'bundle_largest_chunk',
+      'render_first_paint', 'render_dom_content_loaded', 'render_load_complete', 'render_fps',
+      'mem_used', 'mem_limit', 'mem_js_heap_size'
+    ], batch.map(metrics => [
+      metrics.timestamp,
+      metrics.sessionId,
+      metrics.url,
+      metrics.metrics.javascript.executionTime,
+      metrics.metrics.javascript.parsingTime,
+      metrics.metrics.javascript.compilationTime,
+      metrics.metrics.javascript.mainThreadBlocking,
+      metrics.metrics.bundle.totalSize,
+      metrics.metrics.bundle.gzippedSize,
+      metrics.metrics.bundle.chunkCount,
+      metrics.metrics.bundle.largestChunk,
+      metrics.metrics.rendering.firstPaint,
+      metrics.metrics.rendering.domContentLoaded,
+      metrics.metrics.rendering.loadComplete,
+      metrics.metrics.rendering.fps,
+      metrics.metrics.memory.used,
+      metrics.metrics.memory.limit,
+      metrics.metrics.memory.jsHeapSize
+    ])));
+  }
+
+  async storeCoreWebVitalsBatch(batch: CoreWebVitalsData[]): Promise<void> {
+    if (batch.length === 0) return;
+
+    await this.withTransaction(client => this.insertRows(client, 'core_web_vitals', [
+      'timestamp', 'url', 'session_id', 'lcp', 'fid', 'cls', 'fcp', 'tti', 'performance_score'
+    ], batch.map(metrics => [
+      metrics.timestamp,
+      metrics.url,
+      metrics.sessionId,
+      metrics.metrics.lcp,
+      metrics.metrics.fid,
+      metrics.metrics.cls,
+      metrics.metrics.fcp,
+      metrics.metrics.tti,
+      metrics.performanceScore
+    ])));
+  }
+
+  async storeContext7QueriesBatch(batch: Context7Query[]): Promise<void> {
+    if (batch.length === 0) return;
+
+    await this.withTransaction(client => this.insertRows(client, 'context7_queries', [
+      'id', 'agent_type', 'agent_id', 'timestamp', 'library', 'query',
+      'response_time', 'success', 'error_message', 'tokens_returned'
+    ], batch.map(query => [
+      query.id,
+      query.agentType,
+      query.agentId,
+      query.timestamp,
+      query.library,
+      query.query,
+      query.responseTime,
+      query.success,
+      query.error || null,
+      query.tokensReturned
+    ]), 'ON CONFLICT (id) DO NOTHING'));
+  }
+
+  async storeToolUsageBatch(batch: ToolUsageEvent[]): Promise<void> {
+    if (batch.length === 0) return;
+
+    await this.withTransaction(client => this.insertRows(client, 'agent_tool_usage', [
+      'agent_type', 'agent_id', 'timestamp', 'tool_name', 'count',
+      'execution_time', 'success_count', 'failure_count'
+    ], batch.map(event => [
+      event.agentType,
+      event.agentId,
+      event.timestamp,
+      event.toolName,
+      event.count,
+      event.executionTime ?? null,
+      event.success ? event.count : 0,
+      event.success ? 0 : event.count
+    ])));
+  }
+
+  async storeBundleSizesBatch(batch: BundleSizeMetric[]): Promise<void> {
+    if (batch.length === 0) return;
+
+    await this.withTransaction(client => this.insertRows(client, 'bundle_sizes', [
+      'timestamp', 'name', 'size', 'gzipped_size'
+    ], batch.map(metric => [
+      metric.timestamp,
+      metric.name,
+      metric.size,
+      metric.gzippedSize
+    ])));
+  }
+
+  async storeAgentHandoffsBatch(batch: AgentHandoff[]): Promise<void> {
+    if (batch.length === 0) return;
+
+    await this.withTransaction(client => this.insertRows(client, 'agent_handoffs', [
+      'id', 'agent_type', 'agent_id', 'timestamp', 'to_agent_type', 'to_agent_id',
+      'duration', 'task_id', 'trace_id'
+    ], batch.map(handoff => [
+      handoff.id,
+      handoff.agentType,
+      handoff.agentId,
+      handoff.timestamp,
+      handoff.toAgentType,
+      handoff.toAgentId || null,
+      handoff.duration ?? null,
+      handoff.taskId || null,
+      handoff.traceId || null
+    ])));
+  }
+
+  async storeSpansBatch(batch: TraceSpan[]): Promise<void> {
+    if (batch.length === 0) return;
+
+    await this.withTransaction(client => this.insertRows(client, 'trace_spans', [
+      'trace_id', 'span_id', 'parent_span_id', 'name', 'kind', 'agent_type', 'agent_id',
+      'start_time', 'end_time', 'duration', 'status', 'error_message', 'attributes'
+    ], batch.map(span => [
+      span.traceId,
+      span.spanId,
+      span.parentSpanId || null,
+      span.name,
+      span.kind,
+      span.agentType,
+      span.agentId,
+      span.startTime,
+      span.endTime,
+      span.duration,
+      span.status,
+      span.error || null,
+      JSON.stringify(span.attributes || {})
+    ]), 'ON CONFLICT (trace_id, span_id, start_time) DO NOTHING'));
+  }
+
+  /**
+   * Upsert task start and end reports. Reports for the same task may arrive
+   * in either order; a finished task never goes back to running.
+   */
+  async storeAgentTasksBatch(batch: AgentTask[]): Promise<void> {
+    if (batch.length === 0) return;
+
+    // One statement cannot upsert the same row twice, so merge reports per id first
+    const tasks = new Map<string, AgentTask>();
+    for (const task of batch) {
+      const previous = tasks.get(task.id);
+      tasks.set(task.id, previous ? mergeTaskReports(previous, task) : task);
+    }
+
+    await this.withTransaction(client => this.insertRows(client, 'agent_tasks', [
+      'id', 'agent_type', 'agent_id', 'task_type', 'start_time', 'end_time',
+      'duration', 'status', 'error_message', 'metadata'
+    ], Array.from(tasks.values()).map(task => [
+      task.id,
+      task.agentType,
+      task.agentId,
+      task.taskType,
+      task.startTime,
+      task.endTime || null,
+      task.duration ?? null,
+      task.status,
+      task.error || null,
+      JSON.stringify(task.metadata || {})
+    ]), `ON CONFLICT (id) DO UPDATE SET
+        start_time = LEAST(agent_tasks.start_time, EXCLUDED.start_time),
+        end_time = COALESCE(EXCLUDED.end_time, agent_tasks.end_time),
+        duration = COALESCE(EXCLUDED.duration, agent_tasks.duration),
+        status = CASE WHEN agent_tasks.status IN ('completed', 'failed') THEN agent_tasks.status ELSE EXCLUDED.status END,
+        error_message = COALESCE(EXCLUDED.error_message, agent_tasks.error_message),
+        metadata = agent_tasks.metadata || EXCLUDED.metadata`));
+  }
+
+  private async withTransaction(work: (client: PoolClient) => Promise<void>): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await work(client);
       await client.query('COMMIT');
     } catch (error) {
       await client.query('ROLLBACK');
@@ -92,120 +479,106 @@ export class MetricsStorage {
     }
   }
 
-  async storeAppMetrics(metrics: AppMetrics): Promise<void> {
-    await this.pool.query(
-      `INSERT INTO app_metrics (
-        timestamp, session_id, url,
-        js_execution_time, js_parsing_time, js_compilation_time, js_main_thread_blocking,
-        bundle_total_size, bundle_gzipped_size, bundle_chunk_count, bundle_largest_chunk,
-        render_first_paint, render_dom_content_loaded, render_load_complete, render_fps,
-        mem_used, mem_limit, mem_js_heap_size
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)`,
-      [
-        metrics.timestamp,
-        metrics.sessionId,
-        metrics.url,
-        metrics.metrics.javascript.executionTime,
-        metrics.metrics.javascript.parsingTime,
-        metrics.metrics.javascript.compilationTime,
-        metrics.metrics.javascript.mainThreadBlocking,
-        metrics.metrics.bundle.totalSize,
-        metrics.metrics.bundle.gzippedSize,
-        metrics.metrics.bundle.chunkCount,
-        metrics.metrics.bundle.largestChunk,
-        metrics.metrics.rendering.firstPaint,
-        metrics.metrics.rendering.domContentLoaded,
-        metrics.metrics.rendering.loadComplete,
-        metrics.metrics.rendering.fps,
-        metrics.metrics.memory.used,
-        metrics.metrics.memory.limit,
-        metrics.metrics.memory.jsHeapSize
-      ]
-    );
-  }
-
-  async storeCoreWebVitals(metrics: CoreWebVitalsData): Promise<void> {
-    await this.pool.query(
-      `INSERT INTO core_web_vitals (
-        timestamp, url, session_id, lcp, fid, cls, fcp, tti, performance_score
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-      [
-        metrics.timestamp,
-        metrics.url,
-        metrics.sessionId,
-        metrics.metrics.lcp,
-        metrics.metrics.fid,
-        metrics.metrics.cls,
-        metrics.metrics.fcp,
-        metrics.metrics.tti,
-        metrics.performanceScore
-      ]
-    );
-  }
-
-  async queryMetrics(options: MetricsQueryOptions): Promise<any[]> {
-    let query = 'SELECT * FROM ';
-    let params: any[] = [];
-    let conditions: string[] = [];
+  /**
+   * Multi-row INSERT, split into statements that stay under Postgres's
+   * 65535 bind parameter limit
+   */
+  private async insertRows(
+    client: PoolClient,
+    table: string,
+    columns: string[],
+    rows: any[][],
+    onConflict: string = ''
+  ): Promise<void> {
+    const rowsPerStatement = Math.floor(65535 / columns.length);
 
-    if (options.metricType === MetricType.AGENT_RESPONSE_TIME ||
-        options.metricType === MetricType.AGENT_TASK_COMPLETION) {
-      query += 'agent_metrics';
-
-      if (options.agentType) {
-        conditions.push('agent_type = $' + (params.length + 1));
-        params.push(options.agentType);
-      }
+    for (let offset = 0; offset < rows.length; offset += rowsPerStatement) {
+      const chunk = rows.slice(offset, offset + rowsPerStatement);
+      const values = chunk.map((_, row) =>
+        `(${columns.map((__, column) => `$${row * columns.length + column + 1}`).join(', ')})`
+      );
 
-      if (options.startTime) {
-        conditions.push('timestamp >= $' + (params.length + 1));
-        params.push(options.startTime);
-      }
+      await client.query(
+        `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${values.join(', ')} ${onConflict}`,
+        chunk.flat()
+      );
+    }
+  }
 
-      if (options.endTime) {
-        conditions.push('timestamp <= $' + (params.length + 1));
-        params.push(options.endTime);
-      }
-    } else if (options.metricType === MetricType.CORE_WEB_VITALS) {
-      query += 'core_web_vitals';
+  /**
+   * Aggregate a column into one series per combination of the groupBy
+   * columns, in time_bucket steps. Series are ordered by their label values
+   * and paged on them: a page holds at most `limit` series, starting after
+   * the label values in `after`.
+   */
+  async queryMetricSeries(query: MetricSeriesQuery): Promise<{ series: MetricSeries[]; hasMore: boolean }> {
+    const params: any[] = [`${query.step} seconds`, query.startTime, query.endTime];
+    const conditions = [
+      `${query.timeColumn} >= $2`,
+      `${query.timeColumn} < $3`,
+      `${query.column} IS NOT NULL`
+    ];
+    for (const filter of query.filters) {
+      params.push(filter.value);
+      conditions.push(`${filter.column} = $${params.length}`);
+    }
 
-      if (options.startTime) {
-        conditions.push('timestamp >= $' + (params.length + 1));
-        params.push(options.startTime);
-      }
+    // Missing label values group together as ''
+    const labels = query.groupBy.map((_, i) => `l${i}`);
+    const samples = `SELECT time_bucket($1::interval, ${query.timeColumn}) AS bucket,
+        ${query.timeColumn} AS sampled_at,
+        ${query.column} AS value,
+        ${query.weightColumn || '1'} AS weight${query.groupBy.map((group, i) => `,
+        COALESCE(${group.column}::text, '') AS l${i}`).join('')}
+      FROM ${query.table}
+      WHERE ${conditions.join(' AND ')}`;
 
-      if (options.endTime) {
-        conditions.push('timestamp <= $' + (params.length + 1));
-        params.push(options.endTime);
+    let from = `(${samples}) samples`;
+    if (labels.length > 0) {
+      let after = '';
+      if (query.after) {
+        const placeholders = query.after.map((value, i) => `$${params.length + i + 1}`);
+        params.push(...query.after);
+        after = `WHERE (${labels.join(', ')}) > (${placeholders.join(', ')})`;
       }
-    } else {
-      query += 'app_metrics';
+      params.push(query.limit + 1);
+      from += ` JOIN (
+        SELECT DISTINCT ${labels.join(', ')} FROM (${samples}) candidates ${after}
+        ORDER BY ${labels.join(', ')} LIMIT $${params.length}
+      ) series USING (${labels.join(', ')})`;
+    }
 
-      if (options.startTime) {
-        conditions.push('timestamp >= $' + (params.length + 1));
-        params.push(options.startTime);
-      }
+    const result = await this.pool.query(
+      `SELECT bucket${labels.map(label => `, ${label}`).join('')}, ${SERIES_AGGREGATES[query.aggregation]} AS value
+       FROM ${from}
+       GROUP BY ${['bucket', ...labels].join(', ')}
+       ORDER BY ${[...labels, 'bucket'].join(', ')}`,
+      params
+    );
 
-      if (options.endTime) {
-        conditions.push('timestamp <= $' + (params.length + 1));
-        params.push(options.endTime);
+    const series: MetricSeries[] = [];
+    let key: string | undefined;
+    for (const row of result.rows) {
+      const values = labels.map(label => row[label]);
+      if (series.length === 0 || JSON.stringify(values) !== key) {
+        key = JSON.stringify(values);
+        series.push({
+          labels: Object.fromEntries(query.groupBy.map((group, i) => [group.label, values[i]])),
+          points: []
+        });
       }
+      series[series.length - 1].points.push({ timestamp: row.bucket, value: parseFloat(row.value) });
     }
 
-    if (conditions.length > 0) {
-      query += ' WHERE ' + conditions.join(' AND ');
-    }
-
-    query += ' ORDER BY timestamp DESC LIMIT 1000';
-
-    const result = await this.pool.query(query, params);
-    return result.rows;
+    const hasMore = series.length > query.limit;
+    return { series: series.slice(0, query.limit), hasMore };
   }
 
-  async getRecentAgentMetrics(limit: number = 100): Promise<AgentMetrics[]> {
+  async getRecentAgentMetrics(limit: number = 100, agentType?: AgentType): Promise<AgentMetrics[]> {
     const result = await this.pool.query(
-      `SELECT * FROM agent_metrics ORDER BY timestamp DESC LIMIT $1`,
-      [limit]
+      `SELECT * FROM agent_metrics WHERE ($2::text IS NULL OR agent_type = $2)
+       ORDER BY timestamp DESC LIMIT $1`,
+      [limit, agentType ?? null]
     );
 
     return result.rows.map(row => ({
@@ -235,10 +608,38 @@ export class MetricsStorage {
     }));
   }
 
-  async getRecentAppMetrics(limit: number = 100): Promise<AppMetrics[]> {
+  /**
+   * Most recent report from each agent that has reported since the given time
+   */
+  async getLatestAgentMetrics(since: Date): Promise<LatestAgentMetrics[]> {
+    const result = await this.pool.query(
+      `SELECT DISTINCT ON (agent_type, agent_id)
+        agent_type, agent_id, timestamp, response_time, task_completion_rate, error_rate, active_tasks
+       FROM agent_metrics
+       WHERE timestamp > $1
+       ORDER BY agent_type, agent_id, timestamp DESC`,
+      [since]
+    );
+
+    return result.rows.map(row => ({
+      agentType: row.agent_type,
+      agentId: row.agent_id,
+      timestamp: row.timestamp,
+      responseTime: parseFloat(row.response_time),
+      taskCompletionRate: parseFloat(row.task_completion_rate),
+      errorRate: parseFloat(row.error_rate),
+      activeTasks: row.active_tasks
+    }));
+  }
+
+  /**
+   * Most recent app metrics, optionally only for pages at or below a URL path
+   */
+  async getRecentAppMetrics(limit: number = 100, path?: string): Promise<AppMetrics[]> {
     const result = await this.pool.query(
-      `SELECT * FROM app_metrics ORDER BY timestamp DESC LIMIT $1`,
-      [limit]
+      `SELECT * FROM app_metrics WHERE ${this.urlPathCondition('$2')}
+       ORDER BY timestamp DESC LIMIT $1`,
+      [limit, path ?? null]
     );
 
     return result.rows.map(row => ({
@@ -273,10 +674,14 @@ export class MetricsStorage {
     }));
   }
 
-  async getRecentCoreWebVitals(limit: number = 100): Promise<CoreWebVitalsData[]> {
+  /**
+   * Most recent Core Web Vitals, optionally only for pages at or below a URL path
+   */
+  async getRecentCoreWebVitals(limit: number = 100, path?: string): Promise<CoreWebVitalsData[]> {
     const result = await this.pool.query(
-      `SELECT * FROM core_web_vitals ORDER BY timestamp DESC LIMIT $1`,
-      [limit]
+      `SELECT * FROM core_web_vitals WHERE ${this.urlPathCondition('$2')}
+       ORDER BY timestamp DESC LIMIT $1`,
+      [limit, path ?? null]
     );
 
     return result.rows.map(row => ({
@@ -294,106 +699,1306 @@ export class MetricsStorage {
     }));
   }
 
-  async getAgentStatus(): Promise<Array<{
-    agentType: AgentType;
-    status: AgentStatus;
-    lastSeen: Date;
-    avgResponseTime: number;
-  }>> {
+  async getContext7Queries(options: Context7QueryOptions): Promise<Context7Query[]> {
+    const { conditions, params } = this.eventConditions(options, { library: options.library });
+    params.push(options.limit || 100);
+
+    const result = await this.pool.query(
+      `SELECT * FROM context7_queries WHERE ${conditions.join(' AND ')}
+       ORDER BY timestamp DESC LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      agentType: row.agent_type,
+      agentId: row.agent_id,
+      timestamp: row.timestamp,
+      library: row.library,
+      query: row.query,
+      responseTime: parseFloat(row.response_time),
+      success: row.success,
+      error: row.error_message || undefined,
+      tokensReturned: row.tokens_returned || 0
+    }));
+  }
+
+  /**
+   * Query volume, success rate and latency per library
+   */
+  async getContext7Stats(options: Context7QueryOptions): Promise<Context7LibraryStats[]> {
+    const { conditions, params } = this.eventConditions(options, { library: options.library });
+
     const result = await this.pool.query(
       `SELECT
-        agent_type,
-        status,
-        MAX(timestamp) as last_seen,
-        AVG(response_time) as avg_response_time
-       FROM agent_metrics
-       WHERE timestamp > NOW() - INTERVAL '5 minutes'
-       GROUP BY agent_type, status
-       ORDER BY agent_type`
+        library,
+        COUNT(*) as queries,
+        AVG(CASE WHEN success THEN 100.0 ELSE 0 END) as success_rate,
+        AVG(response_time) as avg_response_time,
+        percentile_cont(0.95) WITHIN GROUP (ORDER BY response_time) as p95_response_time,
+        COALESCE(SUM(tokens_returned), 0) as tokens_returned
+       FROM context7_queries
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY library
+       ORDER BY queries DESC`,
+      params
+    );
+
+    return result.rows.map(row => ({
+      library: row.library,
+      queries: parseInt(row.queries),
+      successRate: parseFloat(row.success_rate),
+      avgResponseTime: parseFloat(row.avg_response_time),
+      p95ResponseTime: parseFloat(row.p95_response_time),
+      tokensReturned: parseInt(row.tokens_returned)
+    }));
+  }
+
+  async getToolUsage(options: ToolUsageQueryOptions): Promise<ToolUsageEvent[]> {
+    const { conditions, params } = this.eventConditions(options, { tool_name: options.toolName });
+    params.push(options.limit || 100);
+
+    const result = await this.pool.query(
+      `SELECT * FROM agent_tool_usage WHERE ${conditions.join(' AND ')}
+       ORDER BY timestamp DESC LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map(row => ({
+      agentType: row.agent_type,
+      agentId: row.agent_id,
+      timestamp: row.timestamp,
+      toolName: row.tool_name,
+      executionTime: row.execution_time !== null ? parseFloat(row.execution_time) : undefined,
+      success: row.failure_count === 0,
+      count: row.count
+    }));
+  }
+
+  /**
+   * Invocation totals and mean execution time per tool
+   */
+  async getToolUsageStats(options: ToolUsageQueryOptions): Promise<ToolUsageStats[]> {
+    const { conditions, params } = this.eventConditions(options, { tool_name: options.toolName });
+
+    const result = await this.pool.query(
+      `SELECT
+        tool_name,
+        SUM(count) as invocations,
+        SUM(success_count) as success_count,
+        SUM(failure_count) as failure_count,
+        AVG(execution_time) as avg_execution_time
+       FROM agent_tool_usage
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY tool_name
+       ORDER BY invocations DESC`,
+      params
+    );
+
+    return result.rows.map(row => ({
+      toolName: row.tool_name,
+      invocations: parseInt(row.invocations),
+      successCount: parseInt(row.success_count),
+      failureCount: parseInt(row.failure_count),
+      avgExecutionTime: row.avg_execution_time !== null ? parseFloat(row.avg_execution_time) : null
+    }));
+  }
+
+  async getBundleSizes(options: BundleSizeQueryOptions): Promise<BundleSizeMetric[]> {
+    const params: any[] = [options.startTime, options.endTime];
+    const conditions = ['timestamp >= $1', 'timestamp <= $2'];
+
+    if (options.name) {
+      params.push(options.name);
+      conditions.push(`name = $${params.length}`);
+    }
+    params.push(options.limit || 100);
+
+    const result = await this.pool.query(
+      `SELECT * FROM bundle_sizes WHERE ${conditions.join(' AND ')}
+       ORDER BY timestamp DESC LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map(row => this.mapBundleSizeRow(row));
+  }
+
+  /**
+   * Most recent size reported for each bundle
+   */
+  async getLatestBundleSizes(): Promise<BundleSizeMetric[]> {
+    const result = await this.pool.query(
+      `SELECT DISTINCT ON (name) * FROM bundle_sizes ORDER BY name, timestamp DESC`
+    );
+
+    return result.rows.map(row => this.mapBundleSizeRow(row));
+  }
+
+  async getAgentTasks(options: AgentTaskQueryOptions): Promise<AgentTask[]> {
+    const { conditions, params } = this.taskConditions(options);
+    params.push(options.limit || 100);
+
+    const result = await this.pool.query(
+      `SELECT * FROM agent_tasks WHERE ${conditions.join(' AND ')}
+       ORDER BY start_time DESC LIMIT $${params.length}`,
+      params
     );
 
     return result.rows.map(row => ({
+      id: row.id,
       agentType: row.agent_type,
+      agentId: row.agent_id,
+      taskType: row.task_type,
+      startTime: row.start_time,
+      endTime: row.end_time || undefined,
+      duration: row.duration !== null ? parseFloat(row.duration) : undefined,
       status: row.status,
-      lastSeen: row.last_seen,
-      avgResponseTime: parseFloat(row.avg_response_time)
+      error: row.error_message || undefined,
+      metadata: row.metadata
     }));
   }
 
-  async getDatabaseStats(): Promise<{
-    responseTime: number;
-    connections: number;
-    metricsStored: number;
-  }> {
-    const startTime = Date.now();
-    await this.pool.query('SELECT 1');
-    const responseTime = Date.now() - startTime;
+  /**
+   * Task counts, throughput and duration percentiles per agent type and
+   * task type, for tasks started within the range
+   */
+  async getAgentTaskStats(options: AgentTaskQueryOptions): Promise<AgentTaskStats[]> {
+    const { conditions, params } = this.taskConditions(options);
 
-    const [connections, metrics] = await Promise.all([
-      this.pool.query('SELECT count(*) FROM pg_stat_activity'),
-      this.pool.query(`
-        SELECT
-          (SELECT COUNT(*) FROM agent_metrics) +
-          (SELECT COUNT(*) FROM app_metrics) +
-          (SELECT COUNT(*) FROM core_web_vitals) as count
-      `)
-    ]);
+    const result = await this.pool.query(
+      `SELECT
+        agent_type,
+        task_type,
+        COUNT(*) as total,
+        COUNT(*) FILTER (WHERE status IN ('pending', 'running')) as running,
+        COUNT(*) FILTER (WHERE status = 'completed') as completed,
+        COUNT(*) FILTER (WHERE status = 'failed') as failed,
+        AVG(duration) as avg_duration,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY duration) as p50_duration,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY duration) as p90_duration,
+        percentile_cont(0.99) WITHIN GROUP (ORDER BY duration) as p99_duration
+       FROM agent_tasks
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY agent_type, task_type
+       ORDER BY total DESC`,
+      params
+    );
 
-    return {
-      responseTime,
-      connections: parseInt(connections.rows[0].count),
-      metricsStored: parseInt(metrics.rows[0].count)
-    };
+    const hours = Math.max(1, (options.endTime.getTime() - options.startTime.getTime()) / 3600000);
+    const toNumber = (value: any) => value !== null ? parseFloat(value) : null;
+
+    return result.rows.map(row => {
+      const completed = parseInt(row.completed);
+      const failed = parseInt(row.failed);
+      const finished = completed + failed;
+      return {
+        agentType: row.agent_type,
+        taskType: row.task_type,
+        total: parseInt(row.total),
+        running: parseInt(row.running),
+        completed,
+        failed,
+        successRate: finished > 0 ? (completed / finished) * 100 : null,
+        throughputPerHour: finished / hours,
+        avgDuration: toNumber(row.avg_duration),
+        p50Duration: toNumber(row.p50_duration),
+        p90Duration: toNumber(row.p90_duration),
+        p99Duration: toNumber(row.p99_duration)
+      };
+    });
   }
 
-  async getAggregatedMetrics(
-    agentType: AgentType,
-    metricType: string,
-    startTime: Date,
-    endTime: Date,
-    aggregation: string = '1h'
-  ): Promise<AggregatedMetrics> {
-    const query = `
-      SELECT
-        time_bucket($1, timestamp) as bucket,
-        AVG(response_time) as avg,
-        MIN(response_time) as min,
-        MAX(response_time) as max,
-        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY response_time) as p50,
-        PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY response_time) as p95,
-        PERCENTILE_CONT(0.99) WITHIN GROUP (ORDER BY response_time) as p99
-      FROM agent_metrics
-      WHERE agent_type = $2
-        AND timestamp >= $3
-        AND timestamp <= $4
-      GROUP BY bucket
-      ORDER BY bucket
-    `;
-
-    const result = await this.pool.query(query, [
-      aggregation,
-      agentType,
-      startTime,
-      endTime
-    ]);
+  /**
+   * Failed tasks grouped by error message, most frequent first
+   */
+  async getAgentTaskFailures(options: AgentTaskQueryOptions): Promise<AgentTaskFailureReason[]> {
+    const { conditions, params } = this.taskConditions({ ...options, status: 'failed' });
+    params.push(options.limit || 20);
 
-    return {
-      period: aggregation as any,
-      metricType: metricType as MetricType,
-      agentType,
-      startTime,
-      endTime,
-      data: {
-        timestamps: result.rows.map(r => r.bucket),
-        values: result.rows.map(r => parseFloat(r.avg)),
-        min: Math.min(...result.rows.map(r => parseFloat(r.min))),
-        max: Math.max(...result.rows.map(r => parseFloat(r.max))),
-        avg: result.rows.reduce((sum, r) => sum + parseFloat(r.avg), 0) / result.rows.length,
-        p50: parseFloat(result.rows[0]?.p50 || 0),
-        p95: parseFloat(result.rows[0]?.p95 || 0),
-        p99: parseFloat(result.rows[0]?.p99 || 0)
-      }
-    };
+    const result = await this.pool.query(
+      `SELECT
+        agent_type,
+        task_type,
+        COALESCE(error_message, '') as error,
+        COUNT(*) as count,
+        MAX(COALESCE(end_time, start_time)) as last_seen
+       FROM agent_tasks
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY agent_type, task_type, COALESCE(error_message, '')
+       ORDER BY count DESC, last_seen DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map(row => ({
+      agentType: row.agent_type,
+      taskType: row.task_type,
+      error: row.error,
+      count: parseInt(row.count),
+      lastSeen: row.last_seen
+    }));
+  }
+
+  async getTraceSpans(traceId: string): Promise<TraceSpan[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM trace_spans WHERE trace_id = $1 ORDER BY start_time`,
+      [traceId]
+    );
+
+    return result.rows.map(row => ({
+      traceId: row.trace_id,
+      spanId: row.span_id,
+      parentSpanId: row.parent_span_id || undefined,
+      name: row.name,
+      kind: row.kind,
+      agentType: row.agent_type,
+      agentId: row.agent_id,
+      startTime: row.start_time,
+      endTime: row.end_time,
+      duration: parseFloat(row.duration),
+      status: row.status,
+      error: row.error_message || undefined,
+      attributes: row.attributes
+    }));
+  }
+
+  async getAgentHandoffs(options: AgentHandoffQueryOptions): Promise<AgentHandoff[]> {
+    const { conditions, params } = this.eventConditions(options, { to_agent_type: options.toAgentType });
+    params.push(options.limit || 100);
+
+    const result = await this.pool.query(
+      `SELECT * FROM agent_handoffs WHERE ${conditions.join(' AND ')}
+       ORDER BY timestamp DESC LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      agentType: row.agent_type,
+      agentId: row.agent_id,
+      timestamp: row.timestamp,
+      toAgentType: row.to_agent_type,
+      toAgentId: row.to_agent_id || undefined,
+      duration: row.duration !== null ? parseFloat(row.duration) : undefined,
+      taskId: row.task_id || undefined,
+      traceId: row.trace_id || undefined
+    }));
+  }
+
+  private taskConditions(options: AgentTaskQueryOptions): { conditions: string[]; params: any[] } {
+    return this.eventConditions(options, { task_type: options.taskType, status: options.status }, 'start_time');
+  }
+
+  /**
+   * WHERE conditions shared by the per-agent event tables: the time range,
+   * agent filters and any extra column = value filters that are set
+   */
+  private eventConditions(
+    options: EventQueryOptions,
+    filters: Record<string, string | undefined> = {},
+    timeColumn: string = 'timestamp'
+  ): { conditions: string[]; params: any[] } {
+    const params: any[] = [options.startTime, options.endTime];
+    const conditions = [`${timeColumn} >= $1`, `${timeColumn} <= $2`];
+
+    const columns: Record<string, string | undefined> = {
+      agent_type: options.agentType,
+      agent_id: options.agentId,
+      ...filters
+    };
+    for (const [column, value] of Object.entries(columns)) {
+      if (value !== undefined) {
+        params.push(value);
+        conditions.push(`${column} = $${params.length}`);
+      }
+    }
+
+    return { conditions, params };
+  }
+
+  /**
+   * Condition matching rows whose url is the URL path in the given
+   * parameter or a page below it; every row when the parameter is null
+   */
+  private urlPathCondition(param: string): string {
+    const path = `substring(url from '^(?:[a-zA-Z][a-zA-Z0-9+.-]*://[^/?#]*)?([^?#]*)')`;
+    return `(${param}::text IS NULL OR ${param} = '/' OR ${path} = ${param} OR starts_with(${path}, ${param} || '/'))`;
+  }
+
+  /**
+   * Recent status per agent type, plus agent types with agents that have
+   * stopped reporting and been marked offline
+   */
+  async getAgentStatus(): Promise<AgentTypeStatus[]> {
+    const result = await this.pool.query(
+      `(SELECT
+        agent_type,
+        status,
+        MAX(timestamp) as last_seen,
+        AVG(response_time) as avg_response_time
+       FROM agent_metrics
+       WHERE timestamp > NOW() - INTERVAL '5 minutes'
+       GROUP BY agent_type, status)
+       UNION ALL
+       (SELECT agent_type, status, MAX(last_seen) as last_seen, NULL as avg_response_time
+       FROM agent_heartbeats
+       WHERE status = $1
+       GROUP BY agent_type, status)
+       ORDER BY agent_type`,
+      [AgentStatus.OFFLINE]
+    );
+
+    return result.rows.map(row => ({
+      agentType: row.agent_type,
+      status: row.status,
+      lastSeen: row.last_seen,
+      avgResponseTime: row.avg_response_time === null ? 0 : parseFloat(row.avg_response_time)
+    }));
+  }
+
+  /**
+   * Record that an agent reported. The status only changes when the report
+   * is newer than the agent's last_seen. Returns the status before and after.
+   */
+  async recordHeartbeat(heartbeat: HeartbeatReport, defaultIntervalSeconds: number): Promise<HeartbeatResult> {
+    const result = await this.pool.query(
+      `WITH previous AS (
+        SELECT status FROM agent_heartbeats WHERE agent_id = $1
+      )
+      INSERT INTO agent_heartbeats (agent_id, agent_type, status, last_seen, expected_interval_seconds)
+      VALUES ($1, $2, $3, $4, COALESCE($5, $6))
+      ON CONFLICT (agent_id) DO UPDATE SET
+        agent_type = EXCLUDED.agent_type,
+        status = CASE WHEN EXCLUDED.last_seen > agent_heartbeats.last_seen
+          THEN EXCLUDED.status ELSE agent_heartbeats.status END,
+        last_seen = GREATEST(agent_heartbeats.last_seen, EXCLUDED.last_seen),
+        expected_interval_seconds = COALESCE($5, agent_heartbeats.expected_interval_seconds),
+        updated_at = NOW()
+      RETURNING status, (SELECT status FROM previous) as previous_status`,
+      [
+        heartbeat.agentId,
+        heartbeat.agentType,
+        heartbeat.status,
+        heartbeat.lastSeen,
+        heartbeat.expectedIntervalSeconds ?? null,
+        defaultIntervalSeconds
+      ]
+    );
+
+    return { previousStatus: result.rows[0].previous_status ?? null, status: result.rows[0].status };
+  }
+
+  /**
+   * Mark agents offline that have missed `missedIntervals` of their expected
+   * reports. Only rows that actually change are returned, so concurrent
+   * collectors report each transition once.
+   */
+  async markOverdueAgentsOffline(now: Date, missedIntervals: number): Promise<AgentStatusChange[]> {
+    const result = await this.pool.query(
+      `UPDATE agent_heartbeats h SET status = $1, updated_at = NOW()
+      FROM (
+        SELECT agent_id, status as previous_status FROM agent_heartbeats
+        WHERE status <> $1
+          AND last_seen < $2::timestamptz - make_interval(secs => expected_interval_seconds * $3)
+        FOR UPDATE SKIP LOCKED
+      ) overdue
+      WHERE h.agent_id = overdue.agent_id
+      RETURNING h.agent_id, h.agent_type, h.last_seen, overdue.previous_status`,
+      [AgentStatus.OFFLINE, now, missedIntervals]
+    );
+
+    return result.rows.map(row => ({
+      agentId: row.agent_id,
+      agentType: row.agent_type,
+      previousStatus: row.previous_status,
+      status: AgentStatus.OFFLINE,
+      lastSeen: row.last_seen
+    }));
+  }
+
+  async getAgentHeartbeats(): Promise<AgentHeartbeat[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM agent_heartbeats ORDER BY agent_type, agent_id`
+    );
+
+    return result.rows.map(row => ({
+      agentId: row.agent_id,
+      agentType: row.agent_type,
+      status: row.status,
+      lastSeen: row.last_seen,
+      expectedIntervalSeconds: row.expected_interval_seconds
+    }));
+  }
+
+  async getDatabaseStats(): Promise<DatabaseStats> {
+    const startTime = Date.now();
+    await this.pool.query('SELECT 1');
+    const responseTime = Date.now() - startTime;
+
+    const [connections, metrics] = await Promise.all([
+      this.pool.query('SELECT count(*) FROM pg_stat_activity'),
+      this.pool.query(`
+        SELECT
+          (SELECT COUNT(*) FROM agent_metrics) +
+          (SELECT COUNT(*) FROM app_metrics) +
+          (SELECT COUNT(*) FROM core_web_vitals) as count
+      `)
+    ]);
+
+    return {
+      responseTime,
+      connections: parseInt(connections.rows[0].count),
+      metricsStored: parseInt(metrics.rows[0].count)
+    };
+  }
+
+  /**
+   * Per-bucket statistics of a column, with a bucket for every period in
+   * the range whether or not it has samples, and the same statistics over
+   * the whole range
+   */
+  async getAggregatedMetrics(query: AggregatedMetricsQuery): Promise<Pick<AggregatedMetrics, 'data' | 'summary'>> {
+    const timeColumn = query.rollup ? 'bucket' : 'timestamp';
+    const valueColumn = query.rollup ? `${query.column}_avg` : query.column;
+    const params: any[] = [query.startTime, query.endTime];
+    const conditions = [`${timeColumn} >= $1`, `${timeColumn} < $2`, `${valueColumn} IS NOT NULL`];
+    for (const filter of query.filters) {
+      params.push(filter.value);
+      conditions.push(`${filter.column} = $${params.length}`);
+    }
+    const where = conditions.join(' AND ');
+    const period = `$${params.length + 1}::interval`;
+    const statistics = query.rollup
+      ? `SUM(${query.column}_count) as count,
+        MIN(${query.column}_min) as min,
+        MAX(${query.column}_max) as max,
+        SUM(${query.column}_avg * ${query.column}_count) / NULLIF(SUM(${query.column}_count), 0) as avg,
+        NULL as p50,
+        NULL as p95,
+        NULL as p99`
+      : `COUNT(${query.column}) as count,
+        MIN(${query.column}) as min,
+        MAX(${query.column}) as max,
+        AVG(${query.column}) as avg,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY ${query.column}) as p50,
+        percentile_cont(0.95) WITHIN GROUP (ORDER BY ${query.column}) as p95,
+        percentile_cont(0.99) WITHIN GROUP (ORDER BY ${query.column}) as p99`;
+
+    const [buckets, overall] = await Promise.all([
+      this.pool.query(
+        `WITH buckets AS (
+          SELECT bucket FROM generate_series(time_bucket(${period}, $1::timestamptz), $2::timestamptz, ${period}) bucket
+          WHERE bucket < $2
+        ), stats AS (
+          SELECT time_bucket(${period}, ${timeColumn}) as bucket, ${statistics}
+          FROM ${query.table}
+          WHERE ${where}
+          GROUP BY 1
+        )
+        SELECT * FROM buckets LEFT JOIN stats USING (bucket)
+        ORDER BY bucket`,
+        [...params, `${query.step} seconds`]
+      ),
+      this.pool.query(`SELECT ${statistics} FROM ${query.table} WHERE ${where}`, params)
+    ]);
+
+    const number = (value: any) => value === null || value === undefined ? null : parseFloat(value);
+    const column = (key: string) => buckets.rows.map(row => number(row[key]));
+    const totals = overall.rows[0];
+
+    return {
+      data: {
+        timestamps: buckets.rows.map(row => row.bucket),
+        count: buckets.rows.map(row => parseInt(row.count) || 0),
+        min: column('min'),
+        max: column('max'),
+        avg: column('avg'),
+        p50: column('p50'),
+        p95: column('p95'),
+        p99: column('p99')
+      },
+      summary: {
+        count: parseInt(totals.count) || 0,
+        min: number(totals.min),
+        max: number(totals.max),
+        avg: number(totals.avg),
+        p50: number(totals.p50),
+        p95: number(totals.p95),
+        p99: number(totals.p99)
+      }
+    };
+  }
+
+  /**
+   * Aggregate a catalogued metric over a time window.
+   * Returns null when the window holds no samples (except for count).
+   */
+  async aggregateMetricWindow(
+    metric: string,
+    labels: Record<string, string>,
+    startTime: Date,
+    endTime: Date,
+    aggregation: WindowAggregation
+  ): Promise<number | null> {
+    const definition = getMetricDefinition(metric);
+    if (!definition) {
+      throw new Error(`Unknown metric: ${metric}`);
+    }
+
+    const params: any[] = [startTime, endTime];
+    const conditions = ['timestamp >= $1', 'timestamp <= $2', `${definition.column} IS NOT NULL`];
+
+    for (const [label, value] of Object.entries(labels)) {
+      const column = definition.labels[label];
+      if (!column) {
+        throw new Error(`Unknown label "${label}" for metric ${metric}`);
+      }
+      conditions.push(`${column} = $${params.length + 1}`);
+      params.push(value);
+    }
+
+    const where = conditions.join(' AND ');
+    let query: string;
+    if (aggregation === 'first' || aggregation === 'last') {
+      query = `SELECT ${definition.column} as value FROM ${definition.table}
+        WHERE ${where}
+        ORDER BY timestamp ${aggregation === 'first' ? 'ASC' : 'DESC'} LIMIT 1`;
+    } else {
+      query = `SELECT ${aggregation.toUpperCase()}(${definition.column}) as value FROM ${definition.table}
+        WHERE ${where}`;
+    }
+
+    const result = await this.pool.query(query, params);
+    const value = result.rows[0]?.value;
+    return value === undefined || value === null ? null : parseFloat(value);
+  }
+
+  /**
+   * Most recent value of a catalog metric for each distinct combination of
+   * seriesLabels seen since the given time
+   */
+  async getLatestSeriesValues(metric: string, seriesLabels: string[], since: Date): Promise<SeriesValue[]> {
+    const definition = getMetricDefinition(metric);
+    if (!definition) {
+      throw new Error(`Unknown metric: ${metric}`);
+    }
+
+    const columns = seriesLabels.map(label => {
+      const column = definition.labels[label];
+      if (!column) {
+        throw new Error(`Unknown label "${label}" for metric ${metric}`);
+      }
+      return column;
+    });
+
+    const where = `timestamp >= $1 AND ${definition.column} IS NOT NULL`;
+    const query = columns.length > 0
+      ? `SELECT DISTINCT ON (${columns.join(', ')}) ${columns.join(', ')}, ${definition.column} as value, timestamp
+        FROM ${definition.table}
+        WHERE ${where}
+        ORDER BY ${columns.join(', ')}, timestamp DESC`
+      : `SELECT ${definition.column} as value, timestamp FROM ${definition.table}
+        WHERE ${where}
+        ORDER BY timestamp DESC LIMIT 1`;
+
+    const result = await this.pool.query(query, [since]);
+    return result.rows.map(row => ({
+      labels: Object.fromEntries(seriesLabels.map((label, i) => [label, row[columns[i]]])),
+      value: parseFloat(row.value),
+      timestamp: row.timestamp
+    }));
+  }
+
+  async tryAcquireLock(key: number): Promise<LeaderLock | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query('SELECT pg_try_advisory_lock($1) as locked', [key]);
+      if (result.rows[0].locked) {
+        return new AdvisoryLock(client, key);
+      }
+    } catch (error) {
+      client.release(true);
+      throw error;
+    }
+
+    client.release();
+    return null;
+  }
+
+  async getAlertRules(options: AlertRuleQueryOptions = {}): Promise<AlertRule[]> {
+    const params: any[] = [];
+    const conditions: string[] = [];
+
+    if (options.enabled !== undefined) {
+      conditions.push('enabled = $' + (params.length + 1));
+      params.push(options.enabled);
+    }
+
+    if (options.metricType) {
+      conditions.push('metric_type = $' + (params.length + 1));
+      params.push(options.metricType);
+    }
+
+    let query = 'SELECT * FROM alert_rules';
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
+    }
+    query += ' ORDER BY created_at';
+
+    const result = await this.pool.query(query, params);
+    return result.rows.map(row => this.mapAlertRuleRow(row));
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM alert_rules WHERE id = $1`,
+      [id]
+    );
+
+    return result.rows.length > 0 ? this.mapAlertRuleRow(result.rows[0]) : null;
+  }
+
+  async createAlertRule(rule: AlertRule): Promise<AlertRule> {
+    const result = await this.pool.query(
+      `INSERT INTO alert_rules (
+        id, name, enabled, metric_type, agent_type, condition, expression, threshold,
+        duration, repeat_interval, severity, notification_channels, metadata
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      RETURNING *`,
+      [
+        rule.id,
+        rule.name,
+        rule.enabled,
+        rule.metricType,
+        rule.agentType || null,
+        rule.condition,
+        rule.expression || null,
+        rule.threshold,
+        rule.duration,
+        rule.repeatInterval ?? null,
+        rule.severity,
+        JSON.stringify(rule.notificationChannels),
+        JSON.stringify(rule.metadata || {})
+      ]
+    );
+
+    return this.mapAlertRuleRow(result.rows[0]);
+  }
+
+  async updateAlertRule(rule: AlertRule): Promise<AlertRule | null> {
+    const result = await this.pool.query(
+      `UPDATE alert_rules SET
+        name = $2, enabled = $3, metric_type = $4, agent_type = $5, condition = $6,
+        expression = $7, threshold = $8, duration = $9, repeat_interval = $10, severity = $11,
+        notification_channels = $12, metadata = $13, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *`,
+      [
+        rule.id,
+        rule.name,
+        rule.enabled,
+        rule.metricType,
+        rule.agentType || null,
+        rule.condition,
+        rule.expression || null,
+        rule.threshold,
+        rule.duration,
+        rule.repeatInterval ?? null,
+        rule.severity,
+        JSON.stringify(rule.notificationChannels),
+        JSON.stringify(rule.metadata || {})
+      ]
+    );
+
+    return result.rows.length > 0 ? this.mapAlertRuleRow(result.rows[0]) : null;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `DELETE FROM alert_rules WHERE id = $1`,
+      [id]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM notification_channels ORDER BY created_at`
+    );
+
+    return result.rows.map(row => this.mapNotificationChannelRow(row));
+  }
+
+  async getNotificationChannel(id: string): Promise<NotificationChannel | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM notification_channels WHERE id = $1`,
+      [id]
+    );
+
+    return result.rows.length > 0 ? this.mapNotificationChannelRow(result.rows[0]) : null;
+  }
+
+  async createNotificationChannel(channel: NotificationChannel): Promise<NotificationChannel> {
+    const result = await this.pool.query(
+      `INSERT INTO notification_channels (id, name, type, enabled, config, severities, send_resolved)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        channel.id,
+        channel.name,
+        channel.type,
+        channel.enabled,
+        JSON.stringify(channel.config),
+        channel.severities ? JSON.stringify(channel.severities) : null,
+        channel.sendResolved ?? false
+      ]
+    );
+
+    return this.mapNotificationChannelRow(result.rows[0]);
+  }
+
+  async updateNotificationChannel(channel: NotificationChannel): Promise<NotificationChannel | null> {
+    const result = await this.pool.query(
+      `UPDATE notification_channels SET
+        name = $2, type = $3, enabled = $4, config = $5, severities = $6,
+        send_resolved = $7, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *`,
+      [
+        channel.id,
+        channel.name,
+        channel.type,
+        channel.enabled,
+        JSON.stringify(channel.config),
+        channel.severities ? JSON.stringify(channel.severities) : null,
+        channel.sendResolved ?? false
+      ]
+    );
+
+    return result.rows.length > 0 ? this.mapNotificationChannelRow(result.rows[0]) : null;
+  }
+
+  async deleteNotificationChannel(id: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `DELETE FROM notification_channels WHERE id = $1`,
+      [id]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getSilences(options: { activeAt?: Date; activeUntil?: Date } = {}): Promise<Silence[]> {
+    const result = options.activeAt
+      ? await this.pool.query(
+          `SELECT * FROM alert_silences WHERE starts_at <= $2 AND ends_at > $1 ORDER BY ends_at`,
+          [options.activeAt, options.activeUntil ?? options.activeAt]
+        )
+      : await this.pool.query(`SELECT * FROM alert_silences ORDER BY created_at DESC`);
+
+    return result.rows.map(row => this.mapSilenceRow(row));
+  }
+
+  async createSilence(silence: Silence): Promise<Silence> {
+    const result = await this.pool.query(
+      `INSERT INTO alert_silences (id, matchers, starts_at, ends_at, created_by, comment)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        silence.id,
+        JSON.stringify(silence.matchers),
+        silence.startsAt,
+        silence.endsAt,
+        silence.createdBy,
+        silence.comment
+      ]
+    );
+
+    return this.mapSilenceRow(result.rows[0]);
+  }
+
+  /**
+   * End a silence now; silences are kept for the audit trail
+   */
+  async expireSilence(id: string): Promise<Silence | null> {
+    const result = await this.pool.query(
+      `UPDATE alert_silences SET ends_at = LEAST(ends_at, NOW()) WHERE id = $1 RETURNING *`,
+      [id]
+    );
+
+    return result.rows.length > 0 ? this.mapSilenceRow(result.rows[0]) : null;
+  }
+
+  async getMaintenanceWindows(): Promise<MaintenanceWindow[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM maintenance_windows ORDER BY created_at`
+    );
+
+    return result.rows.map(row => this.mapMaintenanceWindowRow(row));
+  }
+
+  async getMaintenanceWindow(id: string): Promise<MaintenanceWindow | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM maintenance_windows WHERE id = $1`,
+      [id]
+    );
+
+    return result.rows.length > 0 ? this.mapMaintenanceWindowRow(result.rows[0]) : null;
+  }
+
+  async createMaintenanceWindow(window: MaintenanceWindow): Promise<MaintenanceWindow> {
+    const result = await this.pool.query(
+      `INSERT INTO maintenance_windows (
+        id, name, enabled, matchers, days_of_week, start_time, duration_minutes, created_by, comment
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        window.id,
+        window.name,
+        window.enabled,
+        JSON.stringify(window.matchers),
+        JSON.stringify(window.daysOfWeek),
+        window.startTime,
+        window.durationMinutes,
+        window.createdBy,
+        window.comment || null
+      ]
+    );
+
+    return this.mapMaintenanceWindowRow(result.rows[0]);
+  }
+
+  async updateMaintenanceWindow(window: MaintenanceWindow): Promise<MaintenanceWindow | null> {
+    const result = await this.pool.query(
+      `UPDATE maintenance_windows SET
+        name = $2, enabled = $3, matchers = $4, days_of_week = $5, start_time = $6,
+        duration_minutes = $7, comment = $8, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *`,
+      [
+        window.id,
+        window.name,
+        window.enabled,
+        JSON.stringify(window.matchers),
+        JSON.stringify(window.daysOfWeek),
+        window.startTime,
+        window.durationMinutes,
+        window.comment || null
+      ]
+    );
+
+    return result.rows.length > 0 ? this.mapMaintenanceWindowRow(result.rows[0]) : null;
+  }
+
+  async deleteMaintenanceWindow(id: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `DELETE FROM maintenance_windows WHERE id = $1`,
+      [id]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getRetentionPolicies(): Promise<RetentionPolicy[]> {
+    const result = await this.pool.query(
+      'SELECT table_name, tier, retention_days, updated_at FROM retention_policies ORDER BY table_name'
+    );
+
+    const policies = new Map<string, RetentionPolicy>();
+    for (const row of result.rows) {
+      const policy: RetentionPolicy = policies.get(row.table_name) ?? { table: row.table_name, retentionDays: {}, updatedAt: row.updated_at };
+      policy.retentionDays[row.tier as StorageTier] = row.retention_days;
+      if (row.updated_at > policy.updatedAt!) policy.updatedAt = row.updated_at;
+      policies.set(row.table_name, policy);
+    }
+    return [...policies.values()];
+  }
+
+  /**
+   * Retention jobs are changed by the migrator, which holds the migration
+   * lock so a deploy running migrations cannot interleave
+   */
+  async applyRetentionPolicies(policies: RetentionPolicy[], options: { dryRun?: boolean } = {}): Promise<string[]> {
+    const migrator = new DatabaseMigrator({ dryRun: options.dryRun });
+    try {
+      return await migrator.applyRetentionPolicies(policies);
+    } finally {
+      await migrator.close();
+    }
+  }
+
+  async getApiKeys(): Promise<ApiKey[]> {
+    const result = await this.pool.query(`SELECT * FROM api_keys ORDER BY created_at`);
+    return result.rows.map(row => this.mapApiKeyRow(row));
+  }
+
+  /**
+   * The unrevoked, unexpired key with this hash, if any
+   */
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM api_keys
+       WHERE key_hash = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())`,
+      [keyHash]
+    );
+
+    return result.rows.length > 0 ? this.mapApiKeyRow(result.rows[0]) : null;
+  }
+
+  async createApiKey(apiKey: ApiKey, keyHash: string): Promise<ApiKey> {
+    const result = await this.pool.query(
+      `INSERT INTO api_keys (id, name, role, scope, agent_types, key_hash, key_prefix, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        apiKey.id,
+        apiKey.name,
+        apiKey.role,
+        apiKey.scope || null,
+        JSON.stringify(apiKey.agentTypes || []),
+        keyHash,
+        apiKey.keyPrefix,
+        apiKey.expiresAt || null
+      ]
+    );
+
+    return this.mapApiKeyRow(result.rows[0]);
+  }
+
+  /**
+   * Revoked keys are kept so their last use stays visible
+   */
+  async revokeApiKey(id: string): Promise<ApiKey | null> {
+    const result = await this.pool.query(
+      `UPDATE api_keys SET revoked_at = COALESCE(revoked_at, NOW()) WHERE id = $1 RETURNING *`,
+      [id]
+    );
+
+    return result.rows.length > 0 ? this.mapApiKeyRow(result.rows[0]) : null;
+  }
+
+  async touchApiKey(id: string, usedAt: Date): Promise<void> {
+    await this.pool.query(`UPDATE api_keys SET last_used_at = $2 WHERE id = $1`, [id, usedAt]);
+  }
+
+  async storeAlert(alert: Alert): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO alerts (
+        id, type, severity, title, message, timestamp, agent_type, metric_type,
+        rule_id, fingerprint, current_value, threshold, metadata, acknowledged, resolved
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+      [
+        alert.id,
+        alert.type,
+        alert.severity,
+        alert.title,
+        alert.message,
+        alert.timestamp,
+        alert.agentType || null,
+        alert.metricType,
+        alert.ruleId || null,
+        alert.fingerprint || null,
+        alert.currentValue,
+        alert.threshold,
+        JSON.stringify(alert.metadata || {}),
+        alert.acknowledged,
+        alert.resolved
+      ]
+    );
+  }
+
+  async updateAlert(alert: Alert): Promise<void> {
+    await this.pool.query(
+      `UPDATE alerts SET
+        current_value = $2, metadata = $3,
+        acknowledged = $4, acknowledged_by = $5, acknowledged_at = $6,
+        resolved = $7, resolved_at = $8, resolved_by = $9
+      WHERE id = $1`,
+      [
+        alert.id,
+        alert.currentValue,
+        JSON.stringify(alert.metadata || {}),
+        alert.acknowledged,
+        alert.acknowledgedBy || null,
+        alert.acknowledgedAt || null,
+        alert.resolved,
+        alert.resolvedAt || null,
+        alert.resolvedBy || null
+      ]
+    );
+  }
+
+  async updateAlertValue(id: string, currentValue: number, metadata: Record<string, any>): Promise<void> {
+    await this.pool.query(
+      `UPDATE alerts SET current_value = $2, metadata = $3 WHERE id = $1`,
+      [id, currentValue, JSON.stringify(metadata)]
+    );
+  }
+
+  async getAlert(id: string): Promise<Alert | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM alerts WHERE id = $1`,
+      [id]
+    );
+
+    return result.rows.length > 0 ? this.mapAlertRow(result.rows[0]) : null;
+  }
+
+  async getActiveAlerts(): Promise<Alert[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM alerts WHERE resolved = FALSE ORDER BY timestamp DESC`
+    );
+
+    return result.rows.map(row => this.mapAlertRow(row));
+  }
+
+  /**
+   * Number of unresolved alerts per severity
+   */
+  async getActiveAlertCounts(): Promise<Array<{ severity: AlertSeverity; count: number }>> {
+    const result = await this.pool.query(
+      `SELECT severity, COUNT(*) as count FROM alerts WHERE resolved = FALSE GROUP BY severity`
+    );
+
+    return result.rows.map(row => ({
+      severity: row.severity,
+      count: parseInt(row.count)
+    }));
+  }
+
+  async getAlertHistory(options: AlertHistoryQueryOptions): Promise<Alert[]> {
+    const params: any[] = [options.startTime, options.endTime];
+    const conditions = ['timestamp >= $1', 'timestamp <= $2'];
+
+    if (options.ruleId) {
+      params.push(options.ruleId);
+      conditions.push(`rule_id = $${params.length}`);
+    }
+    if (options.severity) {
+      params.push(options.severity);
+      conditions.push(`severity = $${params.length}`);
+    }
+    if (options.agentType) {
+      params.push(options.agentType);
+      conditions.push(`agent_type = $${params.length}`);
+    }
+    params.push(options.limit || 100);
+
+    const result = await this.pool.query(
+      `SELECT * FROM alerts WHERE ${conditions.join(' AND ')}
+       ORDER BY timestamp DESC LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map(row => this.mapAlertRow(row));
+  }
+
+  /**
+   * Alert counts per time bucket, split by rule, severity or agent type
+   */
+  async getAlertCounts(
+    startTime: Date,
+    endTime: Date,
+    groupBy: AlertAnalyticsGroupBy,
+    interval: string = '1h'
+  ): Promise<AlertCountBucket[]> {
+    const keyColumn = { rule: 'rule_id', severity: 'severity', agent: 'agent_type' }[groupBy];
+
+    const result = await this.pool.query(
+      `SELECT time_bucket($1::interval, timestamp) as bucket, COALESCE(${keyColumn}, 'none') as key, COUNT(*) as count
+       FROM alerts
+       WHERE timestamp >= $2 AND timestamp <= $3
+       GROUP BY bucket, key
+       ORDER BY bucket, key`,
+      [interval, startTime, endTime]
+    );
+
+    return result.rows.map(row => ({
+      bucket: row.bucket,
+      key: row.key,
+      count: parseInt(row.count)
+    }));
+  }
+
+  /**
+   * Acknowledgement and resolution stats per group. Alerts resolved
+   * automatically count towards MTTR but are also reported separately.
+   */
+  async getAlertResponseStats(
+    startTime: Date,
+    endTime: Date,
+    groupBy?: AlertAnalyticsGroupBy
+  ): Promise<AlertResponseGroupStats[]> {
+    const keyColumn = groupBy ? { rule: 'rule_id', severity: 'severity', agent: 'agent_type' }[groupBy] : 'NULL';
+
+    const result = await this.pool.query(
+      `SELECT
+        ${keyColumn} as key,
+        MAX(title) as title,
+        COUNT(*) as total,
+        COUNT(*) FILTER (WHERE acknowledged) as acknowledged,
+        COUNT(*) FILTER (WHERE resolved) as resolved,
+        COUNT(*) FILTER (WHERE resolved AND resolved_by = 'auto') as auto_resolved,
+        AVG(EXTRACT(EPOCH FROM acknowledged_at - timestamp)) FILTER (WHERE acknowledged_at IS NOT NULL) as mtta,
+        AVG(EXTRACT(EPOCH FROM resolved_at - timestamp)) FILTER (WHERE resolved_at IS NOT NULL) as mttr
+       FROM alerts
+       WHERE timestamp >= $1 AND timestamp <= $2
+       GROUP BY 1
+       ORDER BY total DESC`,
+      [startTime, endTime]
+    );
+
+    return result.rows.map(row => ({
+      key: row.key,
+      title: row.title,
+      total: parseInt(row.total),
+      acknowledged: parseInt(row.acknowledged),
+      resolved: parseInt(row.resolved),
+      autoResolved: parseInt(row.auto_resolved),
+      mttaSeconds: row.mtta === null ? null : parseFloat(row.mtta),
+      mttrSeconds: row.mttr === null ? null : parseFloat(row.mttr)
+    }));
+  }
+
+  /**
+   * Number of resolved alerts per fingerprint, i.e. completed fire/resolve cycles
+   */
+  async getAlertCycles(startTime: Date, endTime: Date): Promise<AlertCycleCount[]> {
+    const result = await this.pool.query(
+      `SELECT fingerprint, MAX(rule_id) as rule_id, MAX(title) as title, COUNT(*) as cycles
+       FROM alerts
+       WHERE timestamp >= $1 AND timestamp <= $2 AND resolved AND fingerprint IS NOT NULL
+       GROUP BY fingerprint
+       ORDER BY cycles DESC`,
+      [startTime, endTime]
+    );
+
+    return result.rows.map(row => ({
+      fingerprint: row.fingerprint,
+      ruleId: row.rule_id,
+      title: row.title,
+      cycles: parseInt(row.cycles)
+    }));
+  }
+
+  private mapAlertRuleRow(row: any): AlertRule {
+    return {
+      id: row.id,
+      name: row.name,
+      enabled: row.enabled,
+      metricType: row.metric_type,
+      agentType: row.agent_type || undefined,
+      condition: row.condition,
+      expression: row.expression || undefined,
+      threshold: parseFloat(row.threshold),
+      duration: row.duration,
+      repeatInterval: row.repeat_interval ?? undefined,
+      severity: row.severity,
+      notificationChannels: row.notification_channels || [],
+      metadata: row.metadata || {},
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapNotificationChannelRow(row: any): NotificationChannel {
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      enabled: row.enabled,
+      config: row.config || {},
+      severities: row.severities || undefined,
+      sendResolved: row.send_resolved,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapSilenceRow(row: any): Silence {
+    return {
+      id: row.id,
+      matchers: row.matchers || {},
+      startsAt: row.starts_at,
+      endsAt: row.ends_at,
+      createdBy: row.created_by,
+      comment: row.comment,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapMaintenanceWindowRow(row: any): MaintenanceWindow {
+    return {
+      id: row.id,
+      name: row.name,
+      enabled: row.enabled,
+      matchers: row.matchers || {},
+      daysOfWeek: row.days_of_week,
+      startTime: row.start_time,
+      durationMinutes: row.duration_minutes,
+      createdBy: row.created_by,
+      comment: row.comment || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapApiKeyRow(row: any): ApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      role: row.role,
+      scope: row.scope || undefined,
+      agentTypes: row.agent_types || [],
+      keyPrefix: row.key_prefix,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at || undefined,
+      lastUsedAt: row.last_used_at || undefined,
+      revokedAt: row.revoked_at || undefined
+    };
+  }
+
+  private mapBundleSizeRow(row: any): BundleSizeMetric {
+    return {
+      name: row.name,
+      size: parseInt(row.size),
+      gzippedSize: parseInt(row.gzipped_size),
+      timestamp: row.timestamp
+    };
+  }
+
+  private mapAlertRow(row: any): Alert {
+    return {
+      id: row.id,
+      type: row.type,
+      severity: row.severity,
+      title: row.title,
+      message: row.message,
+      timestamp: row.timestamp,
+      agentType: row.agent_type || undefined,
+      metricType: row.metric_type,
+      ruleId: row.rule_id || undefined,
+      fingerprint: row.fingerprint || undefined,
+      currentValue: parseFloat(row.current_value),
+      threshold: parseFloat(row.threshold),
+      metadata: row.metadata || {},
+      acknowledged: row.acknowledged,
+      acknowledgedBy: row.acknowledged_by || undefined,
+      acknowledgedAt: row.acknowledged_at || undefined,
+      resolved: row.resolved,
+      resolvedAt: row.resolved_at || undefined,
+      resolvedBy: row.resolved_by || undefined
+    };
+  }
+
+  async publishAlertEvent(event: AlertEvent): Promise<void> {
+    await this.pool.query('SELECT pg_notify($1, $2)', [ALERT_EVENTS_CHANNEL, JSON.stringify(event)]);
+  }
+
+  async subscribeAlertEvents(handler: AlertEventHandler): Promise<() => Promise<void>> {
+    const listener = new AlertEventListener(this.pool, handler);
+    await listener.start();
+    return () => listener.stop();
   }
 
   async close(): Promise<void> {
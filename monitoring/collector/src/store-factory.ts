@@ -0,0 +1,23 @@
+/**
+ * Store Selection
+ * METRICS_STORE picks the MetricsStore the collector and alerting service
+ * use: postgres (TimescaleDB, the default), sqlite or memory.
+ */
+
+import { InMemoryMetricsStore } from './memory-store';
+import { SqliteMetricsStore } from './sqlite-store';
+import { MetricsStorage } from './storage';
+import { MetricsStore } from './store';
+
+export function createMetricsStore(type: string = process.env.METRICS_STORE || 'postgres'): MetricsStore {
+  switch (type) {
+    case 'postgres':
+      return new MetricsStorage();
+    case 'sqlite':
+      return new SqliteMetricsStore();
+    case 'memory':
+      return new InMemoryMetricsStore();
+    default:
+      throw new Error(`Unknown METRICS_STORE "${type}", expected postgres, sqlite or memory`);
+  }
+}
@@ -0,0 +1,457 @@
+/**
+ * Metrics Store
+ * The storage interface the collector and alerting service are written
+ * against. MetricsStorage keeps everything in TimescaleDB;
+ * InMemoryMetricsStore and SqliteMetricsStore stand in for it in tests and
+ * local runs. createMetricsStore picks one from METRICS_STORE.
+ */
+
+import {
+  AgentMetrics,
+  AppMetrics,
+  CoreWebVitalsData,
+  AgentStatus,
+  MetricType,
+  AgentType,
+  AggregatedMetrics,
+  MetricQueryAggregation,
+  MetricSeries,
+  Alert,
+  AlertSeverity,
+  AlertRule,
+  NotificationChannel,
+  Silence,
+  MaintenanceWindow,
+  AgentHeartbeat,
+  AgentStatusChange,
+  AlertAnalyticsGroupBy,
+  AlertCountBucket,
+  AlertResponseStats,
+  Context7Query,
+  Context7LibraryStats,
+  ToolUsageEvent,
+  ToolUsageStats,
+  TraceSpan,
+  BundleSizeMetric,
+  AgentHandoff,
+  AgentTask,
+  AgentTaskStats,
+  AgentTaskFailureReason,
+  ApiKey,
+  RetentionPolicy
+} from '@types/monitoring';
+
+/**
+ * A metric series query resolved to the table (or continuous aggregate)
+ * and columns it reads; see MetricQueryEngine
+ */
+export interface MetricSeriesQuery {
+  table: string;
+  timeColumn: string;
+  column: string;
+  weightColumn?: string; // samples behind each row of a continuous aggregate
+  filters: Array<{ column: string; value: string }>;
+  groupBy: Array<{ label: string; column: string }>;
+  startTime: Date;
+  endTime: Date;
+  step: number; // seconds
+  aggregation: MetricQueryAggregation;
+  limit: number; // series per page
+  after?: string[]; // label values of the last series on the previous page
+}
+
+/**
+ * A catalogued metric resolved to its table and columns; see
+ * MetricQueryEngine.aggregate
+ */
+export interface AggregatedMetricsQuery {
+  table: string;
+  column: string;
+  // table is a rollup read through <column>_avg, _min, _max and _count,
+  // which has no percentiles
+  rollup?: boolean;
+  filters: Array<{ column: string; value: string }>;
+  startTime: Date;
+  endTime: Date;
+  step: number; // seconds
+}
+
+export type WindowAggregation = 'avg' | 'min' | 'max' | 'sum' | 'count' | 'first' | 'last';
+
+export interface SeriesValue {
+  labels: Record<string, string>;
+  value: number;
+  timestamp: Date;
+}
+
+export interface AlertHistoryQueryOptions {
+  startTime: Date;
+  endTime: Date;
+  ruleId?: string;
+  severity?: string;
+  agentType?: AgentType;
+  limit?: number;
+}
+
+export interface EventQueryOptions {
+  startTime: Date;
+  endTime: Date;
+  agentType?: AgentType;
+  agentId?: string;
+  limit?: number;
+}
+
+export interface Context7QueryOptions extends EventQueryOptions {
+  library?: string;
+}
+
+export interface ToolUsageQueryOptions extends EventQueryOptions {
+  toolName?: string;
+}
+
+export interface AgentTaskQueryOptions extends EventQueryOptions {
+  taskType?: string;
+  status?: AgentTask['status'];
+}
+
+export interface AgentHandoffQueryOptions extends EventQueryOptions {
+  toAgentType?: AgentType;
+}
+
+export interface BundleSizeQueryOptions {
+  startTime: Date;
+  endTime: Date;
+  name?: string;
+  limit?: number;
+}
+
+export interface AlertRuleQueryOptions {
+  enabled?: boolean;
+  metricType?: MetricType;
+}
+
+export interface LatestAgentMetrics {
+  agentType: AgentType;
+  agentId: string;
+  timestamp: Date;
+  responseTime: number;
+  taskCompletionRate: number;
+  errorRate: number;
+  activeTasks: number;
+}
+
+export interface AgentTypeStatus {
+  agentType: AgentType;
+  status: AgentStatus;
+  lastSeen: Date;
+  avgResponseTime: number;
+}
+
+export type HeartbeatReport = Omit<AgentHeartbeat, 'expectedIntervalSeconds'> & { expectedIntervalSeconds?: number };
+
+export interface HeartbeatResult {
+  // null for an agent seen for the first time
+  previousStatus: AgentStatus | null;
+  status: AgentStatus;
+}
+
+export interface DatabaseStats {
+  responseTime: number;
+  connections: number;
+  metricsStored: number;
+}
+
+export type AlertResponseGroupStats = AlertResponseStats & { key: string | null; title: string; autoResolved: number };
+
+export interface AlertCycleCount {
+  fingerprint: string;
+  ruleId: string | null;
+  title: string;
+  cycles: number;
+}
+
+/**
+ * A held leader lock. Postgres advisory locks live as long as their
+ * connection, so holders check the lock before relying on it.
+ */
+export interface LeaderLock {
+  /**
+   * Whether the lock is still held. A lock that has been lost is released
+   * and cannot be used again.
+   */
+  check(): Promise<boolean>;
+  release(): Promise<void>;
+}
+
+/**
+ * An alert lifecycle change made by one process, relayed to the others
+ * sharing the store. Carries the id only; subscribers read the alert.
+ */
+export interface AlertEvent {
+  type: 'alert' | 'alert_acknowledged' | 'alert_resolved';
+  alertId: string;
+}
+
+export type AlertEventHandler = (event: AlertEvent) => void;
+
+export interface MetricsStore {
+  storeAgentMetrics(metrics: AgentMetrics): Promise<void>;
+  storeAppMetrics(metrics: AppMetrics): Promise<void>;
+  storeCoreWebVitals(metrics: CoreWebVitalsData): Promise<void>;
+
+  /**
+   * Agent metrics and their per-tool usage rows, stored together
+   */
+  storeAgentMetricsBatch(batch: AgentMetrics[]): Promise<void>;
+  storeAppMetricsBatch(batch: AppMetrics[]): Promise<void>;
+  storeCoreWebVitalsBatch(batch: CoreWebVitalsData[]): Promise<void>;
+  storeContext7QueriesBatch(batch: Context7Query[]): Promise<void>;
+  storeToolUsageBatch(batch: ToolUsageEvent[]): Promise<void>;
+  storeBundleSizesBatch(batch: BundleSizeMetric[]): Promise<void>;
+  storeAgentHandoffsBatch(batch: AgentHandoff[]): Promise<void>;
+
+  /**
+   * Spans already stored (same trace, span id and start) are ignored
+   */
+  storeSpansBatch(batch: TraceSpan[]): Promise<void>;
+
+  /**
+   * Upsert task start and end reports. Reports for the same task may arrive
+   * in either order; a finished task never goes back to running.
+   */
+  storeAgentTasksBatch(batch: AgentTask[]): Promise<void>;
+
+  /**
+   * Aggregate a column into one series per combination of the groupBy
+   * columns, in time_bucket steps. Series are ordered by their label values
+   * and paged on them: a page holds at most `limit` series, starting after
+   * the label values in `after`.
+   */
+  queryMetricSeries(query: MetricSeriesQuery): Promise<{ series: MetricSeries[]; hasMore: boolean }>;
+
+  getRecentAgentMetrics(limit?: number, agentType?: AgentType): Promise<AgentMetrics[]>;
+
+  /**
+   * Most recent report from each agent that has reported since the given time
+   */
+  getLatestAgentMetrics(since: Date): Promise<LatestAgentMetrics[]>;
+
+  /**
+   * Most recent app metrics, optionally only for pages at or below a URL path
+   */
+  getRecentAppMetrics(limit?: number, path?: string): Promise<AppMetrics[]>;
+
+  /**
+   * Most recent Core Web Vitals, optionally only for pages at or below a URL path
+   */
+  getRecentCoreWebVitals(limit?: number, path?: string): Promise<CoreWebVitalsData[]>;
+
+  getContext7Queries(options: Context7QueryOptions): Promise<Context7Query[]>;
+
+  /**
+   * Query volume, success rate and latency per library
+   */
+  getContext7Stats(options: Context7QueryOptions): Promise<Context7LibraryStats[]>;
+
+  getToolUsage(options: ToolUsageQueryOptions): Promise<ToolUsageEvent[]>;
+
+  /**
+   * Invocation totals and mean execution time per tool
+   */
+  getToolUsageStats(options: ToolUsageQueryOptions): Promise<ToolUsageStats[]>;
+
+  getBundleSizes(options: BundleSizeQueryOptions): Promise<BundleSizeMetric[]>;
+
+  /**
+   * Most recent size reported for each bundle
+   */
+  getLatestBundleSizes(): Promise<BundleSizeMetric[]>;
+
+  getAgentTasks(options: AgentTaskQueryOptions): Promise<AgentTask[]>;
+
+  /**
+   * Task counts, throughput and duration percentiles per agent type and
+   * task type, for tasks started within the range
+   */
+  getAgentTaskStats(options: AgentTaskQueryOptions): Promise<AgentTaskStats[]>;
+
+  /**
+   * Failed tasks grouped by error message, most frequent first
+   */
+  getAgentTaskFailures(options: AgentTaskQueryOptions): Promise<AgentTaskFailureReason[]>;
+
+  getTraceSpans(traceId: string): Promise<TraceSpan[]>;
+  getAgentHandoffs(options: AgentHandoffQueryOptions): Promise<AgentHandoff[]>;
+
+  /**
+   * Recent status per agent type, plus agent types with agents that have
+   * stopped reporting and been marked offline
+   */
+  getAgentStatus(): Promise<AgentTypeStatus[]>;
+
+  /**
+   * Record that an agent reported. The status only changes when the report
+   * is newer than the agent's last_seen, so a late or backfilled sample does
+   * not bring an offline agent back. Returns the status before and after.
+   */
+  recordHeartbeat(heartbeat: HeartbeatReport, defaultIntervalSeconds: number): Promise<HeartbeatResult>;
+
+  /**
+   * Mark agents offline that have missed `missedIntervals` of their expected
+   * reports. Only rows that actually change are returned, so concurrent
+   * collectors report each transition once.
+   */
+  markOverdueAgentsOffline(now: Date, missedIntervals: number): Promise<AgentStatusChange[]>;
+
+  getAgentHeartbeats(): Promise<AgentHeartbeat[]>;
+  getDatabaseStats(): Promise<DatabaseStats>;
+
+  /**
+   * Per-bucket statistics of a column, with a bucket for every period in
+   * the range whether or not it has samples, and the same statistics over
+   * the whole range
+   */
+  getAggregatedMetrics(query: AggregatedMetricsQuery): Promise<Pick<AggregatedMetrics, 'data' | 'summary'>>;
+
+  /**
+   * Aggregate a catalogued metric over a time window.
+   * Returns null when the window holds no samples (except for count).
+   */
+  aggregateMetricWindow(
+    metric: string,
+    labels: Record<string, string>,
+    startTime: Date,
+    endTime: Date,
+    aggregation: WindowAggregation
+  ): Promise<number | null>;
+
+  /**
+   * Most recent value of a catalog metric for each distinct combination of
+   * seriesLabels seen since the given time
+   */
+  getLatestSeriesValues(metric: string, seriesLabels: string[], since: Date): Promise<SeriesValue[]>;
+
+  /**
+   * Try to take the lock with this key, held until released. Returns null
+   * when someone else holds it.
+   */
+  tryAcquireLock(key: number): Promise<LeaderLock | null>;
+
+  getAlertRules(options?: AlertRuleQueryOptions): Promise<AlertRule[]>;
+  getAlertRule(id: string): Promise<AlertRule | null>;
+  createAlertRule(rule: AlertRule): Promise<AlertRule>;
+  updateAlertRule(rule: AlertRule): Promise<AlertRule | null>;
+  deleteAlertRule(id: string): Promise<boolean>;
+
+  getNotificationChannels(): Promise<NotificationChannel[]>;
+  getNotificationChannel(id: string): Promise<NotificationChannel | null>;
+  createNotificationChannel(channel: NotificationChannel): Promise<NotificationChannel>;
+  updateNotificationChannel(channel: NotificationChannel): Promise<NotificationChannel | null>;
+  deleteNotificationChannel(id: string): Promise<boolean>;
+
+  /**
+   * All silences, or with activeAt those active then. Adding activeUntil
+   * widens that to silences active at any time from activeAt to activeUntil.
+   */
+  getSilences(options?: { activeAt?: Date; activeUntil?: Date }): Promise<Silence[]>;
+  createSilence(silence: Silence): Promise<Silence>;
+
+  /**
+   * End a silence now; silences are kept for the audit trail
+   */
+  expireSilence(id: string): Promise<Silence | null>;
+
+  getMaintenanceWindows(): Promise<MaintenanceWindow[]>;
+  getMaintenanceWindow(id: string): Promise<MaintenanceWindow | null>;
+  createMaintenanceWindow(window: MaintenanceWindow): Promise<MaintenanceWindow>;
+  updateMaintenanceWindow(window: MaintenanceWindow): Promise<MaintenanceWindow | null>;
+  deleteMaintenanceWindow(id: string): Promise<boolean>;
+
+  getRetentionPolicies(): Promise<RetentionPolicy[]>;
+
+  /**
+   * Apply retention policies and store them, returning the statements run.
+   * A dry run changes nothing and returns the statements that would run.
+   */
+  applyRetentionPolicies(policies: RetentionPolicy[], options?: { dryRun?: boolean }): Promise<string[]>;
+
+  getApiKeys(): Promise<ApiKey[]>;
+
+  /**
+   * The unrevoked, unexpired key with this hash, if any
+   */
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | null>;
+  createApiKey(apiKey: ApiKey, keyHash: string): Promise<ApiKey>;
+
+  /**
+   * Revoked keys are kept so their last use stays visible
+   */
+  revokeApiKey(id: string): Promise<ApiKey | null>;
+  touchApiKey(id: string, usedAt: Date): Promise<void>;
+
+  storeAlert(alert: Alert): Promise<void>;
+  updateAlert(alert: Alert): Promise<void>;
+
+  /**
+   * Update only the latest value and metadata of an alert, leaving its
+   * acknowledgement and resolution to whoever changed them
+   */
+  updateAlertValue(id: string, currentValue: number, metadata: Record<string, any>): Promise<void>;
+  getAlert(id: string): Promise<Alert | null>;
+  getActiveAlerts(): Promise<Alert[]>;
+
+  /**
+   * Number of unresolved alerts per severity
+   */
+  getActiveAlertCounts(): Promise<Array<{ severity: AlertSeverity; count: number }>>;
+  getAlertHistory(options: AlertHistoryQueryOptions): Promise<Alert[]>;
+
+  /**
+   * Alert counts per time bucket, split by rule, severity or agent type
+   */
+  getAlertCounts(
+    startTime: Date,
+    endTime: Date,
+    groupBy: AlertAnalyticsGroupBy,
+    interval?: string
+  ): Promise<AlertCountBucket[]>;
+
+  /**
+   * Acknowledgement and resolution stats per group. Alerts resolved
+   * automatically count towards MTTR but are also reported separately.
+   */
+  getAlertResponseStats(startTime: Date, endTime: Date, groupBy?: AlertAnalyticsGroupBy): Promise<AlertResponseGroupStats[]>;
+
+  /**
+   * Number of resolved alerts per fingerprint, i.e. completed fire/resolve cycles
+   */
+  getAlertCycles(startTime: Date, endTime: Date): Promise<AlertCycleCount[]>;
+
+  publishAlertEvent(event: AlertEvent): Promise<void>;
+
+  /**
+   * Receive alert events published through the store, until the returned
+   * function is called
+   */
+  subscribeAlertEvents(handler: AlertEventHandler): Promise<() => Promise<void>>;
+
+  close(): Promise<void>;
+}
+
+const isFinished = (task: AgentTask) => task.status === 'completed' || task.status === 'failed';
+
+/**
+ * Combine two reports for the same task, keeping the later report's fields
+ * unless it would move a finished task back to running
+ */
+export function mergeTaskReports(earlier: AgentTask, later: AgentTask): AgentTask {
+  const keepEarlier = isFinished(earlier) && !isFinished(later);
+  const [base, update] = keepEarlier ? [later, earlier] : [earlier, later];
+
+  return {
+    ...base,
+    ...Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)),
+    startTime: earlier.startTime < later.startTime ? earlier.startTime : later.startTime,
+    metadata: { ...earlier.metadata, ...later.metadata }
+  } as AgentTask;
+}
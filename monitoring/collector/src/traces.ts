@@ -0,0 +1,148 @@
+/**
+ * Trace Assembly
+ * Builds the span tree for one trace and works out its critical path: the
+ * chain of work that decided when the trace finished. Shortening anything
+ * off the critical path would not have made the request faster.
+ *
+ * Agents hand work off asynchronously, so a child span may end after its
+ * parent. The walk uses each span's effective end (the latest end in its
+ * subtree) rather than clipping children to their parent.
+ */
+
+import {
+  AgentType,
+  CriticalPathSegment,
+  Trace,
+  TraceAgentSummary,
+  TraceSpan,
+  TraceSpanNode
+} from '@types/monitoring';
+
+interface WalkNode {
+  span?: TraceSpanNode; // undefined for the synthetic node above the roots
+  start: number;
+  effectiveEnd: number;
+  children: WalkNode[];
+}
+
+const time = (date: Date) => new Date(date).getTime();
+
+/**
+ * Assemble stored spans into a trace. Spans whose parent is missing (not
+ * yet received, or dropped) become additional roots.
+ */
+export function buildTrace(traceId: string, spans: TraceSpan[]): Trace {
+  const traceStart = Math.min(...spans.map(span => time(span.startTime)));
+  const traceEnd = Math.max(...spans.map(span => time(span.endTime)));
+
+  const nodes = new Map<string, TraceSpanNode>();
+  for (const span of spans) {
+    nodes.set(span.spanId, { ...span, offset: time(span.startTime) - traceStart, criticalTime: 0, children: [] });
+  }
+
+  const roots: TraceSpanNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentSpanId ? nodes.get(node.parentSpanId) : undefined;
+    if (parent && parent !== node) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  const byStart = (a: TraceSpanNode, b: TraceSpanNode) => a.offset - b.offset;
+  nodes.forEach(node => node.children.sort(byStart));
+  roots.sort(byStart);
+
+  const segments: CriticalPathSegment[] = [];
+  const top: WalkNode = { start: traceStart, effectiveEnd: traceEnd, children: roots.map(toWalkNode) };
+  walkCriticalPath(top, traceEnd, segments, traceStart);
+  segments.reverse();
+
+  return {
+    traceId,
+    startTime: new Date(traceStart),
+    endTime: new Date(traceEnd),
+    duration: traceEnd - traceStart,
+    spanCount: spans.length,
+    roots,
+    criticalPath: mergeSegments(segments),
+    agents: summarizeAgents([...nodes.values()])
+  };
+}
+
+function toWalkNode(span: TraceSpanNode): WalkNode {
+  const children = span.children.map(toWalkNode);
+  return {
+    span,
+    start: time(span.startTime),
+    effectiveEnd: Math.max(time(span.endTime), ...children.map(child => child.effectiveEnd)),
+    children
+  };
+}
+
+/**
+ * Explain the window [node.start, windowEnd] backwards from its end: the
+ * child that finished last owns the time it was running, the node owns the
+ * gaps between children. Segments are appended latest first.
+ */
+function walkCriticalPath(node: WalkNode, windowEnd: number, segments: CriticalPathSegment[], traceStart: number): void {
+  let cursor = windowEnd;
+  const children = [...node.children].sort((a, b) => b.effectiveEnd - a.effectiveEnd);
+
+  for (const child of children) {
+    if (cursor <= node.start) break;
+    if (child.start >= cursor) continue;
+
+    const childEnd = Math.min(child.effectiveEnd, cursor);
+    addSegment(node, childEnd, cursor, segments, traceStart);
+    walkCriticalPath(child, childEnd, segments, traceStart);
+    cursor = child.start;
+  }
+
+  addSegment(node, node.start, cursor, segments, traceStart);
+}
+
+function addSegment(node: WalkNode, start: number, end: number, segments: CriticalPathSegment[], traceStart: number): void {
+  // Time owned by the synthetic top node is a gap between unrelated roots
+  if (!node.span || end <= start) return;
+
+  node.span.criticalTime += end - start;
+  segments.push({
+    spanId: node.span.spanId,
+    name: node.span.name,
+    agentType: node.span.agentType,
+    agentId: node.span.agentId,
+    offset: start - traceStart,
+    duration: end - start
+  });
+}
+
+/**
+ * Join consecutive segments of the same span
+ */
+function mergeSegments(segments: CriticalPathSegment[]): CriticalPathSegment[] {
+  const merged: CriticalPathSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.spanId === segment.spanId && last.offset + last.duration === segment.offset) {
+      last.duration += segment.duration;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+function summarizeAgents(nodes: TraceSpanNode[]): TraceAgentSummary[] {
+  const agents = new Map<AgentType, TraceAgentSummary>();
+
+  for (const node of nodes) {
+    const summary = agents.get(node.agentType) ||
+      { agentType: node.agentType, agentIds: [], spans: 0, busyTime: 0, criticalTime: 0 };
+    if (!summary.agentIds.includes(node.agentId)) summary.agentIds.push(node.agentId);
+    summary.spans++;
+    summary.busyTime += node.duration;
+    summary.criticalTime += node.criticalTime;
+    agents.set(node.agentType, summary);
+  }
+
+  return [...agents.values()].sort((a, b) => b.criticalTime - a.criticalTime);
+}
@@ -0,0 +1,416 @@
+/**
+ * WebSocket Hub
+ * Live updates for dashboard clients. A connection receives nothing until it
+ * subscribes to topics, then only the messages matching them:
+ *
+ *   { "action": "subscribe", "topics": ["agent_metrics:security", "cwv:/checkout", "alerts:critical"] }
+ *   { "action": "unsubscribe", "topics": ["cwv:/checkout"] }
+ *
+ * A topic is a name with an optional filter after the colon: an agent type,
+ * a URL path (matching that page and the pages below it) or an alert
+ * severity, depending on the topic (see TOPIC_FILTERS).
+ *
+ * Agent metrics, app metrics and Core Web Vitals can arrive many times a
+ * second. They are coalesced to the latest message per agent or page and
+ * sent once per throttle interval; everything else is sent straight away.
+ * Connections that miss a ping are terminated at the next one.
+ */
+
+import pino from 'pino';
+import { WebSocket } from 'ws';
+import {
+  AgentType,
+  AlertSeverity,
+  WebSocketClientMessage,
+  WebSocketMessage,
+  WebSocketMessageType,
+  WebSocketTopicName
+} from '@types/monitoring';
+
+const logger = pino({ transport: { target: 'pino-pretty' } });
+
+export const WS_PROTOCOL_VERSION = 1;
+
+const MAX_TOPICS_PER_CLIENT = 100;
+
+// Close code for connections refused while the hub is full (Try Again Later)
+const CLOSE_TRY_AGAIN_LATER = 1013;
+const CLOSE_GOING_AWAY = 1001;
+
+/**
+ * Raised for a topic that does not exist or has an invalid filter
+ */
+export class TopicError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TopicError';
+  }
+}
+
+export interface Topic {
+  name: WebSocketTopicName;
+  filter?: string;
+}
+
+// What each topic's filter selects on; null for topics that take no filter
+const TOPIC_FILTERS: Record<WebSocketTopicName, 'agentType' | 'path' | 'severity' | null> = {
+  agent_metrics: 'agentType',
+  agent_status: 'agentType',
+  agent_tasks: 'agentType',
+  agent_handoffs: 'agentType',
+  tool_usage: 'agentType',
+  context7: 'agentType',
+  app_metrics: 'path',
+  cwv: 'path',
+  bundle_size: null,
+  alerts: 'severity'
+};
+
+export type BroadcastMessageType = Exclude<WebSocketMessageType, 'initial_data' | 'subscribed' | 'unsubscribed' | 'error'>;
+
+/**
+ * The topic a message type is published on, the values a topic filter is
+ * matched against, and for high-frequency types the key messages are
+ * coalesced by
+ */
+interface MessageRoute {
+  topic: WebSocketTopicName;
+  filterValues: (data: any) => Array<string | undefined>;
+  coalesceKey?: (data: any) => string;
+}
+
+const byAgentType = (data: any) => [data.agentType];
+const byUrl = (data: any) => [data.url];
+const byAgent = (data: any) => `${data.agentType}:${data.agentId}`;
+const byPage = (data: any) => String(data.url).split(/[?#]/)[0];
+const bySeverity = (data: any) => [data.severity];
+
+const MESSAGE_ROUTES: Record<BroadcastMessageType, MessageRoute> = {
+  agent_metrics: { topic: 'agent_metrics', filterValues: byAgentType, coalesceKey: byAgent },
+  agent_status_changed: { topic: 'agent_status', filterValues: byAgentType },
+  agent_task: { topic: 'agent_tasks', filterValues: byAgentType },
+  // A handoff shows up for both the sending and the receiving agent type
+  agent_handoff: { topic: 'agent_handoffs', filterValues: data => [data.agentType, data.toAgentType] },
+  tool_usage: { topic: 'tool_usage', filterValues: byAgentType },
+  context7_query: { topic: 'context7', filterValues: byAgentType },
+  app_metrics: { topic: 'app_metrics', filterValues: byUrl, coalesceKey: byPage },
+  core_web_vitals: { topic: 'cwv', filterValues: byUrl, coalesceKey: byPage },
+  bundle_size: { topic: 'bundle_size', filterValues: () => [] },
+  alert: { topic: 'alerts', filterValues: bySeverity },
+  alert_acknowledged: { topic: 'alerts', filterValues: bySeverity },
+  alert_resolved: { topic: 'alerts', filterValues: bySeverity }
+};
+
+const AGENT_TYPES = new Set<string>(Object.values(AgentType));
+const SEVERITIES = new Set<string>(Object.values(AlertSeverity));
+
+export function parseTopic(raw: string): Topic {
+  const separator = raw.indexOf(':');
+  const name = (separator === -1 ? raw : raw.slice(0, separator)) as WebSocketTopicName;
+  if (!Object.prototype.hasOwnProperty.call(TOPIC_FILTERS, name)) {
+    throw new TopicError(`Unknown topic ${name}`);
+  }
+  if (separator === -1) return { name };
+
+  const filter = raw.slice(separator + 1);
+  switch (TOPIC_FILTERS[name]) {
+    case 'agentType':
+      if (!AGENT_TYPES.has(filter)) throw new TopicError(`${filter} is not an agent type`);
+      return { name, filter };
+    case 'severity':
+      if (!SEVERITIES.has(filter)) throw new TopicError(`${filter} is not an alert severity`);
+      return { name, filter };
+    case 'path':
+      if (!filter.startsWith('/')) throw new TopicError(`${filter} is not a URL path`);
+      return { name, filter: filter.replace(/\/+$/, '') || '/' };
+    default:
+      throw new TopicError(`${name} does not take a filter`);
+  }
+}
+
+export function formatTopic(topic: Topic): string {
+  return topic.filter === undefined ? topic.name : `${topic.name}:${topic.filter}`;
+}
+
+function urlPath(url: string): string {
+  try {
+    return new URL(url, 'http://localhost').pathname;
+  } catch {
+    return url.split(/[?#]/)[0];
+  }
+}
+
+function topicMatches(topic: Topic, values: Array<string | undefined>): boolean {
+  const filter = topic.filter;
+  if (filter === undefined) return true;
+
+  if (TOPIC_FILTERS[topic.name] === 'path') {
+    return values.some(url => {
+      if (url === undefined) return false;
+      const path = urlPath(url);
+      return filter === '/' || path === filter || path.startsWith(`${filter}/`);
+    });
+  }
+  return values.includes(filter);
+}
+
+interface Client {
+  topics: Map<string, Topic>; // keyed by formatTopic
+  alive: boolean;
+}
+
+/**
+ * Recent records for newly subscribed topics, sent to the client as
+ * `initial_data`. Keys with no records are left out.
+ */
+export type InitialDataLoader = (topics: Topic[]) => Promise<Record<string, any[]>>;
+
+export interface WebSocketHubOptions {
+  maxConnections?: number;
+  pingInterval?: number;
+  throttleInterval?: number; // 0 sends high-frequency messages unthrottled
+}
+
+export class WebSocketHub {
+  private loadInitialData: InitialDataLoader;
+  private maxConnections: number;
+  private pingInterval: number;
+  private throttleInterval: number;
+  private clients: Map<WebSocket, Client> = new Map();
+  // Latest coalesced message per key, sent at the next flush
+  private pending: Map<string, { type: BroadcastMessageType; data: any }> = new Map();
+  private pingTimer: NodeJS.Timeout | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(loadInitialData: InitialDataLoader, options: WebSocketHubOptions = {}) {
+    this.loadInitialData = loadInitialData;
+    this.maxConnections = options.maxConnections ?? parseInt(process.env.WS_MAX_CONNECTIONS || '1000');
+    this.pingInterval = options.pingInterval ?? parseInt(process.env.WS_PING_INTERVAL || '30000');
+    this.throttleInterval = options.throttleInterval ?? parseInt(process.env.WS_THROTTLE_INTERVAL || '1000');
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  start(): void {
+    if (!this.pingTimer && this.pingInterval > 0) {
+      this.pingTimer = setInterval(() => this.checkHeartbeats(), this.pingInterval);
+    }
+    if (!this.flushTimer && this.throttleInterval > 0) {
+      this.flushTimer = setInterval(() => this.flush(), this.throttleInterval);
+    }
+  }
+
+  /**
+   * Stop the timers and close every connection
+   */
+  stop(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pending.clear();
+
+    for (const ws of this.clients.keys()) {
+      ws.close(CLOSE_GOING_AWAY, 'Server shutting down');
+    }
+    this.clients.clear();
+  }
+
+  /**
+   * Take over an authenticated connection, subscribing it to the topics in
+   * the comma-separated `topics` query parameter if there is one. Paused
+   * connections are resumed once the handlers are attached. Returns false,
+   * closing the connection, when the hub is full.
+   */
+  accept(ws: WebSocket, url?: string): boolean {
+    if (this.clients.size >= this.maxConnections) {
+      ws.close(CLOSE_TRY_AGAIN_LATER, 'Too many connections');
+      return false;
+    }
+
+    const client: Client = { topics: new Map(), alive: true };
+    this.clients.set(ws, client);
+
+    ws.on('pong', () => {
+      client.alive = true;
+    });
+
+    ws.on('message', (raw) => this.handleMessage(ws, client, raw.toString()));
+
+    ws.on('close', () => {
+      logger.info('WebSocket connection closed');
+      this.clients.delete(ws);
+    });
+
+    ws.on('error', (error) => {
+      logger.error({ error }, 'WebSocket error');
+      this.clients.delete(ws);
+    });
+
+    const topics = url ? new URL(url, 'http://localhost').searchParams.get('topics') : null;
+    if (topics) {
+      this.subscribe(ws, client, topics.split(','));
+    }
+
+    ws.resume();
+    return true;
+  }
+
+  /**
+   * Send a message to the clients subscribed to it, or hold it for the next
+   * flush if its type is coalesced
+   */
+  publish(type: BroadcastMessageType, data: any): void {
+    const route = MESSAGE_ROUTES[type];
+    if (route.coalesceKey && this.throttleInterval > 0) {
+      this.pending.set(`${type}|${route.coalesceKey(data)}`, { type, data });
+      return;
+    }
+    this.deliver(type, data);
+  }
+
+  private deliver(type: BroadcastMessageType, data: any): void {
+    const route = MESSAGE_ROUTES[type];
+    const values = route.filterValues(data);
+    let message: string | undefined;
+
+    for (const [ws, client] of this.clients) {
+      if (ws.readyState !== WebSocket.OPEN || !this.isSubscribed(client, route.topic, values)) continue;
+      // Serialized once, and only if someone wants it
+      message ??= JSON.stringify({ version: WS_PROTOCOL_VERSION, type, data } as WebSocketMessage);
+      ws.send(message);
+    }
+  }
+
+  private isSubscribed(client: Client, name: WebSocketTopicName, values: Array<string | undefined>): boolean {
+    for (const topic of client.topics.values()) {
+      if (topic.name === name && topicMatches(topic, values)) return true;
+    }
+    return false;
+  }
+
+  private flush(): void {
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    pending.forEach(({ type, data }) => this.deliver(type, data));
+  }
+
+  private checkHeartbeats(): void {
+    for (const [ws, client] of this.clients) {
+      if (!client.alive) {
+        logger.info('Terminating unresponsive WebSocket connection');
+        this.clients.delete(ws);
+        ws.terminate();
+        continue;
+      }
+      client.alive = false;
+      ws.ping();
+    }
+  }
+
+  private send(ws: WebSocket, type: WebSocketMessageType, data: any): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ version: WS_PROTOCOL_VERSION, type, data } as WebSocketMessage));
+    }
+  }
+
+  private handleMessage(ws: WebSocket, client: Client, raw: string): void {
+    let message: WebSocketClientMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.send(ws, 'error', { message: 'Message is not valid JSON' });
+      return;
+    }
+
+    const valid = (message?.action === 'subscribe' || message?.action === 'unsubscribe') &&
+      Array.isArray(message.topics) && message.topics.every(topic => typeof topic === 'string');
+    if (!valid) {
+      this.send(ws, 'error', { message: 'Expected {"action": "subscribe" | "unsubscribe", "topics": [...]}' });
+      return;
+    }
+
+    if (message.action === 'subscribe') {
+      this.subscribe(ws, client, message.topics);
+    } else {
+      this.unsubscribe(ws, client, message.topics);
+    }
+  }
+
+  /**
+   * Parse all topics or report every invalid one, keyed by formatTopic
+   */
+  private parseTopics(ws: WebSocket, raw: string[]): Map<string, Topic> | null {
+    const topics = new Map<string, Topic>();
+    const errors: Array<{ topic: string; message: string }> = [];
+
+    for (const value of raw) {
+      try {
+        const topic = parseTopic(value.trim());
+        topics.set(formatTopic(topic), topic);
+      } catch (error) {
+        if (!(error instanceof TopicError)) throw error;
+        errors.push({ topic: value, message: error.message });
+      }
+    }
+
+    if (errors.length > 0) {
+      this.send(ws, 'error', { message: 'Invalid topics', errors });
+      return null;
+    }
+    return topics;
+  }
+
+  private subscribe(ws: WebSocket, client: Client, raw: string[]): void {
+    const topics = this.parseTopics(ws, raw);
+    if (!topics) return;
+
+    const added = [...topics].filter(([key]) => !client.topics.has(key));
+    if (client.topics.size + added.length > MAX_TOPICS_PER_CLIENT) {
+      this.send(ws, 'error', { message: `A connection can subscribe to at most ${MAX_TOPICS_PER_CLIENT} topics` });
+      return;
+    }
+
+    added.forEach(([key, topic]) => client.topics.set(key, topic));
+    this.send(ws, 'subscribed', {
+      topics: added.map(([key]) => key),
+      subscriptions: [...client.topics.keys()]
+    });
+
+    // A filtered topic adds nothing to the records of the whole topic
+    const initial = added
+      .map(([, topic]) => topic)
+      .filter(topic => topic.filter === undefined || !client.topics.has(topic.name));
+    if (initial.length > 0) {
+      this.sendInitialData(ws, initial);
+    }
+  }
+
+  private unsubscribe(ws: WebSocket, client: Client, raw: string[]): void {
+    const topics = this.parseTopics(ws, raw);
+    if (!topics) return;
+
+    const removed = [...topics.keys()].filter(key => client.topics.delete(key));
+    this.send(ws, 'unsubscribed', {
+      topics: removed,
+      subscriptions: [...client.topics.keys()]
+    });
+  }
+
+  private async sendInitialData(ws: WebSocket, topics: Topic[]): Promise<void> {
+    try {
+      const data = await this.loadInitialData(topics);
+      if (Object.keys(data).length > 0) {
+        this.send(ws, 'initial_data', data);
+      }
+    } catch (error) {
+      logger.error({ error }, 'Error sending initial data');
+    }
+  }
+}
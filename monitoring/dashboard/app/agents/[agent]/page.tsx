@@ -3,6 +3,21 @@
 import { useState, useEffect } from 'react'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts'
 import { AgentType } from '@types/monitoring'
+import { collectorApiUrl } from '../../../lib/collector'
+
+const TIME_RANGES_MS: Record<string, number> = {
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000
+}
+
+// Chart field for each catalogued metric
+const CHART_METRICS: Record<string, string> = {
+  agent_response_time: 'responseTime',
+  agent_error_rate: 'errorRate',
+  agent_task_completion: 'completionRate'
+}
 
 export default function AgentDetailsPage({ params }: { params: { agent: string } }) {
   const [metrics, setMetrics] = useState<any[]>([])
@@ -15,14 +30,17 @@ export default function AgentDetailsPage({ params }: { params: { agent: string }
 
   const fetchAgentMetrics = async () => {
     try {
-      const [metricsRes, infoRes] = await Promise.all([
-        fetch(`http://localhost:3000/api/v1/metrics?agentType=${params.agent}&metricType=agent_response_time`),
-        fetch(`http://localhost:3000/api/v1/agents/status`)
+      const startTime = new Date(Date.now() - TIME_RANGES_MS[timeRange]).toISOString()
+      const [infoRes, ...metricsRes] = await Promise.all([
+        fetch(collectorApiUrl('agents/status')),
+        ...Object.keys(CHART_METRICS).map(metric =>
+          fetch(collectorApiUrl(`metrics/aggregate?metric=${metric}&agentType=${params.agent}&startTime=${startTime}`))
+        )
       ])
 
-      if (metricsRes.ok) {
-        const metricsData = await metricsRes.json()
-        setMetrics(processMetricsData(metricsData))
+      if (metricsRes.every(res => res.ok)) {
+        const results = await Promise.all(metricsRes.map(res => res.json()))
+        setMetrics(processMetricsData(results))
       }
 
       if (infoRes.ok) {
@@ -35,16 +53,20 @@ export default function AgentDetailsPage({ params }: { params: { agent: string }
     }
   }
 
-  const processMetricsData = (rawData: any[]): any[] => {
-    return rawData
-      .map((item) => ({
-        timestamp: new Date(item.timestamp).toLocaleTimeString(),
-        responseTime: item.response_time,
-        errorRate: item.error_rate,
-        completionRate: item.task_completion_rate,
-      }))
-      .reverse()
-      .slice(0, 50)
+  // One chart row per period, with the average of each metric. Periods
+  // without samples are null, which leaves a gap in the chart.
+  const processMetricsData = (results: any[]): any[] => {
+    const format = timeRange === '7d'
+      ? (date: Date) => date.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })
+      : (date: Date) => date.toLocaleTimeString()
+
+    return results[0].data.timestamps.map((timestamp: string, i: number) => {
+      const row: any = { timestamp: format(new Date(timestamp)) }
+      for (const result of results) {
+        row[CHART_METRICS[result.metric]] = result.data.avg[i]
+      }
+      return row
+    })
   }
 
   return (
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+// Proxies the page's collector API calls, adding COLLECTOR_API_KEY here on
+// the server so the key never reaches the browser. Use a read key for a
+// view-only dashboard, or an admin key to acknowledge and resolve alerts.
+const COLLECTOR_URL = process.env.COLLECTOR_URL || 'http://localhost:3000'
+const API_KEY = process.env.COLLECTOR_API_KEY
+
+// The only writes the dashboard makes; key management is never proxied
+const WRITABLE_PATH = /^alerts\/[^/]+\/(ack|resolve)$/
+
+export const dynamic = 'force-dynamic'
+
+type Params = { params: { path: string[] } }
+
+export async function GET(req: NextRequest, { params }: Params) {
+  if (params.path[0]?.toLowerCase() === 'auth') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+  return proxy(req, params.path)
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  if (!WRITABLE_PATH.test(params.path.join('/'))) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+  return proxy(req, params.path)
+}
+
+async function proxy(req: NextRequest, path: string[]) {
+  // Dot segments would be resolved by the URL parser and escape /api/v1
+  if (path.some((segment) => segment === '' || segment === '.' || segment === '..')) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const headers: Record<string, string> = {}
+  if (API_KEY) headers.Authorization = `Bearer ${API_KEY}`
+  const contentType = req.headers.get('content-type')
+  if (contentType) headers['Content-Type'] = contentType
+
+  try {
+    const res = await fetch(`${COLLECTOR_URL}/api/v1/${path.map(encodeURIComponent).join('/')}${req.nextUrl.search}`, {
+      method: req.method,
+      headers,
+      body: req.method === 'GET' ? undefined : await req.text(),
+      cache: 'no-store',
+    })
+
+    return new NextResponse(res.body, {
+      status: res.status,
+      headers: { 'Content-Type': res.headers.get('content-type') || 'application/json' },
+    })
+  } catch (error) {
+    console.error('Collector request failed:', error)
+    return NextResponse.json({ error: 'Collector unavailable' }, { status: 502 })
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+
+// Browsers cannot set headers on WebSocket connections, so the page connects
+// to the collector directly with a key in the URL. That key is visible to
+// anyone who can open the dashboard: COLLECTOR_WS_API_KEY must be a read key.
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  return NextResponse.json({ apiKey: process.env.COLLECTOR_WS_API_KEY || null })
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { Activity, AlertTriangle, CheckCircle, XCircle, Clock } from 'lucide-react'
+import { collectorApiUrl, collectorSocketUrl } from '../lib/collector'
 
 interface AgentStatus {
   type: string
@@ -13,54 +14,78 @@ interface AgentStatus {
 export default function Dashboard() {
   const [agents, setAgents] = useState<AgentStatus[]>([])
   const [alerts, setAlerts] = useState<any[]>([])
+  const [silences, setSilences] = useState<any[]>([])
+  const [alertSummary, setAlertSummary] = useState<any>(null)
+  const [noisyRules, setNoisyRules] = useState<any[]>([])
   const [systemHealth, setSystemHealth] = useState<any>(null)
   const [wsConnected, setWsConnected] = useState(false)
 
   useEffect(() => {
+    let ws: WebSocket | undefined
+    let unmounted = false
+
     // Connect to WebSocket for real-time updates
-    const ws = new WebSocket('ws://localhost:3000')
+    collectorSocketUrl('ws://localhost:3000').then((url) => {
+      if (unmounted) return
+      const socket = new WebSocket(url)
+      ws = socket
 
-    ws.onopen = () => {
-      console.log('WebSocket connected')
-      setWsConnected(true)
-    }
+      socket.onopen = () => {
+        console.log('WebSocket connected')
+        setWsConnected(true)
+        socket.send(JSON.stringify({ action: 'subscribe', topics: ['agent_metrics', 'agent_status', 'alerts'] }))
+      }
+
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data)
 
-    ws.onmessage = (event) => {
-      const message = JSON.parse(event.data)
-
-      switch (message.type) {
-        case 'agent_metrics':
-          updateAgentMetrics(message.data)
-          break
-        case 'alert':
-          handleNewAlert(message.data)
-          break
-        case 'initial_data':
-          setAgents(message.data.agentMetrics || [])
-          setAlerts(message.data.alerts || [])
-          break
+        switch (message.type) {
+          case 'agent_metrics':
+            updateAgentMetrics(message.data)
+            break
+          case 'agent_status_changed':
+            handleAgentStatusChanged(message.data)
+            break
+          case 'alert':
+            handleNewAlert(message.data)
+            break
+          case 'alert_acknowledged':
+            handleAlertUpdate(message.data)
+            break
+          case 'alert_resolved':
+            handleAlertResolved(message.data)
+            break
+          case 'initial_data':
+            setAgents(message.data.agentMetrics || [])
+            setAlerts(message.data.alerts || [])
+            break
+        }
       }
-    }
 
-    ws.onclose = () => {
-      console.log('WebSocket disconnected')
-      setWsConnected(false)
-    }
+      socket.onclose = () => {
+        console.log('WebSocket disconnected')
+        setWsConnected(false)
+      }
+    }).catch((error) => console.error('Failed to connect WebSocket:', error))
 
     // Fetch initial data
     fetchInitialData()
 
     return () => {
-      ws.close()
+      unmounted = true
+      ws?.close()
     }
   }, [])
 
   const fetchInitialData = async () => {
     try {
-      const [agentsRes, healthRes, alertsRes] = await Promise.all([
-        fetch('http://localhost:3000/api/v1/agents/status'),
-        fetch('http://localhost:3000/api/v1/system/health'),
-        fetch('http://localhost:3000/api/v1/alerts/active')
+      const [agentsRes, healthRes, alertsRes, silencesRes, summaryRes, noisyRes] = await Promise.all([
+        fetch(collectorApiUrl('agents/status')),
+        fetch(collectorApiUrl('system/health')),
+        fetch(collectorApiUrl('alerts/active')),
+        fetch(collectorApiUrl('alerts/silences')),
+        fetch(collectorApiUrl('alerts/analytics')),
+        fetch(collectorApiUrl('alerts/analytics/noisy?limit=5'))
       ])
 
       if (agentsRes.ok) {
@@ -77,6 +102,19 @@ export default function Dashboard() {
         const alertsData = await alertsRes.json()
         setAlerts(alertsData)
       }
+
+      if (silencesRes.ok) {
+        const silencesData = await silencesRes.json()
+        setSilences(silencesData)
+      }
+
+      if (summaryRes.ok) {
+        setAlertSummary(await summaryRes.json())
+      }
+
+      if (noisyRes.ok) {
+        setNoisyRules(await noisyRes.json())
+      }
     } catch (error) {
       console.error('Failed to fetch initial data:', error)
     }
@@ -104,10 +142,50 @@ export default function Dashboard() {
     })
   }
 
+  const handleAgentStatusChanged = (change: any) => {
+    setAgents((prev) =>
+      prev.map((a) =>
+        a.type === change.agentType ? { ...a, status: change.status, lastSeen: change.lastSeen } : a
+      )
+    )
+  }
+
   const handleNewAlert = (alert: any) => {
     setAlerts((prev) => [alert, ...prev].slice(0, 10))
   }
 
+  const handleAlertUpdate = (alert: any) => {
+    setAlerts((prev) => prev.map((a) => (a.id === alert.id ? alert : a)))
+  }
+
+  const handleAlertResolved = (alert: any) => {
+    setAlerts((prev) => prev.filter((a) => a.id !== alert.id))
+  }
+
+  const acknowledgeAlert = async (id: string) => {
+    try {
+      await fetch(collectorApiUrl(`alerts/${id}/ack`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ acknowledgedBy: 'dashboard' }),
+      })
+    } catch (error) {
+      console.error('Failed to acknowledge alert:', error)
+    }
+  }
+
+  const resolveAlert = async (id: string) => {
+    try {
+      await fetch(collectorApiUrl(`alerts/${id}/resolve`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolvedBy: 'dashboard' }),
+      })
+    } catch (error) {
+      console.error('Failed to resolve alert:', error)
+    }
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'active':
@@ -260,20 +338,114 @@ export default function Dashboard() {
                         </p>
                       </div>
                     </div>
-                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${getSeverityColor(alert.severity)}`}>
-                      {alert.severity}
-                    </span>
+                    <div className="flex items-center space-x-2">
+                      {alert.metadata?.silencedBy && (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                          silenced
+                        </span>
+                      )}
+                      {!alert.acknowledged && (
+                        <button
+                          onClick={() => acknowledgeAlert(alert.id)}
+                          className="px-2 py-1 text-xs font-medium rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                        >
+                          Ack
+                        </button>
+                      )}
+                      <button
+                        onClick={() => resolveAlert(alert.id)}
+                        className="px-2 py-1 text-xs font-medium rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                      >
+                        Resolve
+                      </button>
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${getSeverityColor(alert.severity)}`}>
+                        {alert.severity}
+                      </span>
+                    </div>
                   </div>
                 </div>
               ))
             )}
           </div>
         </div>
+
+        {/* Alert Analytics Panel */}
+        {alertSummary && (
+          <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow">
+            <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Noisy Rules (24h)
+              </h2>
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                {alertSummary.total} alerts · MTTA {formatDuration(alertSummary.mttaSeconds)} · MTTR {formatDuration(alertSummary.mttrSeconds)}
+              </span>
+            </div>
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {noisyRules.length === 0 ? (
+                <div className="p-6 text-center text-gray-500 dark:text-gray-400">
+                  No alerts in the last 24 hours
+                </div>
+              ) : (
+                noisyRules.map((rule) => (
+                  <div key={rule.ruleId} className="p-4 flex items-center justify-between">
+                    <div>
+                      <h4 className="font-medium text-gray-900 dark:text-white">{rule.ruleName}</h4>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                        {rule.total} alerts, {rule.acknowledged} acknowledged
+                        {rule.flappingSeries > 0 && `, ${rule.flappingSeries} flapping`}
+                      </p>
+                    </div>
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">
+                      {rule.noiseScore}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Silences Panel */}
+        {silences.length > 0 && (
+          <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow">
+            <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Active Silences
+              </h2>
+            </div>
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {silences.map((silence) => (
+                <div key={silence.id} className="p-4 flex items-start justify-between">
+                  <div>
+                    <h4 className="font-medium text-gray-900 dark:text-white">
+                      {Object.entries(silence.matchers)
+                        .map(([label, value]) => `${label}=${Array.isArray(value) ? value.join('|') : value}`)
+                        .join(', ')}
+                    </h4>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                      {silence.comment} ({silence.createdBy})
+                    </p>
+                  </div>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    until {new Date(silence.endsAt).toLocaleString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </main>
     </div>
   )
 }
 
+function formatDuration(seconds: number | null): string {
+  if (seconds === null || seconds === undefined) return '–'
+  if (seconds < 60) return `${Math.round(seconds)}s`
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`
+  return `${(seconds / 3600).toFixed(1)}h`
+}
+
 function formatAgentName(type: string): string {
   return type
     .split('-')
@@ -0,0 +1,13 @@
+// Collector API calls go through the dashboard's /api/collector routes, which
+// add COLLECTOR_API_KEY on the server so the key is never sent to the browser
+export function collectorApiUrl(path: string): string {
+  return `/api/collector/${path}`
+}
+
+// Browsers cannot set headers on WebSocket connections, so the key goes in
+// the URL. It is fetched at runtime and must be a read key.
+export async function collectorSocketUrl(url: string): Promise<string> {
+  const res = await fetch('/api/collector/socket')
+  const { apiKey } = res.ok ? await res.json() : { apiKey: null }
+  return apiKey ? `${url}?apiKey=${encodeURIComponent(apiKey)}` : url
+}
@@ -0,0 +1,23 @@
+-- Dropping a hypertable also drops its chunks and retention policy.
+-- The timescaledb extension is left installed.
+
+DROP VIEW IF EXISTS v_core_web_vitals_summary;
+DROP VIEW IF EXISTS v_agent_summary;
+
+DROP TABLE IF EXISTS performance_history;
+DROP TABLE IF EXISTS maintenance_windows;
+DROP TABLE IF EXISTS alert_silences;
+DROP TABLE IF EXISTS notification_channels;
+DROP TABLE IF EXISTS alert_rules;
+DROP TABLE IF EXISTS alerts;
+DROP TABLE IF EXISTS bundle_sizes;
+DROP TABLE IF EXISTS context7_queries;
+DROP TABLE IF EXISTS agent_heartbeats;
+DROP TABLE IF EXISTS api_keys;
+DROP TABLE IF EXISTS trace_spans;
+DROP TABLE IF EXISTS agent_handoffs;
+DROP TABLE IF EXISTS agent_tasks;
+DROP TABLE IF EXISTS agent_tool_usage;
+DROP TABLE IF EXISTS core_web_vitals;
+DROP TABLE IF EXISTS app_metrics;
+DROP TABLE IF EXISTS agent_metrics;
@@ -124,6 +124,77 @@ CREATE TABLE IF NOT EXISTS agent_tasks (
 CREATE INDEX IF NOT EXISTS idx_tasks_agent_time ON agent_tasks (agent_type, start_time DESC);
 CREATE INDEX IF NOT EXISTS idx_tasks_status_time ON agent_tasks (status, start_time DESC);
 
+-- Agent Handoffs Table (agent_type / agent_id are the sending agent)
+CREATE TABLE IF NOT EXISTS agent_handoffs (
+  id VARCHAR(255) NOT NULL,
+  agent_type VARCHAR(50) NOT NULL,
+  agent_id VARCHAR(255) NOT NULL,
+  timestamp TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  to_agent_type VARCHAR(50) NOT NULL,
+  to_agent_id VARCHAR(255),
+  duration DECIMAL(10, 2),
+  task_id VARCHAR(255),
+  trace_id VARCHAR(32)
+);
+
+-- Convert agent_handoffs to hypertable
+SELECT create_hypertable('agent_handoffs', 'timestamp', if_not_exists => TRUE);
+
+-- Create indexes for agent_handoffs
+CREATE INDEX IF NOT EXISTS idx_handoffs_agent_time ON agent_handoffs (agent_type, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_handoffs_to_agent_time ON agent_handoffs (to_agent_type, timestamp DESC);
+
+-- Trace Spans Table (finished spans only; a span id may be resent on retry)
+CREATE TABLE IF NOT EXISTS trace_spans (
+  trace_id CHAR(32) NOT NULL,
+  span_id CHAR(16) NOT NULL,
+  parent_span_id CHAR(16),
+  name VARCHAR(255) NOT NULL,
+  kind VARCHAR(20) NOT NULL,
+  agent_type VARCHAR(50) NOT NULL,
+  agent_id VARCHAR(255) NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  duration DECIMAL(12, 2) NOT NULL,
+  status VARCHAR(10) NOT NULL,
+  error_message TEXT,
+  attributes JSONB NOT NULL DEFAULT '{}',
+  UNIQUE (trace_id, span_id, start_time)
+);
+
+-- Convert trace_spans to hypertable
+SELECT create_hypertable('trace_spans', 'start_time', if_not_exists => TRUE);
+
+-- Create indexes for trace_spans
+CREATE INDEX IF NOT EXISTS idx_trace_spans_agent_time ON trace_spans (agent_type, start_time DESC);
+
+-- API Keys Table (only the SHA-256 hash of each key is stored)
+CREATE TABLE IF NOT EXISTS api_keys (
+  id VARCHAR(255) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL,
+  scope VARCHAR(20),
+  agent_types JSONB NOT NULL DEFAULT '[]',
+  key_hash CHAR(64) NOT NULL UNIQUE,
+  key_prefix VARCHAR(20) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+-- Agent Heartbeats Table (latest report per agent, for offline detection)
+CREATE TABLE IF NOT EXISTS agent_heartbeats (
+  agent_id VARCHAR(255) PRIMARY KEY,
+  agent_type VARCHAR(50) NOT NULL,
+  status VARCHAR(20) NOT NULL,
+  last_seen TIMESTAMPTZ NOT NULL,
+  expected_interval_seconds INTEGER NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_heartbeats_status ON agent_heartbeats (status, last_seen);
+
 -- Context7 Queries Table
 CREATE TABLE IF NOT EXISTS context7_queries (
   id VARCHAR(255) PRIMARY KEY,
@@ -147,6 +218,21 @@ CREATE INDEX IF NOT EXISTS idx_context7_agent_time ON context7_queries (agent_ty
 CREATE INDEX IF NOT EXISTS idx_context7_library_time ON context7_queries (library, timestamp DESC);
 CREATE INDEX IF NOT EXISTS idx_context7_success_time ON context7_queries (success, timestamp DESC);
 
+-- Bundle Sizes Table
+CREATE TABLE IF NOT EXISTS bundle_sizes (
+  id BIGSERIAL,
+  timestamp TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  name VARCHAR(255) NOT NULL,
+  size BIGINT NOT NULL,
+  gzipped_size BIGINT NOT NULL
+);
+
+-- Convert bundle_sizes to hypertable
+SELECT create_hypertable('bundle_sizes', 'timestamp', if_not_exists => TRUE);
+
+-- Create indexes for bundle_sizes
+CREATE INDEX IF NOT EXISTS idx_bundle_sizes_name_time ON bundle_sizes (name, timestamp DESC);
+
 -- Alerts Table
 CREATE TABLE IF NOT EXISTS alerts (
   id VARCHAR(255) PRIMARY KEY,
@@ -157,12 +243,15 @@ CREATE TABLE IF NOT EXISTS alerts (
   timestamp TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   agent_type VARCHAR(50),
   metric_type VARCHAR(50) NOT NULL,
+  rule_id VARCHAR(255),
+  fingerprint VARCHAR(512),
   current_value DECIMAL(20, 2),
   threshold DECIMAL(20, 2),
   metadata JSONB NOT NULL DEFAULT '{}',
   acknowledged BOOLEAN NOT NULL DEFAULT FALSE,
   resolved BOOLEAN NOT NULL DEFAULT FALSE,
   resolved_at TIMESTAMPTZ,
+  resolved_by VARCHAR(255),
   acknowledged_by VARCHAR(255),
   acknowledged_at TIMESTAMPTZ
 );
@@ -171,6 +260,7 @@ CREATE TABLE IF NOT EXISTS alerts (
 CREATE INDEX IF NOT EXISTS idx_alerts_type_time ON alerts (type, timestamp DESC);
 CREATE INDEX IF NOT EXISTS idx_alerts_severity_time ON alerts (severity, timestamp DESC);
 CREATE INDEX IF NOT EXISTS idx_alerts_status_time ON alerts (resolved, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_fingerprint ON alerts (fingerprint) WHERE resolved = FALSE;
 
 -- Alert Rules Table
 CREATE TABLE IF NOT EXISTS alert_rules (
@@ -180,8 +270,10 @@ CREATE TABLE IF NOT EXISTS alert_rules (
   metric_type VARCHAR(50) NOT NULL,
   agent_type VARCHAR(50),
   condition VARCHAR(20) NOT NULL,
-  threshold DECIMAL(20, 2) NOT NULL,
+  expression TEXT,
+  threshold DECIMAL(20, 2) NOT NULL DEFAULT 0,
   duration INTEGER NOT NULL,
+  repeat_interval INTEGER,
   severity VARCHAR(20) NOT NULL,
   notification_channels JSONB NOT NULL DEFAULT '[]',
   metadata JSONB NOT NULL DEFAULT '{}',
@@ -193,6 +285,47 @@ CREATE TABLE IF NOT EXISTS alert_rules (
 CREATE INDEX IF NOT EXISTS idx_alert_rules_enabled ON alert_rules (enabled);
 CREATE INDEX IF NOT EXISTS idx_alert_rules_metric ON alert_rules (metric_type);
 
+-- Notification Channels Table
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id VARCHAR(255) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  type VARCHAR(50) NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  config JSONB NOT NULL DEFAULT '{}',
+  severities JSONB,
+  send_resolved BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Alert Silences Table
+CREATE TABLE IF NOT EXISTS alert_silences (
+  id VARCHAR(255) PRIMARY KEY,
+  matchers JSONB NOT NULL DEFAULT '{}',
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  created_by VARCHAR(255) NOT NULL,
+  comment TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_silences_ends_at ON alert_silences (ends_at);
+
+-- Maintenance Windows Table
+CREATE TABLE IF NOT EXISTS maintenance_windows (
+  id VARCHAR(255) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  matchers JSONB NOT NULL DEFAULT '{}',
+  days_of_week JSONB NOT NULL,
+  start_time VARCHAR(5) NOT NULL,
+  duration_minutes INTEGER NOT NULL,
+  created_by VARCHAR(255) NOT NULL,
+  comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 -- Performance History Table (for regression detection)
 CREATE TABLE IF NOT EXISTS performance_history (
   id BIGSERIAL PRIMARY KEY,
@@ -245,49 +378,11 @@ SELECT add_retention_policy('app_metrics', INTERVAL '90 days', if_not_exists =>
 SELECT add_retention_policy('core_web_vitals', INTERVAL '90 days', if_not_exists => TRUE);
 SELECT add_retention_policy('agent_tool_usage', INTERVAL '90 days', if_not_exists => TRUE);
 SELECT add_retention_policy('context7_queries', INTERVAL '90 days', if_not_exists => TRUE);
+SELECT add_retention_policy('bundle_sizes', INTERVAL '90 days', if_not_exists => TRUE);
+SELECT add_retention_policy('agent_handoffs', INTERVAL '90 days', if_not_exists => TRUE);
+SELECT add_retention_policy('trace_spans', INTERVAL '90 days', if_not_exists => TRUE);
 SELECT add_retention_policy('performance_history', INTERVAL '90 days', if_not_exists => TRUE);
 
--- Create continuous aggregate for hourly averages
-CREATE MATERIALIZED VIEW IF NOT EXISTS agent_metrics_hourly
-WITH (timescaledb.continuous) AS
-SELECT
-  time_bucket('1 hour', timestamp) as bucket,
-  agent_type,
-  AVG(response_time) as avg_response_time,
-  AVG(task_completion_rate) as avg_completion_rate,
-  AVG(error_rate) as avg_error_rate,
-  COUNT(*) as metric_count
-FROM agent_metrics
-GROUP BY bucket, agent_type;
-
-CREATE MATERIALIZED VIEW IF NOT EXISTS core_web_vitals_hourly
-WITH (timescaledb.continuous) AS
-SELECT
-  time_bucket('1 hour', timestamp) as bucket,
-  url,
-  AVG(lcp) as avg_lcp,
-  AVG(fid) as avg_fid,
-  AVG(cls) as avg_cls,
-  AVG(performance_score) as avg_performance_score,
-  COUNT(*) as page_view_count
-FROM core_web_vitals
-GROUP BY bucket, url;
-
--- Enable continuous aggregation refresh policies
-SELECT add_continuous_aggregate_policy('agent_metrics_hourly',
-  start_offset => INTERVAL '1 hour',
-  end_offset => INTERVAL '0 minutes',
-  schedule_interval => INTERVAL '10 minutes',
-  if_not_exists => TRUE
-);
-
-SELECT add_continuous_aggregate_policy('core_web_vitals_hourly',
-  start_offset => INTERVAL '1 hour',
-  end_offset => INTERVAL '0 minutes',
-  schedule_interval => INTERVAL '10 minutes',
-  if_not_exists => TRUE
-);
-
 -- Grant permissions (adjust user as needed)
 -- GRANT ALL PRIVILEGES ON ALL TABLES IN SCHEMA public TO frontend_design_monitoring_user;
 -- GRANT ALL PRIVILEGES ON ALL SEQUENCES IN SCHEMA public TO frontend_design_monitoring_user;
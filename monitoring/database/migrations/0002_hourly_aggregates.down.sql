@@ -0,0 +1,4 @@
+-- Dropping a continuous aggregate also removes its refresh policy
+
+DROP MATERIALIZED VIEW IF EXISTS core_web_vitals_hourly;
+DROP MATERIALIZED VIEW IF EXISTS agent_metrics_hourly;
@@ -0,0 +1,43 @@
+-- migrate:no-transaction
+-- Continuous aggregates cannot be created inside a transaction block
+
+-- Create continuous aggregate for hourly averages
+CREATE MATERIALIZED VIEW IF NOT EXISTS agent_metrics_hourly
+WITH (timescaledb.continuous) AS
+SELECT
+  time_bucket('1 hour', timestamp) as bucket,
+  agent_type,
+  AVG(response_time) as avg_response_time,
+  AVG(task_completion_rate) as avg_completion_rate,
+  AVG(error_rate) as avg_error_rate,
+  COUNT(*) as metric_count
+FROM agent_metrics
+GROUP BY bucket, agent_type;
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS core_web_vitals_hourly
+WITH (timescaledb.continuous) AS
+SELECT
+  time_bucket('1 hour', timestamp) as bucket,
+  url,
+  AVG(lcp) as avg_lcp,
+  AVG(fid) as avg_fid,
+  AVG(cls) as avg_cls,
+  AVG(performance_score) as avg_performance_score,
+  COUNT(*) as page_view_count
+FROM core_web_vitals
+GROUP BY bucket, url;
+
+-- Enable continuous aggregation refresh policies
+SELECT add_continuous_aggregate_policy('agent_metrics_hourly',
+  start_offset => INTERVAL '1 hour',
+  end_offset => INTERVAL '0 minutes',
+  schedule_interval => INTERVAL '10 minutes',
+  if_not_exists => TRUE
+);
+
+SELECT add_continuous_aggregate_policy('core_web_vitals_hourly',
+  start_offset => INTERVAL '1 hour',
+  end_offset => INTERVAL '0 minutes',
+  schedule_interval => INTERVAL '10 minutes',
+  if_not_exists => TRUE
+);
@@ -0,0 +1,39 @@
+-- Retention per table and rollup tier, in days (NULL keeps data indefinitely).
+-- Changed through PUT /api/v1/retention/policies/:table, which applies the
+-- TimescaleDB retention policies and updates these rows together.
+CREATE TABLE IF NOT EXISTS retention_policies (
+  table_name VARCHAR(63) NOT NULL,
+  tier VARCHAR(5) NOT NULL,
+  retention_days INTEGER,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (table_name, tier)
+);
+
+-- Raw tables keep the 90 days set by 0001; the rollups created by 0004
+-- keep 5 minute buckets for 180 days, hourly for two years and daily for good
+INSERT INTO retention_policies (table_name, tier, retention_days) VALUES
+  ('agent_metrics', 'raw', 90),
+  ('agent_metrics', '5m', 180),
+  ('agent_metrics', '1h', 730),
+  ('agent_metrics', '1d', NULL),
+  ('core_web_vitals', 'raw', 90),
+  ('core_web_vitals', '5m', 180),
+  ('core_web_vitals', '1h', 730),
+  ('core_web_vitals', '1d', NULL),
+  ('app_metrics', 'raw', 90),
+  ('app_metrics', '5m', 180),
+  ('app_metrics', '1h', 730),
+  ('app_metrics', '1d', NULL),
+  ('agent_tool_usage', 'raw', 90),
+  ('agent_tool_usage', '5m', 180),
+  ('agent_tool_usage', '1h', 730),
+  ('agent_tool_usage', '1d', NULL),
+  ('context7_queries', 'raw', 90),
+  ('context7_queries', '5m', 180),
+  ('context7_queries', '1h', 730),
+  ('context7_queries', '1d', NULL),
+  ('bundle_sizes', 'raw', 90),
+  ('agent_handoffs', 'raw', 90),
+  ('trace_spans', 'raw', 90),
+  ('performance_history', 'raw', 90)
+ON CONFLICT (table_name, tier) DO NOTHING;
@@ -0,0 +1,68 @@
+-- migrate:no-transaction
+-- Continuous aggregates cannot be created inside a transaction block
+
+DROP MATERIALIZED VIEW IF EXISTS agent_metrics_1d;
+DROP MATERIALIZED VIEW IF EXISTS agent_metrics_1h;
+DROP MATERIALIZED VIEW IF EXISTS agent_metrics_5m;
+
+DROP MATERIALIZED VIEW IF EXISTS core_web_vitals_1d;
+DROP MATERIALIZED VIEW IF EXISTS core_web_vitals_1h;
+DROP MATERIALIZED VIEW IF EXISTS core_web_vitals_5m;
+
+DROP MATERIALIZED VIEW IF EXISTS app_metrics_1d;
+DROP MATERIALIZED VIEW IF EXISTS app_metrics_1h;
+DROP MATERIALIZED VIEW IF EXISTS app_metrics_5m;
+
+DROP MATERIALIZED VIEW IF EXISTS agent_tool_usage_1d;
+DROP MATERIALIZED VIEW IF EXISTS agent_tool_usage_1h;
+DROP MATERIALIZED VIEW IF EXISTS agent_tool_usage_5m;
+
+DROP MATERIALIZED VIEW IF EXISTS context7_queries_1d;
+DROP MATERIALIZED VIEW IF EXISTS context7_queries_1h;
+DROP MATERIALIZED VIEW IF EXISTS context7_queries_5m;
+
+-- Policies for the dropped rollups. Re-applying 0004 restores their default
+-- retention jobs, and tiers without a row start from the defaults when the
+-- table's policy is next changed.
+DELETE FROM retention_policies WHERE tier IN ('5m', '1h', '1d');
+
+-- Restore the hourly aggregates of 0002
+CREATE MATERIALIZED VIEW IF NOT EXISTS agent_metrics_hourly
+WITH (timescaledb.continuous) AS
+SELECT
+  time_bucket('1 hour', timestamp) as bucket,
+  agent_type,
+  AVG(response_time) as avg_response_time,
+  AVG(task_completion_rate) as avg_completion_rate,
+  AVG(error_rate) as avg_error_rate,
+  COUNT(*) as metric_count
+FROM agent_metrics
+GROUP BY bucket, agent_type;
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS core_web_vitals_hourly
+WITH (timescaledb.continuous) AS
+SELECT
+  time_bucket('1 hour', timestamp) as bucket,
+  url,
+  AVG(lcp) as avg_lcp,
+  AVG(fid) as avg_fid,
+  AVG(cls) as avg_cls,
+  AVG(performance_score) as avg_performance_score,
+  COUNT(*) as page_view_count
+FROM core_web_vitals
+GROUP BY bucket, url;
+
+-- Enable continuous aggregation refresh policies
+SELECT add_continuous_aggregate_policy('agent_metrics_hourly',
+  start_offset => INTERVAL '1 hour',
+  end_offset => INTERVAL '0 minutes',
+  schedule_interval => INTERVAL '10 minutes',
+  if_not_exists => TRUE
+);
+
+SELECT add_continuous_aggregate_policy('core_web_vitals_hourly',
+  start_offset => INTERVAL '1 hour',
+  end_offset => INTERVAL '0 minutes',
+  schedule_interval => INTERVAL '10 minutes',
+  if_not_exists => TRUE
+);
@@ -0,0 +1,542 @@
+-- migrate:no-transaction
+-- Continuous aggregates cannot be created inside a transaction block.
+--
+-- Replaces the hourly aggregates with 5 minute, hourly and daily rollups of
+-- every table in TABLE_ROLLUPS (collector/src/metric-catalog.ts). Each
+-- bucket keeps <column>_avg, _min, _max and _count for the table's metric
+-- columns. Real-time aggregation is on, so buckets newer than the last
+-- refresh are computed from the raw rows when queried.
+--
+-- Refreshes only reach back 3 days, so rows deleted from a raw table by its
+-- retention policy stay in the rollups. Retention is then managed through
+-- retention_policies; the values below match the defaults seeded by 0003.
+
+DROP MATERIALIZED VIEW IF EXISTS agent_metrics_hourly;
+DROP MATERIALIZED VIEW IF EXISTS core_web_vitals_hourly;
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS agent_metrics_5m
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('5 minutes', timestamp) AS bucket,
+  agent_type,
+  AVG(response_time) AS response_time_avg,
+  MIN(response_time) AS response_time_min,
+  MAX(response_time) AS response_time_max,
+  COUNT(response_time) AS response_time_count,
+  AVG(task_completion_rate) AS task_completion_rate_avg,
+  MIN(task_completion_rate) AS task_completion_rate_min,
+  MAX(task_completion_rate) AS task_completion_rate_max,
+  COUNT(task_completion_rate) AS task_completion_rate_count,
+  AVG(error_rate) AS error_rate_avg,
+  MIN(error_rate) AS error_rate_min,
+  MAX(error_rate) AS error_rate_max,
+  COUNT(error_rate) AS error_rate_count,
+  AVG(active_tasks) AS active_tasks_avg,
+  MIN(active_tasks) AS active_tasks_min,
+  MAX(active_tasks) AS active_tasks_max,
+  COUNT(active_tasks) AS active_tasks_count,
+  AVG(completed_tasks) AS completed_tasks_avg,
+  MIN(completed_tasks) AS completed_tasks_min,
+  MAX(completed_tasks) AS completed_tasks_max,
+  COUNT(completed_tasks) AS completed_tasks_count,
+  AVG(failed_tasks) AS failed_tasks_avg,
+  MIN(failed_tasks) AS failed_tasks_min,
+  MAX(failed_tasks) AS failed_tasks_max,
+  COUNT(failed_tasks) AS failed_tasks_count,
+  AVG(context7_queries_avg_time) AS context7_queries_avg_time_avg,
+  MIN(context7_queries_avg_time) AS context7_queries_avg_time_min,
+  MAX(context7_queries_avg_time) AS context7_queries_avg_time_max,
+  COUNT(context7_queries_avg_time) AS context7_queries_avg_time_count,
+  AVG(avg_handoff_time) AS avg_handoff_time_avg,
+  MIN(avg_handoff_time) AS avg_handoff_time_min,
+  MAX(avg_handoff_time) AS avg_handoff_time_max,
+  COUNT(avg_handoff_time) AS avg_handoff_time_count
+FROM agent_metrics
+GROUP BY bucket, agent_type;
+
+SELECT add_continuous_aggregate_policy('agent_metrics_5m',
+  start_offset => INTERVAL '1 hour',
+  end_offset => INTERVAL '5 minutes',
+  schedule_interval => INTERVAL '5 minutes',
+  if_not_exists => TRUE
+);
+
+SELECT add_retention_policy('agent_metrics_5m', INTERVAL '180 days', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS agent_metrics_1h
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('1 hour', timestamp) AS bucket,
+  agent_type,
+  AVG(response_time) AS response_time_avg,
+  MIN(response_time) AS response_time_min,
+  MAX(response_time) AS response_time_max,
+  COUNT(response_time) AS response_time_count,
+  AVG(task_completion_rate) AS task_completion_rate_avg,
+  MIN(task_completion_rate) AS task_completion_rate_min,
+  MAX(task_completion_rate) AS task_completion_rate_max,
+  COUNT(task_completion_rate) AS task_completion_rate_count,
+  AVG(error_rate) AS error_rate_avg,
+  MIN(error_rate) AS error_rate_min,
+  MAX(error_rate) AS error_rate_max,
+  COUNT(error_rate) AS error_rate_count,
+  AVG(active_tasks) AS active_tasks_avg,
+  MIN(active_tasks) AS active_tasks_min,
+  MAX(active_tasks) AS active_tasks_max,
+  COUNT(active_tasks) AS active_tasks_count,
+  AVG(completed_tasks) AS completed_tasks_avg,
+  MIN(completed_tasks) AS completed_tasks_min,
+  MAX(completed_tasks) AS completed_tasks_max,
+  COUNT(completed_tasks) AS completed_tasks_count,
+  AVG(failed_tasks) AS failed_tasks_avg,
+  MIN(failed_tasks) AS failed_tasks_min,
+  MAX(failed_tasks) AS failed_tasks_max,
+  COUNT(failed_tasks) AS failed_tasks_count,
+  AVG(context7_queries_avg_time) AS context7_queries_avg_time_avg,
+  MIN(context7_queries_avg_time) AS context7_queries_avg_time_min,
+  MAX(context7_queries_avg_time) AS context7_queries_avg_time_max,
+  COUNT(context7_queries_avg_time) AS context7_queries_avg_time_count,
+  AVG(avg_handoff_time) AS avg_handoff_time_avg,
+  MIN(avg_handoff_time) AS avg_handoff_time_min,
+  MAX(avg_handoff_time) AS avg_handoff_time_max,
+  COUNT(avg_handoff_time) AS avg_handoff_time_count
+FROM agent_metrics
+GROUP BY bucket, agent_type;
+
+SELECT add_continuous_aggregate_policy('agent_metrics_1h',
+  start_offset => INTERVAL '6 hours',
+  end_offset => INTERVAL '1 hour',
+  schedule_interval => INTERVAL '30 minutes',
+  if_not_exists => TRUE
+);
+
+SELECT add_retention_policy('agent_metrics_1h', INTERVAL '730 days', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS agent_metrics_1d
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('1 day', timestamp) AS bucket,
+  agent_type,
+  AVG(response_time) AS response_time_avg,
+  MIN(response_time) AS response_time_min,
+  MAX(response_time) AS response_time_max,
+  COUNT(response_time) AS response_time_count,
+  AVG(task_completion_rate) AS task_completion_rate_avg,
+  MIN(task_completion_rate) AS task_completion_rate_min,
+  MAX(task_completion_rate) AS task_completion_rate_max,
+  COUNT(task_completion_rate) AS task_completion_rate_count,
+  AVG(error_rate) AS error_rate_avg,
+  MIN(error_rate) AS error_rate_min,
+  MAX(error_rate) AS error_rate_max,
+  COUNT(error_rate) AS error_rate_count,
+  AVG(active_tasks) AS active_tasks_avg,
+  MIN(active_tasks) AS active_tasks_min,
+  MAX(active_tasks) AS active_tasks_max,
+  COUNT(active_tasks) AS active_tasks_count,
+  AVG(completed_tasks) AS completed_tasks_avg,
+  MIN(completed_tasks) AS completed_tasks_min,
+  MAX(completed_tasks) AS completed_tasks_max,
+  COUNT(completed_tasks) AS completed_tasks_count,
+  AVG(failed_tasks) AS failed_tasks_avg,
+  MIN(failed_tasks) AS failed_tasks_min,
+  MAX(failed_tasks) AS failed_tasks_max,
+  COUNT(failed_tasks) AS failed_tasks_count,
+  AVG(context7_queries_avg_time) AS context7_queries_avg_time_avg,
+  MIN(context7_queries_avg_time) AS context7_queries_avg_time_min,
+  MAX(context7_queries_avg_time) AS context7_queries_avg_time_max,
+  COUNT(context7_queries_avg_time) AS context7_queries_avg_time_count,
+  AVG(avg_handoff_time) AS avg_handoff_time_avg,
+  MIN(avg_handoff_time) AS avg_handoff_time_min,
+  MAX(avg_handoff_time) AS avg_handoff_time_max,
+  COUNT(avg_handoff_time) AS avg_handoff_time_count
+FROM agent_metrics
+GROUP BY bucket, agent_type;
+
+SELECT add_continuous_aggregate_policy('agent_metrics_1d',
+  start_offset => INTERVAL '3 days',
+  end_offset => INTERVAL '1 day',
+  schedule_interval => INTERVAL '1 hour',
+  if_not_exists => TRUE
+);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS core_web_vitals_5m
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('5 minutes', timestamp) AS bucket,
+  url,
+  AVG(lcp) AS lcp_avg,
+  MIN(lcp) AS lcp_min,
+  MAX(lcp) AS lcp_max,
+  COUNT(lcp) AS lcp_count,
+  AVG(fid) AS fid_avg,
+  MIN(fid) AS fid_min,
+  MAX(fid) AS fid_max,
+  COUNT(fid) AS fid_count,
+  AVG(cls) AS cls_avg,
+  MIN(cls) AS cls_min,
+  MAX(cls) AS cls_max,
+  COUNT(cls) AS cls_count,
+  AVG(fcp) AS fcp_avg,
+  MIN(fcp) AS fcp_min,
+  MAX(fcp) AS fcp_max,
+  COUNT(fcp) AS fcp_count,
+  AVG(tti) AS tti_avg,
+  MIN(tti) AS tti_min,
+  MAX(tti) AS tti_max,
+  COUNT(tti) AS tti_count,
+  AVG(performance_score) AS performance_score_avg,
+  MIN(performance_score) AS performance_score_min,
+  MAX(performance_score) AS performance_score_max,
+  COUNT(performance_score) AS performance_score_count
+FROM core_web_vitals
+GROUP BY bucket, url;
+
+SELECT add_continuous_aggregate_policy('core_web_vitals_5m',
+  start_offset => INTERVAL '1 hour',
+  end_offset => INTERVAL '5 minutes',
+  schedule_interval => INTERVAL '5 minutes',
+  if_not_exists => TRUE
+);
+
+SELECT add_retention_policy('core_web_vitals_5m', INTERVAL '180 days', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS core_web_vitals_1h
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('1 hour', timestamp) AS bucket,
+  url,
+  AVG(lcp) AS lcp_avg,
+  MIN(lcp) AS lcp_min,
+  MAX(lcp) AS lcp_max,
+  COUNT(lcp) AS lcp_count,
+  AVG(fid) AS fid_avg,
+  MIN(fid) AS fid_min,
+  MAX(fid) AS fid_max,
+  COUNT(fid) AS fid_count,
+  AVG(cls) AS cls_avg,
+  MIN(cls) AS cls_min,
+  MAX(cls) AS cls_max,
+  COUNT(cls) AS cls_count,
+  AVG(fcp) AS fcp_avg,
+  MIN(fcp) AS fcp_min,
+  MAX(fcp) AS fcp_max,
+  COUNT(fcp) AS fcp_count,
+  AVG(tti) AS tti_avg,
+  MIN(tti) AS tti_min,
+  MAX(tti) AS tti_max,
+  COUNT(tti) AS tti_count,
+  AVG(performance_score) AS performance_score_avg,
+  MIN(performance_score) AS performance_score_min,
+  MAX(performance_score) AS performance_score_max,
+  COUNT(performance_score) AS performance_score_count
+FROM core_web_vitals
+GROUP BY bucket, url;
+
+SELECT add_continuous_aggregate_policy('core_web_vitals_1h',
+  start_offset => INTERVAL '6 hours',
+  end_offset => INTERVAL '1 hour',
+  schedule_interval => INTERVAL '30 minutes',
+  if_not_exists => TRUE
+);
+
+SELECT add_retention_policy('core_web_vitals_1h', INTERVAL '730 days', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS core_web_vitals_1d
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('1 day', timestamp) AS bucket,
+  url,
+  AVG(lcp) AS lcp_avg,
+  MIN(lcp) AS lcp_min,
+  MAX(lcp) AS lcp_max,
+  COUNT(lcp) AS lcp_count,
+  AVG(fid) AS fid_avg,
+  MIN(fid) AS fid_min,
+  MAX(fid) AS fid_max,
+  COUNT(fid) AS fid_count,
+  AVG(cls) AS cls_avg,
+  MIN(cls) AS cls_min,
+  MAX(cls) AS cls_max,
+  COUNT(cls) AS cls_count,
+  AVG(fcp) AS fcp_avg,
+  MIN(fcp) AS fcp_min,
+  MAX(fcp) AS fcp_max,
+  COUNT(fcp) AS fcp_count,
+  AVG(tti) AS tti_avg,
+  MIN(tti) AS tti_min,
+  MAX(tti) AS tti_max,
+  COUNT(tti) AS tti_count,
+  AVG(performance_score) AS performance_score_avg,
+  MIN(performance_score) AS performance_score_min,
+  MAX(performance_score) AS performance_score_max,
+  COUNT(performance_score) AS performance_score_count
+FROM core_web_vitals
+GROUP BY bucket, url;
+
+SELECT add_continuous_aggregate_policy('core_web_vitals_1d',
+  start_offset => INTERVAL '3 days',
+  end_offset => INTERVAL '1 day',
+  schedule_interval => INTERVAL '1 hour',
+  if_not_exists => TRUE
+);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS app_metrics_5m
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('5 minutes', timestamp) AS bucket,
+  url,
+  AVG(js_execution_time) AS js_execution_time_avg,
+  MIN(js_execution_time) AS js_execution_time_min,
+  MAX(js_execution_time) AS js_execution_time_max,
+  COUNT(js_execution_time) AS js_execution_time_count,
+  AVG(js_main_thread_blocking) AS js_main_thread_blocking_avg,
+  MIN(js_main_thread_blocking) AS js_main_thread_blocking_min,
+  MAX(js_main_thread_blocking) AS js_main_thread_blocking_max,
+  COUNT(js_main_thread_blocking) AS js_main_thread_blocking_count,
+  AVG(bundle_total_size) AS bundle_total_size_avg,
+  MIN(bundle_total_size) AS bundle_total_size_min,
+  MAX(bundle_total_size) AS bundle_total_size_max,
+  COUNT(bundle_total_size) AS bundle_total_size_count,
+  AVG(render_load_complete) AS render_load_complete_avg,
+  MIN(render_load_complete) AS render_load_complete_min,
+  MAX(render_load_complete) AS render_load_complete_max,
+  COUNT(render_load_complete) AS render_load_complete_count,
+  AVG(render_fps) AS render_fps_avg,
+  MIN(render_fps) AS render_fps_min,
+  MAX(render_fps) AS render_fps_max,
+  COUNT(render_fps) AS render_fps_count,
+  AVG(mem_used) AS mem_used_avg,
+  MIN(mem_used) AS mem_used_min,
+  MAX(mem_used) AS mem_used_max,
+  COUNT(mem_used) AS mem_used_count
+FROM app_metrics
+GROUP BY bucket, url;
+
+SELECT add_continuous_aggregate_policy('app_metrics_5m',
+  start_offset => INTERVAL '1 hour',
+  end_offset => INTERVAL '5 minutes',
+  schedule_interval => INTERVAL '5 minutes',
+  if_not_exists => TRUE
+);
+
+SELECT add_retention_policy('app_metrics_5m', INTERVAL '180 days', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS app_metrics_1h
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('1 hour', timestamp) AS bucket,
+  url,
+  AVG(js_execution_time) AS js_execution_time_avg,
+  MIN(js_execution_time) AS js_execution_time_min,
+  MAX(js_execution_time) AS js_execution_time_max,
+  COUNT(js_execution_time) AS js_execution_time_count,
+  AVG(js_main_thread_blocking) AS js_main_thread_blocking_avg,
+  MIN(js_main_thread_blocking) AS js_main_thread_blocking_min,
+  MAX(js_main_thread_blocking) AS js_main_thread_blocking_max,
+  COUNT(js_main_thread_blocking) AS js_main_thread_blocking_count,
+  AVG(bundle_total_size) AS bundle_total_size_avg,
+  MIN(bundle_total_size) AS bundle_total_size_min,
+  MAX(bundle_total_size) AS bundle_total_size_max,
+  COUNT(bundle_total_size) AS bundle_total_size_count,
+  AVG(render_load_complete) AS render_load_complete_avg,
+  MIN(render_load_complete) AS render_load_complete_min,
+  MAX(render_load_complete) AS render_load_complete_max,
+  COUNT(render_load_complete) AS render_load_complete_count,
+  AVG(render_fps) AS render_fps_avg,
+  MIN(render_fps) AS render_fps_min,
+  MAX(render_fps) AS render_fps_max,
+  COUNT(render_fps) AS render_fps_count,
+  AVG(mem_used) AS mem_used_avg,
+  MIN(mem_used) AS mem_used_min,
+  MAX(mem_used) AS mem_used_max,
+  COUNT(mem_used) AS mem_used_count
+FROM app_metrics
+GROUP BY bucket, url;
+
+SELECT add_continuous_aggregate_policy('app_metrics_1h',
+  start_offset => INTERVAL '6 hours',
+  end_offset => INTERVAL '1 hour',
+  schedule_interval => INTERVAL '30 minutes',
+  if_not_exists => TRUE
+);
+
+SELECT add_retention_policy('app_metrics_1h', INTERVAL '730 days', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS app_metrics_1d
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('1 day', timestamp) AS bucket,
+  url,
+  AVG(js_execution_time) AS js_execution_time_avg,
+  MIN(js_execution_time) AS js_execution_time_min,
+  MAX(js_execution_time) AS js_execution_time_max,
+  COUNT(js_execution_time) AS js_execution_time_count,
+  AVG(js_main_thread_blocking) AS js_main_thread_blocking_avg,
+  MIN(js_main_thread_blocking) AS js_main_thread_blocking_min,
+  MAX(js_main_thread_blocking) AS js_main_thread_blocking_max,
+  COUNT(js_main_thread_blocking) AS js_main_thread_blocking_count,
+  AVG(bundle_total_size) AS bundle_total_size_avg,
+  MIN(bundle_total_size) AS bundle_total_size_min,
+  MAX(bundle_total_size) AS bundle_total_size_max,
+  COUNT(bundle_total_size) AS bundle_total_size_count,
+  AVG(render_load_complete) AS render_load_complete_avg,
+  MIN(render_load_complete) AS render_load_complete_min,
+  MAX(render_load_complete) AS render_load_complete_max,
+  COUNT(render_load_complete) AS render_load_complete_count,
+  AVG(render_fps) AS render_fps_avg,
+  MIN(render_fps) AS render_fps_min,
+  MAX(render_fps) AS render_fps_max,
+  COUNT(render_fps) AS render_fps_count,
+  AVG(mem_used) AS mem_used_avg,
+  MIN(mem_used) AS mem_used_min,
+  MAX(mem_used) AS mem_used_max,
+  COUNT(mem_used) AS mem_used_count
+FROM app_metrics
+GROUP BY bucket, url;
+
+SELECT add_continuous_aggregate_policy('app_metrics_1d',
+  start_offset => INTERVAL '3 days',
+  end_offset => INTERVAL '1 day',
+  schedule_interval => INTERVAL '1 hour',
+  if_not_exists => TRUE
+);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS agent_tool_usage_5m
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('5 minutes', timestamp) AS bucket,
+  agent_type,
+  tool_name,
+  AVG(count) AS count_avg,
+  MIN(count) AS count_min,
+  MAX(count) AS count_max,
+  COUNT(count) AS count_count,
+  AVG(execution_time) AS execution_time_avg,
+  MIN(execution_time) AS execution_time_min,
+  MAX(execution_time) AS execution_time_max,
+  COUNT(execution_time) AS execution_time_count
+FROM agent_tool_usage
+GROUP BY bucket, agent_type, tool_name;
+
+SELECT add_continuous_aggregate_policy('agent_tool_usage_5m',
+  start_offset => INTERVAL '1 hour',
+  end_offset => INTERVAL '5 minutes',
+  schedule_interval => INTERVAL '5 minutes',
+  if_not_exists => TRUE
+);
+
+SELECT add_retention_policy('agent_tool_usage_5m', INTERVAL '180 days', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS agent_tool_usage_1h
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('1 hour', timestamp) AS bucket,
+  agent_type,
+  tool_name,
+  AVG(count) AS count_avg,
+  MIN(count) AS count_min,
+  MAX(count) AS count_max,
+  COUNT(count) AS count_count,
+  AVG(execution_time) AS execution_time_avg,
+  MIN(execution_time) AS execution_time_min,
+  MAX(execution_time) AS execution_time_max,
+  COUNT(execution_time) AS execution_time_count
+FROM agent_tool_usage
+GROUP BY bucket, agent_type, tool_name;
+
+SELECT add_continuous_aggregate_policy('agent_tool_usage_1h',
+  start_offset => INTERVAL '6 hours',
+  end_offset => INTERVAL '1 hour',
+  schedule_interval => INTERVAL '30 minutes',
+  if_not_exists => TRUE
+);
+
+SELECT add_retention_policy('agent_tool_usage_1h', INTERVAL '730 days', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS agent_tool_usage_1d
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('1 day', timestamp) AS bucket,
+  agent_type,
+  tool_name,
+  AVG(count) AS count_avg,
+  MIN(count) AS count_min,
+  MAX(count) AS count_max,
+  COUNT(count) AS count_count,
+  AVG(execution_time) AS execution_time_avg,
+  MIN(execution_time) AS execution_time_min,
+  MAX(execution_time) AS execution_time_max,
+  COUNT(execution_time) AS execution_time_count
+FROM agent_tool_usage
+GROUP BY bucket, agent_type, tool_name;
+
+SELECT add_continuous_aggregate_policy('agent_tool_usage_1d',
+  start_offset => INTERVAL '3 days',
+  end_offset => INTERVAL '1 day',
+  schedule_interval => INTERVAL '1 hour',
+  if_not_exists => TRUE
+);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS context7_queries_5m
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('5 minutes', timestamp) AS bucket,
+  agent_type,
+  library,
+  AVG(response_time) AS response_time_avg,
+  MIN(response_time) AS response_time_min,
+  MAX(response_time) AS response_time_max,
+  COUNT(response_time) AS response_time_count
+FROM context7_queries
+GROUP BY bucket, agent_type, library;
+
+SELECT add_continuous_aggregate_policy('context7_queries_5m',
+  start_offset => INTERVAL '1 hour',
+  end_offset => INTERVAL '5 minutes',
+  schedule_interval => INTERVAL '5 minutes',
+  if_not_exists => TRUE
+);
+
+SELECT add_retention_policy('context7_queries_5m', INTERVAL '180 days', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS context7_queries_1h
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('1 hour', timestamp) AS bucket,
+  agent_type,
+  library,
+  AVG(response_time) AS response_time_avg,
+  MIN(response_time) AS response_time_min,
+  MAX(response_time) AS response_time_max,
+  COUNT(response_time) AS response_time_count
+FROM context7_queries
+GROUP BY bucket, agent_type, library;
+
+SELECT add_continuous_aggregate_policy('context7_queries_1h',
+  start_offset => INTERVAL '6 hours',
+  end_offset => INTERVAL '1 hour',
+  schedule_interval => INTERVAL '30 minutes',
+  if_not_exists => TRUE
+);
+
+SELECT add_retention_policy('context7_queries_1h', INTERVAL '730 days', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS context7_queries_1d
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  time_bucket('1 day', timestamp) AS bucket,
+  agent_type,
+  library,
+  AVG(response_time) AS response_time_avg,
+  MIN(response_time) AS response_time_min,
+  MAX(response_time) AS response_time_max,
+  COUNT(response_time) AS response_time_count
+FROM context7_queries
+GROUP BY bucket, agent_type, library;
+
+SELECT add_continuous_aggregate_policy('context7_queries_1d',
+  start_offset => INTERVAL '3 days',
+  end_offset => INTERVAL '1 day',
+  schedule_interval => INTERVAL '1 hour',
+  if_not_exists => TRUE
+);
@@ -0,0 +1,60 @@
+import path from 'path';
+import { loadMigrations, splitStatements } from './migrate';
+
+describe('splitStatements', () => {
+  it('splits on top-level semicolons and drops empty statements', () => {
+    expect(splitStatements('SELECT 1;\n\nSELECT 2;\n;  ')).toEqual(['SELECT 1', 'SELECT 2']);
+  });
+
+  it('keeps the last statement without a semicolon', () => {
+    expect(splitStatements('SELECT 1; SELECT 2')).toEqual(['SELECT 1', 'SELECT 2']);
+  });
+
+  it('ignores semicolons in comments, strings and quoted identifiers', () => {
+    const sql = [
+      "-- one; two",
+      "INSERT INTO t (\"a;b\") VALUES ('x;y');",
+      "/* block; comment */ SELECT 'it''s; fine';"
+    ].join('\n');
+
+    expect(splitStatements(sql)).toEqual([
+      "-- one; two\nINSERT INTO t (\"a;b\") VALUES ('x;y')",
+      "/* block; comment */ SELECT 'it''s; fine'"
+    ]);
+  });
+
+  it('keeps dollar-quoted bodies whole', () => {
+    const sql = `CREATE FUNCTION f() RETURNS void AS $body$
+BEGIN
+  PERFORM 1;
+  PERFORM $$nested;$$;
+END;
+$body$ LANGUAGE plpgsql;
+SELECT f();`;
+
+    const statements = splitStatements(sql);
+    expect(statements).toHaveLength(2);
+    expect(statements[0]).toMatch(/^CREATE FUNCTION[\s\S]*\$body\$ LANGUAGE plpgsql$/);
+    expect(statements[1]).toBe('SELECT f()');
+  });
+
+  it('drops statements that are only comments', () => {
+    expect(splitStatements('SELECT 1;\n-- migrate:no-transaction\n/* trailing */')).toEqual(['SELECT 1']);
+  });
+});
+
+describe('loadMigrations', () => {
+  it('pairs up and down scripts in version order', async () => {
+    const migrations = await loadMigrations(path.join(__dirname, '..', 'migrations'));
+
+    expect(migrations.map(migration => migration.version)).toEqual(
+      [...migrations.map(migration => migration.version)].sort((a, b) => a - b)
+    );
+    for (const migration of migrations) {
+      expect(migration.down).not.toBeNull();
+      expect(migration.checksum).toMatch(/^[0-9a-f]{64}$/);
+    }
+    // Continuous aggregates cannot be created in a transaction
+    expect(migrations.find(migration => migration.name === 'rollup_tiers')?.up.transactional).toBe(false);
+  });
+});
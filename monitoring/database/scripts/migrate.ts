@@ -1,93 +1,646 @@
-import { Pool } from 'pg';
+/**
+ * Database Migrations
+ * Applies the numbered migrations in database/migrations and records each
+ * one, with a checksum of its up script, in schema_migrations.
+ *
+ *   migrate [up] [--to <version>] [--dry-run]
+ *   migrate down [--steps <n> | --to <version>] [--dry-run]
+ *   migrate status
+ *   migrate create <name>
+ *   migrate retention [--dry-run]
+ *
+ * Migrations are NNNN_name.up.sql with an optional NNNN_name.down.sql. Each
+ * script runs in a transaction together with its schema_migrations update,
+ * unless it has a "-- migrate:no-transaction" line (TimescaleDB cannot create
+ * continuous aggregates inside one); those run statement by statement and are
+ * only recorded once every statement has succeeded.
+ *
+ * The migrator also applies retention policies (see applyRetentionPolicies),
+ * for this CLI and for the collector's retention API.
+ */
+
+import { Pool, PoolClient, PoolConfig } from 'pg';
+import { createHash } from 'crypto';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { RetentionPolicy, StorageTier } from '@types/monitoring';
 
 const logger = {
   info: (msg: string) => console.log(`[INFO] ${msg}`),
+  warn: (msg: string) => console.warn(`[WARN] ${msg}`),
   error: (msg: string, err?: any) => console.error(`[ERROR] ${msg}`, err || '')
 };
 
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+const MIGRATION_FILE = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+const NO_TRANSACTION = /^--\s*migrate:no-transaction\s*$/m;
+// Held while migrating so two deploys cannot apply the same migration
+const MIGRATION_LOCK_KEY = 74100;
+
+const SCHEMA_MIGRATIONS = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    checksum CHAR(64) NOT NULL,
+    execution_time_ms INTEGER NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )
+`;
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export interface MigrationScript {
+  file: string;
+  sql: string;
+  transactional: boolean;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: MigrationScript;
+  down: MigrationScript | null;
+  /** SHA-256 of the up script */
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  /** changed: applied, but the up script has been edited since; missing: applied, but no file */
+  state: 'applied' | 'pending' | 'changed' | 'missing';
+  appliedAt?: Date;
+}
+
+export interface MigratorOptions {
+  migrationsDir?: string;
+  /** Print the SQL that would run instead of running it (applyRetentionPolicies returns it) */
+  dryRun?: boolean;
+}
+
+function connectionConfig(database: string): PoolConfig {
+  return {
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5432'),
+    database,
+    user: process.env.DB_USER || 'postgres',
+    password: process.env.DB_PASSWORD || 'postgres',
+  };
+}
+
+function label(migration: { version: number; name: string }): string {
+  return `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+}
+
+function checksum(sql: string): string {
+  // Line endings depend on the checkout, not on the migration
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+function literal(value: string | number): string {
+  return typeof value === 'number' ? String(value) : `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Splits a script into statements on top-level semicolons, skipping over
+ * comments, quoted strings and identifiers, and dollar-quoted bodies
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  const dollarTag = /\$[A-Za-z_]*\$/y;
+  let start = 0;
+  let i = 0;
+
+  const skipTo = (terminator: string, from: number) => {
+    const end = sql.indexOf(terminator, from);
+    return end === -1 ? sql.length : end + terminator.length;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    dollarTag.lastIndex = i;
+
+    if (char === '-' && sql[i + 1] === '-') {
+      i = skipTo('\n', i);
+    } else if (char === '/' && sql[i + 1] === '*') {
+      i = skipTo('*/', i + 2);
+    } else if (char === "'" || char === '"') {
+      i = skipTo(char, i + 1);
+    } else if (char === '$' && dollarTag.test(sql)) {
+      const tag = sql.slice(i, dollarTag.lastIndex);
+      i = skipTo(tag, dollarTag.lastIndex);
+    } else if (char === ';') {
+      statements.push(sql.slice(start, i));
+      start = ++i;
+    } else {
+      i++;
+    }
+  }
+  statements.push(sql.slice(start));
+
+  return statements
+    .map(statement => statement.trim())
+    .filter(statement => statement.replace(/--[^\n]*/g, '').replace(/\/\*[\s\S]*?\*\//g, '').trim() !== '');
+}
+
+export async function loadMigrations(dir: string = MIGRATIONS_DIR): Promise<Migration[]> {
+  const files = (await fs.readdir(dir)).filter(file => file.endsWith('.sql')).sort();
+  const scripts = new Map<number, { name: string; up?: MigrationScript; down?: MigrationScript }>();
+
+  for (const file of files) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      throw new MigrationError(`${file} is not named NNNN_name.up.sql or NNNN_name.down.sql`);
+    }
+
+    const [, version, name, direction] = match;
+    const entry = scripts.get(Number(version)) ?? { name };
+    if (entry.name !== name) {
+      throw new MigrationError(`Version ${version} is used by both ${entry.name} and ${name}`);
+    }
+
+    const sql = await fs.readFile(path.join(dir, file), 'utf-8');
+    entry[direction as 'up' | 'down'] = { file, sql, transactional: !NO_TRANSACTION.test(sql) };
+    scripts.set(Number(version), entry);
+  }
+
+  return [...scripts.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, { name, up, down }]) => {
+      if (!up) {
+        throw new MigrationError(`${label({ version, name })} has a down script but no up script`);
+      }
+      return { version, name, up, down: down ?? null, checksum: checksum(up.sql) };
+    });
+}
+
 export class DatabaseMigrator {
   private pool: Pool;
+  private dbName: string;
+  private migrationsDir: string;
+  private dryRun: boolean;
 
-  constructor() {
-    this.pool = new Pool({
-      host: process.env.DB_HOST || 'localhost',
-      port: parseInt(process.env.DB_PORT || '5432'),
-      database: process.env.DB_NAME || 'postgres',
-      user: process.env.DB_USER || 'postgres',
-      password: process.env.DB_PASSWORD || 'postgres',
-    });
+  constructor(options: MigratorOptions = {}) {
+    this.dbName = process.env.DB_NAME || 'frontend_design_monitoring';
+    this.pool = new Pool(connectionConfig(this.dbName));
+    this.migrationsDir = options.migrationsDir ?? MIGRATIONS_DIR;
+    this.dryRun = options.dryRun ?? false;
   }
 
   async createDatabase(): Promise<void> {
-    try {
-      const dbName = process.env.DB_NAME || 'frontend_design_monitoring';
+    // CREATE DATABASE has to be issued from another database
+    const pool = new Pool(connectionConfig('postgres'));
 
-      // Check if database exists
-      const result = await this.pool.query(
+    try {
+      const result = await pool.query(
         'SELECT 1 FROM pg_database WHERE datname = $1',
-        [dbName]
+        [this.dbName]
       );
 
       if (result.rows.length === 0) {
-        logger.info(`Creating database: ${dbName}`);
-        await this.pool.query(`CREATE DATABASE ${dbName}`);
-        logger.info('Database created successfully');
+        this.info(`Creating database: ${this.dbName}`);
+        await this.execute(pool, `CREATE DATABASE ${this.dbName}`);
       } else {
-        logger.info(`Database ${dbName} already exists`);
+        this.info(`Database ${this.dbName} already exists`);
       }
     } catch (error) {
       logger.error('Failed to create database', error);
       throw error;
+    } finally {
+      await pool.end();
     }
   }
 
-  async runMigrations(): Promise<void> {
-    try {
-      // Connect to the target database
-      const dbName = process.env.DB_NAME || 'frontend_design_monitoring';
-      const pool = new Pool({
-        host: process.env.DB_HOST || 'localhost',
-        port: parseInt(process.env.DB_PORT || '5432'),
-        database: dbName,
-        user: process.env.DB_USER || 'postgres',
-        password: process.env.DB_PASSWORD || 'postgres',
-      });
-
-      // Read and execute schema file
-      const schemaPath = path.join(__dirname, 'schema.sql');
-      const schema = await fs.readFile(schemaPath, 'utf-8');
-
-      logger.info('Running database migrations...');
-      await pool.query(schema);
-      logger.info('Migrations completed successfully');
+  /**
+   * Applies pending migrations in version order, up to and including
+   * `target` when given. Returns the migrations applied.
+   */
+  async up(target?: number): Promise<Migration[]> {
+    const migrations = await loadMigrations(this.migrationsDir);
 
-      await pool.end();
-    } catch (error) {
-      logger.error('Failed to run migrations', error);
-      throw error;
+    return this.locked(async client => {
+      const applied = await this.appliedMigrations(client);
+      this.verify(migrations, applied);
+
+      const latest = Math.max(0, ...applied.keys());
+      const pending = migrations.filter(migration =>
+        !applied.has(migration.version) && (target === undefined || migration.version <= target)
+      );
+
+      if (pending.length === 0) {
+        this.info('Database is up to date');
+      }
+
+      for (const migration of pending) {
+        if (migration.version < latest) {
+          logger.warn(`${label(migration)} is older than applied migration ${latest}; applying it out of order`);
+        }
+        this.info(`Applying ${label(migration)}`);
+        await this.run(client, migration.up, [
+          `INSERT INTO schema_migrations (version, name, checksum, execution_time_ms)
+           VALUES (${literal(migration.version)}, ${literal(migration.name)}, ${literal(migration.checksum)}, $elapsed)`
+        ]);
+      }
+
+      return pending;
+    });
+  }
+
+  /**
+   * Reverts the latest `steps` applied migrations, or every applied
+   * migration above `target`. Returns the migrations reverted.
+   */
+  async down(options: { steps?: number; target?: number } = {}): Promise<Migration[]> {
+    const migrations = await loadMigrations(this.migrationsDir);
+    const byVersion = new Map(migrations.map(migration => [migration.version, migration]));
+
+    return this.locked(async client => {
+      const applied = await this.appliedMigrations(client);
+      this.verify(migrations, applied);
+
+      const newestFirst = [...applied.values()].sort((a, b) => b.version - a.version);
+      const reverting = options.target !== undefined
+        ? newestFirst.filter(migration => migration.version > options.target!)
+        : newestFirst.slice(0, options.steps ?? 1);
+
+      if (reverting.length === 0) {
+        this.info('Nothing to revert');
+      }
+
+      const reverted: Migration[] = [];
+      for (const { version, name } of reverting) {
+        const migration = byVersion.get(version);
+        if (!migration) {
+          throw new MigrationError(`${label({ version, name })} is applied but its files are missing`);
+        }
+        if (!migration.down) {
+          throw new MigrationError(`${label(migration)} has no down script`);
+        }
+
+        this.info(`Reverting ${label(migration)}`);
+        await this.run(client, migration.down, [
+          `DELETE FROM schema_migrations WHERE version = ${literal(version)}`
+        ]);
+        reverted.push(migration);
+      }
+
+      return reverted;
+    });
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    const migrations = await loadMigrations(this.migrationsDir);
+    const applied = await this.appliedMigrations(null);
+
+    const statuses: MigrationStatus[] = migrations.map(migration => {
+      const record = applied.get(migration.version);
+      if (!record) {
+        return { version: migration.version, name: migration.name, state: 'pending' };
+      }
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: record.checksum === migration.checksum ? 'applied' : 'changed',
+        appliedAt: record.appliedAt
+      };
+    });
+
+    const known = new Set(migrations.map(migration => migration.version));
+    for (const record of applied.values()) {
+      if (!known.has(record.version)) {
+        statuses.push({ version: record.version, name: record.name, state: 'missing', appliedAt: record.appliedAt });
+      }
     }
+
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Writes empty up and down scripts for the next version and returns
+   * their paths
+   */
+  async create(name: string): Promise<string[]> {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    if (!slug) {
+      throw new MigrationError('Migration name must contain letters or digits');
+    }
+
+    const migrations = await loadMigrations(this.migrationsDir);
+    const version = Math.max(0, ...migrations.map(migration => migration.version)) + 1;
+    const base = path.join(this.migrationsDir, label({ version, name: slug }));
+
+    const files = [`${base}.up.sql`, `${base}.down.sql`];
+    await fs.writeFile(files[0], `-- ${slug}\n\n`, { flag: 'wx' });
+    await fs.writeFile(files[1], `-- Reverts ${slug}\n\n`, { flag: 'wx' });
+    return files;
+  }
+
+  /**
+   * Replaces the TimescaleDB retention job of each table and rollup in
+   * `policies` and stores the policies in retention_policies, in one
+   * transaction. Without `policies`, re-applies the stored ones. Returns the
+   * statements run, or in a dry run the statements that would run.
+   */
+  async applyRetentionPolicies(policies?: RetentionPolicy[]): Promise<string[]> {
+    return this.locked(async client => {
+      const statements = (policies ?? await this.storedRetentionPolicies(client)).flatMap(policy =>
+        Object.entries(policy.retentionDays).flatMap(([tier, days]) => {
+          const relation = tier === 'raw' ? policy.table : `${policy.table}_${tier}`;
+          return [
+            `SELECT remove_retention_policy(${literal(relation)}, if_exists => TRUE)`,
+            ...(days === null ? [] : [`SELECT add_retention_policy(${literal(relation)}, INTERVAL ${literal(`${days} days`)})`]),
+            `INSERT INTO retention_policies (table_name, tier, retention_days)
+             VALUES (${literal(policy.table)}, ${literal(tier)}, ${days === null ? 'NULL' : literal(days)})
+             ON CONFLICT (table_name, tier) DO UPDATE SET retention_days = EXCLUDED.retention_days, updated_at = NOW()`
+          ];
+        })
+      );
+
+      if (!client) {
+        return statements;
+      }
+
+      try {
+        await client.query('BEGIN');
+        for (const statement of statements) {
+          await client.query(statement);
+        }
+        await client.query('COMMIT');
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        throw new MigrationError(`Applying retention policies failed and was rolled back: ${error.message}`);
+      }
+      return statements;
+    });
   }
 
   async close(): Promise<void> {
     await this.pool.end();
   }
+
+  private async storedRetentionPolicies(client: PoolClient | null): Promise<RetentionPolicy[]> {
+    const result = await (client ?? this.pool).query(
+      'SELECT table_name, tier, retention_days FROM retention_policies ORDER BY table_name'
+    );
+
+    const policies = new Map<string, RetentionPolicy>();
+    for (const row of result.rows) {
+      const policy: RetentionPolicy = policies.get(row.table_name) ?? { table: row.table_name, retentionDays: {} };
+      policy.retentionDays[row.tier as StorageTier] = row.retention_days;
+      policies.set(row.table_name, policy);
+    }
+    return [...policies.values()];
+  }
+
+  /**
+   * Runs `work` on one connection holding the migration lock. Dry runs
+   * neither lock nor create schema_migrations, and get no connection.
+   */
+  private async locked<T>(work: (client: PoolClient | null) => Promise<T>): Promise<T> {
+    if (this.dryRun) {
+      return work(null);
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      try {
+        await client.query(SCHEMA_MIGRATIONS);
+        return await work(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  private async appliedMigrations(client: PoolClient | null): Promise<Map<number, AppliedMigration>> {
+    const db = client ?? this.pool;
+    try {
+      const exists = await db.query(`SELECT to_regclass('schema_migrations') IS NOT NULL as exists`);
+      if (!exists.rows[0].exists) {
+        return new Map();
+      }
+
+      const result = await db.query(
+        'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+      );
+      return new Map(result.rows.map(row => [row.version, {
+        version: row.version,
+        name: row.name,
+        checksum: row.checksum,
+        appliedAt: row.applied_at
+      }]));
+    } catch (error: any) {
+      // A dry run before the database is created has everything pending
+      if (this.dryRun && error.code === '3D000') {
+        return new Map();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Refuses to go on when an applied migration has been edited, since the
+   * database no longer matches what the files describe
+   */
+  private verify(migrations: Migration[], applied: Map<number, AppliedMigration>): void {
+    const changed = migrations.filter(migration => {
+      const record = applied.get(migration.version);
+      return record !== undefined && record.checksum !== migration.checksum;
+    });
+
+    if (changed.length > 0) {
+      throw new MigrationError(
+        `Applied migrations have been edited: ${changed.map(label).join(', ')}. ` +
+        'Restore them and add a new migration for the change instead.'
+      );
+    }
+
+    const known = new Set(migrations.map(migration => migration.version));
+    for (const record of applied.values()) {
+      if (!known.has(record.version)) {
+        logger.warn(`${label(record)} is applied but its files are missing`);
+      }
+    }
+  }
+
+  /**
+   * Runs a script and its bookkeeping statements. `$elapsed` in bookkeeping
+   * is replaced with the script's run time in milliseconds.
+   */
+  private async run(client: PoolClient | null, script: MigrationScript, bookkeeping: string[]): Promise<void> {
+    if (!client) {
+      const statements = [
+        ...(script.transactional ? [script.sql.trim()] : splitStatements(script.sql).map(statement => `${statement};`)),
+        ...bookkeeping.map(statement => `${statement.replace('$elapsed', '0')};`)
+      ];
+      console.log(`-- ${script.file}`);
+      console.log((script.transactional ? ['BEGIN;', ...statements, 'COMMIT;'] : statements).join('\n\n') + '\n');
+      return;
+    }
+
+    const started = Date.now();
+    const finish = async () => {
+      for (const statement of bookkeeping) {
+        await client.query(statement.replace('$elapsed', String(Date.now() - started)));
+      }
+    };
+
+    if (script.transactional) {
+      try {
+        await client.query('BEGIN');
+        await client.query(script.sql);
+        await finish();
+        await client.query('COMMIT');
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        throw new MigrationError(`${script.file} failed and was rolled back: ${error.message}`);
+      }
+      return;
+    }
+
+    const statements = splitStatements(script.sql);
+    for (const [index, statement] of statements.entries()) {
+      try {
+        await client.query(statement);
+      } catch (error: any) {
+        throw new MigrationError(
+          `${script.file} failed at statement ${index + 1} of ${statements.length}: ${error.message}. ` +
+          'It runs outside a transaction, so earlier statements remain applied and it was not recorded.'
+        );
+      }
+    }
+    await finish();
+  }
+
+  private async execute(pool: Pool, sql: string): Promise<void> {
+    if (this.dryRun) {
+      console.log(`${sql};\n`);
+      return;
+    }
+    await pool.query(sql);
+  }
+
+  /** In a dry run, progress goes out as SQL comments so the output stays runnable */
+  private info(msg: string): void {
+    if (this.dryRun) {
+      console.log(`-- ${msg}`);
+    } else {
+      logger.info(msg);
+    }
+  }
+}
+
+function parseArgs(argv: string[]): { command: string; args: string[]; flags: Map<string, string | true> } {
+  const args: string[] = [];
+  const flags = new Map<string, string | true>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dry-run') {
+      flags.set(arg, true);
+    } else if (arg.startsWith('--')) {
+      const value = argv[++i];
+      if (value === undefined) {
+        throw new MigrationError(`${arg} needs a value`);
+      }
+      flags.set(arg, value);
+    } else {
+      args.push(arg);
+    }
+  }
+
+  return { command: args.shift() ?? 'up', args, flags };
+}
+
+function integerFlag(flags: Map<string, string | true>, name: string): number | undefined {
+  const value = flags.get(name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new MigrationError(`${name} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+async function main(argv: string[]): Promise<void> {
+  const { command, args, flags } = parseArgs(argv);
+  const migrator = new DatabaseMigrator({ dryRun: flags.has('--dry-run') });
+
+  try {
+    switch (command) {
+      case 'up':
+        await migrator.createDatabase();
+        await migrator.up(integerFlag(flags, '--to'));
+        break;
+
+      case 'down':
+        if (flags.has('--steps') && flags.has('--to')) {
+          throw new MigrationError('Pass either --steps or --to, not both');
+        }
+        await migrator.down({ steps: integerFlag(flags, '--steps'), target: integerFlag(flags, '--to') });
+        break;
+
+      case 'status':
+        for (const status of await migrator.status()) {
+          console.log([
+            String(status.version).padStart(4, '0'),
+            status.name.padEnd(32),
+            status.state.padEnd(8),
+            status.appliedAt?.toISOString() ?? ''
+          ].join('  '));
+        }
+        break;
+
+      case 'create':
+        if (!args[0]) {
+          throw new MigrationError('Usage: migrate create <name>');
+        }
+        for (const file of await migrator.create(args[0])) {
+          logger.info(`Created ${path.relative(process.cwd(), file)}`);
+        }
+        break;
+
+      case 'retention': {
+        const statements = await migrator.applyRetentionPolicies();
+        if (flags.has('--dry-run')) {
+          console.log(statements.map(statement => `${statement};`).join('\n\n'));
+        } else {
+          logger.info(`Applied ${statements.length} retention statements`);
+        }
+        break;
+      }
+
+      default:
+        throw new MigrationError(`Unknown command "${command}", expected up, down, status, create or retention`);
+    }
+  } finally {
+    await migrator.close();
+  }
 }
 
 // Run migrations if executed directly
 if (require.main === module) {
-  const migrator = new DatabaseMigrator();
-
-  migrator.createDatabase()
-    .then(() => migrator.runMigrations())
-    .then(() => migrator.close())
-    .then(() => {
-      logger.info('Migration process completed');
-      process.exit(0);
-    })
+  main(process.argv.slice(2))
+    .then(() => process.exit(0))
     .catch((error) => {
-      logger.error('Migration process failed', error);
+      logger.error('Migration process failed', error instanceof MigrationError ? error.message : error);
       process.exit(1);
     });
 }
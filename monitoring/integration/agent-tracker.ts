@@ -3,48 +3,212 @@
  * Integrates with any agent in the Frontend Design Agent System
  */
 
-import { AgentType, AgentStatus, AgentMetrics, MetricType } from '../types/monitoring';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import {
+  AgentType,
+  AgentStatus,
+  AgentMetrics,
+  AgentTask,
+  MetricType,
+  BatchIngestionResult,
+  TraceContext,
+  TraceSpan
+} from '../types/monitoring';
+
+// Records held while the collector asks us to back off; the oldest go first
+const MAX_PENDING_RECORDS = 1000;
+
+const DEFAULT_RETRY_AFTER_MS = 5000;
+
+// Trace context of the task whose code is running, set by runInTask
+const currentTrace = new AsyncLocalStorage<TraceContext>();
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+/**
+ * W3C traceparent header value for a trace context, for passing it to an
+ * agent in another process
+ */
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-01`;
+}
+
+export function parseTraceparent(traceparent: string): TraceContext | undefined {
+  const match = TRACEPARENT_PATTERN.exec(traceparent.trim());
+  return match ? { traceId: match[1], spanId: match[2] } : undefined;
+}
 
 export class AgentTracker {
   private agentType: AgentType;
   private agentId: string;
   private collectorUrl: string;
-  private taskStartTime: Date | null = null;
+  private apiKey?: string;
+  private activeTasks: Map<string, AgentTask> = new Map();
   private context7QueryStart: Date | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private buffer: Array<{ type: string; data: any }> = [];
+  private maxBufferSize = 0;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private pausedUntil = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(agentType: AgentType, agentId: string, collectorUrl: string = 'http://localhost:3000') {
+  /**
+   * apiKey is an agent scoped ingest key, needed when the collector has
+   * authentication enabled
+   */
+  constructor(agentType: AgentType, agentId: string, collectorUrl: string = 'http://localhost:3000', apiKey?: string) {
     this.agentType = agentType;
     this.agentId = agentId;
     this.collectorUrl = collectorUrl;
+    this.apiKey = apiKey;
   }
 
   /**
-   * Start tracking a new task
+   * Start tracking a new task. Several tasks may run at once; pass the
+   * returned id to endTask.
+   *
+   * The task is a span in the trace of parent, which may be a trace context
+   * or a traceparent string, typically from handoff(). Without a parent it
+   * joins the trace of the task it is started inside (see runInTask), or
+   * starts a new trace.
    */
-  startTask(taskType: string): void {
-    this.taskStartTime = new Date();
+  startTask(taskType: string, metadata: Record<string, any> = {}, parent?: TraceContext | string): string {
+    const parentContext = typeof parent === 'string' ? parseTraceparent(parent) : parent || currentTrace.getStore();
+    const task: AgentTask = {
+      id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      agentType: this.agentType,
+      agentId: this.agentId,
+      taskType,
+      startTime: new Date(),
+      status: 'running',
+      metadata: {
+        ...metadata,
+        traceId: parentContext?.traceId || randomBytes(16).toString('hex'),
+        spanId: randomBytes(8).toString('hex'),
+        ...(parentContext ? { parentSpanId: parentContext.spanId } : {})
+      }
+    };
+
+    this.activeTasks.set(task.id, task);
+    this.sendMetric('agent_task', task);
+
+    return task.id;
   }
 
   /**
-   * End tracking the current task
+   * End tracking a task and return its duration in milliseconds. Accepts the
+   * id from startTask, or a task type to end the oldest running task of
+   * that type.
    */
-  endTask(taskType: string, status: 'completed' | 'failed', error?: string): number {
-    if (!this.taskStartTime) {
-      throw new Error('No active task to end');
+  endTask(taskIdOrType: string, status: 'completed' | 'failed', error?: string): number {
+    const task = this.activeTasks.get(taskIdOrType) ||
+      Array.from(this.activeTasks.values()).find(active => active.taskType === taskIdOrType);
+    if (!task) {
+      throw new Error(`No active task ${taskIdOrType} to end`);
     }
 
-    const duration = Date.now() - this.taskStartTime.getTime();
-    this.taskStartTime = null;
+    const endTime = new Date();
+    const duration = endTime.getTime() - task.startTime.getTime();
+    this.activeTasks.delete(task.id);
+
+    this.sendMetric('agent_task', { ...task, endTime, duration, status, error });
+
+    const { traceId, spanId, parentSpanId, ...attributes } = task.metadata!;
+    const span: TraceSpan = {
+      traceId,
+      spanId,
+      parentSpanId,
+      name: task.taskType,
+      kind: 'task',
+      agentType: this.agentType,
+      agentId: this.agentId,
+      startTime: task.startTime,
+      endTime,
+      duration,
+      status: status === 'failed' ? 'error' : 'ok',
+      error,
+      attributes
+    };
+    this.sendMetric('span', span);
 
     return duration;
   }
 
+  /**
+   * Trace context of a running task, for starting related work under it
+   */
+  getTraceContext(taskId: string): TraceContext | undefined {
+    const metadata = this.activeTasks.get(taskId)?.metadata;
+    return metadata ? { traceId: metadata.traceId, spanId: metadata.spanId } : undefined;
+  }
+
+  /**
+   * Run fn as part of a running task: tasks started inside it, including by
+   * TrackAgentTask methods, become children of the task in its trace
+   */
+  runInTask<T>(taskId: string, fn: () => T): T {
+    const context = this.getTraceContext(taskId);
+    return context ? currentTrace.run(context, fn) : fn();
+  }
+
+  /**
+   * Record handing a running task's work to another agent. Pass the
+   * returned context (or formatTraceparent of it) to the receiving agent's
+   * startTask so its task joins this trace under the handoff.
+   */
+  handoff(taskId: string, toAgentType: AgentType, toAgentId?: string): TraceContext {
+    const task = this.activeTasks.get(taskId);
+    if (!task) {
+      throw new Error(`No active task ${taskId} to hand off`);
+    }
+
+    const now = new Date();
+    const context: TraceContext = { traceId: task.metadata!.traceId, spanId: randomBytes(8).toString('hex') };
+
+    this.sendMetric('agent_handoff', {
+      agentType: this.agentType,
+      agentId: this.agentId,
+      timestamp: now,
+      toAgentType,
+      toAgentId,
+      taskId,
+      traceId: context.traceId
+    });
+    const span: TraceSpan = {
+      ...context,
+      parentSpanId: task.metadata!.spanId,
+      name: `handoff to ${toAgentType}`,
+      kind: 'handoff',
+      agentType: this.agentType,
+      agentId: this.agentId,
+      startTime: now,
+      endTime: now,
+      duration: 0,
+      status: 'ok',
+      attributes: { taskId, toAgentType, ...(toAgentId ? { toAgentId } : {}) }
+    };
+    this.sendMetric('span', span);
+
+    return context;
+  }
+
+  /**
+   * Tasks started and not yet ended
+   */
+  getActiveTasks(): AgentTask[] {
+    return Array.from(this.activeTasks.values());
+  }
+
   /**
    * Track Context7 query
    */
   trackContext7Query(library: string, query: string, responseTime: number, success: boolean): void {
     // This would be sent to the metrics collector
     this.sendMetric('context7_query', {
+      agentType: this.agentType,
+      agentId: this.agentId,
+      timestamp: new Date(),
       library,
       query,
       responseTime,
@@ -57,6 +221,9 @@ export class AgentTracker {
    */
   trackToolUsage(toolName: string, executionTime: number, success: boolean): void {
     this.sendMetric('tool_usage', {
+      agentType: this.agentType,
+      agentId: this.agentId,
+      timestamp: new Date(),
       toolName,
       executionTime,
       success
@@ -114,30 +281,167 @@ export class AgentTracker {
     await this.sendMetric('agent_metrics', agentMetrics);
   }
 
+  /**
+   * Send a heartbeat every intervalSeconds so the collector can tell an idle
+   * agent from one that has stopped; missing heartbeats mark the agent offline
+   */
+  startHeartbeat(intervalSeconds: number = 60): void {
+    this.stopHeartbeat();
+    const beat = () => this.sendMetric('heartbeat', {
+      agentId: this.agentId,
+      agentType: this.agentType,
+      expectedIntervalSeconds: intervalSeconds
+    });
+
+    beat();
+    this.heartbeatTimer = setInterval(beat, intervalSeconds * 1000);
+  }
+
+  stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Buffer metrics and send them to the batch endpoint every flushIntervalMs,
+   * or as soon as maxBufferSize records are waiting
+   */
+  enableBatching(flushIntervalMs: number = 5000, maxBufferSize: number = 100): void {
+    this.disableBatching();
+    this.maxBufferSize = maxBufferSize;
+    this.flushTimer = setInterval(() => this.flush(), flushIntervalMs);
+  }
+
+  disableBatching(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.maxBufferSize = 0;
+    this.flush();
+  }
+
+  /**
+   * Send buffered metrics now. Does nothing while the collector has asked
+   * us to back off; the buffer is sent once the pause is over.
+   */
+  async flush(): Promise<void> {
+    if (this.buffer.length === 0 || this.isPaused()) return;
+
+    const items = this.buffer;
+    this.buffer = [];
+
+    try {
+      const response = await fetch(`${this.collectorUrl}/api/v1/metrics/batch`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({ items })
+      });
+
+      if (this.backOff(response)) {
+        this.bufferRecords(items, true);
+      } else if (response.ok) {
+        const result = await response.json() as BatchIngestionResult;
+        if (result.rejected > 0) {
+          console.error('Collector rejected metrics:', result.results.filter(r => r.status === 'rejected'));
+        }
+      }
+    } catch (error) {
+      console.error('Failed to send metrics:', error);
+    }
+  }
+
   /**
    * Send metrics to collector
    */
   private async sendMetric(type: string, data: any): Promise<void> {
+    // A skipped heartbeat is covered by the next one
+    if (type === 'heartbeat' && this.isPaused()) return;
+
+    if (type !== 'heartbeat' && (this.flushTimer || this.isPaused())) {
+      this.bufferRecords([{ type, data }]);
+      if (this.flushTimer && this.buffer.length >= this.maxBufferSize) {
+        await this.flush();
+      }
+      return;
+    }
+
     try {
       const endpoint = this.getEndpoint(type);
-      await fetch(endpoint, {
+      const response = await fetch(endpoint, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
+        headers: this.getHeaders(),
         body: JSON.stringify(data)
       });
+
+      if (this.backOff(response) && type !== 'heartbeat') {
+        this.bufferRecords([{ type, data }]);
+      }
     } catch (error) {
       console.error('Failed to send metrics:', error);
       // Don't throw - we don't want to interrupt agent operations
     }
   }
 
+  private isPaused(): boolean {
+    return Date.now() < this.pausedUntil;
+  }
+
+  /**
+   * On 429 (rate limited) or 503 (collector queue full), stop sending until
+   * Retry-After has passed and then flush what was held back. Returns
+   * whether the request was refused.
+   */
+  private backOff(response: Response): boolean {
+    if (response.status !== 429 && response.status !== 503) return false;
+
+    const retryAfter = response.headers.get('Retry-After');
+    const seconds = retryAfter !== null ? Number(retryAfter) : NaN;
+    const delay = !isNaN(seconds)
+      ? seconds * 1000
+      : retryAfter !== null && !isNaN(Date.parse(retryAfter))
+        ? Date.parse(retryAfter) - Date.now()
+        : DEFAULT_RETRY_AFTER_MS;
+
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + Math.max(0, delay));
+
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, Math.max(0, this.pausedUntil - Date.now()));
+
+    return true;
+  }
+
+  private bufferRecords(records: Array<{ type: string; data: any }>, atFront: boolean = false): void {
+    this.buffer = atFront ? [...records, ...this.buffer] : [...this.buffer, ...records];
+    if (this.buffer.length > MAX_PENDING_RECORDS) {
+      const dropped = this.buffer.length - MAX_PENDING_RECORDS;
+      this.buffer.splice(0, dropped);
+      console.warn(`Dropped ${dropped} metrics while the collector is throttling`);
+    }
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
   private getEndpoint(type: string): string {
     const endpoints: Record<string, string> = {
       'agent_metrics': `${this.collectorUrl}/api/v1/metrics/agent`,
       'context7_query': `${this.collectorUrl}/api/v1/metrics/context7`,
-      'tool_usage': `${this.collectorUrl}/api/v1/metrics/tool`
+      'tool_usage': `${this.collectorUrl}/api/v1/metrics/tool`,
+      'heartbeat': `${this.collectorUrl}/api/v1/agents/heartbeat`,
+      'agent_task': `${this.collectorUrl}/api/v1/agents/tasks`,
+      'agent_handoff': `${this.collectorUrl}/api/v1/agents/handoffs`,
+      'span': `${this.collectorUrl}/api/v1/traces/spans`
     };
 
     return endpoints[type] || `${this.collectorUrl}/api/v1/metrics/${type}`;
@@ -145,7 +449,8 @@ export class AgentTracker {
 }
 
 /**
- * Decorator to automatically track agent method execution
+ * Decorator to automatically track agent method execution. The method runs
+ * inside its task, so decorated methods it calls are traced as child tasks.
  */
 export function TrackAgentTask(taskType: string) {
   return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
@@ -153,14 +458,15 @@ export function TrackAgentTask(taskType: string) {
 
     descriptor.value = async function (...args: any[]) {
       const tracker = (this as any).tracker as AgentTracker;
-      tracker?.startTask(taskType);
+      const taskId = tracker?.startTask(taskType, { method: propertyKey });
+      const run = () => originalMethod.apply(this, args);
 
       try {
-        const result = await originalMethod.apply(this, args);
-        tracker?.endTask(taskType, 'completed');
+        const result = await (taskId ? tracker.runInTask(taskId, run) : run());
+        if (taskId) tracker.endTask(taskId, 'completed');
         return result;
       } catch (error) {
-        tracker?.endTask(taskType, 'failed', (error as Error).message);
+        if (taskId) tracker.endTask(taskId, 'failed', (error as Error).message);
         throw error;
       }
     };
@@ -206,14 +512,15 @@ export function withTracking<T extends { new (...args: any[]): {} }>(
   agentClass: T,
   agentType: AgentType,
   agentId: string,
-  collectorUrl?: string
+  collectorUrl?: string,
+  apiKey?: string
 ) {
   return class extends agentClass {
     tracker: AgentTracker;
 
     constructor(...args: any[]) {
       super(...args);
-      this.tracker = new AgentTracker(agentType, agentId, collectorUrl);
+      this.tracker = new AgentTracker(agentType, agentId, collectorUrl, apiKey);
     }
   };
 }
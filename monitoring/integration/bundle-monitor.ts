@@ -14,9 +14,14 @@ export class BundleSizeMonitor {
   private metrics: Map<string, BundleMetric[]> = new Map();
   private baselines: Map<string, number> = new Map();
   private collectorUrl: string;
+  private apiKey?: string;
 
-  constructor(collectorUrl: string = 'http://localhost:3000') {
+  /**
+   * apiKey is a browser scoped ingest key
+   */
+  constructor(collectorUrl: string = 'http://localhost:3000', apiKey?: string) {
     this.collectorUrl = collectorUrl;
+    this.apiKey = apiKey;
     this.loadBaselines();
   }
 
@@ -128,7 +133,8 @@ export class BundleSizeMonitor {
       await fetch(`${this.collectorUrl}/api/v1/metrics/bundle-size`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
         },
         body: JSON.stringify(metric)
       });
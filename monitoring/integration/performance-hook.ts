@@ -15,11 +15,17 @@ export interface PerformanceMetric {
 export class PerformanceCollector {
   private sessionId: string;
   private collectorUrl: string;
+  private apiKey?: string;
   private metrics: Map<string, PerformanceMetric> = new Map();
 
-  constructor(sessionId: string, collectorUrl: string = 'http://localhost:3000') {
+  /**
+   * apiKey is a browser scoped ingest key. It ships to every visitor, which
+   * is why browser keys can only write page metrics.
+   */
+  constructor(sessionId: string, collectorUrl: string = 'http://localhost:3000', apiKey?: string) {
     this.sessionId = sessionId;
     this.collectorUrl = collectorUrl;
+    this.apiKey = apiKey;
 
     // Initialize session ID
     if (typeof window !== 'undefined') {
@@ -128,7 +134,8 @@ export class PerformanceCollector {
       await fetch(url, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
         },
         body: JSON.stringify({
           timestamp: new Date().toISOString(),
@@ -215,10 +222,11 @@ export class PerformanceCollector {
 /**
  * React Hook for performance monitoring
  */
-export function usePerformanceMonitoring(sessionId?: string, collectorUrl?: string) {
+export function usePerformanceMonitoring(sessionId?: string, collectorUrl?: string, apiKey?: string) {
   const collector = new PerformanceCollector(
     sessionId || '',
-    collectorUrl || 'http://localhost:3000'
+    collectorUrl || 'http://localhost:3000',
+    apiKey
   );
 
   return {
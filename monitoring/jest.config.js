@@ -0,0 +1,18 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/collector', '<rootDir>/alerting', '<rootDir>/database'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    // TS6137: the @types/* path alias looks like a declaration package to tsc
+    '^.+\\.ts$': ['ts-jest', { diagnostics: { ignoreCodes: [6137] } }]
+  },
+  // Mirrors the paths in tsconfig.json
+  moduleNameMapper: {
+    '^@types/(.*)$': '<rootDir>/types/$1',
+    '^@collector/(.*)$': '<rootDir>/collector/src/$1',
+    '^@alerting/(.*)$': '<rootDir>/alerting/src/$1',
+    '^@integration/(.*)$': '<rootDir>/integration/$1',
+    '^@database/(.*)$': '<rootDir>/database/$1'
+  }
+};
@@ -176,12 +176,17 @@ export interface Alert {
   timestamp: Date;
   agentType?: AgentType;
   metricType: MetricType;
+  ruleId?: string;
+  fingerprint?: string; // identifies the (rule, agent/url) series the alert fired for
   currentValue: number;
   threshold: number;
   metadata?: Record<string, any>;
   acknowledged: boolean;
+  acknowledgedBy?: string;
+  acknowledgedAt?: Date;
   resolved: boolean;
   resolvedAt?: Date;
+  resolvedBy?: string; // 'auto' when resolved by the metric recovering
 }
 
 /**
@@ -193,12 +198,182 @@ export interface AlertRule {
   enabled: boolean;
   metricType: MetricType;
   agentType?: AgentType;
-  condition: 'greater_than' | 'less_than' | 'equals' | 'not_equals';
+  condition: 'greater_than' | 'less_than' | 'equals' | 'not_equals' | 'expression';
+  expression?: string; // evaluated when condition is 'expression', e.g. avg_over_time(agent_error_rate[5m]) > 5
   threshold: number;
-  duration: number; // seconds
+  duration: number; // seconds the condition must hold before firing
+  repeatInterval?: number; // seconds between re-notifications while firing
   severity: AlertSeverity;
   notificationChannels: string[];
   metadata?: Record<string, any>;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Notification Channel
+ * A persisted destination for alert notifications
+ */
+export type NotificationChannelType = 'email' | 'slack' | 'webhook' | 'teams' | 'pagerduty';
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: NotificationChannelType;
+  enabled: boolean;
+  config: Record<string, any>; // type specific, e.g. { url, secret } for webhooks
+  severities?: AlertSeverity[]; // only notify for these severities, all when empty
+  sendResolved?: boolean; // also notify when an alert resolves
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Notification Routing
+ * Alertmanager-style routing tree over alert labels
+ * (severity, alertType, metricType, agentType, agentId, ruleId, component)
+ */
+export type LabelMatchers = Record<string, string | string[]>;
+
+export interface NotificationRoute {
+  matchers?: LabelMatchers;
+  channels?: string[]; // defaults to the channels of the alert's rule
+  groupBy?: string[];
+  groupWait?: number; // seconds to wait before the first notification of a group
+  groupInterval?: number; // seconds between notifications of the same group
+  continue?: boolean; // keep matching sibling routes after this one
+  routes?: NotificationRoute[];
+}
+
+export interface InhibitRule {
+  sourceMatchers: LabelMatchers;
+  targetMatchers: LabelMatchers;
+  equal?: string[];
+}
+
+export interface NotificationRoutingConfig {
+  route: NotificationRoute;
+  inhibitRules?: InhibitRule[];
+}
+
+/**
+ * Silence
+ * Mutes notifications for alerts matching all matchers between startsAt and endsAt
+ */
+export interface Silence {
+  id: string;
+  matchers: LabelMatchers;
+  startsAt: Date;
+  endsAt: Date;
+  createdBy: string;
+  comment: string;
+  createdAt?: Date;
+}
+
+/**
+ * Maintenance Window
+ * A weekly recurring silence, e.g. every Tuesday 22:00 UTC for 120 minutes
+ */
+export interface MaintenanceWindow {
+  id: string;
+  name: string;
+  enabled: boolean;
+  matchers: LabelMatchers; // empty matches every alert
+  daysOfWeek: number[]; // 0 = Sunday
+  startTime: string; // HH:MM, UTC
+  durationMinutes: number;
+  createdBy: string;
+  comment?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Pending Alert
+ * A rule whose condition holds but has not yet held for the rule's duration
+ */
+export interface PendingAlert {
+  ruleId: string;
+  ruleName: string;
+  fingerprint: string;
+  severity: AlertSeverity;
+  metricType: MetricType;
+  agentType?: AgentType;
+  agentId?: string;
+  url?: string;
+  activeSince: Date;
+  firesAt: Date;
+  lastSampleAt: Date; // latest sample the condition held for
+  currentValue: number;
+  threshold: number;
+}
+
+/**
+ * Alert Analytics
+ * Aggregates over the alert history for a time range
+ */
+export type AlertAnalyticsGroupBy = 'rule' | 'severity' | 'agent';
+
+export interface AlertCountBucket {
+  bucket: Date;
+  key: string;
+  count: number;
+}
+
+export interface AlertResponseStats {
+  total: number;
+  acknowledged: number;
+  resolved: number;
+  mttaSeconds: number | null; // mean time to acknowledge
+  mttrSeconds: number | null; // mean time to resolve
+}
+
+export interface AlertAnalyticsSummary extends AlertResponseStats {
+  startTime: Date;
+  endTime: Date;
+  bySeverity: Record<string, number>;
+  byRule: Array<{ ruleId: string | null; ruleName: string; count: number }>;
+  byAgent: Array<{ agentType: string | null; count: number }>;
+}
+
+export interface FlappingSeries {
+  fingerprint: string;
+  ruleId: string | null;
+  title: string;
+  cycles: number; // fire -> resolve cycles in the range
+  cyclesPerHour: number;
+}
+
+export interface AlertRuleNoise extends AlertResponseStats {
+  ruleId: string;
+  ruleName: string;
+  autoResolved: number;
+  flappingSeries: number;
+  noiseScore: number;
+}
+
+/**
+ * Agent Heartbeat
+ * Last time an agent reported and how often it is expected to
+ */
+export interface AgentHeartbeat {
+  agentId: string;
+  agentType: AgentType;
+  status: AgentStatus;
+  lastSeen: Date;
+  expectedIntervalSeconds: number;
+}
+
+/**
+ * Agent Status Change
+ * Broadcast as `agent_status_changed` when an agent goes offline or comes back
+ */
+export interface AgentStatusChange {
+  agentId: string;
+  agentType: AgentType;
+  previousStatus: AgentStatus | null;
+  status: AgentStatus;
+  lastSeen: Date;
 }
 
 /**
@@ -222,6 +397,18 @@ export interface SystemHealth {
       status: 'healthy' | 'degraded' | 'unhealthy';
       uptime: number;
       metricsReceived: number;
+      payloadsRejected: number; // ingestion requests and batch items that failed validation since startup
+      ingestion: {
+        depth: number; // records waiting to be written
+        capacity: number;
+        writers: number;
+        enqueued: number;
+        written: number;
+        dropped: number; // refused with 503 because the queue was full
+        writeFailures: number; // lost to failed database writes
+        rateLimited: number; // refused with 429
+        unauthorized: number; // refused with 403 because the API key may not ingest them
+      };
     };
     dashboard: {
       status: 'healthy' | 'degraded' | 'unhealthy';
@@ -239,23 +426,76 @@ export interface SystemHealth {
 
 /**
  * Historical Data Aggregation
+ * Statistics of a catalogued metric per period, with a bucket for every
+ * period in the range. Buckets without samples have a count of 0 and null
+ * statistics. summary covers the whole range.
  */
+export type AggregationPeriod = '1m' | '5m' | '15m' | '1h' | '6h' | '24h' | '7d' | '30d';
+
+export interface AggregatedStatistics<T> {
+  min: T;
+  max: T;
+  avg: T;
+  p50: T;
+  p95: T;
+  p99: T;
+}
+
 export interface AggregatedMetrics {
-  period: '1m' | '5m' | '15m' | '1h' | '6h' | '24h' | '7d' | '30d';
-  metricType: MetricType;
-  agentType?: AgentType;
-  startTime: Date;
+  period: AggregationPeriod;
+  metric: string;
+  labels: Record<string, string>;
+  startTime: Date; // aligned down to a whole period
   endTime: Date;
-  data: {
+  data: AggregatedStatistics<Array<number | null>> & {
     timestamps: Date[];
-    values: number[];
-    min: number;
-    max: number;
-    avg: number;
-    p50: number;
-    p95: number;
-    p99: number;
+    count: number[];
   };
+  summary: AggregatedStatistics<number | null> & { count: number };
+  source: StorageTier; // percentiles are null when read from a rollup
+}
+
+/**
+ * Metric Series Query
+ * GET /api/v1/metrics returns a catalogued metric as one series per
+ * combination of groupBy labels, aggregated into fixed steps
+ */
+export type MetricQueryAggregation = 'avg' | 'min' | 'max' | 'sum' | 'count' | 'p50' | 'p95' | 'p99' | 'rate';
+
+export interface MetricSeriesPoint {
+  timestamp: Date; // start of the step
+  value: number;
+}
+
+export interface MetricSeries {
+  labels: Record<string, string>;
+  points: MetricSeriesPoint[];
+}
+
+export interface MetricQueryResult {
+  metric: string;
+  aggregation: MetricQueryAggregation;
+  step: number; // seconds
+  startTime: Date; // aligned down to a whole step
+  endTime: Date;
+  source: StorageTier; // the raw table or the rollup the series were read from
+  series: MetricSeries[];
+  nextCursor: string | null;
+}
+
+/**
+ * Retention and Rollup Tiers
+ * Metric tables are rolled up into 5 minute, hourly and daily continuous
+ * aggregates, and each table and rollup keeps its data for its own number
+ * of days
+ */
+export type RollupTier = '5m' | '1h' | '1d';
+export type StorageTier = 'raw' | RollupTier;
+
+export interface RetentionPolicy {
+  table: string;
+  retentionDays: Partial<Record<StorageTier, number | null>>; // one entry per tier the table has; null keeps data indefinitely
+  updatedAt?: Date;
 }
 
 /**
@@ -274,6 +514,121 @@ export interface AgentTask {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Agent Handoff
+ * Work passed from one agent to another. agentType / agentId are the
+ * sending agent.
+ */
+export interface AgentHandoff {
+  id: string;
+  agentType: AgentType;
+  agentId: string;
+  timestamp: Date;
+  toAgentType: AgentType;
+  toAgentId?: string;
+  duration?: number; // milliseconds
+  taskId?: string;
+  traceId?: string;
+}
+
+/**
+ * Distributed Tracing
+ * One trace follows a request through every agent that worked on it. Ids
+ * use the W3C Trace Context format: 32 hex characters for traces and 16
+ * for spans.
+ */
+export interface TraceContext {
+  traceId: string;
+  spanId: string;
+}
+
+export type TraceSpanKind = 'task' | 'handoff' | 'internal';
+
+export interface TraceSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: TraceSpanKind;
+  agentType: AgentType;
+  agentId: string;
+  startTime: Date;
+  endTime: Date;
+  duration: number; // milliseconds
+  status: 'ok' | 'error';
+  error?: string;
+  attributes?: Record<string, any>;
+}
+
+/**
+ * A span placed in its trace. offset is milliseconds from the start of the
+ * trace; criticalTime is how much of the trace's critical path the span
+ * itself accounts for, excluding its children.
+ */
+export interface TraceSpanNode extends TraceSpan {
+  offset: number;
+  criticalTime: number;
+  children: TraceSpanNode[];
+}
+
+/**
+ * Stretch of the critical path spent in one span, in time order
+ */
+export interface CriticalPathSegment {
+  spanId: string;
+  name: string;
+  agentType: AgentType;
+  agentId: string;
+  offset: number;
+  duration: number;
+}
+
+export interface TraceAgentSummary {
+  agentType: AgentType;
+  agentIds: string[];
+  spans: number;
+  busyTime: number; // summed span durations, overlapping spans counted twice
+  criticalTime: number;
+}
+
+export interface Trace {
+  traceId: string;
+  startTime: Date;
+  endTime: Date;
+  duration: number;
+  spanCount: number;
+  roots: TraceSpanNode[]; // more than one when parent spans are missing
+  criticalPath: CriticalPathSegment[];
+  agents: TraceAgentSummary[];
+}
+
+/**
+ * Task totals and duration percentiles per agent type and task type over a
+ * time range. Durations are in milliseconds and cover finished tasks only.
+ */
+export interface AgentTaskStats {
+  agentType: AgentType;
+  taskType: string;
+  total: number;
+  running: number;
+  completed: number;
+  failed: number;
+  successRate: number | null; // percentage of finished tasks
+  throughputPerHour: number; // finished tasks per hour
+  avgDuration: number | null;
+  p50Duration: number | null;
+  p90Duration: number | null;
+  p99Duration: number | null;
+}
+
+export interface AgentTaskFailureReason {
+  agentType: AgentType;
+  taskType: string;
+  error: string;
+  count: number;
+  lastSeen: Date;
+}
+
 /**
  * Context7 Query Tracking
  */
@@ -290,6 +645,151 @@ export interface Context7Query {
   tokensReturned: number;
 }
 
+/**
+ * Tool Usage Event
+ * A single tool invocation by an agent
+ */
+export interface ToolUsageEvent {
+  agentType: AgentType;
+  agentId: string;
+  timestamp: Date;
+  toolName: string;
+  executionTime?: number; // milliseconds
+  success: boolean;
+  count: number;
+}
+
+/**
+ * Tool usage totals per tool over a time range
+ */
+export interface ToolUsageStats {
+  toolName: string;
+  invocations: number;
+  successCount: number;
+  failureCount: number;
+  avgExecutionTime: number | null; // milliseconds
+}
+
+/**
+ * Context7 query totals per library over a time range
+ */
+export interface Context7LibraryStats {
+  library: string;
+  queries: number;
+  successRate: number; // percentage
+  avgResponseTime: number;
+  p95ResponseTime: number;
+  tokensReturned: number;
+}
+
+/**
+ * Bundle Size
+ * Size of a named build artifact, reported by the bundle monitor
+ */
+export interface BundleSizeMetric {
+  name: string;
+  size: number; // bytes
+  gzippedSize: number; // bytes
+  timestamp: Date;
+}
+
+/**
+ * Batch Ingestion
+ * POST /api/v1/metrics/batch accepts a list of typed records
+ */
+export type BatchItemType =
+  | 'agent_metrics'
+  | 'app_metrics'
+  | 'core_web_vitals'
+  | 'context7_query'
+  | 'tool_usage'
+  | 'bundle_size'
+  | 'agent_task'
+  | 'agent_handoff'
+  | 'span';
+
+export interface BatchItemResult {
+  index: number;
+  type?: BatchItemType;
+  status: 'accepted' | 'rejected';
+  errors?: Array<{ path: string; message: string }>;
+}
+
+export interface BatchIngestionResult {
+  accepted: number;
+  rejected: number;
+  results: BatchItemResult[];
+}
+
+/**
+ * API Keys
+ * ingest keys write metrics, read keys query them, admin keys do both and
+ * manage keys and alerting configuration. Ingest keys are scoped to agent
+ * reports (optionally limited to some agent types) or to browser metrics.
+ */
+export type ApiKeyRole = 'ingest' | 'read' | 'admin';
+
+export type ApiKeyScope = 'agent' | 'browser';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  role: ApiKeyRole;
+  scope?: ApiKeyScope; // ingest keys only
+  agentTypes?: AgentType[]; // agent scope only; empty means every agent type
+  keyPrefix: string; // first characters of the key, for telling keys apart
+  createdAt: Date;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * WebSocket Protocol
+ * Clients subscribe to topics such as `agent_metrics:security`; every server
+ * message carries the protocol version
+ */
+export type WebSocketTopicName =
+  | 'agent_metrics'
+  | 'agent_status'
+  | 'agent_tasks'
+  | 'agent_handoffs'
+  | 'tool_usage'
+  | 'context7'
+  | 'app_metrics'
+  | 'cwv'
+  | 'bundle_size'
+  | 'alerts';
+
+export type WebSocketMessageType =
+  | 'agent_metrics'
+  | 'agent_status_changed'
+  | 'agent_task'
+  | 'agent_handoff'
+  | 'tool_usage'
+  | 'context7_query'
+  | 'app_metrics'
+  | 'core_web_vitals'
+  | 'bundle_size'
+  | 'alert'
+  | 'alert_acknowledged'
+  | 'alert_resolved'
+  | 'initial_data'
+  | 'subscribed'
+  | 'unsubscribed'
+  | 'error';
+
+export interface WebSocketMessage<T = any> {
+  version: number;
+  type: WebSocketMessageType;
+  data: T;
+}
+
+export interface WebSocketClientMessage {
+  action: 'subscribe' | 'unsubscribe';
+  topics: string[];
+}
+
 /**
  * Dashboard Configuration
  */